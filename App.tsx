@@ -1,30 +1,62 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Sidebar } from './components/Sidebar.tsx';
 import { MapEditor } from './components/MapEditor.tsx';
-import { Area, Marker, Path, Point, PolygonArea, Tool } from './types.ts';
-
-const pointsToPathD = (points: Point[]): string => {
-  if (points.length < 2) return points.length === 1 ? `M ${points[0].x} ${points[0].y}` : '';
-  let d = `M ${points[0].x} ${points[0].y}`;
-  for (let i = 0; i < points.length - 1; i++) {
-    const p1 = points[i];
-    const p2 = points[i + 1];
-    const midPoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
-    d += ` Q ${p1.x} ${p1.y}, ${midPoint.x} ${midPoint.y}`;
-  }
-  d += ` L ${points[points.length - 1].x} ${points[points.length - 1].y}`;
-  return d;
-};
-
-const escapeXml = (value: string) => (
-  value
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;')
-);
+import { ImportReportDialog } from './components/ImportReportDialog.tsx';
+import { PdfExportDialog } from './components/PdfExportDialog.tsx';
+import { ExportAreaChoice, ImageExportDialog } from './components/ImageExportDialog.tsx';
+import { TemplatesDialog } from './components/TemplatesDialog.tsx';
+import { LuaExportDialog } from './components/LuaExportDialog.tsx';
+import { SheetExportDialog } from './components/SheetExportDialog.tsx';
+import { SheetImportDialog } from './components/SheetImportDialog.tsx';
+import { Area, Calibration, ElementRef, ElementType, Georeference, GridSettings, ImageRef, Layer, MapSymbol, Marker, ObstacleMask, Path, PlanData, PlanOverlays, Point, PolygonArea, Tool } from './types.ts';
+import { ImageSize, areaBoundsFromCircle, circleFromBounds, clamp, distance } from './services/geometry.ts';
+import { ImportReport, PlanImportError, formatIssues, importPlan, serializePlan } from './services/planSchema.ts';
+import { blobToDataUrl, getImage, hasImage, putImage } from './services/imageStore.ts';
+import { createPlanBundle, isBundleFile, readPlanBundle } from './services/planBundle.ts';
+import { createLayer } from './services/layers.ts';
+import { buildExportModel } from './services/exportModel.ts';
+import { listExporters, templateExporter } from './services/exporters.ts';
+import { ExportTemplate, deleteTemplate, listTemplates, saveTemplate } from './services/exportTemplates.ts';
+import { TemplateError } from './services/templates.ts';
+import { LuaExportOptions, saveLuaOptions } from './services/luaExport.ts';
+import { readLuaElements } from './services/luaImport.ts';
+import { coordinatesFor, readGeoJsonElements } from './services/geojson.ts';
+import { ImportContext, ImportFileError, ImportedElements, countMerge, mergeImported } from './services/importMerge.ts';
+import { SHEET_KINDS, SheetDiff, SheetFormat, SheetKind, applySheetDiff, buildSheet, readSheet } from './services/spreadsheet.ts';
+import { calibrationFromPoints, toWorldLength } from './services/units.ts';
+import { createControlPoint, createGeoreference, fitGeoreference, parseWorldPoint } from './services/georeference.ts';
+import { RouteOptions, optimizeRoute } from './services/routeOptimizer.ts';
+import { ObstacleGrid, buildMaskCells, buildObstacleGrid, findRoute, gridDimensions } from './services/pathfinding.ts';
+import { AlignMode, Bounds, DistributeAxis, alignOffsets, distributeOffsets, elementBounds, elementKey, findElement, isSameElement, translateElements } from './services/selection.ts';
+import { SelectionUpdate } from './components/SelectionPanel.tsx';
+import { ClipboardPayload, copyElements, instantiateElements, parseClipboard } from './services/clipboard.ts';
+import {
+  PlanSummary,
+  createPlanRecord,
+  THUMBNAIL_WIDTH,
+  createThumbnail,
+  deletePlan,
+  duplicatePlan,
+  getPlanHistory,
+  getPlanRecord,
+  listPlans,
+  renamePlan,
+  savePlanContent,
+  savePlanHistory,
+} from './services/planLibrary.ts';
+import { PlanHistory, diffPlans, emptyHistory, recordChange, travelHistory } from './services/history.ts';
+import { DEFAULT_GRID } from './services/snapping.ts';
+import { DEFAULT_CLUSTER_ZOOM } from './services/clustering.ts';
+import { readIconFile } from './services/symbols.ts';
+import { DEFAULT_OVERLAYS } from './services/overlays.ts';
+import { TileSet, drawTileOverview, drawTileRegion, getTileSet, needsTiles } from './services/tiles.ts';
+import { buildTiles } from './services/tileBuilder.ts';
+import { DrawMap, IMAGE_FORMATS, ImageExportOptions, renderPlanImage } from './services/rasterExport.ts';
+import { buildPlanSvg } from './services/svgExport.ts';
+import { loadEmbeddedFont } from './services/exportFonts.ts';
+import { PdfOptions, renderPlanPdf } from './services/pdfExport.ts';
+import { DEFAULT_VIEW, ViewState, ZOOM_STEP, fitBounds, fitImage, forgetView, loadView, saveView, visibleBounds, zoomAt } from './services/viewport.ts';
 
 const loadImage = (src: string): Promise<HTMLImageElement> => (
   new Promise((resolve, reject) => {
@@ -35,193 +67,235 @@ const loadImage = (src: string): Promise<HTMLImageElement> => (
   })
 );
 
-const distance = (a: Point, b: Point) => {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  return Math.sqrt(dx * dx + dy * dy);
-};
-
-const polygonCentroid = (points: Point[]): Point => {
-  if (!points.length) return { x: 0, y: 0 };
-  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
-  return { x: sum.x / points.length, y: sum.y / points.length };
-};
-
-type ImageSize = { width: number; height: number };
-
-const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
-
-const areaBoundsFromCircle = (center: Point, radius: number, imageSize?: ImageSize): { topLeft: Point; bottomRight: Point } => {
-  const r = Math.max(1, radius);
-  let topLeft: Point = { x: center.x - r, y: center.y - r };
-  let bottomRight: Point = { x: center.x + r, y: center.y + r };
-
-  if (imageSize) {
-    topLeft = {
-      x: clamp(topLeft.x, 0, imageSize.width),
-      y: clamp(topLeft.y, 0, imageSize.height),
-    };
-    bottomRight = {
-      x: clamp(bottomRight.x, 0, imageSize.width),
-      y: clamp(bottomRight.y, 0, imageSize.height),
-    };
-  }
-
-  return { topLeft, bottomRight };
-};
+// Falls back to a straight line when there is no grid or no way through.
+const routeBetween = (grid: ObstacleGrid | null, start: Point, end: Point): Point[] => (
+  (grid && findRoute(grid, start, end)) || [start, end]
+);
 
-const circleFromBounds = (topLeft: Point, bottomRight: Point) => {
-  const left = Math.min(topLeft.x, bottomRight.x);
-  const right = Math.max(topLeft.x, bottomRight.x);
-  const top = Math.min(topLeft.y, bottomRight.y);
-  const bottom = Math.max(topLeft.y, bottomRight.y);
-
-  const center = { x: (left + right) / 2, y: (top + bottom) / 2 };
-  const halfW = (right - left) / 2;
-  const halfH = (bottom - top) / 2;
-  const radius = Math.max(1, Math.max(halfW, halfH));
-  return { center, radius };
+const obstaclePolygons = (polygonAreas: PolygonArea[]) => polygonAreas.filter(a => a.obstacle).map(a => a.points);
+
+const createLinkedPath = (from: Marker, to: Marker, grid: ObstacleGrid | null, suffix: number = Date.now()): Path => ({
+  id: `path-${from.id}-${to.id}-${suffix}`,
+  points: routeBetween(grid, from.position, to.position),
+  linkedMarkers: { startId: from.id, endId: to.id },
+  color: from.color, // Inherit color from starting marker by default
+  layerId: from.layerId,
+  routed: true,
+});
+
+// Recomputes routed links, or only the ones touching `markerIds` when given.
+const rerouteLinkedPaths = (paths: Path[], markers: Marker[], grid: ObstacleGrid | null, markerIds?: Set<string>) => {
+  const byId = new Map<string, Marker>(markers.map(m => [m.id, m]));
+  return paths.map(p => {
+    if (!p.routed || !p.linkedMarkers) return p;
+    const { startId, endId } = p.linkedMarkers;
+    if (markerIds && !markerIds.has(startId) && !markerIds.has(endId)) return p;
+    const from = byId.get(startId);
+    const to = byId.get(endId);
+    return from && to ? { ...p, points: routeBetween(grid, from.position, to.position) } : p;
+  });
 };
 
-const normalizeAreas = (raw: unknown): Area[] => {
-  if (!Array.isArray(raw)) return [];
-  const areas: Area[] = [];
-
-  for (const item of raw) {
-    const anyItem = item as any;
-    const id = typeof anyItem?.id === 'string' ? anyItem.id : `area-${Date.now()}-${Math.random().toString(16).slice(2)}`;
-    const name = typeof anyItem?.name === 'string' ? anyItem.name : 'Area';
-    const number = typeof anyItem?.number === 'string' ? anyItem.number : undefined;
-
-    // New format (circle)
-    if (
-      anyItem?.center &&
-      typeof anyItem.center.x === 'number' &&
-      typeof anyItem.center.y === 'number' &&
-      typeof anyItem.radius === 'number'
-    ) {
-      const r = Number.isFinite(anyItem.radius) ? Math.max(1, anyItem.radius) : 1;
-      const center = { x: anyItem.center.x, y: anyItem.center.y };
-      const { topLeft, bottomRight } = areaBoundsFromCircle(center, r);
-      areas.push({ id, name, number, center, radius: r, topLeft, bottomRight });
-      continue;
-    }
-
-    // Bounds format
-    if (
-      anyItem?.topLeft &&
-      typeof anyItem.topLeft.x === 'number' &&
-      typeof anyItem.topLeft.y === 'number' &&
-      anyItem?.bottomRight &&
-      typeof anyItem.bottomRight.x === 'number' &&
-      typeof anyItem.bottomRight.y === 'number'
-    ) {
-      const topLeft: Point = { x: anyItem.topLeft.x, y: anyItem.topLeft.y };
-      const bottomRight: Point = { x: anyItem.bottomRight.x, y: anyItem.bottomRight.y };
-      const { center, radius } = circleFromBounds(topLeft, bottomRight);
-      const bounds = areaBoundsFromCircle(center, radius);
-      areas.push({ id, name, number, center, radius, topLeft: bounds.topLeft, bottomRight: bounds.bottomRight });
-      continue;
-    }
-
-    // Legacy format (polygon points) -> convert to circle (centroid + max distance)
-    if (Array.isArray(anyItem?.points) && anyItem.points.length) {
-      const points: Point[] = anyItem.points
-        .filter((p: any) => p && typeof p.x === 'number' && typeof p.y === 'number')
-        .map((p: any) => ({ x: p.x, y: p.y }));
-
-      if (!points.length) continue;
-
-      const center = {
-        x: points.reduce((acc, p) => acc + p.x, 0) / points.length,
-        y: points.reduce((acc, p) => acc + p.y, 0) / points.length,
-      };
-      const radius = Math.max(1, Math.max(...points.map(p => distance(center, p))));
-      const bounds = areaBoundsFromCircle(center, radius);
-      areas.push({ id, name, number, center, radius, topLeft: bounds.topLeft, bottomRight: bounds.bottomRight });
-      continue;
-    }
-  }
-
-  return areas;
+// Brings linked paths in line with markers edited in bulk: links and markers
+// that are gone lose their paths, new links get one, and moved markers take
+// their path ends along.
+const syncLinkedPaths = (before: Marker[], after: Marker[], paths: Path[], grid: ObstacleGrid | null): Path[] => {
+  const byId = new Map<string, Marker>(after.map(m => [m.id, m]));
+  const oldById = new Map<string, Marker>(before.map(m => [m.id, m]));
+  const linkKey = (startId: string, endId: string) => `${startId}\n${endId}`;
+  const links = (list: Marker[]) => new Set<string>(list.flatMap(m => (m.linkedMarkerIds ?? []).map(id => linkKey(m.id, id))));
+  const oldLinks = links(before);
+  const newLinks = links(after);
+
+  const kept = paths.filter(p => {
+    if (!p.linkedMarkers) return true;
+    const { startId, endId } = p.linkedMarkers;
+    const key = linkKey(startId, endId);
+    return byId.has(startId) && byId.has(endId) && !(oldLinks.has(key) && !newLinks.has(key));
+  });
+  const drawn = new Set<string>(kept.flatMap(p => (p.linkedMarkers ? [linkKey(p.linkedMarkers.startId, p.linkedMarkers.endId)] : [])));
+  const suffix = Date.now();
+  const added = after.flatMap(m => (m.linkedMarkerIds ?? [])
+    .filter(id => !oldLinks.has(linkKey(m.id, id)) && !drawn.has(linkKey(m.id, id)) && byId.has(id))
+    .map(id => createLinkedPath(m, byId.get(id)!, grid, suffix)));
+
+  const moved = new Set<string>(after.filter(m => {
+    const old = oldById.get(m.id);
+    return old && (old.position.x !== m.position.x || old.position.y !== m.position.y);
+  }).map(m => m.id));
+  // Hand-drawn links keep their bends; only the ends follow the markers
+  const withEnds = kept.map(p => {
+    if (!p.linkedMarkers || p.routed) return p;
+    const { startId, endId } = p.linkedMarkers;
+    if (!moved.has(startId) && !moved.has(endId)) return p;
+    return { ...p, points: [byId.get(startId)!.position, ...p.points.slice(1, -1), byId.get(endId)!.position] };
+  });
+  return [...rerouteLinkedPaths(withEnds, after, grid, moved), ...added];
 };
 
-const normalizePolygonAreas = (raw: unknown): PolygonArea[] => {
-  if (!Array.isArray(raw)) return [];
-  const areas: PolygonArea[] = [];
-
-  for (const item of raw) {
-    const anyItem = item as any;
-    const id = typeof anyItem?.id === 'string' ? anyItem.id : `poly-area-${Date.now()}-${Math.random().toString(16).slice(2)}`;
-    const name = typeof anyItem?.name === 'string' ? anyItem.name : 'Polygon Area';
-    const number = typeof anyItem?.number === 'string' ? anyItem.number : undefined;
+const CURRENT_PLAN_KEY = 'mapPlannerCurrentPlan';
+// Pasted and duplicated elements land this far from the originals, stacking up on repeats
+const PASTE_OFFSET = 20;
+const LEGACY_STATE_KEY = 'mapPlannerState';
 
-    if (Array.isArray(anyItem?.points) && anyItem.points.length) {
-      const points: Point[] = anyItem.points
-        .filter((p: any) => p && typeof p.x === 'number' && typeof p.y === 'number')
-        .map((p: any) => ({ x: p.x, y: p.y }));
-
-      if (!points.length) continue;
-      areas.push({ id, name, number, points });
-    }
-  }
-
-  return areas;
-};
+const EMPTY_PLAN: PlanData = { image: null, calibration: null, georeference: null, obstacleMask: null, grid: DEFAULT_GRID, overlays: DEFAULT_OVERLAYS, symbols: [], layers: [], markers: [], paths: [], areas: [], polygonAreas: [] };
 
 const App: React.FC = () => {
+  const [imageRef, setImageRef] = useState<ImageRef | null>(null);
   const [image, setImage] = useState<string | null>(null);
   const [markers, setMarkers] = useState<Marker[]>([]);
   const [paths, setPaths] = useState<Path[]>([]);
   const [areas, setAreas] = useState<Area[]>([]);
   const [polygonAreas, setPolygonAreas] = useState<PolygonArea[]>([]);
+  const [calibration, setCalibration] = useState<Calibration | null>(null);
+  const [calibrationPoints, setCalibrationPoints] = useState<Point[]>([]);
+  const [georeference, setGeoreference] = useState<Georeference | null>(null);
+  const [obstacleMask, setObstacleMask] = useState<ObstacleMask | null>(null);
+  const [maskCells, setMaskCells] = useState<Uint8Array | null>(null);
+  const [gridSettings, setGridSettings] = useState<GridSettings>(DEFAULT_GRID);
+  const [overlays, setOverlays] = useState<PlanOverlays>(DEFAULT_OVERLAYS);
+  const [symbols, setSymbols] = useState<MapSymbol[]>([]);
+  const [layers, setLayers] = useState<Layer[]>([]);
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
+  const [exportLayerFilters, setExportLayerFilters] = useState<Record<string, boolean>>({});
   const [activeTool, setActiveTool] = useState<Tool>('select');
-  const [selectedElement, setSelectedElement] = useState<{ type: 'marker' | 'path' | 'area' | 'polygonArea'; id: string } | null>(null);
+  // Several elements can be selected; the edit panels work on a single one
+  const [selection, setSelection] = useState<ElementRef[]>([]);
+  const selectedElement = selection.length === 1 ? selection[0] : null;
+  const setSelectedElement = (element: ElementRef | null) => setSelection(element ? [element] : []);
   const [linkingState, setLinkingState] = useState<{ fromMarkerId: string } | null>(null);
   const [drawingPathId, setDrawingPathId] = useState<string | null>(null);
   const [drawingArea, setDrawingArea] = useState<{ id: string; center: Point } | null>(null);
   const [drawingPolygonAreaId, setDrawingPolygonAreaId] = useState<string | null>(null);
-  const [zoom, setZoom] = useState(1);
+  const [view, setView] = useState<ViewState>(DEFAULT_VIEW);
+  const [viewportSize, setViewportSize] = useState<ImageSize | null>(null);
+  // Set when a plan was opened; its saved view (or a fit) is applied once the image size is known
+  const restoreViewRef = useRef(false);
   const [markerSize, setMarkerSize] = useState(1);
   const [labelSize, setLabelSize] = useState(1);
   const [showMarkerLabels, setShowMarkerLabels] = useState(true);
   const [showAreaLabels, setShowAreaLabels] = useState(true);
+  const [clusterZoom, setClusterZoom] = useState(DEFAULT_CLUSTER_ZOOM);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [colorFilters, setColorFilters] = useState<Record<string, boolean>>({});
   const [areaFilters, setAreaFilters] = useState<Record<string, boolean>>({});
   const [numberFilters, setNumberFilters] = useState<Record<string, boolean>>({});
   const [drawAreaFilters, setDrawAreaFilters] = useState<Record<string, boolean>>({});
   const [imageSize, setImageSize] = useState<ImageSize | null>(null);
-  const [history, setHistory] = useState<{ image: string | null; markers: Marker[]; paths: Path[]; areas: Area[]; polygonAreas: PolygonArea[] }[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  const historyIndexRef = useRef(-1);
-  const isUndoingRef = useRef(false);
-  const pendingSnapshotRef = useRef<{ image: string | null; markers: Marker[]; paths: Path[]; areas: Area[]; polygonAreas: PolygonArea[] } | null>(null);
+  const [tileSet, setTileSet] = useState<TileSet | null>(null);
+  // Small copy of the map for thumbnails and the obstacle mask
+  const [mapOverview, setMapOverview] = useState<CanvasImageSource | null>(null);
+  // Progress (0..1) of cutting the map into tiles and of a PNG export, while they run
+  const [tileProgress, setTileProgress] = useState<number | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [pdfDialogOpen, setPdfDialogOpen] = useState(false);
+  const [imageDialogOpen, setImageDialogOpen] = useState(false);
+  const [templates, setTemplates] = useState<ExportTemplate[]>([]);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
+  const [luaDialogOpen, setLuaDialogOpen] = useState(false);
+  const [sheetDialogOpen, setSheetDialogOpen] = useState(false);
+  // Sheet read by Import, waiting for its diff to be confirmed
+  const [sheetImport, setSheetImport] = useState<{ fileName: string; diff: SheetDiff } | null>(null);
+  const [history, setHistory] = useState<PlanHistory>(emptyHistory);
+  const historyRef = useRef<PlanHistory>(emptyHistory());
+  // Plan state the history currently ends at; every change is diffed against it
+  const committedPlanRef = useRef<PlanData>(EMPTY_PLAN);
+  // Name for the next recorded change, set by actions that know better than the diff
+  const pendingLabelRef = useRef<string | null>(null);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [currentPlanId, setCurrentPlanId] = useState<string | null>(null);
+  const [planSummaries, setPlanSummaries] = useState<PlanSummary[]>([]);
+  const libraryInitializedRef = useRef(false);
+  const rerouteOnMaskRef = useRef(false);
+  // Last copied elements, used when the system clipboard cannot be read
+  const clipboardRef = useRef<{ text: string; pasteCount: number } | null>(null);
+
+  const visibleLayerIds: Set<string> = useMemo(() => new Set<string>(layers.filter(l => l.visible).map(l => l.id)), [layers]);
+  const exportLayerIds = new Set<string>(layers.filter(l => exportLayerFilters[l.id] !== false).map(l => l.id));
+  const activeLayer = layers.find(l => l.id === activeLayerId) ?? null;
+  // New elements can only be drawn on a visible, unlocked active layer
+  const drawingLayer = activeLayer && activeLayer.visible && !activeLayer.locked ? activeLayer : null;
+  const obstacleGrid = useMemo(
+    () => (imageSize ? buildObstacleGrid(imageSize, obstaclePolygons(polygonAreas), maskCells) : null),
+    [imageSize, polygonAreas, maskCells],
+  );
+
+  const isElementOnVisibleLayer = (element: { type: 'marker' | 'path' | 'area' | 'polygonArea'; id: string }) => {
+    const collection = element.type === 'marker' ? markers
+      : element.type === 'path' ? paths
+      : element.type === 'area' ? areas
+      : polygonAreas;
+    const item = collection.find(e => e.id === element.id);
+    return !item || visibleLayerIds.has(item.layerId);
+  };
 
 
-  // Load state from localStorage on initial render
+  // Load the plan library (migrating the old single-slot save) on initial render
   useEffect(() => {
-    const savedState = localStorage.getItem('mapPlannerState');
-    if (savedState) {
-      try {
-        const { image, markers, paths, areas, polygonAreas } = JSON.parse(savedState);
-        setImage(image);
-        setMarkers(markers || []);
-        setPaths(paths || []);
-        const normalizedAreas = normalizeAreas(areas);
-        const normalizedPolygonAreas = normalizePolygonAreas(polygonAreas);
-        setAreas(normalizedAreas);
-        setPolygonAreas(normalizedPolygonAreas);
-        pendingSnapshotRef.current = { image, markers: markers || [], paths: paths || [], areas: normalizedAreas, polygonAreas: normalizedPolygonAreas };
-      } catch (error) {
-        console.error("Failed to parse saved state:", error);
+    if (libraryInitializedRef.current) return;
+    libraryInitializedRef.current = true;
+
+    const init = async () => {
+      const legacyState = localStorage.getItem(LEGACY_STATE_KEY);
+      if (legacyState) {
+        try {
+          const { plan, images } = await importPlan(JSON.parse(legacyState));
+          for (const blob of images.values()) {
+            await putImage(blob);
+          }
+          const record = await createPlanRecord('Untitled Plan', serializePlan(plan));
+          localStorage.setItem(CURRENT_PLAN_KEY, record.id);
+        } catch (error) {
+          console.error("Failed to parse saved state:", error);
+        }
+        localStorage.removeItem(LEGACY_STATE_KEY);
       }
-    }
+
+      await refreshPlanList();
+      const lastPlanId = localStorage.getItem(CURRENT_PLAN_KEY);
+      if (lastPlanId) {
+        await openPlan(lastPlanId);
+      }
+    };
+
+    init().catch(error => {
+      console.error("Failed to load the plan library:", error);
+    });
   }, []);
 
   useEffect(() => {
-    historyIndexRef.current = historyIndex;
-  }, [historyIndex]);
+    historyRef.current = history;
+  }, [history]);
+
+  // Resolve the referenced image from the image store into a displayable URL
+  useEffect(() => {
+    if (!imageRef) {
+      setImage(null);
+      return;
+    }
+
+    let cancelled = false;
+    let url: string | null = null;
+    getImage(imageRef.hash)
+      .then(blob => {
+        if (cancelled) return;
+        if (!blob) {
+          console.error(`Map image ${imageRef.hash} is missing from local storage.`);
+          setImage(null);
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        setImage(url);
+      })
+      .catch(error => {
+        console.error("Failed to load map image:", error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [imageRef?.hash]);
 
   useEffect(() => {
     if (!image) {
@@ -248,6 +322,39 @@ const App: React.FC = () => {
     };
   }, [image]);
 
+  // Large maps are drawn and exported from a tile pyramid, cut once per image
+  useEffect(() => {
+    setTileSet(null);
+    setTileProgress(null);
+    if (!imageRef || !imageSize || !needsTiles(imageSize)) return;
+
+    let cancelled = false;
+    const hash = imageRef.hash;
+    const loadTiles = async () => {
+      const stored = await getTileSet(hash);
+      if (stored) return stored;
+      const blob = await getImage(hash);
+      if (!blob) return null;
+      return buildTiles(hash, blob, (done, total) => {
+        if (!cancelled) setTileProgress(done / total);
+      });
+    };
+    loadTiles()
+      .then(tiles => {
+        if (cancelled) return;
+        setTileSet(tiles);
+        setTileProgress(null);
+      })
+      .catch(error => {
+        console.error("Failed to prepare map tiles:", error);
+        if (!cancelled) setTileProgress(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageRef?.hash, imageSize?.width, imageSize?.height]);
+
   useEffect(() => {
     if (!imageSize) return;
     setAreas(prev => prev.map(a => {
@@ -256,34 +363,99 @@ const App: React.FC = () => {
     }));
   }, [imageSize]);
 
-  // Save state to localStorage whenever it changes
+  // Made once per image; large maps take it from a coarse tile level (once the
+  // tiles are ready) rather than decoding the original
   useEffect(() => {
-    if (image) {
-      try {
-        const stateToSave = { image, markers, paths, areas, polygonAreas };
-        localStorage.setItem('mapPlannerState', JSON.stringify(stateToSave));
-      } catch (error) {
-        console.error("Failed to save state:", error);
-      }
-    }
-  }, [image, markers, paths, areas, polygonAreas]);
+    setMapOverview(null);
+    if (!image || !imageSize || (needsTiles(imageSize) && !tileSet)) return;
 
-  // Track history for undo
+    let cancelled = false;
+    const { cols, rows } = gridDimensions(imageSize);
+    const overview: Promise<CanvasImageSource> = tileSet
+      ? drawTileOverview(tileSet, Math.max(THUMBNAIL_WIDTH, cols * 2, rows * 2))
+      : loadImage(image);
+    overview
+      .then(source => {
+        if (!cancelled) setMapOverview(source);
+      })
+      .catch(error => {
+        console.error("Failed to prepare map overview:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [image, imageSize, tileSet]);
+
+  // Sample the map overview for the obstacle colour mask
   useEffect(() => {
-    if (isUndoingRef.current) {
-      isUndoingRef.current = false;
+    if (!mapOverview || !imageSize || !obstacleMask) {
+      setMaskCells(null);
       return;
     }
+    try {
+      setMaskCells(buildMaskCells(mapOverview, imageSize, obstacleMask));
+    } catch (error) {
+      console.error("Failed to read obstacle mask:", error);
+      setMaskCells(null);
+    }
+  }, [mapOverview, imageSize, obstacleMask]);
 
-    const snapshot = pendingSnapshotRef.current || { image, markers, paths, areas, polygonAreas };
-    pendingSnapshotRef.current = null;
-    setHistory(prev => {
-      const next = prev.slice(0, historyIndexRef.current + 1);
-      next.push(snapshot);
-      return next.slice(-50);
-    });
-    setHistoryIndex(prev => (prev < 0 ? 0 : Math.min(prev + 1, 49)));
-  }, [image, markers, paths, areas, polygonAreas]);
+  // Routes saved with a plan already follow its mask, so links are only
+  // rerouted once the mask settings were changed here.
+  useEffect(() => {
+    if (!rerouteOnMaskRef.current) return;
+    rerouteOnMaskRef.current = false;
+    setPaths(prev => rerouteLinkedPaths(prev, markers, obstacleGrid));
+  }, [maskCells]);
+
+  // Save the open plan to the library shortly after it changes
+  useEffect(() => {
+    if (!currentPlanId || !imageRef) return;
+    const timer = window.setTimeout(() => {
+      persistCurrentPlan().catch(error => {
+        console.error("Failed to save state:", error);
+      });
+    }, 800);
+    return () => window.clearTimeout(timer);
+  }, [currentPlanId, imageRef, calibration, georeference, obstacleMask, gridSettings, overlays, symbols, layers, markers, paths, areas, polygonAreas, image, history]);
+
+  // Show a freshly opened plan as it was last viewed, or fitted to the window
+  useEffect(() => {
+    if (!restoreViewRef.current || !imageSize || !viewportSize) return;
+    restoreViewRef.current = false;
+    setView((currentPlanId && loadView(currentPlanId, viewportSize)) || fitImage(imageSize, viewportSize));
+  }, [imageSize, viewportSize, currentPlanId]);
+
+  useEffect(() => {
+    if (!currentPlanId || !viewportSize || restoreViewRef.current) return;
+    const timer = window.setTimeout(() => saveView(currentPlanId, view, viewportSize), 300);
+    return () => window.clearTimeout(timer);
+  }, [view, viewportSize, currentPlanId]);
+
+  // Record every change to the plan as an undo step. Undo, redo and opening a
+  // plan move committedPlanRef first, so they leave nothing to record.
+  useEffect(() => {
+    const current: PlanData = { image: imageRef, calibration, georeference, obstacleMask, grid: gridSettings, overlays, symbols, layers, markers, paths, areas, polygonAreas };
+    const patch = diffPlans(committedPlanRef.current, current);
+    const label = pendingLabelRef.current;
+    committedPlanRef.current = current;
+    pendingLabelRef.current = null;
+    if (!patch) return;
+    const time = Date.now();
+    setHistory(prev => recordChange(prev, patch, label, time));
+  }, [imageRef, calibration, georeference, obstacleMask, gridSettings, overlays, symbols, layers, markers, paths, areas, polygonAreas]);
+
+  // A label whose action turned out to change nothing must not name the next change
+  useEffect(() => {
+    pendingLabelRef.current = null;
+  });
+
+  // Keep the active layer pointing at an existing layer (top one by default)
+  useEffect(() => {
+    if (activeLayerId && layers.some(l => l.id === activeLayerId)) return;
+    setActiveLayerId(layers.length ? layers[layers.length - 1].id : null);
+  }, [layers, activeLayerId]);
   
   // Sync color filters with available marker colors
   useEffect(() => {
@@ -310,392 +482,564 @@ const App: React.FC = () => {
     });
   }, [markers]);
 
-  // Deselect element if it gets filtered out
+  // Deselect elements that get filtered out
   useEffect(() => {
-      if (selectedElement?.type === 'marker') {
-          const marker = markers.find(m => m.id === selectedElement.id);
-          if (marker) {
-              const color = marker.color || '#10b981';
-              if (colorFilters[color] === false) {
-                  setSelectedElement(null);
-              }
-          }
+      const visible = selection.filter(element => {
+          if (!isElementOnVisibleLayer(element)) return false;
+          if (element.type !== 'marker') return true;
+          const marker = markers.find(m => m.id === element.id);
+          return !marker || colorFilters[marker.color || '#10b981'] !== false;
+      });
+      if (visible.length !== selection.length) setSelection(visible);
+  }, [colorFilters, selection, markers, layers]);
+
+
+  const refreshPlanList = async () => {
+    setPlanSummaries(await listPlans());
+  };
+
+  const persistCurrentPlan = async () => {
+    if (!currentPlanId || !imageRef) return;
+    const data: PlanData = { image: imageRef, calibration, georeference, obstacleMask, grid: gridSettings, overlays, symbols, layers, markers, paths, areas, polygonAreas };
+    const result = await savePlanContent(currentPlanId, serializePlan(data), () => (
+      Promise.resolve(mapOverview && imageSize ? createThumbnail(mapOverview, imageSize, markers) : null)
+    ));
+    // A plan deleted while this save was pending keeps no history behind
+    if (result === 'missing') return;
+    await savePlanHistory(currentPlanId, history, data);
+    if (result === 'saved') await refreshPlanList();
+  };
+
+  const clearEditingState = () => {
+    setSelectedElement(null);
+    setLinkingState(null);
+    setDrawingPathId(null);
+    setDrawingArea(null);
+    setDrawingPolygonAreaId(null);
+    setCalibrationPoints([]);
+  };
+
+  const setPlanState = (plan: PlanData) => {
+    setImageRef(plan.image);
+    setCalibration(plan.calibration);
+    setGeoreference(plan.georeference);
+    setObstacleMask(plan.obstacleMask);
+    setGridSettings(plan.grid);
+    setOverlays(plan.overlays);
+    setSymbols(plan.symbols);
+    setLayers(plan.layers);
+    setMarkers(plan.markers);
+    setPaths(plan.paths);
+    setAreas(plan.areas);
+    setPolygonAreas(plan.polygonAreas);
+  };
+
+  // Puts a plan on screen with its saved undo history, or a fresh one
+  const showPlan = (plan: PlanData, savedHistory?: PlanHistory | null) => {
+    // The old image's size must not be used to fit the new one
+    if (plan.image?.hash !== imageRef?.hash) setImageSize(null);
+    restoreViewRef.current = true;
+    committedPlanRef.current = plan;
+    pendingLabelRef.current = null;
+    historyRef.current = savedHistory ?? emptyHistory();
+    setHistory(historyRef.current);
+    setPlanState(plan);
+    clearEditingState();
+  };
+
+  // Saves the open plan and its undo history before another plan replaces it
+  const leaveCurrentPlan = async () => {
+    if (!currentPlanId) return;
+    if (viewportSize && !restoreViewRef.current) saveView(currentPlanId, view, viewportSize);
+    await persistCurrentPlan();
+  };
+
+  const switchToPlan = (id: string | null, plan: PlanData | null, savedHistory?: PlanHistory | null) => {
+    setCurrentPlanId(id);
+    if (id) {
+      localStorage.setItem(CURRENT_PLAN_KEY, id);
+    } else {
+      localStorage.removeItem(CURRENT_PLAN_KEY);
+    }
+    showPlan(plan ?? EMPTY_PLAN, savedHistory);
+  };
+
+  const openPlan = async (id: string) => {
+    if (id === currentPlanId) return;
+    try {
+      const record = await getPlanRecord(id);
+      if (!record) {
+        localStorage.removeItem(CURRENT_PLAN_KEY);
+        await refreshPlanList();
+        return;
       }
-  }, [colorFilters, selectedElement, markers]);
+      const { plan } = await importPlan(record.plan);
+      const savedHistory = await getPlanHistory(id, plan).catch(error => {
+        console.error("Failed to load undo history:", error);
+        return null;
+      });
+      await leaveCurrentPlan();
+      switchToPlan(id, plan, savedHistory);
+    } catch (error) {
+      console.error("Failed to open plan:", error);
+      alert("Could not open the plan. It may be corrupted.");
+    }
+  };
 
+  const addPlanToLibrary = async (name: string, plan: PlanData) => {
+    const record = await createPlanRecord(name, serializePlan(plan));
+    await leaveCurrentPlan();
+    switchToPlan(record.id, plan);
+    await refreshPlanList();
+  };
 
-  const handleFileUpload = (file: File) => {
-    const reader = new FileReader();
+  const handleRenamePlan = async (id: string, name: string) => {
+    await renamePlan(id, name);
+    await refreshPlanList();
+  };
 
-    if (file.type === 'application/json' || file.name.endsWith('.json')) {
-      reader.onload = (e) => {
-        try {
-          const text = e.target?.result as string;
-          const { image, markers, paths, areas, polygonAreas } = JSON.parse(text);
-          const parsedAreas = normalizeAreas(areas);
-          const parsedPolygonAreas = normalizePolygonAreas(polygonAreas);
-          pendingSnapshotRef.current = { image, markers, paths, areas: parsedAreas, polygonAreas: parsedPolygonAreas };
-          if (image && Array.isArray(markers) && Array.isArray(paths)) {
-            setImage(image);
-            setMarkers(markers);
-            setPaths(paths);
-            setAreas(parsedAreas);
-            setPolygonAreas(parsedPolygonAreas);
-            setSelectedElement(null);
-            setLinkingState(null);
-            setDrawingPathId(null);
-            setDrawingArea(null);
-            setDrawingPolygonAreaId(null);
-          } else {
-            alert("Invalid plan file format.");
-          }
-        } catch (error) {
-          console.error("Failed to parse plan file:", error);
-          alert("Could not read the plan file. It may be corrupted.");
-        }
-      };
-      reader.readAsText(file);
-    } else if (file.type.startsWith('image/')) {
-      reader.onload = (e) => {
-        setImage(e.target?.result as string);
-        setMarkers([]);
-        setPaths([]);
-        setAreas([]);
-        setPolygonAreas([]);
-        setSelectedElement(null);
-        setLinkingState(null);
-        setDrawingPathId(null);
-        setDrawingArea(null);
-        setDrawingPolygonAreaId(null);
+  const handleDuplicatePlan = async (id: string) => {
+    if (id === currentPlanId) await persistCurrentPlan();
+    const copy = await duplicatePlan(id);
+    await refreshPlanList();
+    if (copy) await openPlan(copy.id);
+  };
+
+  const handleDeletePlan = async (id: string) => {
+    await deletePlan(id);
+    forgetView(id);
+    if (id === currentPlanId) switchToPlan(null, null);
+    await refreshPlanList();
+  };
+
+  const applyImportedPlan = async (name: string, raw: unknown, bundledImages: Map<string, Blob>) => {
+    const { plan, report, images } = await importPlan(raw);
+    for (const blob of [...bundledImages.values(), ...images.values()]) {
+      await putImage(blob);
+    }
+    if (plan.image && !(await hasImage(plan.image.hash))) {
+      throw new PlanImportError("The plan's map image is not stored in this browser. Import the .zip bundle instead of plan.json.");
+    }
+
+    await addPlanToLibrary(name, plan);
+    if (report.fixed.length || report.dropped.length || report.sourceVersion !== report.targetVersion) {
+      setImportReport(report);
+    }
+  };
+
+  const handleFileUpload = async (file: File) => {
+    const name = file.name.replace(/\.[^.]+$/, '') || 'Untitled Plan';
+    try {
+      if (isBundleFile(file)) {
+        const { plan, images } = await readPlanBundle(file);
+        await applyImportedPlan(name, plan, images);
+      } else if (file.type === 'application/json' || file.name.endsWith('.json')) {
+        await applyImportedPlan(name, JSON.parse(await file.text()), new Map());
+      } else if (file.type.startsWith('image/')) {
+        const ref = await putImage(file);
         setImageSize(null);
-      };
-      reader.readAsDataURL(file);
-    } else {
-      alert("Unsupported file type. Please upload an image or a .json plan file.");
+        await addPlanToLibrary(name, { image: ref, calibration: null, georeference: null, obstacleMask: null, grid: DEFAULT_GRID, overlays: DEFAULT_OVERLAYS, symbols: [], layers: [createLayer('Layer 1')], markers: [], paths: [], areas: [], polygonAreas: [] });
+      } else {
+        alert("Unsupported file type. Please upload an image, a .zip plan bundle or a .json plan file.");
+      }
+    } catch (error) {
+      console.error("Failed to parse plan file:", error);
+      if (error instanceof PlanImportError) {
+        alert(error.issues.length ? `${error.message}\n\n${formatIssues(error.issues)}` : error.message);
+      } else {
+        alert("Could not read the plan file. It may be corrupted.");
+      }
     }
   };
   
-  const handleExportPlan = () => {
-    if (!image) {
+  const handleExportPlan = async () => {
+    if (!imageRef) {
       alert("Please load a map before exporting.");
       return;
     }
-    const stateToSave = { image, markers, paths, areas, polygonAreas };
-    const jsonString = JSON.stringify(stateToSave, null, 2);
-    const blob = new Blob([jsonString], { type: 'application/json' });
+    const imageBlob = await getImage(imageRef.hash);
+    if (!imageBlob) {
+      alert("The map image is missing from local storage.");
+      return;
+    }
+    const stateToSave = serializePlan({ image: imageRef, calibration, georeference, obstacleMask, grid: gridSettings, overlays, symbols, layers, markers, paths, areas, polygonAreas });
+    const blob = await createPlanBundle(stateToSave, new Map([[imageRef.hash, imageBlob]]));
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'map-plan.json';
+    a.download = 'map-plan.zip';
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const handleExportLua = () => {
+  const textExporters = [...listExporters(), ...templates.map(templateExporter)];
+
+  const currentExportModel = () => buildExportModel({ imageSize, calibration, georeference, layers, markers, paths, areas, polygonAreas, symbols }, exportLayerIds);
+
+  const handleExportText = (exporterId: string) => {
     if (!image && markers.length === 0 && areas.length === 0 && polygonAreas.length === 0) {
       alert("No markers or areas to export.");
       return;
     }
+    const exporter = textExporters.find(e => e.id === exporterId);
+    if (!exporter) return;
 
-    let lua = "-- Map Planner - Lua Export\n";
-    lua += "-- Generated: " + new Date().toISOString() + "\n\n";
-
-    // Exportar marcadores
-    lua += "local markers = {\n";
-    markers.forEach((marker, index) => {
-      const x = Math.round(marker.position.x);
-      const y = Math.round(marker.position.y);
-      const name = marker.name.replace(/"/g, '\\"');
-      const number = marker.number || '';
-      const area = (marker.area || '').replace(/"/g, '\\"');
-      lua += `    [${index + 1}] = { name = "${name}", number = "${number}", area = "${area}", x = ${x}, y = ${y} }`;
-      lua += index < markers.length - 1 ? ",\n" : "\n";
-    });
-    lua += "}\n\n";
-
-    // Exportar reas (crculos)
-    lua += "local areas = {\n";
-    areas.forEach((area, index) => {
-      const centerX = Math.round(area.center.x);
-      const centerY = Math.round(area.center.y);
-      const radius = Math.round(area.radius);
-      const topLeftX = Math.round(area.topLeft.x);
-      const topLeftY = Math.round(area.topLeft.y);
-      const bottomRightX = Math.round(area.bottomRight.x);
-      const bottomRightY = Math.round(area.bottomRight.y);
-      const name = area.name.replace(/"/g, '\\"');
-      const number = area.number || '';
-      const color = area.color || '#facc15';
-      lua += `    [${index + 1}] = { name = "${name}", number = "${number}", color = "${color}", centerX = ${centerX}, centerY = ${centerY}, radius = ${radius}, topLeftX = ${topLeftX}, topLeftY = ${topLeftY}, bottomRightX = ${bottomRightX}, bottomRightY = ${bottomRightY} }`;
-      lua += index < areas.length - 1 ? ",\n" : "\n";
-    });
-    lua += "}\n\n";
-
-    // Exportar areas poligonais
-    lua += "local polygon_areas = {\n";
-    polygonAreas.forEach((area, index) => {
-      const name = area.name.replace(/"/g, '\\"');
-      const number = area.number || '';
-      const color = area.color || '#facc15';
-      const points = area.points.map(p => `{ x = ${Math.round(p.x)}, y = ${Math.round(p.y)} }`).join(', ');
-      lua += `    [${index + 1}] = { name = "${name}", number = "${number}", color = "${color}", points = { ${points} } }`;
-      lua += index < polygonAreas.length - 1 ? ",\n" : "\n";
-    });
-    lua += "}\n\n";
+    let text: string;
+    try {
+      text = exporter.render(currentExportModel());
+    } catch (error) {
+      console.error(`${exporter.label} export failed:`, error);
+      alert(error instanceof TemplateError ? `The template "${exporter.label}" has an error. ${error.message}` : `Could not export ${exporter.label}.`);
+      return;
+    }
+    const blob = new Blob([text], { type: exporter.mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${exporter.fileName ?? 'map-plan'}.${exporter.extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
 
-    lua += "return { markers = markers, areas = areas, polygon_areas = polygon_areas }\n";
+  const handleExportLua = (options: LuaExportOptions) => {
+    saveLuaOptions(options);
+    setLuaDialogOpen(false);
+    handleExportText('lua');
+  };
 
-    const blob = new Blob([lua], { type: 'text/plain' });
+  // Sheets hold every element, whatever the export layer filter, so they come back without gaps
+  const handleExportSheet = (kind: SheetKind, format: SheetFormat) => {
+    const text = buildSheet(buildExportModel({ imageSize, calibration, georeference, layers, markers, paths, areas, polygonAreas, symbols }), kind, format);
+    const blob = new Blob([text], { type: format === 'csv' ? 'text/csv' : 'text/tab-separated-values' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'map-positions.lua';
+    a.download = `${SHEET_KINDS.find(k => k.kind === kind)!.fileName}.${format}`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const handleExportPng = async () => {
-    if (!image) {
+  // Reads elements from an exported file and merges them into the open plan by id, as one undo step
+  const handleImportFile = async (file: File) => {
+    const fallbackLayerId = drawingLayer?.id ?? layers[0]?.id;
+    if (!fallbackLayerId) {
+      alert("Open a plan to import into.");
+      return;
+    }
+    // Sheets are previewed as a diff first, see applySheetImport
+    if (/\.(csv|tsv)$/i.test(file.name)) {
+      try {
+        const diff = readSheet(await file.text(), file.name, { markers, paths, areas, polygonAreas }, { layers, fallbackLayerId, imageSize, symbols });
+        setSheetImport({ fileName: file.name, diff });
+      } catch (error) {
+        console.error("Sheet import failed:", error);
+        alert(error instanceof ImportFileError ? `Could not import "${file.name}". ${error.message}` : `Could not read "${file.name}".`);
+      }
+      return;
+    }
+    const reader = /\.lua$/i.test(file.name) ? readLuaElements
+      : /\.(geo)?json$/i.test(file.name) ? (text: string, context: ImportContext) => readGeoJsonElements(text, context, coordinatesFor(georeference))
+      : null;
+    if (!reader) {
+      alert(`Cannot import "${file.name}". Choose a .lua, .geojson, .csv or .tsv file.`);
+      return;
+    }
+    let imported: ImportedElements;
+    try {
+      imported = reader(await file.text(), { layers, fallbackLayerId, imageSize, symbols });
+    } catch (error) {
+      console.error("Import failed:", error);
+      alert(error instanceof ImportFileError ? `Could not import "${file.name}". ${error.message}` : `Could not read "${file.name}".`);
+      return;
+    }
+
+    const content = { markers, paths, areas, polygonAreas };
+    const counts = countMerge(content, imported);
+    const removeMissing = counts.missing > 0
+      && window.confirm(`${counts.missing} element${counts.missing === 1 ? ' of the plan is' : 's of the plan are'} not in the file. Remove ${counts.missing === 1 ? 'it' : 'them'}?`);
+    const merged = mergeImported(content, imported, removeMissing);
+    // Linked paths follow the imported markers and links, and reroute when obstacles changed
+    const obstaclesChanged = JSON.stringify(obstaclePolygons(polygonAreas)) !== JSON.stringify(obstaclePolygons(merged.polygonAreas));
+    const grid = obstaclesChanged && imageSize
+      ? buildObstacleGrid(imageSize, obstaclePolygons(merged.polygonAreas), maskCells)
+      : obstacleGrid;
+    const syncedPaths = syncLinkedPaths(markers, merged.markers, merged.paths, grid);
+    labelNextChange(`Import ${file.name}`);
+    const addedSymbols = imported.symbols ?? [];
+    if (addedSymbols.length) setSymbols(prev => [...prev, ...addedSymbols.filter(s => !prev.some(p => p.id === s.id))]);
+    setMarkers(merged.markers);
+    setPaths(obstaclesChanged ? rerouteLinkedPaths(syncedPaths, merged.markers, grid) : syncedPaths);
+    setAreas(merged.areas);
+    setPolygonAreas(merged.polygonAreas);
+    setSelection([]);
+
+    let summary = `Imported ${counts.added} new and ${counts.updated} updated element${counts.updated === 1 ? '' : 's'}`;
+    if (removeMissing) summary += `, removed ${counts.missing}`;
+    summary += '.';
+    if (imported.skipped.length) {
+      const shown = imported.skipped.slice(0, 10);
+      summary += `\n\nSkipped ${imported.skipped.length}:\n${shown.join('\n')}${imported.skipped.length > shown.length ? '\n...' : ''}`;
+    }
+    alert(summary);
+  };
+
+  const applySheetImport = (removeMissing: boolean) => {
+    if (!sheetImport) return;
+    const { fileName, diff } = sheetImport;
+    const next = applySheetDiff({ markers, paths, areas, polygonAreas }, diff, removeMissing);
+    const obstaclesChanged = diff.kind === 'polygonAreas'
+      && [...diff.added, ...diff.changed.map(c => c.before), ...diff.changed.map(c => c.after), ...(removeMissing ? diff.removed : [])]
+        .some(a => (a as PolygonArea).obstacle);
+    const grid = obstaclesChanged && imageSize
+      ? buildObstacleGrid(imageSize, obstaclePolygons(next.polygonAreas), maskCells)
+      : obstacleGrid;
+
+    labelNextChange(`Import ${fileName}`);
+    setMarkers(next.markers);
+    setPaths(obstaclesChanged
+      ? rerouteLinkedPaths(next.paths, next.markers, grid)
+      : syncLinkedPaths(markers, next.markers, next.paths, grid));
+    setAreas(next.areas);
+    setPolygonAreas(next.polygonAreas);
+    setSelection([]);
+    setSheetImport(null);
+  };
+
+  const refreshTemplates = () => listTemplates()
+    .then(setTemplates)
+    .catch(error => console.error("Failed to load export templates:", error));
+
+  useEffect(() => {
+    refreshTemplates();
+  }, []);
+
+  const handleSaveTemplate = async (template: ExportTemplate) => {
+    try {
+      await saveTemplate(template);
+      await refreshTemplates();
+    } catch (error) {
+      console.error("Failed to save template:", error);
+      alert("Could not save the template. Please try again.");
+    }
+  };
+
+  const handleDeleteTemplate = async (id: string) => {
+    try {
+      await deleteTemplate(id);
+      await refreshTemplates();
+    } catch (error) {
+      console.error("Failed to delete template:", error);
+      alert("Could not delete the template. Please try again.");
+    }
+  };
+
+  // Draws parts of the map for raster exports, from the tiles when the map has them
+  const prepareDrawMap = async (mapImage: string): Promise<DrawMap> => (
+    tileSet
+      ? (ctx, region) => drawTileRegion(ctx, tileSet, region)
+      : loadImage(mapImage).then(baseImage => async (ctx, region) => {
+        ctx.drawImage(baseImage, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+      })
+  );
+
+  // Plan content and options shared by the PNG, SVG and PDF exports
+  const exportPlan = () => ({ symbols, layers, markers, paths, areas, polygonAreas });
+  const exportOptions = (size: ImageSize) => ({
+    width: size.width,
+    height: size.height,
+    showMarkerLabels,
+    showAreaLabels,
+    markerSize,
+    labelSize,
+    clusterZoom,
+    layerIds: exportLayerIds,
+    calibration,
+    overlays,
+  });
+
+  const handleOpenImageExport = () => {
+    if (!image || !imageSize) {
       alert("Please load a map before exporting.");
       return;
     }
+    setImageDialogOpen(true);
+  };
+
+  // Areas the image export can be cropped to, named as in the sidebar lists
+  const exportAreaChoices = (): ExportAreaChoice[] => [
+    ...areas.map(area => ({ key: elementKey({ type: 'area', id: area.id }), label: `Area: ${area.name || 'Unnamed'}`, ref: { type: 'area' as const, id: area.id } })),
+    ...polygonAreas.map(area => ({ key: elementKey({ type: 'polygonArea', id: area.id }), label: `Area: ${area.name || 'Unnamed'}`, ref: { type: 'polygonArea' as const, id: area.id } })),
+  ].flatMap(({ key, label, ref }) => {
+    const bounds = elementBounds({ markers, paths, areas, polygonAreas }, ref);
+    return bounds ? [{ key, label, bounds }] : [];
+  });
+
+  const handleExportImage = async (imageOptions: ImageExportOptions) => {
+    setImageDialogOpen(false);
+    if (!image || !imageSize) return;
+    const format = IMAGE_FORMATS.find(f => f.format === imageOptions.format)!;
 
     try {
-      const baseImage = await loadImage(image);
-      const width = baseImage.naturalWidth || baseImage.width;
-      const height = baseImage.naturalHeight || baseImage.height;
-
-      const pathsMarkup = paths.map(path => {
-        const strokeColor = path.color || '#f59e0b';
-        return `
-          <path
-            d="${pointsToPathD(path.points)}"
-            stroke="${strokeColor}"
-            stroke-width="3"
-            fill="none"
-            stroke-linecap="round"
-            stroke-linejoin="round"
-          />
-        `;
-      }).join('');
-
-      const areasMarkup = areas.map(area => {
-        const fillColor = area.color || '#facc15';
-        const strokeColor = area.color || '#facc15';
-        const label = area.number ? `${area.number} - ${area.name}` : area.name;
-
-        const textMarkup = showMarkerLabels ? `
-          <text
-            x="${area.center.x}"
-            y="${area.center.y}"
-            fill="black"
-            font-size="14"
-            font-family="sans-serif"
-            text-anchor="middle"
-            dominant-baseline="middle"
-            paint-order="stroke"
-            stroke="white"
-            stroke-width="3"
-            stroke-linejoin="round"
-          >${escapeXml(label)}</text>
-        ` : '';
-
-        return `
-          <g>
-            <circle
-              cx="${area.center.x}"
-              cy="${area.center.y}"
-              r="${Math.max(1, area.radius)}"
-              fill="${fillColor}"
-              fill-opacity="0.25"
-              stroke="${strokeColor}"
-              stroke-width="2"
-            />
-            ${textMarkup}
-          </g>
-        `;
-      }).join('');
-
-      const polygonAreasMarkup = polygonAreas.map(area => {
-        if (area.points.length < 2) return '';
-        const points = area.points.map(p => `${p.x},${p.y}`).join(' ');
-        const labelPoint = polygonCentroid(area.points);
-        const fillColor = area.color || '#facc15';
-        const strokeColor = area.color || '#facc15';
-        const label = area.number ? `${area.number} - ${area.name}` : area.name;
-
-        const textMarkup = showMarkerLabels ? `
-          <text
-            x="${labelPoint.x}"
-            y="${labelPoint.y}"
-            fill="black"
-            font-size="14"
-            font-family="sans-serif"
-            text-anchor="middle"
-            dominant-baseline="middle"
-            paint-order="stroke"
-            stroke="white"
-            stroke-width="3"
-            stroke-linejoin="round"
-          >${escapeXml(label)}</text>
-        ` : '';
-
-        return `
-          <g>
-            <polygon
-              points="${points}"
-              fill="${fillColor}"
-              fill-opacity="0.25"
-              stroke="${strokeColor}"
-              stroke-width="2"
-            />
-            ${textMarkup}
-          </g>
-        `;
-      }).join('');
-
-      const markersMarkup = markers.map(marker => {
-        const markerColor = marker.color || '#10b981';
-        const label = marker.number ? `${marker.number} - ${marker.name}` : marker.name;
-        const textMarkup = showMarkerLabels ? `
-          <text
-            x="15"
-            y="5"
-            fill="white"
-            font-size="12"
-            font-family="sans-serif"
-            paint-order="stroke"
-            stroke="black"
-            stroke-width="3"
-            stroke-linejoin="round"
-          >${escapeXml(label)}</text>
-        ` : '';
-
-        return `
-          <g transform="translate(${marker.position.x}, ${marker.position.y})">
-            <circle r="12" fill="${markerColor}66" stroke="${markerColor}" stroke-width="2" />
-            <circle r="6" fill="${markerColor}" stroke="#fff" stroke-width="2" />
-            ${textMarkup}
-          </g>
-        `;
-      }).join('');
-
-      const svgString = `<?xml version="1.0" encoding="UTF-8"?>
-        <svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
-          <image href="${image}" x="0" y="0" width="${width}" height="${height}" />
-          ${areasMarkup}
-          ${polygonAreasMarkup}
-          ${pathsMarkup}
-          ${markersMarkup}
-        </svg>
-      `;
-
-      const svgBlob = new Blob([svgString], { type: 'image/svg+xml;charset=utf-8' });
-      const svgUrl = URL.createObjectURL(svgBlob);
-      const svgImage = new Image();
-      svgImage.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-          URL.revokeObjectURL(svgUrl);
-          alert("Failed to prepare export canvas.");
-          return;
-        }
-        ctx.drawImage(svgImage, 0, 0);
-        canvas.toBlob((blob) => {
-          URL.revokeObjectURL(svgUrl);
-          if (!blob) {
-            alert("Failed to export PNG.");
-            return;
-          }
-          const pngUrl = URL.createObjectURL(blob);
-          const a = document.createElement('a');
-          a.href = pngUrl;
-          a.download = 'map-plan.png';
-          document.body.appendChild(a);
-          a.click();
-          document.body.removeChild(a);
-          URL.revokeObjectURL(pngUrl);
-        }, 'image/png');
-      };
-      svgImage.onerror = () => {
-        URL.revokeObjectURL(svgUrl);
-        alert("Failed to generate PNG.");
-      };
-      svgImage.src = svgUrl;
+      const drawMap = await prepareDrawMap(image);
+      setExportProgress(0);
+      const blob = await renderPlanImage(
+        exportPlan(),
+        exportOptions(imageSize),
+        imageOptions,
+        drawMap,
+        (done, total) => setExportProgress(done / total),
+      );
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `map-plan.${format.extension}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
     } catch (error) {
-      console.error("PNG export failed:", error);
-      alert("Could not export PNG. Please try again.");
+      console.error(`${format.label} export failed:`, error);
+      alert(`Could not export ${format.label}. ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setExportProgress(null);
     }
   };
 
-  const handleRedo = () => {
-    setHistory(prev => {
-      if (historyIndexRef.current < 0 || historyIndexRef.current >= prev.length - 1) return prev;
-      const nextIndex = historyIndexRef.current + 1;
-      const snapshot = prev[nextIndex];
-      if (!snapshot) return prev;
-      isUndoingRef.current = true;
-      setImage(snapshot.image);
-      setMarkers(snapshot.markers);
-      setPaths(snapshot.paths);
-      setAreas(snapshot.areas);
-      setPolygonAreas(snapshot.polygonAreas);
-      setSelectedElement(null);
-      setDrawingPathId(null);
-      setDrawingArea(null);
-      setDrawingPolygonAreaId(null);
-      setLinkingState(null);
-      setHistoryIndex(nextIndex);
-      return prev;
-    });
+  // The SVG embeds the original map image, so it opens on its own in vector editors
+  const handleExportSvg = async () => {
+    if (!imageRef || !imageSize) {
+      alert("Please load a map before exporting.");
+      return;
+    }
+
+    try {
+      const mapBlob = await getImage(imageRef.hash);
+      if (!mapBlob) throw new Error(`Map image ${imageRef.hash} is missing from local storage.`);
+      const svg = buildPlanSvg(exportPlan(), {
+        ...exportOptions(imageSize),
+        imageHref: await blobToDataUrl(mapBlob),
+        embeddedFont: await loadEmbeddedFont(),
+      });
+      const blob = new Blob([svg], { type: 'image/svg+xml' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'map-plan.svg';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("SVG export failed:", error);
+      alert("Could not export SVG. Please try again.");
+    }
   };
 
-  const handleUndo = () => {
-    setHistory(prev => {
-      if (historyIndexRef.current <= 0) return prev;
-      const nextIndex = historyIndexRef.current - 1;
-      const snapshot = prev[nextIndex];
-      if (!snapshot) return prev;
-      isUndoingRef.current = true;
-      setImage(snapshot.image);
-      setMarkers(snapshot.markers);
-      setPaths(snapshot.paths);
-      setAreas(snapshot.areas);
-      setPolygonAreas(snapshot.polygonAreas);
-      setSelectedElement(null);
-      setDrawingPathId(null);
-      setDrawingArea(null);
-      setDrawingPolygonAreaId(null);
-      setLinkingState(null);
-      setHistoryIndex(nextIndex);
-      return prev;
-    });
+  const handleOpenPdfExport = () => {
+    if (!image || !imageSize) {
+      alert("Please load a map before exporting.");
+      return;
+    }
+    setPdfDialogOpen(true);
   };
 
-  const handleResetWorkspace = () => {
-    localStorage.removeItem('mapPlannerState');
-    setImage(null);
-    setMarkers([]);
-    setPaths([]);
-    setAreas([]);
-    setPolygonAreas([]);
-    setSelectedElement(null);
-    setLinkingState(null);
+  const handleExportPdf = async (pdfOptions: PdfOptions) => {
+    setPdfDialogOpen(false);
+    if (!image || !imageSize) return;
+
+    try {
+      const drawMap = await prepareDrawMap(image);
+      setExportProgress(0);
+      const blob = await renderPlanPdf(
+        exportPlan(),
+        exportOptions(imageSize),
+        pdfOptions,
+        drawMap,
+        (done, total) => setExportProgress(done / total),
+      );
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'map-plan.pdf';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("PDF export failed:", error);
+      alert("Could not export PDF. Please try again.");
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  // Walks the history to `target` (the number of applied entries)
+  const jumpToHistory = (target: number) => {
+    const current = historyRef.current;
+    if (target < 0 || target > current.entries.length || target === current.index) return;
+    const plan = travelHistory(committedPlanRef.current, current, target);
+    committedPlanRef.current = plan;
+    pendingLabelRef.current = null;
+    historyRef.current = { ...current, index: target };
+    setHistory(historyRef.current);
+    setPlanState(plan);
+    setSelection([]);
     setDrawingPathId(null);
     setDrawingArea(null);
     setDrawingPolygonAreaId(null);
-    setZoom(1);
+    setLinkingState(null);
+  };
+
+  const handleUndo = () => jumpToHistory(historyRef.current.index - 1);
+
+  const handleRedo = () => jumpToHistory(historyRef.current.index + 1);
+
+  // Names the change about to be made in the undo history
+  const labelNextChange = (label: string) => {
+    pendingLabelRef.current = label;
+  };
+
+  // Closes the open plan without touching the library; it stays saved there.
+  const handleResetWorkspace = async () => {
+    await leaveCurrentPlan();
+    switchToPlan(null, null);
+    setView(DEFAULT_VIEW);
     setImageSize(null);
   };
 
+  // Zooms around the middle of the map view, as the zoom buttons do
+  const zoomBy = (factor: number) => {
+    const center = viewportSize ? { x: viewportSize.width / 2, y: viewportSize.height / 2 } : { x: 0, y: 0 };
+    setView(v => zoomAt(v, factor, center));
+  };
+
+  const zoomToFit = () => {
+    if (imageSize && viewportSize) setView(fitImage(imageSize, viewportSize));
+  };
+
+  const zoomToSelection = () => {
+    if (!viewportSize) return;
+    const content = { markers, paths, areas, polygonAreas };
+    const bounds = selection
+      .map(ref => elementBounds(content, ref))
+      .filter((b): b is Bounds => !!b);
+    if (!bounds.length) return;
+    setView(fitBounds({
+      minX: Math.min(...bounds.map(b => b.minX)),
+      minY: Math.min(...bounds.map(b => b.minY)),
+      maxX: Math.max(...bounds.map(b => b.maxX)),
+      maxY: Math.max(...bounds.map(b => b.maxY)),
+    }, viewportSize));
+  };
+
   const addMarker = (position: Point) => {
+    if (!drawingLayer) return;
     const newMarker: Marker = {
       id: `marker-${Date.now()}`,
       number: `${markers.length + 1}`,
@@ -704,6 +1048,7 @@ const App: React.FC = () => {
       status: 'pending',
       linkedMarkerIds: [],
       color: '#10b981', // Default color
+      layerId: drawingLayer.id,
     };
     setMarkers([...markers, newMarker]);
   };
@@ -714,8 +1059,8 @@ const App: React.FC = () => {
       if (path) {
         updatePath(drawingPathId, { points: [...path.points, point] });
       }
-    } else {
-      const newPath: Path = { id: `path-${Date.now()}`, points: [point], color: '#f59e0b' };
+    } else if (drawingLayer) {
+      const newPath: Path = { id: `path-${Date.now()}`, points: [point], color: '#f59e0b', layerId: drawingLayer.id };
       setPaths(prevPaths => [...prevPaths, newPath]);
       setDrawingPathId(newPath.id);
       setSelectedElement(null);
@@ -725,6 +1070,7 @@ const App: React.FC = () => {
   const addAreaPoint = (point: Point) => {
     // 1st click: set center
     if (!drawingArea) {
+      if (!drawingLayer) return;
       const id = `area-${Date.now()}`;
       const initialRadius = 1;
       const bounds = areaBoundsFromCircle(point, initialRadius, imageSize || undefined);
@@ -737,6 +1083,7 @@ const App: React.FC = () => {
         topLeft: bounds.topLeft,
         bottomRight: bounds.bottomRight,
         color: '#facc15',
+        layerId: drawingLayer.id,
       };
       setAreas(prev => [...prev, newArea]);
       setDrawingArea({ id, center: point });
@@ -756,7 +1103,7 @@ const App: React.FC = () => {
       if (area) {
         updatePolygonArea(drawingPolygonAreaId, { points: [...area.points, point] });
       }
-    } else {
+    } else if (drawingLayer) {
       const id = `poly-area-${Date.now()}`;
       const newArea: PolygonArea = {
         id,
@@ -764,6 +1111,7 @@ const App: React.FC = () => {
         name: 'New Polygon Area',
         points: [point],
         color: '#facc15',
+        layerId: drawingLayer.id,
       };
       setPolygonAreas(prev => [...prev, newArea]);
       setDrawingPolygonAreaId(id);
@@ -771,12 +1119,60 @@ const App: React.FC = () => {
     }
   };
 
+  // Two clicks pick a reference segment; the real length typed in for it sets the scale.
+  const addCalibrationPoint = (point: Point) => {
+    if (!calibrationPoints.length) {
+      setCalibrationPoints([point]);
+      return;
+    }
+
+    const [start] = calibrationPoints;
+    const pixels = distance(start, point);
+    const suggestion = calibration ? `${Math.round(toWorldLength(pixels, calibration) * 100) / 100} ${calibration.unit}` : '';
+    const input = window.prompt(`Real distance between the two points (${Math.round(pixels)} px apart), e.g. "25 m":`, suggestion);
+    setCalibrationPoints([]);
+    setActiveTool('select');
+    if (input === null) return;
+
+    const match = input.trim().match(/^([\d.,]+)\s*(.*)$/);
+    const value = match ? Number(match[1].replace(',', '.')) : NaN;
+    const unit = match?.[2].trim() || calibration?.unit || 'm';
+    const next = calibrationFromPoints(start, point, value, unit, calibration);
+    if (!next) {
+      alert('Please enter a positive distance, e.g. "25 m", and pick two different points.');
+      return;
+    }
+    setCalibration(next);
+  };
+
+  // Each click places a control point; the world position typed in for it refits the transform.
+  const addControlPoint = (point: Point) => {
+    const current = georeference ?? createGeoreference();
+    const input = window.prompt(current.system === 'lonlat'
+      ? 'Latitude, longitude of this point, e.g. "-23.5505, -46.6333":'
+      : `World X, Y of this point in ${current.unit}, e.g. "1200, 350":`);
+    if (input === null) return;
+    const world = parseWorldPoint(input, current.system);
+    if (!world) {
+      alert(current.system === 'lonlat'
+        ? 'Please enter a latitude (-90 to 90) and a longitude (-180 to 180), separated by a comma.'
+        : 'Please enter two numbers separated by a comma.');
+      return;
+    }
+    labelNextChange(`Add control point ${current.controlPoints.length + 1}`);
+    setGeoreference(fitGeoreference({ ...current, controlPoints: [...current.controlPoints, createControlPoint(point, world)] }));
+  };
+
+  const handleGeoreferenceChange = (next: Georeference | null) => {
+    setGeoreference(next && fitGeoreference(next));
+  };
+
   const insertPathPoint = (pathId: string, point: Point, index: number) => {
     setPaths(currentPaths => currentPaths.map(p => {
         if (p.id === pathId) {
             const newPoints = [...p.points];
             newPoints.splice(index, 0, point);
-            return { ...p, points: newPoints };
+            return { ...p, points: newPoints, routed: false };
         }
         return p;
     }));
@@ -800,12 +1196,19 @@ const App: React.FC = () => {
     }
   }, [activeTool]);
 
+  useEffect(() => {
+    if (activeTool !== 'calibrate') {
+      setCalibrationPoints([]);
+    }
+  }, [activeTool]);
+
   const updateMarker = (id: string, newMarkerData: Partial<Marker>) => {
     setMarkers(markers.map(m => m.id === id ? { ...m, ...newMarkerData} : m));
 
     if (newMarkerData.position) {
         const newPos = newMarkerData.position;
-        setPaths(currentPaths => currentPaths.map(p => {
+        const movedMarkers = markers.map(m => m.id === id ? { ...m, position: newPos } : m);
+        setPaths(currentPaths => rerouteLinkedPaths(currentPaths.map(p => {
             if (p.linkedMarkers?.startId === id) {
                 const newPoints = [...p.points];
                 newPoints[0] = newPos;
@@ -817,16 +1220,42 @@ const App: React.FC = () => {
                 return { ...p, points: newPoints };
             }
             return p;
-        }));
+        }), movedMarkers, obstacleGrid, new Set([id])));
     }
   };
   
+  // Editing the points by hand turns off automatic routing for that path.
   const updatePath = (id: string, newPathData: Partial<Path>) => {
-    setPaths(paths.map(p => p.id === id ? { ...p, ...newPathData } : p));
+    const manual = newPathData.points && newPathData.routed === undefined ? { routed: false } : {};
+    setPaths(paths.map(p => p.id === id ? { ...p, ...newPathData, ...manual } : p));
   };
 
+  // Links through an obstacle that changed are rerouted in the same update.
   const updatePolygonArea = (id: string, newAreaData: Partial<PolygonArea>) => {
-    setPolygonAreas(prev => prev.map(a => a.id === id ? { ...a, ...newAreaData } : a));
+    const nextPolygonAreas = polygonAreas.map(a => a.id === id ? { ...a, ...newAreaData } : a);
+    setPolygonAreas(nextPolygonAreas);
+    const wasObstacle = polygonAreas.find(a => a.id === id)?.obstacle;
+    if (imageSize && (wasObstacle || newAreaData.obstacle)) {
+      const grid = buildObstacleGrid(imageSize, obstaclePolygons(nextPolygonAreas), maskCells);
+      setPaths(currentPaths => rerouteLinkedPaths(currentPaths, markers, grid));
+    }
+  };
+
+  const updateObstacleMask = (mask: ObstacleMask | null) => {
+    rerouteOnMaskRef.current = true;
+    setObstacleMask(mask);
+  };
+
+  // Routes one link, or every link when no id is given, around the obstacles
+  const routeLinkedPaths = (pathId?: string) => {
+    const next = rerouteLinkedPaths(
+      paths.map(p => (p.linkedMarkers && (!pathId || p.id === pathId) ? { ...p, routed: true } : p)),
+      markers,
+      obstacleGrid,
+    );
+    if (JSON.stringify(next) === JSON.stringify(paths)) return;
+    labelNextChange(pathId ? 'Route path around obstacles' : 'Reroute all links');
+    setPaths(next);
   };
 
   const updateArea = (id: string, newAreaData: Partial<Area>) => {
@@ -856,35 +1285,179 @@ const App: React.FC = () => {
     }));
   };
 
+  // Deletes everything selected in one update, so it is a single undo step.
+  // Links to deleted markers go with them.
   const deleteSelected = () => {
-    if (!selectedElement) return;
-    if (selectedElement.type === 'marker') {
-        const markerIdToDelete = selectedElement.id;
-        const updatedMarkers = markers.map(m => ({
-            ...m,
-            linkedMarkerIds: m.linkedMarkerIds?.filter(id => id !== markerIdToDelete)
-        }));
-        setMarkers(updatedMarkers.filter(m => m.id !== markerIdToDelete));
-        setPaths(paths.filter(p => p.linkedMarkers?.startId !== markerIdToDelete && p.linkedMarkers?.endId !== markerIdToDelete));
-    } else if (selectedElement.type === 'path') {
-        const pathToDelete = paths.find(p => p.id === selectedElement.id);
-        if (pathToDelete?.linkedMarkers) {
-          const fromMarker = markers.find(m => m.id === pathToDelete.linkedMarkers.startId);
-          if(fromMarker) {
-            updateMarker(fromMarker.id, {
-              linkedMarkerIds: fromMarker.linkedMarkerIds?.filter(id => id !== pathToDelete.linkedMarkers.endId)
-            });
-          }
-        }
-        setPaths(paths.filter(p => p.id !== selectedElement.id));
-    } else if (selectedElement.type === 'area') {
-        setAreas(areas.filter(a => a.id !== selectedElement.id));
-    } else {
-        setPolygonAreas(polygonAreas.filter(a => a.id !== selectedElement.id));
+    if (!selection.length) return;
+    const selectedIds = (type: ElementType) => new Set<string>(selection.filter(s => s.type === type).map(s => s.id));
+    const markerIds = selectedIds('marker');
+    const pathIds = selectedIds('path');
+    const areaIds = selectedIds('area');
+    const polygonAreaIds = selectedIds('polygonArea');
+
+    const removedLinks = paths.filter(p => pathIds.has(p.id) && p.linkedMarkers).map(p => p.linkedMarkers!);
+    const remainingPaths = paths.filter(p => !pathIds.has(p.id)
+      && !(p.linkedMarkers && (markerIds.has(p.linkedMarkers.startId) || markerIds.has(p.linkedMarkers.endId))));
+    const remainingPolygonAreas = polygonAreas.filter(a => !polygonAreaIds.has(a.id));
+    const obstacleRemoved = polygonAreas.some(a => polygonAreaIds.has(a.id) && a.obstacle);
+
+    if (selection.length > 1) labelNextChange(`Delete ${selection.length} elements`);
+    setMarkers(markers
+      .filter(m => !markerIds.has(m.id))
+      .map(m => ({
+        ...m,
+        linkedMarkerIds: m.linkedMarkerIds?.filter(id => (
+          !markerIds.has(id) && !removedLinks.some(link => link.startId === m.id && link.endId === id)
+        )),
+      })));
+    setPaths(obstacleRemoved && imageSize
+      ? rerouteLinkedPaths(remainingPaths, markers, buildObstacleGrid(imageSize, obstaclePolygons(remainingPolygonAreas), maskCells))
+      : remainingPaths);
+    setAreas(areas.filter(a => !areaIds.has(a.id)));
+    setPolygonAreas(remainingPolygonAreas);
+    setSelection([]);
+  };
+
+  // Shift+click toggles an element in the selection instead of replacing it
+  const selectElement = (element: ElementRef | null, additive = false) => {
+    if (!additive || !element) {
+      setSelectedElement(element);
+      return;
+    }
+    setSelection(prev => (prev.some(s => isSameElement(s, element))
+      ? prev.filter(s => !isSameElement(s, element))
+      : [...prev, element]));
+  };
+
+  const selectElements = (elements: ElementRef[], additive: boolean) => {
+    setSelection(prev => (additive ? [...prev, ...elements.filter(e => !prev.some(s => isSameElement(s, e)))] : elements));
+  };
+
+  const isOnLockedLayer = (ref: ElementRef) => {
+    const element = findElement({ markers, paths, areas, polygonAreas }, ref);
+    return !!element && !!layers.find(l => l.id === element.layerId)?.locked;
+  };
+
+  // Selected elements that group moves may touch: not on a locked layer, and
+  // not a linked path, which follows its markers instead.
+  const movableSelection = () => selection.filter(ref => (
+    !isOnLockedLayer(ref) && !(ref.type === 'path' && paths.find(p => p.id === ref.id)?.linkedMarkers)
+  ));
+
+  // Moves elements by per-element offsets (keyed by elementKey) in one update
+  const applyOffsets = (offsets: Map<string, Point>, label: string) => {
+    if (!offsets.size) return;
+    labelNextChange(label);
+    const moved = translateElements({ markers, paths, areas, polygonAreas }, offsets, imageSize || undefined);
+    const movedMarkerIds = new Set<string>(markers.filter(m => offsets.has(elementKey({ type: 'marker', id: m.id }))).map(m => m.id));
+    const obstacleMoved = polygonAreas.some(a => a.obstacle && offsets.has(elementKey({ type: 'polygonArea', id: a.id })));
+    const grid = obstacleMoved && imageSize
+      ? buildObstacleGrid(imageSize, obstaclePolygons(moved.polygonAreas), maskCells)
+      : obstacleGrid;
+
+    setMarkers(moved.markers);
+    setPaths(rerouteLinkedPaths(moved.paths, moved.markers, grid, obstacleMoved ? undefined : movedMarkerIds));
+    setAreas(moved.areas);
+    setPolygonAreas(moved.polygonAreas);
+  };
+
+  const moveSelection = (offset: Point) => {
+    const refs = movableSelection();
+    applyOffsets(new Map<string, Point>(refs.map(ref => [elementKey(ref), offset])), `Move ${refs.length} elements`);
+  };
+
+  const alignSelection = (mode: AlignMode) => {
+    applyOffsets(alignOffsets({ markers, paths, areas, polygonAreas }, movableSelection(), mode), `Align elements ${mode}`);
+  };
+
+  const distributeSelection = (axis: DistributeAxis) => {
+    applyOffsets(distributeOffsets({ markers, paths, areas, polygonAreas }, movableSelection(), axis), `Distribute elements ${axis}ly`);
+  };
+
+  // Colour applies to every selected element; status and area to markers only
+  const updateSelection = (data: SelectionUpdate) => {
+    const isSelected = (type: ElementType, id: string) => selection.some(s => s.type === type && s.id === id);
+    labelNextChange(`Edit ${selection.length} elements`);
+    setMarkers(markers.map(m => (isSelected('marker', m.id) ? { ...m, ...data } : m)));
+    if (data.color) {
+      const color = data.color;
+      setPaths(paths.map(p => (isSelected('path', p.id) ? { ...p, color } : p)));
+      setAreas(areas.map(a => (isSelected('area', a.id) ? { ...a, color } : a)));
+      setPolygonAreas(polygonAreas.map(a => (isSelected('polygonArea', a.id) ? { ...a, color } : a)));
     }
-    setSelectedElement(null);
   };
   
+  const addLayer = () => {
+    const layer = createLayer(`Layer ${layers.length + 1}`);
+    setLayers(prev => [...prev, layer]);
+    setActiveLayerId(layer.id);
+  };
+
+  const updateLayer = (id: string, newLayerData: Partial<Layer>) => {
+    setLayers(prev => prev.map(l => l.id === id ? { ...l, ...newLayerData } : l));
+  };
+
+  // Layers are listed bottom first, so moving "up" means a higher index.
+  const moveLayer = (id: string, direction: 1 | -1) => {
+    setLayers(prev => {
+      const index = prev.findIndex(l => l.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addSymbol = (symbol: MapSymbol) => {
+    setSymbols(prev => [...prev, symbol]);
+  };
+
+  const addIconSymbol = async (file: File) => {
+    try {
+      addSymbol(await readIconFile(file));
+    } catch (error) {
+      console.error("Failed to read icon:", error);
+      alert(error instanceof Error ? error.message : "Could not read the icon file.");
+    }
+  };
+
+  const updateSymbol = (id: string, newSymbolData: Partial<MapSymbol>) => {
+    setSymbols(prev => prev.map(s => s.id === id ? { ...s, ...newSymbolData } : s));
+  };
+
+  // Markers using a deleted symbol go back to the classic marker.
+  const deleteSymbol = (id: string) => {
+    const symbol = symbols.find(s => s.id === id);
+    if (!symbol) return;
+    labelNextChange(`Delete symbol "${symbol.name}"`);
+    setSymbols(symbols.filter(s => s.id !== id));
+    setMarkers(markers.map(m => (
+      m.symbolId === id ? { ...m, symbolId: undefined, symbolSize: undefined, symbolRotation: undefined } : m
+    )));
+  };
+
+  // Deleting a layer deletes everything on it, including links to its markers.
+  const deleteLayer = (id: string) => {
+    if (layers.length <= 1) return;
+    const removedMarkerIds = new Set(markers.filter(m => m.layerId === id).map(m => m.id));
+    setLayers(layers.filter(l => l.id !== id));
+    setMarkers(markers
+      .filter(m => m.layerId !== id)
+      .map(m => ({ ...m, linkedMarkerIds: m.linkedMarkerIds?.filter(linkedId => !removedMarkerIds.has(linkedId)) })));
+    setPaths(paths.filter(p => (
+      p.layerId !== id
+      && !(p.linkedMarkers && (removedMarkerIds.has(p.linkedMarkers.startId) || removedMarkerIds.has(p.linkedMarkers.endId)))
+    )));
+    setAreas(areas.filter(a => a.layerId !== id));
+    setPolygonAreas(polygonAreas.filter(a => a.layerId !== id));
+    setExportLayerFilters(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    setSelectedElement(null);
+  };
+
   const handleStartLinking = (fromMarkerId: string) => {
     setLinkingState({ fromMarkerId });
     setActiveTool('select');
@@ -913,26 +1486,141 @@ const App: React.FC = () => {
             return;
         }
 
-        const newPath: Path = {
-            id: `path-${fromMarkerId}-${toMarkerId}-${Date.now()}`,
-            points: [fromMarker.position, toMarker.position],
-            linkedMarkers: { startId: fromMarkerId, endId: toMarkerId },
-            color: fromMarker.color // Inherit color from starting marker by default
-        };
+        const newPath = createLinkedPath(fromMarker, toMarker, obstacleGrid);
         
         const newMarkers = markers.map(m => m.id === fromMarkerId ? {
             ...m,
             linkedMarkerIds: [...(m.linkedMarkerIds || []), toMarkerId]
         } : m);
         
+        labelNextChange(`Link marker ${fromMarker.number || fromMarker.name} to ${toMarker.number || toMarker.name}`);
         setMarkers(newMarkers);
         setPaths([...paths, newPath]);
     }
     setLinkingState(null);
   };
 
+  // Visits the markers passing the current filters in a short order: their
+  // links to each other are replaced by one linked path per leg, and their
+  // numbers follow the visiting order, after the numbers other markers use.
+  const handleOptimizeRoute = (options: RouteOptions): number | null => {
+    const stops = routeMarkers;
+    if (stops.length < 2) return null;
+    const routeIds = new Set<string>(stops.map(m => m.id));
+    const usedNumbers = markers.filter(m => !routeIds.has(m.id) && m.number).map(m => m.number!);
+    const clashes = usedNumbers.some(n => /^\d+$/.test(n) && Number(n) >= 1 && Number(n) <= stops.length);
+    const firstNumber = clashes ? Math.max(...usedNumbers.filter(n => /^\d+$/.test(n)).map(Number)) + 1 : 1;
+    const numbering = firstNumber === 1
+      ? `renumber them 1 to ${stops.length}`
+      : `number them ${firstNumber} to ${firstNumber + stops.length - 1}, after the markers outside the route`;
+    if (!window.confirm(`Reorder ${stops.length} markers and ${numbering}? Existing links between them will be replaced.`)) return null;
+
+    const { order, length } = optimizeRoute(stops.map(m => ({ id: m.id, position: m.position })), options);
+    const legs = order.slice(1).map((id, i) => [order[i], id]);
+    if (options.returnToStart && order.length > 2) legs.push([order[order.length - 1], order[0]]);
+
+    const inRoute = new Set(order);
+    const byId = new Map<string, Marker>(markers.map(m => [m.id, m]));
+    const sequence = new Map<string, string>(order.map((id, i) => [id, `${firstNumber + i}`]));
+    const nextStop = new Map<string, string>(legs.map(([fromId, toId]) => [fromId, toId]));
+    const suffix = Date.now();
+
+    labelNextChange(`Optimize route of ${order.length} markers`);
+    setMarkers(markers.map(m => {
+      if (!inRoute.has(m.id)) return m;
+      const otherLinks = (m.linkedMarkerIds || []).filter(id => !inRoute.has(id));
+      const next = nextStop.get(m.id);
+      return { ...m, number: sequence.get(m.id), linkedMarkerIds: next ? [...otherLinks, next] : otherLinks };
+    }));
+    setPaths([
+      ...paths.filter(p => !(p.linkedMarkers && inRoute.has(p.linkedMarkers.startId) && inRoute.has(p.linkedMarkers.endId))),
+      ...legs.map(([fromId, toId]) => createLinkedPath(byId.get(fromId)!, byId.get(toId)!, obstacleGrid, suffix)),
+    ]);
+    setSelectedElement(null);
+    return length;
+  };
+
+  const copySelection = () => {
+    const payload = copyElements({ markers, paths, areas, polygonAreas }, selection, symbols);
+    if (!payload) return;
+    const text = JSON.stringify(payload);
+    clipboardRef.current = { text, pasteCount: 0 };
+    navigator.clipboard?.writeText(text).catch(error => {
+      console.error("Failed to write to clipboard:", error);
+    });
+  };
+
+  // Adds copies of the payload to the active layer in one update and selects them
+  const pasteElements = (payload: ClipboardPayload, offset: Point) => {
+    if (!drawingLayer) {
+      alert("Select a visible, unlocked layer to paste into.");
+      return;
+    }
+    const pasted = instantiateElements(payload, { layerId: drawingLayer.id, offset, imageSize: imageSize || undefined });
+    // Symbols come along from another plan; markers whose symbol is missing fall back to the classic marker
+    const symbolIds = new Set<string>(symbols.map(s => s.id));
+    const addedSymbols = (payload.symbols ?? []).filter(s => !symbolIds.has(s.id));
+    addedSymbols.forEach(s => symbolIds.add(s.id));
+    const pastedMarkers = pasted.markers.map(m => (m.symbolId && !symbolIds.has(m.symbolId) ? { ...m, symbolId: undefined } : m));
+    const nextMarkers = [...markers, ...pastedMarkers];
+    const count = pasted.markers.length + pasted.paths.length + pasted.areas.length + pasted.polygonAreas.length;
+    labelNextChange(`Paste ${count} element${count === 1 ? '' : 's'}`);
+    if (addedSymbols.length) setSymbols(prev => [...prev, ...addedSymbols.filter(s => !prev.some(p => p.id === s.id))]);
+    setMarkers(nextMarkers);
+    setPaths([...paths, ...rerouteLinkedPaths(pasted.paths, nextMarkers, obstacleGrid)]);
+    setAreas([...areas, ...pasted.areas]);
+    setPolygonAreas([...polygonAreas, ...pasted.polygonAreas]);
+    setSelection([
+      ...pasted.markers.map(m => ({ type: 'marker' as const, id: m.id })),
+      ...pasted.paths.map(p => ({ type: 'path' as const, id: p.id })),
+      ...pasted.areas.map(a => ({ type: 'area' as const, id: a.id })),
+      ...pasted.polygonAreas.map(a => ({ type: 'polygonArea' as const, id: a.id })),
+    ]);
+  };
+
+  const pasteText = (text: string) => {
+    let payload: ClipboardPayload | null;
+    try {
+      payload = parseClipboard(text);
+    } catch (error) {
+      console.error("Failed to paste elements:", error);
+      if (error instanceof PlanImportError) {
+        alert(error.issues.length ? `${error.message}\n\n${formatIssues(error.issues)}` : error.message);
+      } else {
+        alert("Could not paste the copied elements.");
+      }
+      return;
+    }
+    if (!payload) return;
+    // Pasting the same content again moves each copy a step further
+    const pasteCount = clipboardRef.current?.text === text ? clipboardRef.current.pasteCount + 1 : 1;
+    clipboardRef.current = { text, pasteCount };
+    pasteElements(payload, { x: PASTE_OFFSET * pasteCount, y: PASTE_OFFSET * pasteCount });
+  };
+
+  const handlePaste = () => {
+    const fallback = () => {
+      if (clipboardRef.current) pasteText(clipboardRef.current.text);
+    };
+    if (!navigator.clipboard?.readText) {
+      fallback();
+      return;
+    }
+    navigator.clipboard.readText().then(pasteText, error => {
+      console.error("Failed to read clipboard:", error);
+      fallback();
+    });
+  };
+
+  const duplicateSelection = () => {
+    const payload = copyElements({ markers, paths, areas, polygonAreas }, selection, symbols);
+    if (payload) pasteElements(payload, { x: PASTE_OFFSET, y: PASTE_OFFSET });
+  };
+
   const handleRemoveLink = (fromMarkerId: string, toMarkerId: string) => {
       const fromMarker = markers.find(m => m.id === fromMarkerId);
+      const toMarker = markers.find(m => m.id === toMarkerId);
+      if (fromMarker && toMarker) labelNextChange(`Unlink marker ${fromMarker.number || fromMarker.name} from ${toMarker.number || toMarker.name}`);
       if (fromMarker) {
           updateMarker(fromMarkerId, {
               linkedMarkerIds: fromMarker.linkedMarkerIds?.filter(id => id !== toMarkerId)
@@ -949,6 +1637,7 @@ const App: React.FC = () => {
             setDrawingArea(null);
             setDrawingPolygonAreaId(null);
             setSelectedElement(null);
+            setActiveTool(tool => (tool === 'calibrate' || tool === 'georeference' ? 'select' : tool));
         }
         if (e.key === 'Enter') {
           setDrawingArea(null);
@@ -975,6 +1664,34 @@ const App: React.FC = () => {
         return;
       }
 
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'c') {
+        if (selection.length) {
+          e.preventDefault();
+          copySelection();
+        }
+        return;
+      }
+
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'v') {
+        e.preventDefault();
+        handlePaste();
+        return;
+      }
+
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        duplicateSelection();
+        return;
+      }
+
+      // Shift+1 fits the whole map, Shift+2 the selection
+      if (e.shiftKey && !e.ctrlKey && !e.metaKey && (e.code === 'Digit1' || e.code === 'Digit2')) {
+        e.preventDefault();
+        if (e.code === 'Digit1') zoomToFit();
+        else zoomToSelection();
+        return;
+      }
+
       if (e.key === 'Delete' || e.key === 'Backspace') {
         e.preventDefault();
         deleteSelected();
@@ -987,9 +1704,12 @@ const App: React.FC = () => {
       window.removeEventListener('keyup', handleKeyUp);
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [selectedElement, markers, paths, areas, polygonAreas]);
+  }, [selection, markers, paths, areas, polygonAreas, symbols, layers, activeLayerId, imageSize, viewportSize, obstacleGrid, maskCells]);
+
+  // Memoized so view changes (every pan and zoom frame) hand the map the same lists
+  const filteredMarkers: Marker[] = useMemo(() => markers.filter(marker => {
+    if (!visibleLayerIds.has(marker.layerId)) return false;
 
-  const filteredMarkers = markers.filter(marker => {
     const color = marker.color || '#10b981';
     if (colorFilters[color] === false) return false;
     
@@ -1000,28 +1720,37 @@ const App: React.FC = () => {
     if (number && numberFilters[number] === false) return false;
     
     return true;
-  });
-
-  const visibleMarkerIds = new Set(filteredMarkers.map(m => m.id));
-
-  const filteredPaths = paths.filter(path => {
-    if (!path.linkedMarkers) {
-      return true;
-    }
-    return visibleMarkerIds.has(path.linkedMarkers.startId) && visibleMarkerIds.has(path.linkedMarkers.endId);
-  });
+  }), [markers, visibleLayerIds, colorFilters, areaFilters, numberFilters]);
+
+  const filteredPaths: Path[] = useMemo(() => {
+    const visibleMarkerIds = new Set<string>(filteredMarkers.map(m => m.id));
+    return paths.filter(path => {
+      if (!visibleLayerIds.has(path.layerId)) return false;
+      if (!path.linkedMarkers) {
+        return true;
+      }
+      return visibleMarkerIds.has(path.linkedMarkers.startId) && visibleMarkerIds.has(path.linkedMarkers.endId);
+    });
+  }, [paths, filteredMarkers, visibleLayerIds]);
 
-  const filteredAreas = areas.filter(area => {
+  const filteredAreas: Area[] = useMemo(() => areas.filter(area => {
+    if (!visibleLayerIds.has(area.layerId)) return false;
     const number = area.number || '';
     if (number && drawAreaFilters[number] === false) return false;
     return true;
-  });
+  }), [areas, visibleLayerIds, drawAreaFilters]);
 
-  const filteredPolygonAreas = polygonAreas.filter(area => {
+  const filteredPolygonAreas: PolygonArea[] = useMemo(() => polygonAreas.filter(area => {
+    if (!visibleLayerIds.has(area.layerId)) return false;
     const number = area.number || '';
     if (number && drawAreaFilters[number] === false) return false;
     return true;
-  });
+  }), [polygonAreas, visibleLayerIds, drawAreaFilters]);
+
+  // The route visits the selected markers when two or more are selected, otherwise the filtered ones
+  const selectedMarkerIds = new Set<string>(selection.filter(ref => ref.type === 'marker').map(ref => ref.id));
+  const routeFromSelection = selectedMarkerIds.size >= 2;
+  const routeMarkers = routeFromSelection ? markers.filter(m => selectedMarkerIds.has(m.id)) : filteredMarkers;
 
   return (
     <div className="flex h-screen w-screen bg-gray-800 font-sans">
@@ -1029,21 +1758,69 @@ const App: React.FC = () => {
         activeTool={activeTool}
         setActiveTool={setActiveTool}
         onFileUpload={handleFileUpload}
+        plans={planSummaries}
+        currentPlanId={currentPlanId}
+        onOpenPlan={openPlan}
+        onRenamePlan={handleRenamePlan}
+        onDuplicatePlan={handleDuplicatePlan}
+        onDeletePlan={handleDeletePlan}
         collapsed={sidebarCollapsed}
         setCollapsed={setSidebarCollapsed}
         onResetWorkspace={handleResetWorkspace}
         onUndo={handleUndo}
         onRedo={handleRedo}
-        canUndo={historyIndex > 0}
-        canRedo={historyIndex >= 0 && historyIndex < history.length - 1}
+        canUndo={history.index > 0}
+        canRedo={history.index < history.entries.length}
+        history={history}
+        onJumpToHistory={jumpToHistory}
         onExportPlan={handleExportPlan}
-        onExportPng={handleExportPng}
-        onExportLua={handleExportLua}
+        onExportImage={handleOpenImageExport}
+        onExportSvg={handleExportSvg}
+        onExportPdf={handleOpenPdfExport}
+        textExporters={textExporters}
+        onExportText={handleExportText}
+        onExportLua={() => setLuaDialogOpen(true)}
+        onManageTemplates={() => setTemplatesOpen(true)}
+        onImportFile={handleImportFile}
+        onOpenSheets={() => setSheetDialogOpen(true)}
         selectedElement={selectedElement}
+        selection={selection}
+        lockedSelectionCount={selection.filter(isOnLockedLayer).length}
+        onUpdateSelection={updateSelection}
+        onAlignSelection={alignSelection}
+        onDistributeSelection={distributeSelection}
         markers={markers}
         paths={paths}
         areas={areas}
         polygonAreas={polygonAreas}
+        calibration={calibration}
+        onCalibrationChange={setCalibration}
+        georeference={georeference}
+        onGeoreferenceChange={handleGeoreferenceChange}
+        obstacleMask={obstacleMask}
+        onObstacleMaskChange={updateObstacleMask}
+        gridSettings={gridSettings}
+        onGridSettingsChange={setGridSettings}
+        overlays={overlays}
+        onOverlaysChange={setOverlays}
+        onRouteLinkedPaths={routeLinkedPaths}
+        routeMarkers={routeMarkers}
+        routeFromSelection={routeFromSelection}
+        onOptimizeRoute={handleOptimizeRoute}
+        layers={layers}
+        activeLayerId={activeLayerId}
+        setActiveLayerId={setActiveLayerId}
+        onAddLayer={addLayer}
+        onUpdateLayer={updateLayer}
+        onMoveLayer={moveLayer}
+        onDeleteLayer={deleteLayer}
+        symbols={symbols}
+        onAddSymbol={addSymbol}
+        onAddIconSymbol={addIconSymbol}
+        onUpdateSymbol={updateSymbol}
+        onDeleteSymbol={deleteSymbol}
+        exportLayerFilters={exportLayerFilters}
+        setExportLayerFilters={setExportLayerFilters}
         updateMarker={updateMarker}
         updatePath={updatePath}
         updateArea={updateArea}
@@ -1053,8 +1830,14 @@ const App: React.FC = () => {
         onStartLinking={handleStartLinking}
         onRemoveLink={handleRemoveLink}
         onCancelLinking={handleCancelLinking}
-        zoom={zoom}
-        setZoom={setZoom}
+        zoom={view.zoom}
+        onZoomIn={() => zoomBy(ZOOM_STEP)}
+        onZoomOut={() => zoomBy(1 / ZOOM_STEP)}
+        onResetZoom={() => zoomBy(1 / view.zoom)}
+        onZoomToFit={zoomToFit}
+        onZoomToSelection={zoomToSelection}
+        clusterZoom={clusterZoom}
+        setClusterZoom={setClusterZoom}
         markerSize={markerSize}
         setMarkerSize={setMarkerSize}
         labelSize={labelSize}
@@ -1072,17 +1855,18 @@ const App: React.FC = () => {
         drawAreaFilters={drawAreaFilters}
         setDrawAreaFilters={setDrawAreaFilters}
       />
-      <main className="flex-1 p-4 bg-gray-900 overflow-hidden">
+      <main className="relative flex-1 p-4 bg-gray-900 overflow-hidden">
         {image ? (
           <MapEditor
             imageSrc={image}
             imageSize={imageSize}
+            layers={layers}
             markers={filteredMarkers}
             paths={filteredPaths}
             areas={filteredAreas}
             polygonAreas={filteredPolygonAreas}
             activeTool={activeTool}
-            selectedElement={selectedElement}
+            selection={selection}
             onAddMarker={addMarker}
             onAddPathPoint={addPathPoint}
             onAddAreaPoint={addAreaPoint}
@@ -1091,26 +1875,88 @@ const App: React.FC = () => {
             onUpdatePath={updatePath}
             onUpdateArea={updateArea}
             onUpdatePolygonArea={updatePolygonArea}
-            onSelectElement={setSelectedElement}
+            onSelectElement={selectElement}
+            onSelectElements={selectElements}
+            onMoveSelection={moveSelection}
             linkingState={linkingState}
             onLinkMarkers={handleLinkMarkers}
             onInsertPathPoint={insertPathPoint}
             drawingArea={drawingArea}
             drawingPolygonAreaId={drawingPolygonAreaId}
-            zoom={zoom}
+            calibrationPoints={calibrationPoints}
+            onAddCalibrationPoint={addCalibrationPoint}
+            onAddControlPoint={addControlPoint}
+            tileSet={tileSet}
+            view={view}
+            onViewChange={setView}
+            onViewportResize={setViewportSize}
+            grid={gridSettings}
+            symbols={symbols}
+            overlays={overlays}
+            calibration={calibration}
+            georeference={georeference}
+            clusterZoom={clusterZoom}
             markerSize={markerSize}
             labelSize={labelSize}
             showMarkerLabels={showMarkerLabels}
             showAreaLabels={showAreaLabels}
-            onZoomChange={setZoom}
           />
         ) : (
           <div className="text-center text-gray-400">
             <h2 className="text-2xl font-bold">Welcome to the Map Planner</h2>
-            <p className="mt-2">Please upload a map image or a .json plan file to begin.</p>
+            <p className="mt-2">Open a plan from the library, or upload a map image or plan file to begin.</p>
+          </div>
+        )}
+        {(tileProgress !== null || exportProgress !== null) && (
+          <div className="absolute top-6 left-1/2 -translate-x-1/2 bg-gray-800/90 border border-gray-600 rounded-md shadow-lg px-4 py-2 text-sm text-gray-200 space-y-1 pointer-events-none">
+            {tileProgress !== null && <p>Preparing map tiles... {Math.round(tileProgress * 100)}%</p>}
+            {exportProgress !== null && <p>Exporting... {Math.round(exportProgress * 100)}%</p>}
           </div>
         )}
       </main>
+      {importReport && (
+        <ImportReportDialog report={importReport} onClose={() => setImportReport(null)} />
+      )}
+      {imageDialogOpen && imageSize && (
+        <ImageExportDialog
+          imageSize={imageSize}
+          visible={viewportSize && visibleBounds(view, viewportSize)}
+          areas={exportAreaChoices()}
+          initialArea={selectedElement && (selectedElement.type === 'area' || selectedElement.type === 'polygonArea') ? elementKey(selectedElement) : null}
+          onExport={handleExportImage}
+          onClose={() => setImageDialogOpen(false)}
+        />
+      )}
+      {templatesOpen && (
+        <TemplatesDialog
+          templates={templates}
+          model={currentExportModel()}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+          onClose={() => setTemplatesOpen(false)}
+        />
+      )}
+      {luaDialogOpen && (
+        <LuaExportDialog onExport={handleExportLua} onClose={() => setLuaDialogOpen(false)} />
+      )}
+      {sheetDialogOpen && (
+        <SheetExportDialog
+          counts={{ markers: markers.length, areas: areas.length, polygonAreas: polygonAreas.length }}
+          onExport={handleExportSheet}
+          onClose={() => setSheetDialogOpen(false)}
+        />
+      )}
+      {sheetImport && (
+        <SheetImportDialog
+          fileName={sheetImport.fileName}
+          diff={sheetImport.diff}
+          onApply={applySheetImport}
+          onClose={() => setSheetImport(null)}
+        />
+      )}
+      {pdfDialogOpen && imageSize && (
+        <PdfExportDialog imageSize={imageSize} onExport={handleExportPdf} onClose={() => setPdfDialogOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,119 @@
+
+import React from 'react';
+import { Calibration } from '../types.ts';
+import { formatNumber } from '../services/units.ts';
+
+interface CalibrationPanelProps {
+  calibration: Calibration | null;
+  onChange: (calibration: Calibration | null) => void;
+  onStartCalibration: () => void;
+  calibrating: boolean;
+}
+
+const inputClass = 'mt-1 w-full bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500';
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  calibration,
+  onChange,
+  onStartCalibration,
+  calibrating,
+}) => {
+  const readNumber = (value: string, fallback: number) => {
+    const n = Number(value);
+    return Number.isFinite(n) ? n : fallback;
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {calibrating ? (
+        <p className="text-xs text-sky-300">Click two points on the map whose real distance you know. <span className="font-semibold">Esc</span> cancels.</p>
+      ) : calibration ? (
+        <p className="text-xs text-gray-400">1 px = {formatNumber(calibration.scale)} {calibration.unit}</p>
+      ) : (
+        <p className="text-xs text-gray-500">Not calibrated. Measurements are shown in pixels.</p>
+      )}
+
+      {calibration && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor="calibration-unit" className="block text-xs font-medium text-gray-400">Unit</label>
+            <input
+              type="text"
+              id="calibration-unit"
+              value={calibration.unit}
+              onChange={(e) => onChange({ ...calibration, unit: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="calibration-scale" className="block text-xs font-medium text-gray-400">Units per px</label>
+            <input
+              type="number"
+              id="calibration-scale"
+              min={0}
+              step="any"
+              value={calibration.scale}
+              onChange={(e) => {
+                const scale = Number(e.target.value);
+                if (Number.isFinite(scale) && scale > 0) onChange({ ...calibration, scale });
+              }}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="calibration-origin-x" className="block text-xs font-medium text-gray-400">Origin X (px)</label>
+            <input
+              type="number"
+              id="calibration-origin-x"
+              step={1}
+              value={calibration.origin?.x ?? 0}
+              onChange={(e) => onChange({ ...calibration, origin: { x: readNumber(e.target.value, 0), y: calibration.origin?.y ?? 0 } })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="calibration-origin-y" className="block text-xs font-medium text-gray-400">Origin Y (px)</label>
+            <input
+              type="number"
+              id="calibration-origin-y"
+              step={1}
+              value={calibration.origin?.y ?? 0}
+              onChange={(e) => onChange({ ...calibration, origin: { x: calibration.origin?.x ?? 0, y: readNumber(e.target.value, 0) } })}
+              className={inputClass}
+            />
+          </div>
+          <div className="col-span-2">
+            <label htmlFor="calibration-rotation" className="block text-xs font-medium text-gray-400">Rotation (degrees)</label>
+            <input
+              type="number"
+              id="calibration-rotation"
+              step="any"
+              value={calibration.rotation ?? 0}
+              onChange={(e) => onChange({ ...calibration, rotation: readNumber(e.target.value, 0) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          onClick={onStartCalibration}
+          className="flex-1 border border-gray-500 hover:border-gray-400 text-gray-400 hover:text-white py-1 px-2 rounded-md transition-colors"
+        >
+          {calibration ? 'Recalibrate' : 'Calibrate'}
+        </button>
+        {calibration && (
+          <button
+            onClick={() => {
+              if (window.confirm('Remove the calibration? Measurements will be shown in pixels.')) onChange(null);
+            }}
+            className="border border-gray-500 hover:border-red-400 text-gray-400 hover:text-red-300 py-1 px-2 rounded-md transition-colors"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
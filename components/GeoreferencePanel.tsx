@@ -0,0 +1,157 @@
+import React from 'react';
+import { ControlPoint, Georeference } from '../types.ts';
+import { MIN_CONTROL_POINTS, controlPointResiduals, createGeoreference, residualUnit, rootMeanSquare } from '../services/georeference.ts';
+import { formatNumber } from '../services/units.ts';
+
+interface GeoreferencePanelProps {
+  georeference: Georeference | null;
+  onChange: (georeference: Georeference | null) => void;
+  // Clicking the map places control points while this is on
+  placing: boolean;
+  onTogglePlacing: () => void;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-xs focus:ring-sky-500 focus:border-sky-500';
+
+export const GeoreferencePanel: React.FC<GeoreferencePanelProps> = ({ georeference, onChange, placing, onTogglePlacing }) => {
+  const current = georeference ?? createGeoreference();
+  const residuals = georeference && controlPointResiduals(georeference);
+  const needed = MIN_CONTROL_POINTS[current.method];
+  const unit = residualUnit(current);
+  const lonLat = current.system === 'lonlat';
+
+  const updatePoint = (id: string, world: Partial<ControlPoint['world']>) => {
+    onChange({ ...current, controlPoints: current.controlPoints.map(p => (p.id === id ? { ...p, world: { ...p.world, ...world } } : p)) });
+  };
+
+  const readNumber = (value: string) => {
+    const n = Number(value);
+    return value.trim() !== '' && Number.isFinite(n) ? n : null;
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      {placing ? (
+        <p className="text-xs text-sky-300">Click a point on the map whose real position you know. <span className="font-semibold">Esc</span> stops.</p>
+      ) : residuals ? (
+        <p className="text-xs text-gray-400">
+          Fitted to {current.controlPoints.length} points; RMS error {formatNumber(rootMeanSquare(residuals.map(r => r.world)))} {unit}
+          {' '}({formatNumber(rootMeanSquare(residuals.map(r => r.pixel)))} px).
+        </p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          {current.controlPoints.length
+            ? `${current.controlPoints.length} of at least ${needed} control points placed${current.controlPoints.length >= needed ? ', but they lie on a line' : ''}.`
+            : `Not georeferenced. Place at least ${needed} control points.`}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label htmlFor="georeference-system" className="block text-xs font-medium text-gray-400">Coordinates</label>
+          <select
+            id="georeference-system"
+            value={current.system}
+            onChange={(e) => onChange({ ...current, system: e.target.value as Georeference['system'] })}
+            className={`mt-1 ${inputClass}`}
+          >
+            <option value="lonlat">Latitude / longitude</option>
+            <option value="world">World X / Y</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="georeference-method" className="block text-xs font-medium text-gray-400">Transform</label>
+          <select
+            id="georeference-method"
+            value={current.method}
+            onChange={(e) => onChange({ ...current, method: e.target.value as Georeference['method'] })}
+            className={`mt-1 ${inputClass}`}
+          >
+            <option value="affine">Affine (3+ points)</option>
+            <option value="polynomial">Polynomial (6+ points)</option>
+          </select>
+        </div>
+        {!lonLat && (
+          <div className="col-span-2">
+            <label htmlFor="georeference-unit" className="block text-xs font-medium text-gray-400">Unit</label>
+            <input
+              type="text"
+              id="georeference-unit"
+              value={current.unit}
+              onChange={(e) => onChange({ ...current, unit: e.target.value })}
+              className={`mt-1 ${inputClass}`}
+            />
+          </div>
+        )}
+      </div>
+
+      {current.controlPoints.length > 0 && (
+        <table className="w-full text-xs text-gray-300">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium">#</th>
+              <th className="text-left font-medium">{lonLat ? 'Latitude' : 'X'}</th>
+              <th className="text-left font-medium">{lonLat ? 'Longitude' : 'Y'}</th>
+              <th className="text-right font-medium" title={`Residual error in ${unit}`}>Error</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {current.controlPoints.map((point, index) => {
+              // Latitude comes first, as maps and GPS apps show it
+              const [first, second] = lonLat ? (['y', 'x'] as const) : (['x', 'y'] as const);
+              return (
+                <tr key={point.id}>
+                  <td className="pr-1">{index + 1}</td>
+                  {[first, second].map(axis => (
+                    <td key={axis} className="pr-1 py-0.5">
+                      <input
+                        type="number"
+                        step="any"
+                        value={point.world[axis]}
+                        onChange={(e) => {
+                          const value = readNumber(e.target.value);
+                          if (value !== null) updatePoint(point.id, { [axis]: value });
+                        }}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                  <td className="text-right whitespace-nowrap">{residuals ? `${formatNumber(residuals[index].world)} ${unit}` : '-'}</td>
+                  <td className="text-right pl-1">
+                    <button
+                      onClick={() => onChange({ ...current, controlPoints: current.controlPoints.filter(p => p.id !== point.id) })}
+                      className="text-gray-400 hover:text-red-300"
+                      title="Remove control point"
+                    >
+                      &times;
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex space-x-2">
+        <button
+          onClick={onTogglePlacing}
+          className="flex-1 border border-gray-500 hover:border-gray-400 text-gray-400 hover:text-white py-1 px-2 rounded-md transition-colors"
+        >
+          {placing ? 'Done' : 'Place control points'}
+        </button>
+        {georeference && (
+          <button
+            onClick={() => {
+              if (window.confirm('Remove the georeference and its control points?')) onChange(null);
+            }}
+            className="border border-gray-500 hover:border-red-400 text-gray-400 hover:text-red-300 py-1 px-2 rounded-md transition-colors"
+          >
+            Remove
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+
+import React from 'react';
+import { GridSettings } from '../types.ts';
+
+interface GridPanelProps {
+  grid: GridSettings;
+  onChange: (grid: GridSettings) => void;
+}
+
+export const GridPanel: React.FC<GridPanelProps> = ({ grid, onChange }) => {
+  const update = (data: Partial<GridSettings>) => onChange({ ...grid, ...data });
+
+  return (
+    <div className="space-y-2 text-sm">
+      <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+        <input type="checkbox" checked={grid.visible} onChange={(e) => update({ visible: e.target.checked })} />
+        <span>Show grid</span>
+      </label>
+      <div className="flex items-center justify-between">
+        <label htmlFor="grid-size" className="text-xs font-medium text-gray-400">Spacing (px)</label>
+        <input
+          type="number"
+          id="grid-size"
+          min="1"
+          value={grid.size}
+          onChange={(e) => {
+            const size = Number(e.target.value);
+            if (Number.isFinite(size) && size > 0) update({ size });
+          }}
+          className="w-20 bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500"
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <label htmlFor="grid-color" className="text-xs font-medium text-gray-400">Grid color</label>
+        <input
+          type="color"
+          id="grid-color"
+          value={grid.color}
+          onChange={(e) => update({ color: e.target.value })}
+          className="w-8 h-8 p-1 bg-gray-800 border border-gray-600 rounded-md cursor-pointer"
+        />
+      </div>
+      <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+        <input type="checkbox" checked={grid.snapToGrid} onChange={(e) => update({ snapToGrid: e.target.checked })} />
+        <span>Snap to grid</span>
+      </label>
+      <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+        <input type="checkbox" checked={grid.snapToElements} onChange={(e) => update({ snapToElements: e.target.checked })} />
+        <span>Snap to markers, vertices, edges and area centers</span>
+      </label>
+      <p className="text-xs text-gray-400">Hold Alt while placing or dragging to turn snapping off.</p>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+
+import React from 'react';
+import { MAX_HISTORY_ENTRIES, PlanHistory } from '../services/history.ts';
+
+interface HistoryPanelProps {
+  history: PlanHistory;
+  // Undoes or redoes up to the given number of applied entries
+  onJump: (index: number) => void;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump }) => {
+  const rows = [
+    { label: 'Start of history', time: null as number | null, index: 0 },
+    ...history.entries.map((entry, i) => ({ label: entry.label, time: entry.time as number | null, index: i + 1 })),
+  ];
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-xs text-gray-400">
+        Click a step to undo or redo up to it. The last {MAX_HISTORY_ENTRIES} steps are saved with the plan.
+      </p>
+      <ul className="max-h-64 overflow-y-auto bg-gray-900 rounded-md p-1 space-y-0.5">
+        {rows.slice().reverse().map(row => {
+          const current = row.index === history.index;
+          const undone = row.index > history.index;
+          return (
+            <li key={row.index}>
+              <button
+                onClick={() => onJump(row.index)}
+                className={`w-full flex items-center justify-between text-left text-xs px-2 py-1 rounded transition-colors ${
+                  current ? 'bg-sky-600 text-white' : undone ? 'text-gray-500 hover:bg-gray-700' : 'text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                <span className={`truncate ${undone ? 'italic' : ''}`}>{row.label}</span>
+                {row.time !== null && <span className="ml-2 tabular-nums text-[10px] opacity-75">{formatTime(row.time)}</span>}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
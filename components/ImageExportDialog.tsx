@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { ImageSize } from '../services/geometry.ts';
+import { Bounds } from '../services/selection.ts';
+import { Region } from '../services/svgExport.ts';
+import {
+  ExportContents,
+  IMAGE_FORMATS,
+  ImageExportOptions,
+  ImageFormat,
+  MAX_EXPORT_SCALE,
+  MIN_EXPORT_SCALE,
+  exportOutputSize,
+  imageExportProblem,
+  regionAround,
+} from '../services/rasterExport.ts';
+
+export interface ExportAreaChoice {
+  // Element key of the area
+  key: string;
+  label: string;
+  bounds: Bounds;
+}
+
+interface ImageExportDialogProps {
+  imageSize: ImageSize;
+  // Part of the map the editor shows, when known
+  visible: Bounds | null;
+  areas: ExportAreaChoice[];
+  // Area picked when the dialog opens, usually the selected one
+  initialArea: string | null;
+  onExport: (options: ImageExportOptions) => void;
+  onClose: () => void;
+}
+
+type RegionChoice = 'map' | 'view' | 'custom' | string;
+type SizeMode = 'scale' | 'size';
+
+const inputClass = 'w-24 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500';
+const selectClass = 'bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500';
+
+const CONTENTS: { contents: ExportContents; label: string }[] = [
+  { contents: 'all', label: 'Map and annotations' },
+  { contents: 'map', label: 'Map only' },
+  { contents: 'annotations', label: 'Annotations only' },
+];
+
+// Remembered for the session, so repeated exports keep their settings
+let lastSettings = {
+  padding: 50,
+  sizeMode: 'scale' as SizeMode,
+  scale: 1,
+  contents: 'all' as ExportContents,
+  transparent: true,
+  format: 'png' as ImageFormat,
+  quality: 0.9,
+};
+
+export const ImageExportDialog: React.FC<ImageExportDialogProps> = ({ imageSize, visible, areas, initialArea, onExport, onClose }) => {
+  const [settings, setSettings] = useState(lastSettings);
+  const [choice, setChoice] = useState<RegionChoice>(initialArea ?? 'map');
+  const [custom, setCustom] = useState<Region>({ x: 0, y: 0, width: imageSize.width, height: imageSize.height });
+  const [target, setTarget] = useState<ImageSize>(imageSize);
+
+  const update = (data: Partial<typeof settings>) => setSettings({ ...settings, ...data });
+
+  const regionFor = (picked: RegionChoice): Region => {
+    if (picked === 'view' && visible) return regionAround(visible, 0, imageSize);
+    // A typed-in rectangle is cut to the image
+    if (picked === 'custom') {
+      return regionAround({ minX: custom.x, minY: custom.y, maxX: custom.x + custom.width, maxY: custom.y + custom.height }, 0, imageSize);
+    }
+    const area = areas.find(a => a.key === picked);
+    if (area) return regionAround(area.bounds, settings.padding, imageSize);
+    return { x: 0, y: 0, width: imageSize.width, height: imageSize.height };
+  };
+  const region = regionFor(choice);
+  // A target size fits the region inside it, keeping its proportions
+  const scale = settings.sizeMode === 'scale'
+    ? settings.scale
+    : Math.min(MAX_EXPORT_SCALE, Math.max(MIN_EXPORT_SCALE, Math.min(target.width / region.width, target.height / region.height)));
+  const options: ImageExportOptions = {
+    region,
+    scale,
+    contents: settings.contents,
+    transparent: settings.transparent,
+    format: settings.format,
+    quality: settings.quality,
+  };
+  const output = exportOutputSize(options);
+  const problem = imageExportProblem(options);
+
+  const handleChoice = (picked: RegionChoice) => {
+    // A custom rectangle starts from whatever was picked before
+    if (picked === 'custom') setCustom(region);
+    setChoice(picked);
+  };
+
+  const customField = (key: keyof Region, label: string, max: number) => (
+    <label className="flex items-center justify-between text-xs text-gray-400">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={key === 'width' || key === 'height' ? 1 : 0}
+        max={max}
+        value={custom[key]}
+        onChange={(e) => {
+          const value = Math.round(Number(e.target.value));
+          if (Number.isFinite(value)) setCustom({ ...custom, [key]: value });
+        }}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  const handleExport = () => {
+    if (problem) return;
+    lastSettings = settings;
+    onExport(options);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-md shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-sky-400">Export Image</h2>
+        </div>
+        <div className="p-4 overflow-y-auto space-y-3">
+          <div className="flex items-center justify-between">
+            <label htmlFor="image-region" className="text-sm text-gray-300">Region</label>
+            <select id="image-region" value={choice} onChange={(e) => handleChoice(e.target.value)} className={selectClass}>
+              <option value="map">Whole map</option>
+              {visible && <option value="view">Visible part</option>}
+              <option value="custom">Custom rectangle</option>
+              {areas.map(area => <option key={area.key} value={area.key}>{area.label}</option>)}
+            </select>
+          </div>
+          {choice === 'custom' && (
+            <div className="grid grid-cols-2 gap-2">
+              {customField('x', 'Left', imageSize.width - 1)}
+              {customField('y', 'Top', imageSize.height - 1)}
+              {customField('width', 'Width', imageSize.width)}
+              {customField('height', 'Height', imageSize.height)}
+            </div>
+          )}
+          {areas.some(area => area.key === choice) && (
+            <div className="flex items-center justify-between">
+              <label htmlFor="image-padding" className="text-sm text-gray-300">Padding (px)</label>
+              <input
+                type="number"
+                id="image-padding"
+                min={0}
+                value={settings.padding}
+                onChange={(e) => {
+                  const padding = Number(e.target.value);
+                  if (Number.isFinite(padding)) update({ padding: Math.max(0, padding) });
+                }}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <select
+              value={settings.sizeMode}
+              onChange={(e) => update({ sizeMode: e.target.value as SizeMode })}
+              className={selectClass}
+              title="How the output size is chosen"
+            >
+              <option value="scale">Scale</option>
+              <option value="size">Fit in size</option>
+            </select>
+            {settings.sizeMode === 'scale' ? (
+              <input
+                type="number"
+                min={MIN_EXPORT_SCALE}
+                max={MAX_EXPORT_SCALE}
+                step={0.25}
+                value={settings.scale}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  if (Number.isFinite(value)) update({ scale: Math.min(MAX_EXPORT_SCALE, Math.max(MIN_EXPORT_SCALE, value)) });
+                }}
+                className={inputClass}
+                title="Output pixels per map pixel"
+              />
+            ) : (
+              <div className="flex items-center space-x-1">
+                {(['width', 'height'] as const).map(key => (
+                  <input
+                    key={key}
+                    type="number"
+                    min={1}
+                    value={target[key]}
+                    onChange={(e) => {
+                      const value = Math.round(Number(e.target.value));
+                      if (Number.isFinite(value) && value > 0) setTarget({ ...target, [key]: value });
+                    }}
+                    className={inputClass}
+                    title={key === 'width' ? 'Largest width (px)' : 'Largest height (px)'}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label htmlFor="image-contents" className="text-sm text-gray-300">Contents</label>
+            <select
+              id="image-contents"
+              value={settings.contents}
+              onChange={(e) => update({ contents: e.target.value as ExportContents })}
+              className={selectClass}
+            >
+              {CONTENTS.map(c => <option key={c.contents} value={c.contents}>{c.label}</option>)}
+            </select>
+          </div>
+          {settings.contents === 'annotations' && settings.format !== 'jpeg' && (
+            <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+              <input type="checkbox" checked={settings.transparent} onChange={(e) => update({ transparent: e.target.checked })} />
+              <span>Transparent background</span>
+            </label>
+          )}
+
+          <div className="flex items-center justify-between">
+            <label htmlFor="image-format" className="text-sm text-gray-300">Format</label>
+            <select
+              id="image-format"
+              value={settings.format}
+              onChange={(e) => update({ format: e.target.value as ImageFormat })}
+              className={selectClass}
+            >
+              {IMAGE_FORMATS.map(f => <option key={f.format} value={f.format}>{f.label}</option>)}
+            </select>
+          </div>
+          {settings.format !== 'png' && (
+            <div className="flex items-center justify-between space-x-2">
+              <label htmlFor="image-quality" className="text-sm text-gray-300">Quality</label>
+              <input
+                type="range"
+                id="image-quality"
+                min={0.1}
+                max={1}
+                step={0.05}
+                value={settings.quality}
+                onChange={(e) => update({ quality: Number(e.target.value) })}
+                className="flex-grow"
+              />
+              <span className="text-xs text-gray-400 w-10 text-right tabular-nums">{Math.round(settings.quality * 100)}%</span>
+            </div>
+          )}
+
+          <p className="text-xs text-gray-400">
+            Output {output.width} x {output.height} px at {+scale.toFixed(3)}x.
+          </p>
+          {problem && <p className="text-xs text-red-400">{problem}</p>}
+        </div>
+        <div className="p-4 border-t border-gray-700 flex justify-end space-x-2">
+          <button onClick={onClose} className="border border-gray-500 hover:border-gray-400 text-gray-300 hover:text-white py-2 px-4 rounded-md transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!!problem}
+            className="bg-sky-600 hover:bg-sky-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition-colors"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
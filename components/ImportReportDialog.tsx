@@ -0,0 +1,57 @@
+
+import React from 'react';
+import { ImportReport } from '../services/planSchema.ts';
+
+interface ImportReportDialogProps {
+  report: ImportReport;
+  onClose: () => void;
+}
+
+export const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ report, onClose }) => {
+  const upgraded = report.sourceVersion !== report.targetVersion;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-md shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-sky-400">Plan Import Report</h2>
+          {upgraded && (
+            <p className="text-sm text-gray-400 mt-1">
+              Upgraded from schema {report.sourceVersion === 0 ? 'unversioned' : `v${report.sourceVersion}`} to v{report.targetVersion}.
+            </p>
+          )}
+        </div>
+        <div className="p-4 overflow-y-auto space-y-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-300 mb-2">Fixed ({report.fixed.length})</h3>
+            {report.fixed.length ? (
+              <ul className="space-y-1">
+                {report.fixed.map((entry, index) => (
+                  <li key={index} className="text-xs text-gray-300 bg-gray-900 rounded-md px-2 py-1 font-mono break-all">{entry}</li>
+                ))}
+              </ul>
+            ) : <p className="text-xs text-gray-500">Nothing needed fixing.</p>}
+          </div>
+          <div>
+            <h3 className="text-sm font-semibold text-gray-300 mb-2">Dropped ({report.dropped.length})</h3>
+            {report.dropped.length ? (
+              <ul className="space-y-1">
+                {report.dropped.map((entry, index) => (
+                  <li key={index} className="text-xs text-red-300 bg-gray-900 rounded-md px-2 py-1 font-mono break-all">{entry}</li>
+                ))}
+              </ul>
+            ) : <p className="text-xs text-gray-500">No elements were dropped.</p>}
+          </div>
+        </div>
+        <div className="p-4 border-t border-gray-700 flex justify-end">
+          <button onClick={onClose} className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-md transition-colors">
+            OK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+
+import React from 'react';
+import { Layer } from '../types.ts';
+import { DeleteIcon } from './icons.tsx';
+
+interface LayersPanelProps {
+  layers: Layer[];
+  activeLayerId: string | null;
+  setActiveLayerId: (id: string) => void;
+  onAddLayer: () => void;
+  onUpdateLayer: (id: string, data: Partial<Layer>) => void;
+  onMoveLayer: (id: string, direction: 1 | -1) => void;
+  onDeleteLayer: (id: string) => void;
+  exportLayerFilters: Record<string, boolean>;
+  setExportLayerFilters: (filters: Record<string, boolean> | ((prev: Record<string, boolean>) => Record<string, boolean>)) => void;
+}
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  activeLayerId,
+  setActiveLayerId,
+  onAddLayer,
+  onUpdateLayer,
+  onMoveLayer,
+  onDeleteLayer,
+  exportLayerFilters,
+  setExportLayerFilters,
+}) => {
+  // Top layer first, like most drawing tools; `layers` itself is bottom first.
+  const displayed = [...layers].reverse();
+
+  return (
+    <div className="space-y-2">
+      {displayed.length ? displayed.map(layer => {
+        const index = layers.indexOf(layer);
+        const active = layer.id === activeLayerId;
+        return (
+          <div
+            key={layer.id}
+            className={`p-2 rounded-md border space-y-1 ${active ? 'bg-sky-900/50 border-sky-600' : 'bg-gray-900 border-gray-700'}`}
+          >
+            <div className="flex items-center space-x-1">
+              <button
+                onClick={() => setActiveLayerId(layer.id)}
+                className={`flex-1 min-w-0 text-left text-sm truncate ${layer.visible ? 'text-gray-200' : 'text-gray-500 line-through'}`}
+                title={active ? 'Active layer: new elements are drawn here' : 'Make this the active layer'}
+              >
+                {layer.name}
+              </button>
+              <button
+                onClick={() => onUpdateLayer(layer.id, { visible: !layer.visible })}
+                className={`text-xs px-1 ${layer.visible ? 'text-sky-300' : 'text-gray-500'} hover:text-white`}
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+              >
+                {layer.visible ? 'Shown' : 'Hidden'}
+              </button>
+              <button
+                onClick={() => onUpdateLayer(layer.id, { locked: !layer.locked })}
+                className={`text-xs px-1 ${layer.locked ? 'text-amber-300' : 'text-gray-500'} hover:text-white`}
+                title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+              >
+                {layer.locked ? 'Locked' : 'Lock'}
+              </button>
+            </div>
+            <div className="flex items-center space-x-2 text-xs text-gray-400">
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={layer.opacity}
+                onChange={(e) => onUpdateLayer(layer.id, { opacity: Number(e.target.value) })}
+                className="flex-1"
+                title="Opacity"
+              />
+              <span className="w-8 text-right tabular-nums">{Math.round(layer.opacity * 100)}%</span>
+            </div>
+            <div className="flex items-center space-x-2 text-xs">
+              <label className="flex items-center space-x-1 text-gray-400 cursor-pointer" title="Include this layer in PNG and Lua exports">
+                <input
+                  type="checkbox"
+                  checked={exportLayerFilters[layer.id] !== false}
+                  onChange={() => setExportLayerFilters(prev => ({ ...prev, [layer.id]: prev[layer.id] === false }))}
+                />
+                <span>Export</span>
+              </label>
+              <div className="flex-1" />
+              <button onClick={() => onMoveLayer(layer.id, 1)} disabled={index === layers.length - 1} className="text-gray-400 hover:text-white px-1 disabled:opacity-30" title="Move up">
+                Up
+              </button>
+              <button onClick={() => onMoveLayer(layer.id, -1)} disabled={index === 0} className="text-gray-400 hover:text-white px-1 disabled:opacity-30" title="Move down">
+                Down
+              </button>
+              <button
+                onClick={() => {
+                  const name = window.prompt('Layer name', layer.name);
+                  if (name && name.trim()) onUpdateLayer(layer.id, { name: name.trim() });
+                }}
+                className="text-gray-400 hover:text-white px-1"
+                title="Rename"
+              >
+                Ren
+              </button>
+              <button
+                onClick={() => {
+                  if (window.confirm(`Delete layer "${layer.name}" and everything on it?`)) onDeleteLayer(layer.id);
+                }}
+                disabled={layers.length <= 1}
+                className="text-red-400 hover:text-red-300 disabled:opacity-30"
+                title={layers.length <= 1 ? 'A plan needs at least one layer' : 'Delete layer'}
+              >
+                <DeleteIcon />
+              </button>
+            </div>
+          </div>
+        );
+      }) : <p className="text-xs text-gray-500">Open a plan to manage its layers.</p>}
+      {layers.length > 0 && (
+        <button onClick={onAddLayer} className="w-full border border-gray-500 hover:border-gray-400 text-gray-400 hover:text-white py-1 px-4 rounded-md text-sm transition-colors">
+          Add Layer
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { LuaExportOptions, LuaKeyStyle, loadLuaOptions } from '../services/luaExport.ts';
+
+interface LuaExportDialogProps {
+  onExport: (options: LuaExportOptions) => void;
+  onClose: () => void;
+}
+
+const selectClass = 'bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500';
+
+export const LuaExportDialog: React.FC<LuaExportDialogProps> = ({ onExport, onClose }) => {
+  const [options, setOptions] = useState<LuaExportOptions>(loadLuaOptions);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-md shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-sky-400">Export Lua Table</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Every marker, path and area with all its fields. The choices are remembered for the "Lua table" export in Tools too.
+          </p>
+        </div>
+        <div className="p-4 space-y-3 text-sm text-gray-300">
+          <label className="flex items-center justify-between">
+            <span>Field names</span>
+            <select
+              value={options.keyStyle}
+              onChange={(e) => setOptions({ ...options, keyStyle: e.target.value as LuaKeyStyle })}
+              className={selectClass}
+            >
+              <option value="camelCase">camelCase (linkedMarkerIds)</option>
+              <option value="snake_case">snake_case (linked_marker_ids)</option>
+            </select>
+          </label>
+          <label className="flex items-center justify-between">
+            <span>First index</span>
+            <select
+              value={options.indexBase}
+              onChange={(e) => setOptions({ ...options, indexBase: e.target.value === '0' ? 0 : 1 })}
+              className={selectClass}
+            >
+              <option value={1}>1 (Lua default)</option>
+              <option value={0}>0</option>
+            </select>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={options.numbersAsNumbers}
+              onChange={(e) => setOptions({ ...options, numbersAsNumbers: e.target.checked })}
+            />
+            <span>Write whole element numbers as numbers, not strings</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={options.asciiOnly}
+              onChange={(e) => setOptions({ ...options, asciiOnly: e.target.checked })}
+            />
+            <span>ASCII only (escape accents and other characters)</span>
+          </label>
+        </div>
+        <div className="p-4 border-t border-gray-700 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="border border-gray-500 hover:border-gray-400 text-gray-300 hover:text-white py-2 px-4 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onExport(options)}
+            className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-md transition-colors"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
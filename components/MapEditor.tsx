@@ -1,16 +1,37 @@
 
-import React, { useState, useRef, MouseEvent, useEffect } from 'react';
-import { Area, Marker, Path, Point, PolygonArea, Tool } from '../types.ts';
+import React, { useState, useRef, MouseEvent, useEffect, useMemo } from 'react';
+import { Area, Calibration, ElementRef, ElementType, Georeference, GridSettings, Layer, MapSymbol, Marker, Path, PlanOverlays, Point, PolygonArea, Tool } from '../types.ts';
+import { groupByLayer } from '../services/layers.ts';
+import { Bounds, areaBounds, boundsOfPoints, elementKey, elementsInBox, markerBounds } from '../services/selection.ts';
+import { SNAP_DISTANCE, SnapResult, collectSnapTargets, snapPoint } from '../services/snapping.ts';
+import { ImageSize, distance } from '../services/geometry.ts';
+import { ViewState, WHEEL_ZOOM_STEP, centerOn, fitBounds, visibleBounds, zoomAt } from '../services/viewport.ts';
+import { SpatialIndex, createSpatialIndex } from '../services/spatialIndex.ts';
+import { ClusterResult, clusterMarkers, clusterRadius } from '../services/clustering.ts';
+import { LabelLayout, PlacedLabel, areaLabel, markerLabel, placeLabels } from '../services/labelPlacement.ts';
+import { markerRadius, resolveSymbol, symbolsById } from '../services/symbols.ts';
+import { OverlayBlock, layoutOverlays, legendEntries } from '../services/overlays.ts';
+import { TileSet, getTile } from '../services/tiles.ts';
+import { formatWorldPoint, pixelToWorld, worldToPixel } from '../services/georeference.ts';
+import { formatNumber, formatPoint } from '../services/units.ts';
+import { MarkerCanvas } from './MarkerCanvas.tsx';
+import { Minimap } from './Minimap.tsx';
+import { OverlayGraphics } from './OverlayGraphics.tsx';
+import { SymbolGraphic } from './SymbolGraphic.tsx';
+import { TileLayer } from './TileLayer.tsx';
 
 interface MapEditorProps {
   imageSrc: string;
   imageSize: { width: number; height: number } | null;
+  // Tile pyramid of a large map; the map is drawn from it instead of the image
+  tileSet: TileSet | null;
+  layers: Layer[];
   markers: Marker[];
   paths: Path[];
   areas: Area[];
   polygonAreas: PolygonArea[];
   activeTool: Tool;
-  selectedElement: { type: 'marker' | 'path' | 'area' | 'polygonArea'; id: string } | null;
+  selection: ElementRef[];
   onAddMarker: (position: Point) => void;
   onAddPathPoint: (point: Point) => void;
   onAddAreaPoint: (point: Point) => void;
@@ -19,20 +40,41 @@ interface MapEditorProps {
   onUpdatePath: (id: string, data: Partial<Path>) => void;
   onUpdateArea: (id: string, data: Partial<Area>) => void;
   onUpdatePolygonArea: (id: string, data: Partial<PolygonArea>) => void;
-  onSelectElement: (selection: { type: 'marker' | 'path' | 'area' | 'polygonArea'; id: string } | null) => void;
+  onSelectElement: (selection: ElementRef | null, additive?: boolean) => void;
+  // Box selection; `additive` keeps the current selection (shift held)
+  onSelectElements: (elements: ElementRef[], additive: boolean) => void;
+  onMoveSelection: (offset: Point) => void;
   linkingState: { fromMarkerId: string } | null;
   onLinkMarkers: (toMarkerId: string) => void;
   onInsertPathPoint: (pathId: string, point: Point, index: number) => void;
   drawingArea: { id: string; center: Point } | null;
   drawingPolygonAreaId: string | null;
-  zoom: number;
-  onZoomChange: (zoom: number | ((prev: number) => number)) => void;
+  calibrationPoints: Point[];
+  onAddCalibrationPoint: (point: Point) => void;
+  onAddControlPoint: (point: Point) => void;
+  view: ViewState;
+  onViewChange: (view: ViewState | ((prev: ViewState) => ViewState)) => void;
+  // Size of the visible editor area, reported whenever it changes
+  onViewportResize: (size: ImageSize) => void;
+  grid: GridSettings;
+  symbols: MapSymbol[];
+  // Legend and title block, shown where exports put them
+  overlays: PlanOverlays;
+  calibration: Calibration | null;
+  georeference: Georeference | null;
+  // Below this zoom nearby markers collapse into clusters; 0 turns clustering off
+  clusterZoom: number;
   markerSize: number;
   labelSize: number;
   showMarkerLabels: boolean;
   showAreaLabels: boolean;
 }
 
+// Past this many plain markers in view, they are drawn on a canvas instead of as SVG nodes
+const CANVAS_MARKER_THRESHOLD = 300;
+// Elements this far (screen pixels) outside the view are still drawn, so panning shows no gaps
+const CULL_MARGIN = 200;
+
 const pointsToPathD = (points: Point[]): string => {
   if (points.length < 2) return points.length === 1 ? `M ${points[0].x} ${points[0].y}` : '';
   let d = `M ${points[0].x} ${points[0].y}`;
@@ -46,6 +88,13 @@ const pointsToPathD = (points: Point[]): string => {
   return d;
 };
 
+const boxBounds = (a: Point, b: Point): Bounds => ({
+  minX: Math.min(a.x, b.x),
+  minY: Math.min(a.y, b.y),
+  maxX: Math.max(a.x, b.x),
+  maxY: Math.max(a.y, b.y),
+});
+
 const pointsToPolygonString = (points: Point[]): string => points.map(p => `${p.x},${p.y}`).join(' ');
 
 const polygonCentroid = (points: Point[]): Point => {
@@ -57,12 +106,14 @@ const polygonCentroid = (points: Point[]): Point => {
 export const MapEditor: React.FC<MapEditorProps> = ({
   imageSrc,
   imageSize,
+  tileSet,
+  layers,
   markers,
   paths,
   areas,
   polygonAreas,
   activeTool,
-  selectedElement,
+  selection,
   onAddMarker,
   onAddPathPoint,
   onAddAreaPoint,
@@ -72,27 +123,63 @@ export const MapEditor: React.FC<MapEditorProps> = ({
   onUpdateArea,
   onUpdatePolygonArea,
   onSelectElement,
+  onSelectElements,
+  onMoveSelection,
   linkingState,
   onLinkMarkers,
   onInsertPathPoint,
   drawingArea,
   drawingPolygonAreaId,
-  zoom,
-  onZoomChange,
+  calibrationPoints,
+  onAddCalibrationPoint,
+  onAddControlPoint,
+  view,
+  onViewChange,
+  onViewportResize,
+  grid,
+  symbols,
+  overlays,
+  calibration,
+  georeference,
+  clusterZoom,
   markerSize,
   labelSize,
   showMarkerLabels,
   showAreaLabels,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
-  const [dragging, setDragging] = useState<{ type: 'marker' | 'pathPoint' | 'areaCenter' | 'areaRadius' | 'polygonPoint'; id: string; pointIndex?: number } | null>(null);
+  // Written directly rather than through state, so moving the pointer doesn't re-render the map
+  const cursorReadoutRef = useRef<HTMLDivElement>(null);
+  const [dragging, setDragging] = useState<{ type: 'marker' | 'pathPoint' | 'areaCenter' | 'areaRadius' | 'polygonPoint' | 'group'; id: string; pointIndex?: number; origin?: Point } | null>(null);
+  // Offset of a group drag in progress; the move is applied once on release
+  const [groupOffset, setGroupOffset] = useState<Point | null>(null);
+  const [selectionBox, setSelectionBox] = useState<{ start: Point; end: Point; additive: boolean } | null>(null);
+  // Last snap, drawn as guide lines until the pointer moves on
+  const [snap, setSnap] = useState<SnapResult | null>(null);
+  const [viewport, setViewport] = useState<ImageSize | null>(null);
+  // Space held down turns the pointer into a pan tool
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [panning, setPanning] = useState<{ start: Point; offset: Point } | null>(null);
+  // Coarsest tile of a tiled map, small enough for the minimap
+  const [overviewSrc, setOverviewSrc] = useState<string | null>(null);
+  const zoom = view.zoom;
+
+  const selectedElement = selection.length === 1 ? selection[0] : null;
+  const selectedKeys: Set<string> = useMemo(() => new Set<string>(selection.map(elementKey)), [selection]);
+  const isSelected = (type: ElementType, id: string) => selectedKeys.has(elementKey({ type, id }));
 
+  // Ctrl+wheel zooms around the cursor; the plain wheel pans
   const handleWheel = (e: WheelEvent) => {
-    if (!e.ctrlKey) return;
     e.preventDefault();
-    const direction = e.deltaY < 0 ? 1 : -1;
-    const factor = direction > 0 ? 1.1 : 1 / 1.1;
-    onZoomChange(z => Math.min(5, Math.max(0.1, z * factor)));
+    if (e.ctrlKey || e.metaKey) {
+      const rect = containerRef.current!.getBoundingClientRect();
+      const factor = e.deltaY < 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+      onViewChange(v => zoomAt(v, factor, { x: e.clientX - rect.left, y: e.clientY - rect.top }));
+      return;
+    }
+    const dx = e.shiftKey && !e.deltaX ? e.deltaY : e.deltaX;
+    const dy = e.shiftKey && !e.deltaX ? 0 : e.deltaY;
+    onViewChange(v => ({ ...v, offset: { x: v.offset.x - dx, y: v.offset.y - dy } }));
   };
 
   useEffect(() => {
@@ -103,11 +190,97 @@ export const MapEditor: React.FC<MapEditorProps> = ({
     return () => {
       el.removeEventListener('wheel', listener);
     };
-  }, [onZoomChange]);
+  }, [onViewChange]);
+
+  useEffect(() => {
+    if (!tileSet) {
+      setOverviewSrc(null);
+      return;
+    }
+    let cancelled = false;
+    let url: string | null = null;
+    getTile(tileSet.hash, { level: tileSet.levels - 1, col: 0, row: 0 })
+      .then(blob => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setOverviewSrc(url);
+      })
+      .catch(error => {
+        console.error("Failed to load map overview:", error);
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [tileSet?.hash]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => {
+      const size = { width: el.clientWidth, height: el.clientHeight };
+      setViewport(size);
+      onViewportResize(size);
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [onViewportResize]);
+
+  useEffect(() => {
+    // Space keeps its meaning in form fields and on focused buttons
+    const isControl = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      return ['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName) || target.isContentEditable;
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isControl(e)) return;
+      e.preventDefault();
+      setSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+    const release = () => setSpaceHeld(false);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+    };
+  }, []);
+
+  // Pans follow the pointer even outside the editor until the button is released
+  useEffect(() => {
+    if (!panning) return;
+    const handleMove = (e: globalThis.MouseEvent) => {
+      onViewChange(v => ({
+        ...v,
+        offset: { x: panning.offset.x + e.clientX - panning.start.x, y: panning.offset.y + e.clientY - panning.start.y },
+      }));
+    };
+    const handleUp = () => setPanning(null);
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+  }, [panning, onViewChange]);
+
+  // Middle-drag, or dragging with space held, pans before any tool sees the click
+  const handlePanStart = (e: MouseEvent<HTMLDivElement>) => {
+    if (e.button !== 1 && !(e.button === 0 && spaceHeld)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setPanning({ start: { x: e.clientX, y: e.clientY }, offset: view.offset });
+  };
 
   const getMousePos = (e: MouseEvent<SVGElement>): Point => {
-    const svg = e.currentTarget;
-    const CTM = svg.getScreenCTM();
+    // Measure against the root svg; elements inside may carry their own transform
+    const svg = e.currentTarget instanceof SVGSVGElement ? e.currentTarget : e.currentTarget.ownerSVGElement;
+    const CTM = svg?.getScreenCTM();
     if (CTM) {
       return {
         x: (e.clientX - CTM.e) / CTM.a,
@@ -117,14 +290,76 @@ export const MapEditor: React.FC<MapEditorProps> = ({
     return { x: 0, y: 0 };
   };
 
+  // Pointer position in pixels, and in world coordinates when the plan has them
+  const showCursor = (point: Point | null) => {
+    const readout = cursorReadoutRef.current;
+    if (!readout) return;
+    readout.style.display = point ? '' : 'none';
+    if (!point) return;
+    const world = pixelToWorld(georeference, point);
+    let text = `${formatNumber(point.x)}, ${formatNumber(point.y)} px`;
+    if (georeference && world) text += `  |  ${formatWorldPoint(georeference, world)}`;
+    else if (calibration) text += `  |  ${formatPoint(point, calibration)}`;
+    readout.textContent = text;
+  };
+
+  // Whether a snap target belongs to what is being dragged, which must not snap to itself
+  const isDragged = (ref: ElementRef, pointIndex?: number) => {
+    if (!dragging) return false;
+    if (dragging.type === 'marker') {
+      if (ref.type === 'marker') return ref.id === dragging.id;
+      const path = ref.type === 'path' ? paths.find(p => p.id === ref.id) : undefined;
+      if (!path?.linkedMarkers) return false;
+      return (path.linkedMarkers.startId === dragging.id && pointIndex === 0)
+        || (path.linkedMarkers.endId === dragging.id && pointIndex === path.points.length - 1);
+    }
+    if (dragging.type === 'pathPoint') return ref.type === 'path' && ref.id === dragging.id && pointIndex === dragging.pointIndex;
+    if (dragging.type === 'polygonPoint') return ref.type === 'polygonArea' && ref.id === dragging.id && pointIndex === dragging.pointIndex;
+    return ref.type === 'area' && ref.id === dragging.id;
+  };
+
+  // Snaps a pointer position to the grid and nearby elements; holding Alt places it freely
+  const snapMousePos = (e: MouseEvent<SVGElement>, pos: Point): Point => {
+    if (e.altKey || (!grid.snapToGrid && !grid.snapToElements)) {
+      setSnap(null);
+      return pos;
+    }
+    const result = snapPoint(pos, collectSnapTargets(shownContent, isDragged), grid, SNAP_DISTANCE / zoom);
+    const snapped = result.target || result.guides.length ? result : null;
+    setSnap(prev => (prev || snapped ? snapped : prev));
+    return result.point;
+  };
+
+  // Canvas markers take no pointer events; presses on them land on the svg and
+  // are handled here the way the SVG markers handle them
+  const handleCanvasMarkerDown = (e: MouseEvent<SVGElement>, marker: Marker) => {
+    if (linkingState) {
+      if (linkingState.fromMarkerId !== marker.id) onLinkMarkers(marker.id);
+      return;
+    }
+    if (activeTool !== 'select') return;
+    if (!startGroupDrag(e, 'marker', marker.id) && !isLocked(marker)) {
+      setDragging({ type: 'marker', id: marker.id });
+    }
+    selectFromClick(e, { type: 'marker', id: marker.id });
+  };
+
   const handleMouseDown = (e: MouseEvent<SVGElement>) => {
+    const raw = getMousePos(e);
+    const hit = canvasMarkerAt(raw);
+    if (hit) {
+      handleCanvasMarkerDown(e, hit);
+      return;
+    }
     if (linkingState) return;
-    const pos = getMousePos(e);
+    const pos = activeTool === 'select' ? raw : snapMousePos(e, raw);
 
-    // Deselect when clicking on empty space with the select tool
+    // Deselect when clicking on empty space with the select tool, and start a
+    // selection box there
     if (activeTool === 'select') {
       // Draggable elements stop propagation, so this only fires on the background
-      onSelectElement(null);
+      if (!e.shiftKey) onSelectElement(null);
+      setSelectionBox({ start: raw, end: raw, additive: e.shiftKey });
     }
 
     if (activeTool === 'marker') {
@@ -135,11 +370,30 @@ export const MapEditor: React.FC<MapEditorProps> = ({
       onAddAreaPoint(pos);
     } else if (activeTool === 'polygon-area') {
       onAddPolygonAreaPoint(pos);
+    } else if (activeTool === 'calibrate') {
+      onAddCalibrationPoint(pos);
+    } else if (activeTool === 'georeference') {
+      onAddControlPoint(pos);
     }
   };
 
   const handleMouseMove = (e: MouseEvent<SVGElement>) => {
-    const pos = getMousePos(e);
+    const raw = getMousePos(e);
+    showCursor(raw);
+
+    if (selectionBox) {
+      setSelectionBox({ ...selectionBox, end: raw });
+      return;
+    }
+
+    if (dragging?.type === 'group' && dragging.origin) {
+      setGroupOffset({ x: raw.x - dragging.origin.x, y: raw.y - dragging.origin.y });
+      return;
+    }
+
+    // Drawing tools show where a click would land before it happens
+    if (!dragging && (activeTool === 'select' || linkingState)) return;
+    const pos = snapMousePos(e, raw);
 
     // While drawing a new area: preview radius by mouse move
     if (!dragging && activeTool === 'area' && drawingArea && !linkingState) {
@@ -180,28 +434,493 @@ export const MapEditor: React.FC<MapEditorProps> = ({
     }
   };
 
-  const handleMouseUp = () => setDragging(null);
+  const handleMouseUp = () => {
+    if (selectionBox) {
+      const box = boxBounds(selectionBox.start, selectionBox.end);
+      // A plain click leaves a tiny box; that only deselects
+      if (box.maxX - box.minX > 3 || box.maxY - box.minY > 3) {
+        onSelectElements(elementsInBox(visibleContent, box), selectionBox.additive);
+      }
+      setSelectionBox(null);
+    }
+    if (dragging?.type === 'group' && groupOffset && (groupOffset.x || groupOffset.y)) {
+      onMoveSelection(groupOffset);
+    }
+    setGroupOffset(null);
+    setDragging(null);
+    setSnap(null);
+  };
+
+  // Dragging any element of a multiple selection moves the whole group
+  const startGroupDrag = (e: MouseEvent<SVGElement>, type: ElementType, id: string) => {
+    if (activeTool !== 'select' || linkingState || e.shiftKey || selection.length < 2 || !isSelected(type, id)) return false;
+    e.stopPropagation();
+    setDragging({ type: 'group', id, origin: getMousePos(e) });
+    return true;
+  };
+
+  // Shift+click adds or removes; a plain click on a member keeps the group so it can be dragged
+  const selectFromClick = (e: MouseEvent<SVGElement>, element: ElementRef) => {
+    if (e.shiftKey) {
+      onSelectElement(element, true);
+    } else if (!(selection.length > 1 && isSelected(element.type, element.id))) {
+      onSelectElement(element);
+    }
+  };
 
   const getCursor = () => {
+    if (panning) return 'grabbing';
+    if (spaceHeld) return 'grab';
     if (linkingState) return 'crosshair';
-    return { select: 'default', marker: 'crosshair', path: 'crosshair', area: 'crosshair', 'polygon-area': 'crosshair' }[activeTool];
+    return { select: 'default', marker: 'crosshair', path: 'crosshair', area: 'crosshair', 'polygon-area': 'crosshair', calibrate: 'crosshair', georeference: 'crosshair' }[activeTool];
   };
 
   const getRadiusHandlePos = (area: Area): Point => ({ x: area.center.x + Math.max(1, area.radius), y: area.center.y });
 
+  // Elements on locked layers can still be selected, but not dragged or reshaped
+  const lockedLayerIds = new Set(layers.filter(l => l.locked).map(l => l.id));
+  const isLocked = (element: { layerId: string }) => lockedLayerIds.has(element.layerId);
+
+  const visibleLayers: Layer[] = useMemo(() => layers.filter(l => l.visible), [layers]);
+  const visibleLayerIds: Set<string> = useMemo(() => new Set<string>(visibleLayers.map(l => l.id)), [visibleLayers]);
+  const visibleMarkers: Marker[] = useMemo(() => markers.filter(m => visibleLayerIds.has(m.layerId)), [markers, visibleLayerIds]);
+  const visiblePaths: Path[] = useMemo(() => paths.filter(p => visibleLayerIds.has(p.layerId)), [paths, visibleLayerIds]);
+  const visibleAreas: Area[] = useMemo(() => areas.filter(a => visibleLayerIds.has(a.layerId)), [areas, visibleLayerIds]);
+  const visiblePolygonAreas: PolygonArea[] = useMemo(() => polygonAreas.filter(a => visibleLayerIds.has(a.layerId)), [polygonAreas, visibleLayerIds]);
+  const visibleContent = { markers: visibleMarkers, paths: visiblePaths, areas: visibleAreas, polygonAreas: visiblePolygonAreas };
+
+  // Spatial indexes, rebuilt only for the kind of element that changed
+  const markerIndex: SpatialIndex<Marker> = useMemo(() => createSpatialIndex(visibleMarkers, markerBounds), [visibleMarkers]);
+  const pathIndex: SpatialIndex<Path> = useMemo(() => createSpatialIndex(visiblePaths, (p: Path) => boundsOfPoints(p.points)), [visiblePaths]);
+  const areaIndex: SpatialIndex<Area> = useMemo(() => createSpatialIndex(visibleAreas, areaBounds), [visibleAreas]);
+  const polygonAreaIndex: SpatialIndex<PolygonArea> = useMemo(() => createSpatialIndex(visiblePolygonAreas, (a: PolygonArea) => boundsOfPoints(a.points)), [visiblePolygonAreas]);
+
+  // Only elements in (or near) the view are drawn. Selected ones always are,
+  // so a group drag previews them wherever they are.
+  const viewBounds = viewport ? (() => {
+    const bounds = visibleBounds(view, viewport);
+    const margin = CULL_MARGIN / zoom;
+    return { minX: bounds.minX - margin, minY: bounds.minY - margin, maxX: bounds.maxX + margin, maxY: bounds.maxY + margin };
+  })() : null;
+  const cull = <T extends { id: string }>(items: T[], index: SpatialIndex<T>, type: ElementType): T[] => {
+    if (!viewBounds) return items;
+    const inView = new Set<T>(index.query(viewBounds));
+    return items.filter(item => inView.has(item) || isSelected(type, item.id));
+  };
+  const shownContent = {
+    markers: cull(visibleMarkers, markerIndex, 'marker'),
+    paths: cull(visiblePaths, pathIndex, 'path'),
+    areas: cull(visibleAreas, areaIndex, 'area'),
+    polygonAreas: cull(visiblePolygonAreas, polygonAreaIndex, 'polygonArea'),
+  };
+
+  // Markers being worked with always stay live SVG; the rest may be clustered
+  // when zoomed out, and drawn on a canvas when there are many of them
+  const isInteractive = (marker: Marker) => (
+    isSelected('marker', marker.id) || dragging?.id === marker.id || linkingState?.fromMarkerId === marker.id
+  );
+  const clusterable: Marker[] = useMemo(
+    () => visibleMarkers.filter(m => !isInteractive(m)),
+    [visibleMarkers, selectedKeys, dragging?.id, linkingState?.fromMarkerId],
+  );
+  // Zoom only matters while clustering, so zooming in past it redoes nothing
+  const clusterAt = zoom < clusterZoom ? zoom : null;
+  const clustered: ClusterResult = useMemo(
+    () => clusterMarkers(clusterable, clusterAt ?? clusterZoom, clusterZoom),
+    [clusterable, clusterAt, clusterZoom],
+  );
+  const clusteredIds: Set<string> = useMemo(
+    () => new Set<string>(clustered.clusters.flatMap(c => c.markers.map(m => m.id))),
+    [clustered],
+  );
+  const labelledMarkers: Marker[] = useMemo(() => visibleMarkers.filter(m => !clusteredIds.has(m.id)), [visibleMarkers, clusteredIds]);
+
+  // Labels are placed over the whole plan, the same way as in exports. During
+  // a drag the last placement is kept; labels sit relative to their marker,
+  // so the dragged marker's label travels with it.
+  const symbolMap: Map<string, MapSymbol> = useMemo(() => symbolsById(symbols), [symbols]);
+  const labelLayoutRef = useRef<LabelLayout | null>(null);
+  const labelLayout: LabelLayout = useMemo(() => {
+    if (dragging && labelLayoutRef.current) return labelLayoutRef.current;
+    return placeLabels(
+      {
+        layers: visibleLayers,
+        markers: labelledMarkers,
+        areas: visibleAreas,
+        polygonAreas: visiblePolygonAreas,
+        clusters: clustered.clusters,
+        zoom: clusterAt ?? 1,
+        radius: (marker: Marker) => markerRadius(marker, symbolMap, markerSize),
+      },
+      { markerSize, labelSize, showMarkerLabels, showAreaLabels },
+      imageSize ?? undefined,
+    );
+  }, [visibleLayers, labelledMarkers, visibleAreas, visiblePolygonAreas, clustered, clusterAt, symbolMap, markerSize, labelSize, showMarkerLabels, showAreaLabels, imageSize, !!dragging]);
+  labelLayoutRef.current = labelLayout;
+
+  const overlayBlocks: OverlayBlock[] = useMemo(() => (imageSize ? layoutOverlays(overlays, {
+    size: imageSize,
+    calibration,
+    entries: legendEntries({ symbols, markers: visibleMarkers, areas: visibleAreas, polygonAreas: visiblePolygonAreas }, overlays.legend.names),
+  }) : []), [overlays, imageSize, calibration, symbols, visibleMarkers, visibleAreas, visiblePolygonAreas]);
+
+  const clusters = viewBounds
+    ? clustered.clusters.filter(c => c.bounds.maxX >= viewBounds.minX && c.bounds.minX <= viewBounds.maxX && c.bounds.maxY >= viewBounds.minY && c.bounds.minY <= viewBounds.maxY)
+    : clustered.clusters;
+  const shownMarkers = shownContent.markers.filter(m => !clusteredIds.has(m.id));
+  const plainMarkers = shownMarkers.filter(m => !isInteractive(m));
+  const useMarkerCanvas = !!viewport && plainMarkers.length > CANVAS_MARKER_THRESHOLD;
+  const canvasMarkers = new Set<Marker>(useMarkerCanvas ? plainMarkers : []);
+  const svgMarkers = useMarkerCanvas ? shownMarkers.filter(isInteractive) : shownMarkers;
+
+  const areasByLayer = groupByLayer(visibleLayers, shownContent.areas);
+  const polygonAreasByLayer = groupByLayer(visibleLayers, shownContent.polygonAreas);
+  const pathsByLayer = groupByLayer(visibleLayers, shownContent.paths);
+  const markersByLayer = groupByLayer(visibleLayers, svgMarkers);
+  const canvasMarkersByLayer = useMarkerCanvas ? groupByLayer(visibleLayers, plainMarkers) : null;
+
+  // Click target of a marker: the inner dot of a classic marker, the whole of a symbol
+  const hitRadius = (marker: Marker) => (
+    resolveSymbol(marker, symbolMap) ? markerRadius(marker, symbolMap, markerSize) : 6 * markerSize
+  );
+
+  // Topmost canvas-drawn marker under the pointer, matching the SVG marker's click target
+  const canvasMarkerAt = (pos: Point): Marker | undefined => {
+    if (!useMarkerCanvas) return undefined;
+    // Query out to the largest symbol, then check each marker's own radius
+    const r = Math.max(6, ...symbols.map(s => 12 * s.size)) * markerSize;
+    const layerOrder = new Map<string, number>(visibleLayers.map((l, i) => [l.id, i]));
+    return markerIndex.query({ minX: pos.x - r, minY: pos.y - r, maxX: pos.x + r, maxY: pos.y + r })
+      .filter(m => canvasMarkers.has(m) && distance(m.position, pos) <= hitRadius(m))
+      .sort((a, b) => layerOrder.get(a.layerId)! - layerOrder.get(b.layerId)!)
+      .pop();
+  };
+
+  const selectedArea = selectedElement?.type === 'area' ? areas.find(a => a.id === selectedElement.id) : undefined;
+  const selectedPolygonArea = selectedElement?.type === 'polygonArea' ? polygonAreas.find(a => a.id === selectedElement.id) : undefined;
+  const selectedPath = selectedElement?.type === 'path' ? paths.find(p => p.id === selectedElement.id) : undefined;
+
+  // Preview of a group drag: selected, unlocked elements follow the pointer
+  const groupTransform = (type: ElementType, element: { id: string; layerId: string }) => (
+    groupOffset && isSelected(type, element.id) && !isLocked(element) ? `translate(${groupOffset.x}, ${groupOffset.y})` : undefined
+  );
+
+  const renderArea = (area: Area) => {
+    const isSelected = selection.some(s => s.type === 'area' && s.id === area.id);
+    const fillColor = area.color || '#facc15';
+    const strokeColor = isSelected ? '#0ea5e9' : (area.color || '#facc15');
+    const strokeWidth = isSelected ? 4 : 2;
+    const label = areaLabel(area);
+
+    return (
+      <g key={area.id} transform={groupTransform('area', area)}>
+        {/* Click target */}
+        <circle
+          cx={area.center.x}
+          cy={area.center.y}
+          r={Math.max(1, area.radius) + 8}
+          fill="transparent"
+          fillOpacity={0}
+          stroke="transparent"
+          strokeWidth={1}
+          className="pointer-events-auto"
+          onMouseDown={(e) => startGroupDrag(e, 'area', area.id)}
+          onClick={(e) => {
+            e.stopPropagation();
+            if (activeTool === 'select' && !linkingState) {
+              selectFromClick(e, { type: 'area', id: area.id });
+            }
+          }}
+        />
+
+        <circle
+          cx={area.center.x}
+          cy={area.center.y}
+          r={Math.max(1, area.radius)}
+          fill={fillColor}
+          fillOpacity={0.25}
+          stroke={strokeColor}
+          strokeWidth={strokeWidth}
+          style={{ pointerEvents: 'none' }}
+        />
+        {labelLayout.areas.has(elementKey({ type: 'area', id: area.id })) && (
+          <text
+            x={area.center.x}
+            y={area.center.y}
+            fill="black"
+            fontSize={14 * labelSize}
+            fontFamily="sans-serif"
+            textAnchor="middle"
+            dominantBaseline="middle"
+            paintOrder="stroke"
+            stroke="white"
+            strokeWidth={3 * labelSize}
+            strokeLinejoin="round"
+            style={{ pointerEvents: 'none' }}
+          >
+            {label}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const renderPolygonArea = (area: PolygonArea) => {
+    const isSelected = selection.some(s => s.type === 'polygonArea' && s.id === area.id);
+    const fillColor = area.color || '#facc15';
+    const strokeColor = isSelected ? '#0ea5e9' : (area.color || '#facc15');
+    const strokeWidth = isSelected ? 4 : 2;
+    const label = areaLabel(area);
+    const points = pointsToPolygonString(area.points);
+    const labelPoint = polygonCentroid(area.points);
+    const isClosed = area.points.length >= 3;
+
+    return (
+      <g key={area.id} transform={groupTransform('polygonArea', area)}>
+        {isClosed ? (
+          <>
+            <polygon
+              points={points}
+              fill="transparent"
+              stroke="transparent"
+              strokeWidth={12}
+              className="pointer-events-auto"
+              onMouseDown={(e) => startGroupDrag(e, 'polygonArea', area.id)}
+              onClick={(e) => {
+                e.stopPropagation();
+                if (activeTool === 'select' && !linkingState) {
+                  selectFromClick(e, { type: 'polygonArea', id: area.id });
+                }
+              }}
+            />
+            <polygon
+              points={points}
+              fill={fillColor}
+              fillOpacity={0.25}
+              stroke={strokeColor}
+              strokeWidth={strokeWidth}
+              strokeDasharray={area.obstacle ? `${strokeWidth * 3} ${strokeWidth * 2}` : undefined}
+              style={{ pointerEvents: 'none' }}
+            />
+          </>
+        ) : (
+          <>
+            <polyline
+              points={points}
+              fill="none"
+              stroke="transparent"
+              strokeWidth={12}
+              className="pointer-events-auto"
+              onMouseDown={(e) => startGroupDrag(e, 'polygonArea', area.id)}
+              onClick={(e) => {
+                e.stopPropagation();
+                if (activeTool === 'select' && !linkingState) {
+                  selectFromClick(e, { type: 'polygonArea', id: area.id });
+                }
+              }}
+            />
+            <polyline
+              points={points}
+              fill="none"
+              stroke={strokeColor}
+              strokeWidth={strokeWidth}
+              style={{ pointerEvents: 'none' }}
+            />
+          </>
+        )}
+        {labelLayout.areas.has(elementKey({ type: 'polygonArea', id: area.id })) && (
+          <text
+            x={labelPoint.x}
+            y={labelPoint.y}
+            fill="black"
+            fontSize={14 * labelSize}
+            fontFamily="sans-serif"
+            textAnchor="middle"
+            dominantBaseline="middle"
+            paintOrder="stroke"
+            stroke="white"
+            strokeWidth={3 * labelSize}
+            strokeLinejoin="round"
+            style={{ pointerEvents: 'none' }}
+          >
+            {label}
+          </text>
+        )}
+      </g>
+    );
+  };
+
+  const renderPath = (path: Path) => {
+    const isSelected = selection.some(s => s.type === 'path' && s.id === path.id);
+    const strokeColor = isSelected ? '#0ea5e9' : (path.color || '#f59e0b');
+    const strokeWidth = isSelected ? 5 : 3;
+
+    return (
+      <g key={path.id} transform={path.linkedMarkers ? undefined : groupTransform('path', path)}>
+        <path
+            d={pointsToPathD(path.points)}
+            stroke="transparent"
+            strokeWidth="20"
+            fill="none"
+            className="pointer-events-auto"
+            onMouseDown={(e) => startGroupDrag(e, 'path', path.id)}
+            onClick={(e) => { e.stopPropagation(); if(activeTool === 'select' && !linkingState) selectFromClick(e, { type: 'path', id: path.id }); }}
+         />
+        <path
+            d={pointsToPathD(path.points)}
+            stroke={strokeColor}
+            strokeWidth={strokeWidth}
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            style={{ pointerEvents: 'none' }}
+        />
+      </g>
+    )
+  };
+
+  const renderMarker = (marker: Marker) => {
+    const markerColor = marker.color || '#10b981';
+    const locked = isLocked(marker);
+    const outerR = 12 * markerSize;
+    const innerR = 6 * markerSize;
+    const offset = groupTransform('marker', marker) ? groupOffset! : { x: 0, y: 0 };
+    const placed: PlacedLabel | undefined = labelLayout.markers.get(marker.id);
+    const selected = isSelected('marker', marker.id);
+    const resolved = resolveSymbol(marker, symbolMap);
+    const handlers = {
+      className: 'pointer-events-auto',
+      onClick: (e: MouseEvent<SVGElement>) => {
+          e.stopPropagation();
+          if (linkingState && linkingState.fromMarkerId !== marker.id) {
+              onLinkMarkers(marker.id);
+          } else if (activeTool === 'select') {
+              selectFromClick(e, { type: 'marker', id: marker.id });
+          }
+      },
+      onMouseDown: (e: MouseEvent<SVGElement>) => {
+        if (startGroupDrag(e, 'marker', marker.id)) return;
+        e.stopPropagation();
+        if (activeTool === 'select' && !linkingState && !locked) {
+          setDragging({ type: 'marker', id: marker.id });
+        }
+      },
+      style: { cursor: linkingState ? 'pointer' : activeTool === 'select' && !locked ? 'grab' : undefined },
+    };
+    return (
+      <g key={marker.id} transform={`translate(${marker.position.x + offset.x}, ${marker.position.y + offset.y})`}>
+        {resolved ? (
+          <>
+            {selected && (
+              <circle r={outerR * resolved.size + 3 * markerSize} fill="none" stroke="#0ea5e9" strokeWidth={2 * markerSize} style={{ pointerEvents: 'none' }} />
+            )}
+            <g {...handlers}>
+              <SymbolGraphic
+                symbol={resolved.symbol}
+                color={markerColor}
+                radius={outerR * resolved.size}
+                rotation={resolved.rotation}
+                strokeWidth={2 * markerSize}
+              />
+            </g>
+          </>
+        ) : (
+          <>
+            <circle r={outerR} fill={`${markerColor}66`} stroke={markerColor} strokeWidth={2 * markerSize} />
+            <circle
+              r={innerR}
+              fill={selected ? '#0ea5e9' : markerColor}
+              stroke="#fff" strokeWidth={2 * markerSize}
+              {...handlers}
+            />
+          </>
+        )}
+        {placed?.leader && (
+          <line
+            x1={placed.leader.from.x} y1={placed.leader.from.y} x2={placed.leader.to.x} y2={placed.leader.to.y}
+            stroke="black" strokeOpacity={0.8} strokeWidth={1.5 * labelSize}
+            style={{ pointerEvents: 'none' }}
+          />
+        )}
+        {placed && showMarkerLabels && (
+          <text
+            x={placed.x}
+            y={placed.y}
+            fill="white"
+            fontSize={12 * labelSize}
+            fontFamily="sans-serif"
+            paintOrder="stroke"
+            stroke="black"
+            strokeWidth={3 * labelSize}
+            strokeLinejoin="round"
+            style={{ pointerEvents: 'none' }}
+          >
+            {markerLabel(marker)}
+          </text>
+        )}
+        {placed && showAreaLabels && marker.area && (
+          <text
+            x={placed.x}
+            y={showMarkerLabels ? placed.y + 14 * labelSize : placed.y}
+            fill="#facc15"
+            fontSize={10 * labelSize}
+            fontFamily="sans-serif"
+            paintOrder="stroke"
+            stroke="black"
+            strokeWidth={2 * labelSize}
+            strokeLinejoin="round"
+            style={{ pointerEvents: 'none' }}
+          >
+            [{marker.area}]
+          </text>
+        )}
+      </g>
+    )
+  };
+  // Shared by the map image and the SVG above it, with the marker canvas in between
+  const mapTransform = { transform: `translate(${view.offset.x}px, ${view.offset.y}px) scale(${zoom})`, transformOrigin: '0 0' };
+
   return (
     <div
       ref={containerRef}
-      className="relative w-full h-full overflow-auto"
+      className="relative w-full h-full overflow-hidden"
+      onMouseDownCapture={handlePanStart}
     >
       <div 
-        className="relative shadow-2xl"
+        className="absolute top-0 left-0 shadow-2xl"
+        style={{
+          ...mapTransform,
+          ...(tileSet ? { width: tileSet.width, height: tileSet.height } : {}),
+        }}
+      >
+        {tileSet && viewport ? (
+          <TileLayer tileSet={tileSet} view={view} viewport={viewport} />
+        ) : (
+          <img src={imageSrc} alt="Map" className="block" />
+        )}
+      </div>
+      {/* Canvas markers sit between the map and the SVG, so paths, areas and the
+          interactive SVG markers stay on top of them as in the exports */}
+      {canvasMarkersByLayer && viewport && (
+        <MarkerCanvas
+          layers={visibleLayers.map(layer => ({ id: layer.id, opacity: layer.opacity, markers: canvasMarkersByLayer.get(layer.id) ?? [] }))}
+          labels={labelLayout.markers}
+          symbols={symbolMap}
+          view={view}
+          viewport={viewport}
+          markerSize={markerSize}
+          labelSize={labelSize}
+          showMarkerLabels={showMarkerLabels}
+          showAreaLabels={showAreaLabels}
+        />
+      )}
+      <div
+        className="absolute top-0 left-0"
         style={{
-          transform: `scale(${zoom})`,
-          transformOrigin: '0 0',
+          ...mapTransform,
+          ...(imageSize ? { width: imageSize.width, height: imageSize.height } : {}),
         }}
       >
-        <img src={imageSrc} alt="Map" className="block" />
         <svg
           className="absolute top-0 left-0 w-full h-full"
           viewBox={imageSize ? `0 0 ${imageSize.width} ${imageSize.height}` : undefined}
@@ -209,245 +928,65 @@ export const MapEditor: React.FC<MapEditorProps> = ({
           onMouseDown={handleMouseDown}
           onMouseMove={handleMouseMove}
           onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
+          onMouseLeave={() => {
+            handleMouseUp();
+            showCursor(null);
+          }}
           style={{ cursor: getCursor() }}
         >
-          {areas.map(area => {
-            const isSelected = selectedElement?.type === 'area' && selectedElement.id === area.id;
-            const fillColor = area.color || '#facc15';
-            const strokeColor = isSelected ? '#0ea5e9' : (area.color || '#facc15');
-            const strokeWidth = isSelected ? 4 : 2;
-            const label = area.number ? `${area.number} - ${area.name}` : area.name;
-
-            return (
-              <g key={area.id}>
-                {/* Click target */}
-                <circle
-                  cx={area.center.x}
-                  cy={area.center.y}
-                  r={Math.max(1, area.radius) + 8}
-                  fill="transparent"
-                  fillOpacity={0}
-                  stroke="transparent"
-                  strokeWidth={1}
-                  className="pointer-events-auto"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    if (activeTool === 'select' && !linkingState) {
-                      onSelectElement({ type: 'area', id: area.id });
-                    }
-                  }}
-                />
-
-                <circle
-                  cx={area.center.x}
-                  cy={area.center.y}
-                  r={Math.max(1, area.radius)}
-                  fill={fillColor}
-                  fillOpacity={0.25}
-                  stroke={strokeColor}
-                  strokeWidth={strokeWidth}
-                  style={{ pointerEvents: 'none' }}
-                />
-                {showMarkerLabels && (
-                  <text
-                    x={area.center.x}
-                    y={area.center.y}
-                    fill="black"
-                    fontSize={14 * labelSize}
-                    fontFamily="sans-serif"
-                    textAnchor="middle"
-                    dominantBaseline="middle"
-                    paintOrder="stroke"
-                    stroke="white"
-                    strokeWidth={3 * labelSize}
-                    strokeLinejoin="round"
-                    style={{ pointerEvents: 'none' }}
-                  >
-                    {label}
-                  </text>
-                )}
-              </g>
-            );
-          })}
+          {grid.visible && imageSize && (
+            <g style={{ pointerEvents: 'none' }}>
+              <defs>
+                <pattern id="map-grid" width={grid.size} height={grid.size} patternUnits="userSpaceOnUse">
+                  <path d={`M ${grid.size} 0 L 0 0 0 ${grid.size}`} fill="none" stroke={grid.color} strokeOpacity={0.4} strokeWidth={1 / zoom} />
+                </pattern>
+              </defs>
+              <rect width={imageSize.width} height={imageSize.height} fill="url(#map-grid)" />
+            </g>
+          )}
 
-          {polygonAreas.map(area => {
-            const isSelected = selectedElement?.type === 'polygonArea' && selectedElement.id === area.id;
-            const fillColor = area.color || '#facc15';
-            const strokeColor = isSelected ? '#0ea5e9' : (area.color || '#facc15');
-            const strokeWidth = isSelected ? 4 : 2;
-            const label = area.number ? `${area.number} - ${area.name}` : area.name;
-            const points = pointsToPolygonString(area.points);
-            const labelPoint = polygonCentroid(area.points);
-            const isClosed = area.points.length >= 3;
+          {visibleLayers.map(layer => (
+            <g key={layer.id} opacity={layer.opacity}>
+              {areasByLayer.get(layer.id)?.map(renderArea)}
+              {polygonAreasByLayer.get(layer.id)?.map(renderPolygonArea)}
+              {pathsByLayer.get(layer.id)?.map(renderPath)}
+              {markersByLayer.get(layer.id)?.map(renderMarker)}
+            </g>
+          ))}
 
+          {clusters.map(cluster => {
+            const r = clusterRadius(cluster, zoom);
             return (
-              <g key={area.id}>
-                {isClosed ? (
-                  <>
-                    <polygon
-                      points={points}
-                      fill="transparent"
-                      stroke="transparent"
-                      strokeWidth={12}
-                      className="pointer-events-auto"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        if (activeTool === 'select' && !linkingState) {
-                          onSelectElement({ type: 'polygonArea', id: area.id });
-                        }
-                      }}
-                    />
-                    <polygon
-                      points={points}
-                      fill={fillColor}
-                      fillOpacity={0.25}
-                      stroke={strokeColor}
-                      strokeWidth={strokeWidth}
-                      style={{ pointerEvents: 'none' }}
-                    />
-                  </>
-                ) : (
-                  <>
-                    <polyline
-                      points={points}
-                      fill="none"
-                      stroke="transparent"
-                      strokeWidth={12}
-                      className="pointer-events-auto"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        if (activeTool === 'select' && !linkingState) {
-                          onSelectElement({ type: 'polygonArea', id: area.id });
-                        }
-                      }}
-                    />
-                    <polyline
-                      points={points}
-                      fill="none"
-                      stroke={strokeColor}
-                      strokeWidth={strokeWidth}
-                      style={{ pointerEvents: 'none' }}
-                    />
-                  </>
-                )}
-                {showMarkerLabels && area.points.length > 1 && (
-                  <text
-                    x={labelPoint.x}
-                    y={labelPoint.y}
-                    fill="black"
-                    fontSize={14 * labelSize}
-                    fontFamily="sans-serif"
-                    textAnchor="middle"
-                    dominantBaseline="middle"
-                    paintOrder="stroke"
-                    stroke="white"
-                    strokeWidth={3 * labelSize}
-                    strokeLinejoin="round"
-                    style={{ pointerEvents: 'none' }}
-                  >
-                    {label}
-                  </text>
-                )}
+              <g
+                key={cluster.id}
+                className="pointer-events-auto"
+                style={{ cursor: 'zoom-in' }}
+                onMouseDown={(e) => {
+                  e.stopPropagation();
+                  if (viewport) onViewChange(fitBounds(cluster.bounds, viewport));
+                }}
+              >
+                <circle cx={cluster.center.x} cy={cluster.center.y} r={r} fill="#0ea5e9" fillOpacity={0.85} stroke="#fff" strokeWidth={2 / zoom} />
+                <text
+                  x={cluster.center.x}
+                  y={cluster.center.y}
+                  fill="white"
+                  fontSize={12 / zoom}
+                  fontWeight="bold"
+                  fontFamily="sans-serif"
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  style={{ pointerEvents: 'none' }}
+                >
+                  {cluster.markers.length}
+                </text>
               </g>
             );
           })}
 
-          {paths.map(path => {
-            const isSelected = selectedElement?.id === path.id;
-            const strokeColor = isSelected ? '#0ea5e9' : (path.color || '#f59e0b');
-            const strokeWidth = isSelected ? 5 : 3;
-
-            return (
-              <g key={path.id}>
-                <path
-                    d={pointsToPathD(path.points)}
-                    stroke="transparent"
-                    strokeWidth="20"
-                    fill="none"
-                    className="pointer-events-auto"
-                    onClick={(e) => { e.stopPropagation(); if(activeTool === 'select' && !linkingState) onSelectElement({ type: 'path', id: path.id }); }}
-                 />
-                <path
-                    d={pointsToPathD(path.points)}
-                    stroke={strokeColor}
-                    strokeWidth={strokeWidth}
-                    fill="none"
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    style={{ pointerEvents: 'none' }}
-                />
-              </g>
-            )
-          })}
-
-          {markers.map(marker => {
-            const markerColor = marker.color || '#10b981';
-            const outerR = 12 * markerSize;
-            const innerR = 6 * markerSize;
-            return (
-              <g key={marker.id} transform={`translate(${marker.position.x}, ${marker.position.y})`}>
-                <circle r={outerR} fill={`${markerColor}66`} stroke={markerColor} strokeWidth={2 * markerSize} />
-                <circle
-                  r={innerR}
-                  fill={selectedElement?.id === marker.id ? '#0ea5e9' : markerColor}
-                  stroke="#fff" strokeWidth={2 * markerSize}
-                  className="pointer-events-auto"
-                  onClick={(e) => {
-                      e.stopPropagation();
-                      if (linkingState && linkingState.fromMarkerId !== marker.id) {
-                          onLinkMarkers(marker.id);
-                      } else if (activeTool === 'select') {
-                          onSelectElement({ type: 'marker', id: marker.id });
-                      }
-                  }}
-                  onMouseDown={(e) => {
-                    e.stopPropagation();
-                    if (activeTool === 'select' && !linkingState) {
-                      setDragging({ type: 'marker', id: marker.id });
-                    }
-                  }}
-                  style={{ cursor: linkingState ? 'pointer' : activeTool === 'select' ? 'grab' : undefined }}
-                />
-                {showMarkerLabels && (
-                  <text
-                    x={15 * markerSize}
-                    y={5 * labelSize}
-                    fill="white"
-                    fontSize={12 * labelSize}
-                    fontFamily="sans-serif"
-                    paintOrder="stroke"
-                    stroke="black"
-                    strokeWidth={3 * labelSize}
-                    strokeLinejoin="round"
-                    style={{ pointerEvents: 'none' }}
-                  >
-                    {marker.number ? `${marker.number} - ${marker.name}` : marker.name}
-                  </text>
-                )}
-                {showAreaLabels && marker.area && (
-                  <text
-                    x={15 * markerSize}
-                    y={showMarkerLabels ? (5 * labelSize + 14 * labelSize) : 5 * labelSize}
-                    fill="#facc15"
-                    fontSize={10 * labelSize}
-                    fontFamily="sans-serif"
-                    paintOrder="stroke"
-                    stroke="black"
-                    strokeWidth={2 * labelSize}
-                    strokeLinejoin="round"
-                    style={{ pointerEvents: 'none' }}
-                  >
-                    [{marker.area}]
-                  </text>
-                )}
-              </g>
-            )
-          })}
 
-          {activeTool === 'select' && selectedElement?.type === 'area' && (() => {
-            const area = areas.find(a => a.id === selectedElement.id);
-            if (!area) return null;
+          {activeTool === 'select' && selectedArea && !isLocked(selectedArea) && (() => {
+            const area = selectedArea;
             const handle = getRadiusHandlePos(area);
 
             return (
@@ -484,10 +1023,10 @@ export const MapEditor: React.FC<MapEditorProps> = ({
             );
           })()}
           
-          {selectedElement?.type === 'polygonArea' && polygonAreas.find(a => a.id === selectedElement.id)?.points.map((point, index) => {
+          {selectedPolygonArea && !isLocked(selectedPolygonArea) && selectedPolygonArea.points.map((point, index) => {
             return (
               <circle
-                key={`${selectedElement.id}-poly-point-${index}`}
+                key={`${selectedPolygonArea.id}-poly-point-${index}`}
                 cx={point.x} cy={point.y} r="6"
                 fill="#fff"
                 stroke="#0ea5e9" strokeWidth="2"
@@ -495,7 +1034,7 @@ export const MapEditor: React.FC<MapEditorProps> = ({
                 onMouseDown={(e) => {
                   e.stopPropagation();
                   if (activeTool === 'select') {
-                    setDragging({ type: 'polygonPoint', id: selectedElement.id, pointIndex: index });
+                    setDragging({ type: 'polygonPoint', id: selectedPolygonArea.id, pointIndex: index });
                   }
                 }}
                 style={{ cursor: activeTool === 'select' ? 'grab' : 'default' }}
@@ -503,17 +1042,15 @@ export const MapEditor: React.FC<MapEditorProps> = ({
             );
           })}
 
-          {selectedElement?.type === 'path' && paths.find(p => p.id === selectedElement.id)?.points.map((point, index, points) => {
-            const path = paths.find(p => p.id === selectedElement.id);
-            if (!path) return null;
-            
+          {selectedPath && !isLocked(selectedPath) && selectedPath.points.map((point, index, points) => {
+            const path = selectedPath;
             const isLinked = !!path.linkedMarkers;
             const isEndpoint = index === 0 || index === points.length - 1;
             const canDrag = !isLinked || !isEndpoint;
 
             return (
               <circle
-                key={`${selectedElement.id}-point-${index}`}
+                key={`${path.id}-point-${index}`}
                 cx={point.x} cy={point.y} r="6"
                 fill={canDrag ? "#fff" : "#f87171"}
                 stroke="#0ea5e9" strokeWidth="2"
@@ -521,7 +1058,7 @@ export const MapEditor: React.FC<MapEditorProps> = ({
                 onMouseDown={(e) => {
                   e.stopPropagation();
                   if (activeTool === 'select' && canDrag) {
-                    setDragging({ type: 'pathPoint', id: selectedElement.id, pointIndex: index });
+                    setDragging({ type: 'pathPoint', id: path.id, pointIndex: index });
                   }
                 }}
                 style={{ cursor: canDrag ? 'grab' : 'not-allowed' }}
@@ -529,10 +1066,9 @@ export const MapEditor: React.FC<MapEditorProps> = ({
             );
           })}
 
-          {activeTool === 'select' && selectedElement?.type === 'path' && paths.find(p => p.id === selectedElement.id)?.points.map((point, index, points) => {
+          {activeTool === 'select' && selectedPath && !isLocked(selectedPath) && selectedPath.points.map((point, index, points) => {
              if (index === points.length - 1) return null;
-             const path = paths.find(p => p.id === selectedElement.id);
-             if (!path) return null;
+             const path = selectedPath;
 
              const p1 = points[index];
              const p2 = points[index+1];
@@ -540,7 +1076,7 @@ export const MapEditor: React.FC<MapEditorProps> = ({
              
              return (
                 <circle
-                    key={`${selectedElement.id}-midpoint-${index}`}
+                    key={`${path.id}-midpoint-${index}`}
                     cx={midPoint.x} cy={midPoint.y} r={5}
                     fill="rgba(255, 255, 255, 0.5)"
                     stroke="#0ea5e9" strokeWidth="2"
@@ -555,8 +1091,92 @@ export const MapEditor: React.FC<MapEditorProps> = ({
                 />
              )
           })}
+
+          {selectionBox && (() => {
+            const box = boxBounds(selectionBox.start, selectionBox.end);
+            return (
+              <rect
+                x={box.minX} y={box.minY} width={box.maxX - box.minX} height={box.maxY - box.minY}
+                fill="rgba(14, 165, 233, 0.1)" stroke="#0ea5e9" strokeWidth={1} strokeDasharray="4 3"
+                style={{ pointerEvents: 'none' }}
+              />
+            );
+          })()}
+
+          {snap && (
+            <g style={{ pointerEvents: 'none' }}>
+              {snap.guides.map((guide, index) => (
+                <line
+                  key={`snap-guide-${index}`}
+                  x1={guide.from.x} y1={guide.from.y} x2={guide.to.x} y2={guide.to.y}
+                  stroke="#f472b6" strokeWidth={1 / zoom} strokeDasharray={`${4 / zoom} ${3 / zoom}`}
+                />
+              ))}
+              {snap.target && (
+                <circle cx={snap.target.x} cy={snap.target.y} r={6 / zoom} fill="none" stroke="#f472b6" strokeWidth={2 / zoom} />
+              )}
+            </g>
+          )}
+
+          <OverlayGraphics blocks={overlayBlocks} />
+          {activeTool === 'calibrate' && calibrationPoints.length > 0 && (
+            <g style={{ pointerEvents: 'none' }}>
+              {calibrationPoints.length > 1 && (
+                <line
+                  x1={calibrationPoints[0].x} y1={calibrationPoints[0].y}
+                  x2={calibrationPoints[1].x} y2={calibrationPoints[1].y}
+                  stroke="#0ea5e9" strokeWidth={2} strokeDasharray="6 4"
+                />
+              )}
+              {calibrationPoints.map((point, index) => (
+                <circle key={`calibration-${index}`} cx={point.x} cy={point.y} r={5} fill="#fff" stroke="#0ea5e9" strokeWidth={2} />
+              ))}
+            </g>
+          )}
+          {activeTool === 'georeference' && georeference && (
+            <g style={{ pointerEvents: 'none' }}>
+              {georeference.controlPoints.map((point, index) => {
+                // The line shows the residual: where the fit puts the point's world position
+                const fitted = worldToPixel(georeference, point.world);
+                return (
+                  <g key={point.id}>
+                    {fitted && (
+                      <line x1={point.pixel.x} y1={point.pixel.y} x2={fitted.x} y2={fitted.y} stroke="#ef4444" strokeWidth={2 / zoom} />
+                    )}
+                    <circle cx={point.pixel.x} cy={point.pixel.y} r={6 / zoom} fill="none" stroke="#fff" strokeWidth={3 / zoom} />
+                    <circle cx={point.pixel.x} cy={point.pixel.y} r={6 / zoom} fill="none" stroke="#a855f7" strokeWidth={1.5 / zoom} />
+                    <text
+                      x={point.pixel.x + 8 / zoom}
+                      y={point.pixel.y - 8 / zoom}
+                      fontSize={12 / zoom}
+                      fill="#fff"
+                      stroke="#000"
+                      strokeWidth={3 / zoom}
+                      paintOrder="stroke"
+                    >
+                      {index + 1}
+                    </text>
+                  </g>
+                );
+              })}
+            </g>
+          )}
         </svg>
       </div>
+      <div
+        ref={cursorReadoutRef}
+        className="absolute bottom-2 left-2 bg-gray-800/90 border border-gray-600 rounded-md shadow-lg px-2 py-1 text-xs text-gray-300 font-mono pointer-events-none"
+        style={{ display: 'none' }}
+      />
+      {imageSize && viewport && (
+        <Minimap
+          imageSrc={tileSet ? overviewSrc ?? imageSrc : imageSrc}
+          imageSize={imageSize}
+          view={view}
+          viewport={viewport}
+          onNavigate={(point) => onViewChange(v => centerOn(point, v.zoom, viewport))}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,187 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MapSymbol, Marker } from '../types.ts';
+import { ImageSize } from '../services/geometry.ts';
+import { ViewState } from '../services/viewport.ts';
+import { PlacedLabel, markerLabel } from '../services/labelPlacement.ts';
+import { resolveSymbol, shapePathD } from '../services/symbols.ts';
+
+export interface MarkerCanvasLayer {
+  id: string;
+  opacity: number;
+  markers: Marker[];
+}
+
+interface MarkerCanvasProps {
+  layers: MarkerCanvasLayer[];
+  // Placed labels by marker id, as worked out for the whole plan
+  labels: Map<string, PlacedLabel>;
+  symbols: Map<string, MapSymbol>;
+  view: ViewState;
+  viewport: ImageSize;
+  markerSize: number;
+  labelSize: number;
+  showMarkerLabels: boolean;
+  showAreaLabels: boolean;
+}
+
+// Icon images by data URL, shared by every canvas; a canvas draws an icon once it has loaded
+const iconImages = new Map<string, HTMLImageElement>();
+
+const loadIcon = (src: string, onLoad: () => void) => {
+  let img = iconImages.get(src);
+  if (!img) {
+    img = new Image();
+    img.src = src;
+    iconImages.set(src, img);
+  }
+  if (!img.complete) img.addEventListener('load', onLoad, { once: true });
+  return img;
+};
+
+// Whether two renders would draw the same markers, so a drag elsewhere
+// (which rebuilds the layer lists every move) does not repaint the canvas
+const sameLayers = (a: MarkerCanvasLayer[], b: MarkerCanvasLayer[]) => (
+  a.length === b.length && a.every((layer, i) => (
+    layer.id === b[i].id
+    && layer.opacity === b[i].opacity
+    && layer.markers.length === b[i].markers.length
+    && layer.markers.every((marker, j) => marker === b[i].markers[j])
+  ))
+);
+
+/**
+ * Draws plain markers onto one screen-sized canvas, looking the same as the
+ * SVG markers of the editor. Used when there are too many markers in view
+ * for one SVG node tree each; it takes no pointer events, so the editor
+ * hit-tests these markers itself.
+ */
+export const MarkerCanvas: React.FC<MarkerCanvasProps> = ({
+  layers,
+  labels,
+  symbols,
+  view,
+  viewport,
+  markerSize,
+  labelSize,
+  showMarkerLabels,
+  showAreaLabels,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawnRef = useRef<(MarkerCanvasProps & { iconsLoaded: number }) | null>(null);
+  // Bumped when an icon finishes loading, to draw it
+  const [iconsLoaded, setIconsLoaded] = useState(0);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const props = { layers, labels, symbols, view, viewport, markerSize, labelSize, showMarkerLabels, showAreaLabels, iconsLoaded };
+    const drawn = drawnRef.current;
+    if (
+      drawn && sameLayers(drawn.layers, layers) && drawn.labels === labels && drawn.symbols === symbols
+      && drawn.iconsLoaded === iconsLoaded && drawn.view === view && drawn.viewport === viewport
+      && drawn.markerSize === markerSize && drawn.labelSize === labelSize
+      && drawn.showMarkerLabels === showMarkerLabels && drawn.showAreaLabels === showAreaLabels
+    ) return;
+    drawnRef.current = props;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewport.width * ratio);
+    canvas.height = Math.round(viewport.height * ratio);
+    ctx.setTransform(ratio * view.zoom, 0, 0, ratio * view.zoom, ratio * view.offset.x, ratio * view.offset.y);
+    ctx.lineJoin = 'round';
+
+    const outerR = 12 * markerSize;
+    const innerR = 6 * markerSize;
+    const onIconLoad = () => setIconsLoaded(n => n + 1);
+
+    layers.forEach(layer => {
+      ctx.globalAlpha = layer.opacity;
+      layer.markers.forEach(marker => {
+        const { x, y } = marker.position;
+        const color = marker.color || '#10b981';
+        ctx.lineWidth = 2 * markerSize;
+        const resolved = resolveSymbol(marker, symbols);
+        if (resolved) {
+          const { symbol, size, rotation } = resolved;
+          const r = outerR * size;
+          ctx.save();
+          ctx.translate(x, y);
+          if (rotation) ctx.rotate((rotation * Math.PI) / 180);
+          if (symbol.kind === 'icon' && symbol.src) {
+            const img = loadIcon(symbol.src, onIconLoad);
+            if (img.complete && img.naturalWidth) {
+              // Fit the icon into the square, keeping its proportions
+              const scale = (2 * r) / Math.max(img.naturalWidth, img.naturalHeight);
+              const w = img.naturalWidth * scale;
+              const h = img.naturalHeight * scale;
+              ctx.drawImage(img, -w / 2, -h / 2, w, h);
+            }
+          } else if (symbol.kind === 'emoji' && symbol.emoji) {
+            ctx.font = `${1.6 * r}px sans-serif`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText(symbol.emoji, 0, 0);
+          } else {
+            const shape = new Path2D(shapePathD(symbol.shape ?? 'circle', r));
+            ctx.fillStyle = color;
+            ctx.fill(shape);
+            ctx.strokeStyle = '#fff';
+            ctx.stroke(shape);
+          }
+          ctx.restore();
+        } else {
+          ctx.beginPath();
+          ctx.arc(x, y, outerR, 0, Math.PI * 2);
+          ctx.fillStyle = `${color}66`;
+          ctx.fill();
+          ctx.strokeStyle = color;
+          ctx.stroke();
+          ctx.beginPath();
+          ctx.arc(x, y, innerR, 0, Math.PI * 2);
+          ctx.fillStyle = color;
+          ctx.fill();
+          ctx.strokeStyle = '#fff';
+          ctx.stroke();
+        }
+
+        const placed = labels.get(marker.id);
+        if (!placed) return;
+        if (placed.leader) {
+          ctx.beginPath();
+          ctx.moveTo(x + placed.leader.from.x, y + placed.leader.from.y);
+          ctx.lineTo(x + placed.leader.to.x, y + placed.leader.to.y);
+          ctx.lineWidth = 1.5 * labelSize;
+          ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+          ctx.stroke();
+        }
+        if (showMarkerLabels) {
+          ctx.font = `${12 * labelSize}px sans-serif`;
+          ctx.lineWidth = 3 * labelSize;
+          ctx.strokeStyle = 'black';
+          ctx.fillStyle = 'white';
+          ctx.strokeText(markerLabel(marker), x + placed.x, y + placed.y);
+          ctx.fillText(markerLabel(marker), x + placed.x, y + placed.y);
+        }
+        if (showAreaLabels && marker.area) {
+          const labelY = y + (showMarkerLabels ? placed.y + 14 * labelSize : placed.y);
+          ctx.font = `${10 * labelSize}px sans-serif`;
+          ctx.lineWidth = 2 * labelSize;
+          ctx.strokeStyle = 'black';
+          ctx.fillStyle = '#facc15';
+          ctx.strokeText(`[${marker.area}]`, x + placed.x, labelY);
+          ctx.fillText(`[${marker.area}]`, x + placed.x, labelY);
+        }
+      });
+    });
+  }, [layers, labels, symbols, view, viewport, markerSize, labelSize, showMarkerLabels, showAreaLabels, iconsLoaded]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute top-0 left-0 pointer-events-none"
+      style={{ width: viewport.width, height: viewport.height }}
+    />
+  );
+};
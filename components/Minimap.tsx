@@ -0,0 +1,58 @@
+
+import React, { MouseEvent } from 'react';
+import { Point } from '../types.ts';
+import { ImageSize } from '../services/geometry.ts';
+import { ViewState, visibleBounds } from '../services/viewport.ts';
+
+interface MinimapProps {
+  imageSrc: string;
+  imageSize: ImageSize;
+  view: ViewState;
+  viewport: ImageSize;
+  // Centers the view on an image point
+  onNavigate: (point: Point) => void;
+}
+
+const MINIMAP_SIZE = 180;
+
+export const Minimap: React.FC<MinimapProps> = ({ imageSrc, imageSize, view, viewport, onNavigate }) => {
+  const scale = MINIMAP_SIZE / Math.max(imageSize.width, imageSize.height);
+  const width = imageSize.width * scale;
+  const height = imageSize.height * scale;
+  const visible = visibleBounds(view, viewport);
+
+  const navigate = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate({ x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale });
+  };
+
+  return (
+    <div
+      className="absolute bottom-2 right-2 bg-gray-800/90 border border-gray-600 rounded-md shadow-lg p-1 cursor-pointer select-none"
+      title="Click or drag to move the view"
+    >
+      <div
+        className="relative overflow-hidden"
+        style={{ width, height }}
+        onMouseDown={(e) => {
+          e.preventDefault();
+          navigate(e);
+        }}
+        onMouseMove={(e) => {
+          if (e.buttons & 1) navigate(e);
+        }}
+      >
+        <img src={imageSrc} alt="" draggable={false} className="block w-full h-full opacity-80" />
+        <div
+          className="absolute border-2 border-sky-400 bg-sky-400/10 pointer-events-none"
+          style={{
+            left: visible.minX * scale,
+            top: visible.minY * scale,
+            width: (visible.maxX - visible.minX) * scale,
+            height: (visible.maxY - visible.minY) * scale,
+          }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+
+import React from 'react';
+import { ObstacleMask } from '../types.ts';
+
+interface ObstaclePanelProps {
+  mask: ObstacleMask | null;
+  onMaskChange: (mask: ObstacleMask | null) => void;
+  // Polygon areas marked as impassable
+  obstacleCount: number;
+  linkCount: number;
+  onRerouteAll: () => void;
+}
+
+const DEFAULT_MASK: ObstacleMask = { color: '#000000', tolerance: 60 };
+
+export const ObstaclePanel: React.FC<ObstaclePanelProps> = ({ mask, onMaskChange, obstacleCount, linkCount, onRerouteAll }) => (
+  <div className="space-y-2 text-sm">
+    <p className="text-xs text-gray-400">
+      Links between markers go around impassable polygon areas ({obstacleCount}) and, when enabled, around parts of the map matching the mask color.
+    </p>
+    <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+      <input type="checkbox" checked={!!mask} onChange={(e) => onMaskChange(e.target.checked ? DEFAULT_MASK : null)} />
+      <span>Block map color</span>
+    </label>
+    {mask && (
+      <>
+        <div className="flex items-center justify-between">
+          <label htmlFor="obstacle-mask-color" className="text-xs font-medium text-gray-400">Mask color</label>
+          <input
+            type="color"
+            id="obstacle-mask-color"
+            value={mask.color}
+            onChange={(e) => onMaskChange({ ...mask, color: e.target.value })}
+            className="w-8 h-8 p-1 bg-gray-800 border border-gray-600 rounded-md cursor-pointer"
+          />
+        </div>
+        <div>
+          <label htmlFor="obstacle-mask-tolerance" className="block text-xs font-medium text-gray-400">Tolerance: {mask.tolerance}</label>
+          <input
+            type="range"
+            id="obstacle-mask-tolerance"
+            min="0"
+            max="200"
+            value={mask.tolerance}
+            onChange={(e) => onMaskChange({ ...mask, tolerance: Number(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+      </>
+    )}
+    <button
+      onClick={onRerouteAll}
+      disabled={!linkCount}
+      className="w-full bg-sky-600 hover:bg-sky-700 text-white font-bold py-1 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      Reroute All Links
+    </button>
+  </div>
+);
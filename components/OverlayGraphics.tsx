@@ -0,0 +1,69 @@
+
+import React from 'react';
+import { LegendEntry, OverlayBlock, northArrowPathD } from '../services/overlays.ts';
+import { SymbolGraphic } from './SymbolGraphic.tsx';
+
+const Swatch: React.FC<{ x: number; y: number; r: number; entry: LegendEntry }> = ({ x, y, r, entry }) => {
+  const { color } = entry;
+  return (
+    <g transform={`translate(${x}, ${y})`}>
+      {entry.kind === 'area' ? (
+        <circle r={r} fill={color} fillOpacity={0.25} stroke={color} strokeWidth={r / 4} />
+      ) : entry.kind === 'status' ? (
+        <circle r={r * 0.6} fill={color} stroke="#fff" strokeWidth={r / 6} />
+      ) : entry.symbol ? (
+        <SymbolGraphic symbol={entry.symbol} color={color} radius={r} rotation={entry.symbol.rotation} strokeWidth={r / 6} />
+      ) : (
+        <>
+          <circle r={r} fill={`${color}66`} stroke={color} strokeWidth={r / 6} />
+          <circle r={r / 2} fill={color} stroke="#fff" strokeWidth={r / 6} />
+        </>
+      )}
+    </g>
+  );
+};
+
+/** Legend and title block overlays in image pixels, drawn the same way as in exports. */
+export const OverlayGraphics: React.FC<{ blocks: OverlayBlock[] }> = ({ blocks }) => (
+  <g style={{ pointerEvents: 'none' }}>
+    {blocks.map(block => (
+      <g key={block.kind}>
+        <rect x={block.x} y={block.y} width={block.width} height={block.height} fill="white" fillOpacity={0.85} rx={4} />
+        {block.swatches.map(swatch => <Swatch key={swatch.entry.key} {...swatch} />)}
+        {block.bar && (
+          <>
+            <line x1={block.bar.x} y1={block.bar.y} x2={block.bar.x + block.bar.width} y2={block.bar.y} stroke="black" strokeWidth={block.bar.lineWidth} />
+            {[block.bar.x, block.bar.x + block.bar.width].map(x => (
+              <line
+                key={x}
+                x1={x} y1={block.bar!.y - 2 * block.bar!.lineWidth} x2={x} y2={block.bar!.y + 2 * block.bar!.lineWidth}
+                stroke="black" strokeWidth={(block.bar!.lineWidth * 2) / 3}
+              />
+            ))}
+          </>
+        )}
+        {block.arrow && (
+          <path
+            d={northArrowPathD(block.arrow.size)}
+            transform={`translate(${block.arrow.x}, ${block.arrow.y}) rotate(${block.arrow.rotation})`}
+            fill="black"
+          />
+        )}
+        {block.texts.map((t, i) => (
+          <text
+            key={i}
+            x={t.x}
+            y={t.y}
+            fill="black"
+            fontSize={t.fontSize}
+            fontFamily="sans-serif"
+            fontWeight={t.bold ? 'bold' : undefined}
+            textAnchor={t.anchor === 'middle' ? 'middle' : undefined}
+          >
+            {t.text}
+          </text>
+        ))}
+      </g>
+    ))}
+  </g>
+);
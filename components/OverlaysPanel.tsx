@@ -0,0 +1,155 @@
+import React from 'react';
+import { OverlayPlacement, OverlayPosition, PlanOverlays } from '../types.ts';
+import { LegendEntry, OVERLAY_POSITIONS } from '../services/overlays.ts';
+
+interface OverlaysPanelProps {
+  overlays: PlanOverlays;
+  onChange: (overlays: PlanOverlays) => void;
+  // Legend entries of the current plan, for renaming
+  entries: LegendEntry[];
+  hasCalibration: boolean;
+}
+
+const inputClass = 'w-full bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500';
+
+const OVERLAY_TITLES: Record<keyof PlanOverlays, string> = {
+  title: 'Title and date',
+  legend: 'Legend',
+  notes: 'Notes',
+  scaleBar: 'Scale bar',
+  northArrow: 'North arrow',
+};
+
+export const OverlaysPanel: React.FC<OverlaysPanelProps> = ({ overlays, onChange, entries, hasCalibration }) => {
+  const update = <K extends keyof PlanOverlays>(kind: K, data: Partial<PlanOverlays[K]>) => (
+    onChange({ ...overlays, [kind]: { ...overlays[kind], ...data } })
+  );
+
+  // Show checkbox and corner picker shared by every overlay
+  const placement = (kind: keyof PlanOverlays) => {
+    const overlay: OverlayPlacement = overlays[kind];
+    return (
+      <div className="flex items-center justify-between space-x-2">
+        <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={overlay.visible} onChange={(e) => update(kind, { visible: e.target.checked })} />
+          <span>{OVERLAY_TITLES[kind]}</span>
+        </label>
+        <select
+          value={overlay.position}
+          onChange={(e) => update(kind, { position: e.target.value as OverlayPosition })}
+          className="bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-xs focus:ring-sky-500 focus:border-sky-500"
+          title="Corner of the map"
+        >
+          {OVERLAY_POSITIONS.map(({ position, label }) => <option key={position} value={position}>{label}</option>)}
+        </select>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="space-y-1">
+        {placement('title')}
+        {overlays.title.visible && (
+          <>
+            <input
+              type="text"
+              value={overlays.title.text}
+              onChange={(e) => update('title', { text: e.target.value })}
+              placeholder="Plan title"
+              className={inputClass}
+            />
+            <div className="flex space-x-2">
+              <input
+                type="text"
+                value={overlays.title.date}
+                onChange={(e) => update('title', { date: e.target.value })}
+                placeholder="Date"
+                className={inputClass}
+              />
+              <button
+                onClick={() => update('title', { date: new Date().toLocaleDateString() })}
+                className="border border-gray-500 hover:border-gray-400 text-gray-400 hover:text-white px-2 rounded-md text-xs transition-colors"
+              >
+                Today
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {placement('legend')}
+        {overlays.legend.visible && (
+          <>
+            <input
+              type="text"
+              value={overlays.legend.heading}
+              onChange={(e) => update('legend', { heading: e.target.value })}
+              placeholder="Heading"
+              className={inputClass}
+            />
+            {entries.length ? entries.map(entry => (
+              <div key={entry.key} className="flex items-center space-x-2">
+                <span className="w-3 h-3 rounded-full flex-shrink-0 border border-gray-500" style={{ backgroundColor: entry.color }} />
+                <input
+                  type="text"
+                  value={overlays.legend.names[entry.key] ?? ''}
+                  onChange={(e) => {
+                    const { [entry.key]: _previous, ...names } = overlays.legend.names;
+                    update('legend', { names: e.target.value ? { ...names, [entry.key]: e.target.value } : names });
+                  }}
+                  placeholder={entry.defaultName}
+                  className={inputClass}
+                />
+                <span className="text-xs text-gray-500 tabular-nums" title="Elements in this entry">{entry.count}</span>
+              </div>
+            )) : <p className="text-xs text-gray-500">Nothing on the map to list yet.</p>}
+          </>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {placement('notes')}
+        {overlays.notes.visible && (
+          <textarea
+            value={overlays.notes.text}
+            onChange={(e) => update('notes', { text: e.target.value })}
+            placeholder="Notes"
+            rows={3}
+            className={inputClass}
+          />
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {placement('scaleBar')}
+        {overlays.scaleBar.visible && !hasCalibration && (
+          <p className="text-xs text-gray-500">Set the map scale to show the scale bar.</p>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {placement('northArrow')}
+        {overlays.northArrow.visible && (
+          <div className="flex items-center justify-between">
+            <label htmlFor="north-rotation" className="text-xs font-medium text-gray-400">Rotation (deg)</label>
+            <input
+              type="number"
+              id="north-rotation"
+              step={15}
+              value={overlays.northArrow.rotation}
+              onChange={(e) => {
+                const rotation = Number(e.target.value);
+                if (Number.isFinite(rotation)) update('northArrow', { rotation });
+              }}
+              className="w-20 bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500"
+            />
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400">Shown overlays appear on the map and in the PNG, SVG and PDF exports. Blank legend names use the generated ones.</p>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ImageSize } from '../services/geometry.ts';
+import { DEFAULT_PDF_OPTIONS, PAPER_SIZES, PaperSize, PdfOptions, PdfTiling, tilePdfPages } from '../services/pdfExport.ts';
+
+interface PdfExportDialogProps {
+  imageSize: ImageSize;
+  onExport: (options: PdfOptions) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-20 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500';
+
+const DPI_CHOICES = [72, 150, 300];
+
+// Remembered for the session, so repeated exports keep their settings
+let lastOptions: PdfOptions = DEFAULT_PDF_OPTIONS;
+
+export const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ imageSize, onExport, onClose }) => {
+  const [options, setOptions] = useState<PdfOptions>(lastOptions);
+  const tiling: PdfTiling = tilePdfPages(imageSize, options);
+  const tiled = options.columns > 1 || options.rows > 1;
+
+  const update = (data: Partial<PdfOptions>) => setOptions({ ...options, ...data });
+  const numberField = (id: string, label: string, key: 'margin' | 'columns' | 'rows' | 'overlap', min: number, max: number) => (
+    <div className="flex items-center justify-between">
+      <label htmlFor={id} className="text-sm text-gray-300">{label}</label>
+      <input
+        type="number"
+        id={id}
+        min={min}
+        max={max}
+        value={options[key]}
+        onChange={(e) => {
+          const value = Number(e.target.value);
+          if (Number.isFinite(value)) update({ [key]: Math.min(max, Math.max(min, value)) });
+        }}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const handleExport = () => {
+    lastOptions = options;
+    onExport(options);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-md shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-sky-400">Export PDF</h2>
+          <p className="text-sm text-gray-400 mt-1">Print the plan on one page, or spread it over several pages to tape together.</p>
+        </div>
+        <div className="p-4 overflow-y-auto space-y-3">
+          <div className="flex items-center justify-between">
+            <label htmlFor="pdf-paper" className="text-sm text-gray-300">Paper</label>
+            <div className="flex space-x-2">
+              <select
+                id="pdf-paper"
+                value={options.paper}
+                onChange={(e) => update({ paper: e.target.value as PaperSize })}
+                className="bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500"
+              >
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map(paper => (
+                  <option key={paper} value={paper}>{PAPER_SIZES[paper].label}</option>
+                ))}
+              </select>
+              <select
+                value={options.landscape ? 'landscape' : 'portrait'}
+                onChange={(e) => update({ landscape: e.target.value === 'landscape' })}
+                className="bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500"
+                title="Orientation"
+              >
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+              </select>
+            </div>
+          </div>
+          {numberField('pdf-margin', 'Margin (mm)', 'margin', 0, 50)}
+          {numberField('pdf-columns', 'Pages across', 'columns', 1, 10)}
+          {numberField('pdf-rows', 'Pages down', 'rows', 1, 10)}
+          {tiled && numberField('pdf-overlap', 'Overlap (mm)', 'overlap', 0, 50)}
+          <div className="flex items-center justify-between">
+            <label htmlFor="pdf-dpi" className="text-sm text-gray-300">Resolution</label>
+            <select
+              id="pdf-dpi"
+              value={options.dpi}
+              onChange={(e) => update({ dpi: Number(e.target.value) })}
+              className="bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500"
+            >
+              {DPI_CHOICES.map(dpi => <option key={dpi} value={dpi}>{dpi} dpi</option>)}
+            </select>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={options.appendix} onChange={(e) => update({ appendix: e.target.checked })} />
+            <span>Add tables of markers and areas</span>
+          </label>
+          <p className="text-xs text-gray-400">
+            {tiling.sheets.length} map {tiling.sheets.length === 1 ? 'page' : 'pages'}, 1 mm on paper = {(1 / tiling.scale).toFixed(1)} map pixels.
+            {tiled && ' Dashed lines mark where neighbouring pages overlap.'}
+          </p>
+        </div>
+        <div className="p-4 border-t border-gray-700 flex justify-end space-x-2">
+          <button onClick={onClose} className="border border-gray-500 hover:border-gray-400 text-gray-300 hover:text-white py-2 px-4 rounded-md transition-colors">
+            Cancel
+          </button>
+          <button onClick={handleExport} className="bg-sky-600 hover:bg-sky-700 text-white font-bold py-2 px-4 rounded-md transition-colors">
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+
+import React, { useState } from 'react';
+import { PlanSummary } from '../services/planLibrary.ts';
+import { DeleteIcon } from './icons.tsx';
+
+interface PlanSwitcherProps {
+  plans: PlanSummary[];
+  currentPlanId: string | null;
+  onOpenPlan: (id: string) => void;
+  onRenamePlan: (id: string, name: string) => void;
+  onDuplicatePlan: (id: string) => void;
+  onDeletePlan: (id: string) => void;
+  onFileUpload: (file: File) => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+
+export const PlanSwitcher: React.FC<PlanSwitcherProps> = ({
+  plans,
+  currentPlanId,
+  onOpenPlan,
+  onRenamePlan,
+  onDuplicatePlan,
+  onDeletePlan,
+  onFileUpload,
+}) => {
+  const [open, setOpen] = useState(false);
+  const currentPlan = plans.find(p => p.id === currentPlanId);
+  // Without an open plan the list is the only way in, so keep it visible.
+  const expanded = open || !currentPlan;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files[0]) {
+      onFileUpload(e.target.files[0]);
+      e.target.value = ''; // Reset input to allow re-uploading the same file
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        onClick={() => setOpen(v => !v)}
+        className="w-full flex items-center space-x-3 bg-gray-900 hover:bg-gray-700 border border-gray-600 rounded-md p-2 text-left transition-colors"
+        title="Switch Plan"
+      >
+        {currentPlan?.thumbnail ? (
+          <img src={currentPlan.thumbnail} alt="" className="w-12 h-9 object-cover rounded-sm flex-shrink-0" />
+        ) : (
+          <div className="w-12 h-9 bg-gray-700 rounded-sm flex-shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-white truncate">{currentPlan?.name ?? 'No plan open'}</p>
+          <p className="text-xs text-gray-400">{plans.length} plan{plans.length === 1 ? '' : 's'} in library</p>
+        </div>
+        <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${expanded ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {expanded && (
+        <div className="bg-gray-900 border border-gray-600 rounded-md p-2 space-y-2">
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {plans.length ? plans.map(plan => (
+              <div
+                key={plan.id}
+                className={`flex items-center space-x-2 p-1 rounded-md ${plan.id === currentPlanId ? 'bg-sky-900/50 border border-sky-600' : 'hover:bg-gray-700 border border-transparent'}`}
+              >
+                <button
+                  onClick={() => {
+                    onOpenPlan(plan.id);
+                    setOpen(false);
+                  }}
+                  className="flex-1 min-w-0 flex items-center space-x-2 text-left"
+                  title={`Open ${plan.name}`}
+                >
+                  {plan.thumbnail ? (
+                    <img src={plan.thumbnail} alt="" className="w-10 h-8 object-cover rounded-sm flex-shrink-0" />
+                  ) : (
+                    <div className="w-10 h-8 bg-gray-700 rounded-sm flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm text-gray-200 truncate">{plan.name}</p>
+                    <p className="text-[10px] text-gray-500" title={`Created ${formatDate(plan.createdAt)}`}>Modified {formatDate(plan.modifiedAt)}</p>
+                  </div>
+                </button>
+                <button
+                  onClick={() => {
+                    const name = window.prompt('Plan name', plan.name);
+                    if (name && name.trim()) onRenamePlan(plan.id, name.trim());
+                  }}
+                  className="text-xs text-gray-400 hover:text-white px-1"
+                  title="Rename"
+                >
+                  Ren
+                </button>
+                <button onClick={() => onDuplicatePlan(plan.id)} className="text-xs text-gray-400 hover:text-white px-1" title="Duplicate">
+                  Dup
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete plan "${plan.name}"? This cannot be undone.`)) onDeletePlan(plan.id);
+                  }}
+                  className="text-red-400 hover:text-red-300 flex-shrink-0"
+                  title="Delete"
+                >
+                  <DeleteIcon />
+                </button>
+              </div>
+            )) : <p className="text-xs text-gray-500 p-1">No saved plans yet.</p>}
+          </div>
+          <label htmlFor="map-upload" className="w-full inline-block bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-md cursor-pointer text-center transition-colors">
+            New Plan from Map or File
+          </label>
+          <input id="map-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/bmp, .zip, application/zip, .json, application/json" onChange={handleFileChange} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+
+import React, { useState } from 'react';
+import { Calibration, Marker } from '../types.ts';
+import { RouteOptions } from '../services/routeOptimizer.ts';
+import { formatLength } from '../services/units.ts';
+
+interface RoutePanelProps {
+  // Markers the route will visit: the selected ones when two or more are selected, otherwise the ones passing the filters
+  markers: Marker[];
+  fromSelection: boolean;
+  calibration: Calibration | null;
+  onOptimizeRoute: (options: RouteOptions) => number | null;
+}
+
+const markerLabel = (marker: Marker) => (marker.number ? `${marker.number} - ${marker.name}` : marker.name);
+
+export const RoutePanel: React.FC<RoutePanelProps> = ({ markers, fromSelection, calibration, onOptimizeRoute }) => {
+  const [chosenStartId, setStartId] = useState('');
+  const [chosenEndId, setEndId] = useState('');
+  // A start or end that left the set of markers (selection or filters changed) falls back to Any
+  const startId = markers.some(m => m.id === chosenStartId) ? chosenStartId : '';
+  const endId = markers.some(m => m.id === chosenEndId) ? chosenEndId : '';
+  const [returnToStart, setReturnToStart] = useState(false);
+  const [lastLength, setLastLength] = useState<number | null>(null);
+
+  const selectClass = 'mt-1 w-full bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500';
+
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-xs text-gray-400">
+        Orders the {markers.length} {fromSelection ? 'selected' : 'visible'} marker{markers.length === 1 ? '' : 's'} into a short route, links them in that order and renumbers them.
+      </p>
+      <div>
+        <label htmlFor="route-start" className="block text-xs font-medium text-gray-400">Start</label>
+        <select id="route-start" value={startId} onChange={(e) => setStartId(e.target.value)} className={selectClass}>
+          <option value="">Any</option>
+          {markers.map(m => <option key={m.id} value={m.id}>{markerLabel(m)}</option>)}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="route-end" className="block text-xs font-medium text-gray-400">End</label>
+        <select id="route-end" value={returnToStart ? '' : endId} disabled={returnToStart} onChange={(e) => setEndId(e.target.value)} className={`${selectClass} disabled:opacity-50`}>
+          <option value="">Any</option>
+          {markers.filter(m => m.id !== startId).map(m => <option key={m.id} value={m.id}>{markerLabel(m)}</option>)}
+        </select>
+      </div>
+      <label className="flex items-center space-x-2 text-xs text-gray-300 cursor-pointer">
+        <input type="checkbox" checked={returnToStart} onChange={(e) => setReturnToStart(e.target.checked)} />
+        <span>Return to start</span>
+      </label>
+      <button
+        onClick={() => setLastLength(onOptimizeRoute({ startId: startId || undefined, endId: endId || undefined, returnToStart }))}
+        disabled={markers.length < 2}
+        className="w-full bg-sky-600 hover:bg-sky-700 text-white font-bold py-1 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Optimize Route
+      </button>
+      {lastLength !== null && (
+        <p className="text-xs text-gray-400">Route length: {formatLength(lastLength, calibration)}</p>
+      )}
+    </div>
+  );
+};
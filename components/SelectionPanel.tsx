@@ -0,0 +1,107 @@
+
+import React, { useState } from 'react';
+import { ElementRef, ElementType, MarkerStatus } from '../types.ts';
+import { AlignMode, DistributeAxis } from '../services/selection.ts';
+import { DeleteIcon } from './icons.tsx';
+
+export interface SelectionUpdate {
+  color?: string;
+  status?: MarkerStatus;
+  area?: string;
+}
+
+interface SelectionPanelProps {
+  selection: ElementRef[];
+  // Selected elements on locked layers; they are left out of moves
+  lockedCount: number;
+  onUpdate: (data: SelectionUpdate) => void;
+  onAlign: (mode: AlignMode) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onDelete: () => void;
+}
+
+const TYPE_LABELS: Record<ElementType, string> = { marker: 'marker', path: 'path', area: 'area', polygonArea: 'polygon area' };
+
+const ALIGN_BUTTONS: { mode: AlignMode; label: string }[] = [
+  { mode: 'left', label: 'Left' },
+  { mode: 'center', label: 'Center' },
+  { mode: 'right', label: 'Right' },
+  { mode: 'top', label: 'Top' },
+  { mode: 'middle', label: 'Middle' },
+  { mode: 'bottom', label: 'Bottom' },
+];
+
+export const SelectionPanel: React.FC<SelectionPanelProps> = ({ selection, lockedCount, onUpdate, onAlign, onDistribute, onDelete }) => {
+  const [color, setColor] = useState('#10b981');
+  const [area, setArea] = useState('');
+
+  const counts = (Object.keys(TYPE_LABELS) as ElementType[])
+    .map(type => ({ type, count: selection.filter(s => s.type === type).length }))
+    .filter(entry => entry.count > 0);
+  const hasMarkers = selection.some(s => s.type === 'marker');
+
+  const buttonClass = 'bg-gray-600 hover:bg-gray-500 text-white text-xs py-1 px-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const inputClass = 'flex-1 bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500';
+
+  return (
+    <div className="bg-gray-700/50 p-4 rounded-md">
+      <h3 className="text-lg font-bold text-sky-400 mb-1">{selection.length} Elements Selected</h3>
+      <p className="text-xs text-gray-400 mb-3">
+        {counts.map(({ type, count }) => `${count} ${TYPE_LABELS[type]}${count === 1 ? '' : 's'}`).join(', ')}
+        {lockedCount > 0 && ` (${lockedCount} on locked layers)`}
+      </p>
+      <div className="space-y-4">
+        <div className="flex items-center space-x-2">
+          <label htmlFor="selection-color" className="text-sm font-medium text-gray-300">Color</label>
+          <input type="color" id="selection-color" value={color} onChange={(e) => setColor(e.target.value)}
+            className="w-10 h-10 p-1 bg-gray-800 border border-gray-600 rounded-md cursor-pointer" />
+          <button onClick={() => onUpdate({ color })} className={buttonClass}>Apply to All</button>
+        </div>
+
+        {hasMarkers && (
+          <>
+            <div className="flex items-center justify-between">
+              <label htmlFor="selection-status" className="block text-sm font-medium text-gray-300">Marker Status</label>
+              <select id="selection-status" value="" onChange={(e) => e.target.value && onUpdate({ status: e.target.value as MarkerStatus })}
+                className="mt-1 w-1/2 bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500">
+                <option value="">Set...</option>
+                <option value="pending">Pending</option>
+                <option value="active">Active</option>
+                <option value="completed">Completed</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="selection-area" className="block text-sm font-medium text-gray-300">Marker Area</label>
+              <div className="mt-1 flex space-x-2">
+                <input type="text" id="selection-area" value={area} onChange={(e) => setArea(e.target.value)} className={inputClass} placeholder="e.g., Zone A" />
+                <button onClick={() => onUpdate({ area })} className={buttonClass}>Apply</button>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-300 mb-1">Align</h4>
+          <div className="grid grid-cols-3 gap-1">
+            {ALIGN_BUTTONS.map(({ mode, label }) => (
+              <button key={mode} onClick={() => onAlign(mode)} className={buttonClass}>{label}</button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <h4 className="text-sm font-medium text-gray-300 mb-1">Distribute</h4>
+          <div className="grid grid-cols-2 gap-1">
+            <button onClick={() => onDistribute('horizontal')} disabled={selection.length < 3} className={buttonClass}>Horizontally</button>
+            <button onClick={() => onDistribute('vertical')} disabled={selection.length < 3} className={buttonClass}>Vertically</button>
+          </div>
+        </div>
+
+        <p className="text-xs text-gray-400">Drag any selected element to move the group. Shift+click adds or removes elements.</p>
+
+        <button onClick={onDelete} className="w-full flex items-center justify-center space-x-2 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition-colors">
+          <DeleteIcon /><span>Delete {selection.length} Elements</span>
+        </button>
+      </div>
+    </div>
+  );
+};
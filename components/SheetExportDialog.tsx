@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { SHEET_KINDS, SheetFormat, SheetKind } from '../services/spreadsheet.ts';
+
+interface SheetExportDialogProps {
+  counts: Record<SheetKind, number>;
+  onExport: (kind: SheetKind, format: SheetFormat) => void;
+  onClose: () => void;
+}
+
+// Kept for the session, like the other export dialogs
+let lastFormat: SheetFormat = 'csv';
+
+export const SheetExportDialog: React.FC<SheetExportDialogProps> = ({ counts, onExport, onClose }) => {
+  const [format, setFormat] = useState<SheetFormat>(lastFormat);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-md shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-sky-400">Spreadsheets</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            One sheet per kind of element. Edit it in any spreadsheet app and bring it back with Import; rows are matched by id, or by number when the id is empty.
+          </p>
+        </div>
+        <div className="p-4 space-y-3 text-sm text-gray-300">
+          <label className="flex items-center justify-between">
+            <span>Format</span>
+            <select
+              value={format}
+              onChange={(e) => {
+                lastFormat = e.target.value as SheetFormat;
+                setFormat(lastFormat);
+              }}
+              className="bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500"
+            >
+              <option value="csv">CSV (comma separated)</option>
+              <option value="tsv">TSV (tab separated)</option>
+            </select>
+          </label>
+          {SHEET_KINDS.map(({ kind, label }) => (
+            <div key={kind} className="flex items-center justify-between">
+              <span>{label} <span className="text-gray-500">({counts[kind]})</span></span>
+              <button
+                onClick={() => onExport(kind, format)}
+                disabled={!counts[kind]}
+                className="bg-sky-600 hover:bg-sky-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-1 px-3 rounded-md transition-colors"
+              >
+                Download
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="p-4 border-t border-gray-700 flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="border border-gray-500 hover:border-gray-400 text-gray-300 hover:text-white py-2 px-4 rounded-md transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
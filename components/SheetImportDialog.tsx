@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { SHEET_KINDS, SheetDiff } from '../services/spreadsheet.ts';
+
+interface SheetImportDialogProps {
+  fileName: string;
+  diff: SheetDiff;
+  onApply: (removeMissing: boolean) => void;
+  onClose: () => void;
+}
+
+const labelOf = (element: { id: string; number?: string; name: string }) => (
+  [element.number && `#${element.number}`, element.name].filter(Boolean).join(' ') || element.id
+);
+
+const Section: React.FC<{ title: string; className: string; items: { key: string; label: string; detail?: string }[] }> = ({ title, className, items }) => (
+  items.length ? (
+    <div>
+      <h3 className={`text-xs font-semibold uppercase tracking-wide ${className}`}>{title} ({items.length})</h3>
+      <ul className="mt-1 space-y-0.5 text-gray-300">
+        {items.map(item => (
+          <li key={item.key} className="flex justify-between space-x-2">
+            <span className="truncate">{item.label}</span>
+            {item.detail && <span className="text-gray-500 text-xs whitespace-nowrap">{item.detail}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  ) : null
+);
+
+export const SheetImportDialog: React.FC<SheetImportDialogProps> = ({ fileName, diff, onApply, onClose }) => {
+  const [removeMissing, setRemoveMissing] = useState(true);
+  const kindLabel = SHEET_KINDS.find(k => k.kind === diff.kind)!.label.toLowerCase();
+  const nothingToDo = !diff.added.length && !diff.changed.length && !(removeMissing && diff.removed.length);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-md shadow-2xl w-full max-w-lg max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-sky-400">Import {fileName}</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Changes to the plan's {kindLabel}. Nothing is changed until you apply them, and the whole import undoes in one step.
+          </p>
+        </div>
+        <div className="p-4 space-y-3 text-sm overflow-y-auto">
+          <Section
+            title="Added"
+            className="text-emerald-400"
+            items={diff.added.map(e => ({ key: e.id, label: labelOf(e) }))}
+          />
+          <Section
+            title="Changed"
+            className="text-amber-400"
+            items={diff.changed.map(c => ({ key: c.after.id, label: labelOf(c.after), detail: c.fields.join(', ') }))}
+          />
+          <Section
+            title={removeMissing ? 'Removed' : 'Not in the sheet (kept)'}
+            className={removeMissing ? 'text-red-400' : 'text-gray-400'}
+            items={diff.removed.map(e => ({ key: e.id, label: labelOf(e) }))}
+          />
+          {diff.skipped.length > 0 && (
+            <div>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400">Skipped ({diff.skipped.length})</h3>
+              <ul className="mt-1 space-y-0.5 text-xs text-gray-500">
+                {diff.skipped.map((reason, index) => <li key={index}>{reason}</li>)}
+              </ul>
+            </div>
+          )}
+          {!diff.added.length && !diff.changed.length && !diff.removed.length && (
+            <p className="text-gray-400">The sheet matches the plan; there is nothing to change.</p>
+          )}
+        </div>
+        <div className="p-4 border-t border-gray-700 flex items-center justify-end space-x-2">
+          {diff.removed.length > 0 && (
+            <label className="flex items-center space-x-2 mr-auto text-sm text-gray-300">
+              <input type="checkbox" checked={removeMissing} onChange={(e) => setRemoveMissing(e.target.checked)} />
+              <span>Remove {diff.removed.length} missing</span>
+            </label>
+          )}
+          <button
+            onClick={onClose}
+            className="border border-gray-500 hover:border-gray-400 text-gray-300 hover:text-white py-2 px-4 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(removeMissing)}
+            disabled={nothingToDo}
+            className="bg-sky-600 hover:bg-sky-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
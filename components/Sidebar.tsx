@@ -1,12 +1,39 @@
 
 import React, { useState } from 'react';
-import { Area, Marker, MarkerStatus, Path, PolygonArea, Tool } from '../types.ts';
+import { Area, Calibration, ElementRef, Georeference, GridSettings, Layer, MapSymbol, Marker, MarkerStatus, ObstacleMask, Path, PlanOverlays, PolygonArea, Tool } from '../types.ts';
+import { PlanSummary } from '../services/planLibrary.ts';
+import { PlanSwitcher } from './PlanSwitcher.tsx';
+import { LayersPanel } from './LayersPanel.tsx';
+import { SymbolsPanel } from './SymbolsPanel.tsx';
+import { CalibrationPanel } from './CalibrationPanel.tsx';
+import { GeoreferencePanel } from './GeoreferencePanel.tsx';
+import { StatsPanel } from './StatsPanel.tsx';
+import { RoutePanel } from './RoutePanel.tsx';
+import { ObstaclePanel } from './ObstaclePanel.tsx';
+import { HistoryPanel } from './HistoryPanel.tsx';
+import { GridPanel } from './GridPanel.tsx';
+import { OverlaysPanel } from './OverlaysPanel.tsx';
+import { SelectionPanel, SelectionUpdate } from './SelectionPanel.tsx';
+import { AlignMode, DistributeAxis } from '../services/selection.ts';
+import { PlanHistory } from '../services/history.ts';
+import { DEFAULT_CLUSTER_ZOOM } from '../services/clustering.ts';
+import { legendEntries } from '../services/overlays.ts';
+import { RouteOptions } from '../services/routeOptimizer.ts';
+import { areaStats, computePlanStats, pathStats, polygonAreaStats } from '../services/planStats.ts';
+import { formatArea, formatLength, formatPoint } from '../services/units.ts';
+import { pixelToWorld, worldToPixel } from '../services/georeference.ts';
 import { SelectIcon, MarkerIcon, PathIcon, AreaIcon, DeleteIcon, LinkIcon, ResetIcon, ExportIcon } from './icons.tsx';
 
 interface SidebarProps {
   activeTool: Tool;
   setActiveTool: (tool: Tool) => void;
   onFileUpload: (file: File) => void;
+  plans: PlanSummary[];
+  currentPlanId: string | null;
+  onOpenPlan: (id: string) => void;
+  onRenamePlan: (id: string, name: string) => void;
+  onDuplicatePlan: (id: string) => void;
+  onDeletePlan: (id: string) => void;
   collapsed: boolean;
   setCollapsed: (collapsed: boolean | ((prev: boolean) => boolean)) => void;
   onResetWorkspace: () => void;
@@ -14,14 +41,60 @@ interface SidebarProps {
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  history: PlanHistory;
+  onJumpToHistory: (index: number) => void;
   onExportPlan: () => void;
-  onExportPng: () => void;
+  onExportImage: () => void;
+  onExportSvg: () => void;
+  onExportPdf: () => void;
+  // Text export formats: built-in exporters and saved templates
+  textExporters: { id: string; label: string }[];
+  onExportText: (exporterId: string) => void;
   onExportLua: () => void;
-  selectedElement: { type: 'marker' | 'path' | 'area' | 'polygonArea'; id: string } | null;
+  onManageTemplates: () => void;
+  // Reads markers and areas from a file into the open plan
+  onImportFile: (file: File) => void;
+  onOpenSheets: () => void;
+  selectedElement: ElementRef | null;
+  selection: ElementRef[];
+  lockedSelectionCount: number;
+  onUpdateSelection: (data: SelectionUpdate) => void;
+  onAlignSelection: (mode: AlignMode) => void;
+  onDistributeSelection: (axis: DistributeAxis) => void;
   markers: Marker[];
   paths: Path[];
   areas: Area[];
   polygonAreas: PolygonArea[];
+  calibration: Calibration | null;
+  onCalibrationChange: (calibration: Calibration | null) => void;
+  georeference: Georeference | null;
+  onGeoreferenceChange: (georeference: Georeference | null) => void;
+  routeMarkers: Marker[];
+  // Whether routeMarkers are the selected markers rather than the filtered ones
+  routeFromSelection: boolean;
+  onOptimizeRoute: (options: RouteOptions) => number | null;
+  obstacleMask: ObstacleMask | null;
+  onObstacleMaskChange: (mask: ObstacleMask | null) => void;
+  // Routes the given link, or every link, around obstacles
+  onRouteLinkedPaths: (pathId?: string) => void;
+  gridSettings: GridSettings;
+  onGridSettingsChange: (grid: GridSettings) => void;
+  overlays: PlanOverlays;
+  onOverlaysChange: (overlays: PlanOverlays) => void;
+  layers: Layer[];
+  activeLayerId: string | null;
+  setActiveLayerId: (id: string) => void;
+  onAddLayer: () => void;
+  onUpdateLayer: (id: string, data: Partial<Layer>) => void;
+  onMoveLayer: (id: string, direction: 1 | -1) => void;
+  onDeleteLayer: (id: string) => void;
+  symbols: MapSymbol[];
+  onAddSymbol: (symbol: MapSymbol) => void;
+  onAddIconSymbol: (file: File) => void;
+  onUpdateSymbol: (id: string, data: Partial<MapSymbol>) => void;
+  onDeleteSymbol: (id: string) => void;
+  exportLayerFilters: Record<string, boolean>;
+  setExportLayerFilters: (filters: Record<string, boolean> | ((prev: Record<string, boolean>) => Record<string, boolean>)) => void;
   updateMarker: (id: string, data: Partial<Marker>) => void;
   updatePath: (id: string, data: Partial<Path>) => void;
   updateArea: (id: string, data: Partial<Area>) => void;
@@ -32,7 +105,14 @@ interface SidebarProps {
   onRemoveLink: (fromMarkerId: string, toMarkerId: string) => void;
   onCancelLinking: () => void;
   zoom: number;
-  setZoom: (zoom: number | ((prevZoom: number) => number)) => void;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onZoomToFit: () => void;
+  onZoomToSelection: () => void;
+  // Zoom below which nearby markers cluster; 0 is off
+  clusterZoom: number;
+  setClusterZoom: (zoom: number | ((prev: number) => number)) => void;
   markerSize: number;
   setMarkerSize: (size: number | ((prev: number) => number)) => void;
   labelSize: number;
@@ -55,6 +135,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
   activeTool,
   setActiveTool,
   onFileUpload,
+  plans,
+  currentPlanId,
+  onOpenPlan,
+  onRenamePlan,
+  onDuplicatePlan,
+  onDeletePlan,
   collapsed,
   setCollapsed,
   onResetWorkspace,
@@ -62,14 +148,56 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onRedo,
   canUndo,
   canRedo,
+  history,
+  onJumpToHistory,
   onExportPlan,
-  onExportPng,
+  onExportImage,
+  onExportSvg,
+  onExportPdf,
+  textExporters,
+  onExportText,
   onExportLua,
+  onManageTemplates,
+  onImportFile,
+  onOpenSheets,
   selectedElement,
+  selection,
+  lockedSelectionCount,
+  onUpdateSelection,
+  onAlignSelection,
+  onDistributeSelection,
   markers,
   paths,
   areas,
   polygonAreas,
+  calibration,
+  onCalibrationChange,
+  georeference,
+  onGeoreferenceChange,
+  routeMarkers,
+  routeFromSelection,
+  onOptimizeRoute,
+  obstacleMask,
+  onObstacleMaskChange,
+  onRouteLinkedPaths,
+  gridSettings,
+  onGridSettingsChange,
+  overlays,
+  onOverlaysChange,
+  layers,
+  activeLayerId,
+  setActiveLayerId,
+  onAddLayer,
+  onUpdateLayer,
+  onMoveLayer,
+  onDeleteLayer,
+  symbols,
+  onAddSymbol,
+  onAddIconSymbol,
+  onUpdateSymbol,
+  onDeleteSymbol,
+  exportLayerFilters,
+  setExportLayerFilters,
   updateMarker,
   updatePath,
   updateArea,
@@ -80,7 +208,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onRemoveLink,
   onCancelLinking,
   zoom,
-  setZoom,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onZoomToFit,
+  onZoomToSelection,
+  clusterZoom,
+  setClusterZoom,
   markerSize,
   setMarkerSize,
   labelSize,
@@ -100,12 +234,35 @@ export const Sidebar: React.FC<SidebarProps> = ({
 }) => {
     const [viewOptionsOpen, setViewOptionsOpen] = useState(true);
     const [filtersOpen, setFiltersOpen] = useState(true);
+    const [layersOpen, setLayersOpen] = useState(true);
+    const [symbolsOpen, setSymbolsOpen] = useState(false);
+    const [unitsOpen, setUnitsOpen] = useState(false);
+    const [georeferenceOpen, setGeoreferenceOpen] = useState(false);
+    const [statsOpen, setStatsOpen] = useState(false);
+    const [routeOpen, setRouteOpen] = useState(false);
+    const [obstaclesOpen, setObstaclesOpen] = useState(false);
+    const [historyOpen, setHistoryOpen] = useState(false);
+    const [gridOpen, setGridOpen] = useState(false);
+    const [overlaysOpen, setOverlaysOpen] = useState(false);
     const [toolsOpen, setToolsOpen] = useState(true);
+    const [textExporterId, setTextExporterId] = useState('lua');
+    // Falls back to the first format when the chosen template was deleted
+    const chosenTextExporter = textExporters.some(e => e.id === textExporterId) ? textExporterId : textExporters[0]?.id;
 
     const selectedMarker = selectedElement?.type === 'marker'
     ? markers.find(m => m.id === selectedElement.id)
     : null;
 
+    // Position of the selected marker in the georeferenced system, typed in there as well as in pixels
+    const markerWorld = selectedMarker ? pixelToWorld(georeference, selectedMarker.position) : null;
+
+    const selectedSymbol = selectedMarker?.symbolId ? symbols.find(s => s.id === selectedMarker.symbolId) : undefined;
+
+    const symbolUsage = new Map<string, number>();
+    markers.forEach(m => {
+      if (m.symbolId) symbolUsage.set(m.symbolId, (symbolUsage.get(m.symbolId) ?? 0) + 1);
+    });
+
     const selectedPath = selectedElement?.type === 'path'
     ? paths.find(p => p.id === selectedElement.id)
     : null;
@@ -118,18 +275,17 @@ export const Sidebar: React.FC<SidebarProps> = ({
     ? polygonAreas.find(a => a.id === selectedElement.id)
     : null;
     
+    const selectedPathStats = selectedPath ? pathStats(selectedPath) : null;
+    const selectedAreaStats = selectedArea ? areaStats(selectedArea)
+      : selectedPolygonArea ? polygonAreaStats(selectedPolygonArea)
+      : null;
+    const planStats = statsOpen ? computePlanStats({ layers, markers, paths, areas, polygonAreas }) : null;
+
     const uniqueColors = Array.from(new Set(markers.map(m => m.color || '#10b981')));
     const uniqueAreas = Array.from(new Set(markers.map(m => m.area).filter(Boolean))) as string[];
     const uniqueNumbers = Array.from(new Set(markers.map(m => m.number).filter(Boolean))) as string[];
     const uniqueDrawAreaNumbers = Array.from(new Set([...areas, ...polygonAreas].map(a => a.number).filter(Boolean))) as string[];
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileUpload(e.target.files[0]);
-      e.target.value = ''; // Reset input to allow re-uploading the same file
-    }
-  };
-  
   const ToolButton = ({ tool, label, children }: React.PropsWithChildren<{ tool: Tool; label: string; }>) => (
     <button
       onClick={() => setActiveTool(tool)}
@@ -143,6 +299,18 @@ export const Sidebar: React.FC<SidebarProps> = ({
     </button>
   );
 
+  const LayerSelect = ({ id, value, onChange }: { id: string; value: string; onChange: (layerId: string) => void }) => (
+    <div className="flex items-center justify-between">
+      <label htmlFor={id} className="block text-sm font-medium text-gray-300">Layer</label>
+      <select id={id} value={value} onChange={(e) => onChange(e.target.value)}
+        className="mt-1 w-2/3 bg-gray-800 border border-gray-600 rounded-md p-2 text-white focus:ring-sky-500 focus:border-sky-500">
+        {layers.map(layer => (
+          <option key={layer.id} value={layer.id}>{layer.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+
   return (
     <aside className={`${collapsed ? 'w-12' : 'w-80'} bg-gray-800 flex flex-col h-full shadow-lg border-r border-gray-700 transition-all duration-300 relative`}>
       <button
@@ -162,20 +330,22 @@ export const Sidebar: React.FC<SidebarProps> = ({
           <h1 className="text-2xl font-bold text-sky-400 mb-6">Map Planner</h1>
 
           <div className="mb-6 space-y-2">
-            <label htmlFor="map-upload" className="w-full inline-block bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-2 px-4 rounded-md cursor-pointer text-center transition-colors">
-              Load Map or Plan
-            </label>
-            <input id="map-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/bmp, .json, application/json" onChange={handleFileChange} />
-            <button 
-              onClick={() => {
-                if (window.confirm('Tem certeza que deseja resetar o workspace? Todas as alteraes no salvas sero perdidas.')) {
-                  onResetWorkspace();
-                }
-              }} 
+            <PlanSwitcher
+              plans={plans}
+              currentPlanId={currentPlanId}
+              onOpenPlan={onOpenPlan}
+              onRenamePlan={onRenamePlan}
+              onDuplicatePlan={onDuplicatePlan}
+              onDeletePlan={onDeletePlan}
+              onFileUpload={onFileUpload}
+            />
+            <button
+              onClick={onResetWorkspace}
+              title="Close the open plan. It stays saved in the library."
               className="w-full border border-gray-500 hover:border-gray-400 text-gray-400 hover:text-white py-2 px-4 rounded-md transition-colors flex items-center justify-center space-x-2"
             >
               <ResetIcon />
-              <span>Reset Workspace</span>
+              <span>Close Plan</span>
             </button>
             <button
               onClick={onUndo}
@@ -259,25 +429,51 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 </button>
             </div>
         </div>
+        <div className="flex items-center justify-between space-x-2 text-sm">
+            <span className="font-medium text-gray-300" title="Markers close together collapse into a counted badge when zoomed out further than this">Cluster Below</span>
+            <div className="flex items-center space-x-1 bg-gray-900 rounded-md p-1">
+                <button
+                    onClick={() => setClusterZoom(z => Math.max(0, z - 0.25))}
+                    className="px-2 py-1 rounded-md hover:bg-gray-700 transition-colors w-8"
+                    title="Cluster at Lower Zoom"
+                >
+                    -
+                </button>
+                <span
+                    onClick={() => setClusterZoom(DEFAULT_CLUSTER_ZOOM)}
+                    className="w-16 text-center tabular-nums cursor-pointer"
+                    title="Reset Clustering"
+                >
+                    {clusterZoom ? `${Math.round(clusterZoom * 100)}%` : 'Off'}
+                </span>
+                <button
+                    onClick={() => setClusterZoom(z => Math.min(2, z + 0.25))}
+                    className="px-2 py-1 rounded-md hover:bg-gray-700 transition-colors w-8"
+                    title="Cluster at Higher Zoom"
+                >
+                    +
+                </button>
+            </div>
+        </div>
         <div className="flex items-center justify-between space-x-2 text-sm">
             <span className="font-medium text-gray-300">Zoom</span>
             <div className="flex items-center space-x-1 bg-gray-900 rounded-md p-1">
                 <button
-                    onClick={() => setZoom(z => Math.max(0.1, z / 1.2))}
+                    onClick={onZoomOut}
                     className="px-2 py-1 rounded-md hover:bg-gray-700 transition-colors w-8"
                     title="Zoom Out"
                 >
                     -
                 </button>
                 <span
-                    onClick={() => setZoom(1)}
+                    onClick={onResetZoom}
                     className="w-16 text-center tabular-nums cursor-pointer"
                     title="Reset Zoom"
                 >
                     {Math.round(zoom * 100)}%
                 </span>
                 <button
-                    onClick={() => setZoom(z => Math.min(5, z * 1.2))}
+                    onClick={onZoomIn}
                     className="px-2 py-1 rounded-md hover:bg-gray-700 transition-colors w-8"
                     title="Zoom In"
                 >
@@ -285,6 +481,23 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 </button>
             </div>
         </div>
+        <div className="grid grid-cols-2 gap-1 text-xs">
+            <button
+                onClick={onZoomToFit}
+                className="bg-gray-900 hover:bg-gray-700 text-gray-300 py-1 px-2 rounded-md transition-colors"
+                title="Zoom to Fit (Shift+1)"
+            >
+                Zoom to Fit
+            </button>
+            <button
+                onClick={onZoomToSelection}
+                disabled={!selection.length}
+                className="bg-gray-900 hover:bg-gray-700 text-gray-300 py-1 px-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Zoom to Selection (Shift+2)"
+            >
+                Zoom to Selection
+            </button>
+        </div>
         <div className="flex items-center justify-between space-x-2 text-sm">
             <label htmlFor="show-labels-toggle" className="font-medium text-gray-300">Show Labels</label>
             <label htmlFor="show-labels-toggle" className="flex items-center cursor-pointer">
@@ -309,6 +522,107 @@ export const Sidebar: React.FC<SidebarProps> = ({
         )}
       </div>
 
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setLayersOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">Layers</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${layersOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {layersOpen && (
+          <LayersPanel
+            layers={layers}
+            activeLayerId={activeLayerId}
+            setActiveLayerId={setActiveLayerId}
+            onAddLayer={onAddLayer}
+            onUpdateLayer={onUpdateLayer}
+            onMoveLayer={onMoveLayer}
+            onDeleteLayer={onDeleteLayer}
+            exportLayerFilters={exportLayerFilters}
+            setExportLayerFilters={setExportLayerFilters}
+          />
+        )}
+      </div>
+
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setSymbolsOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">Symbols</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${symbolsOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {symbolsOpen && (
+          <SymbolsPanel
+            symbols={symbols}
+            usage={symbolUsage}
+            canEdit={layers.length > 0}
+            onAddSymbol={onAddSymbol}
+            onAddIconSymbol={onAddIconSymbol}
+            onUpdateSymbol={onUpdateSymbol}
+            onDeleteSymbol={onDeleteSymbol}
+          />
+        )}
+      </div>
+
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setUnitsOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">Scale &amp; Units</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${unitsOpen || activeTool === 'calibrate' ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {(unitsOpen || activeTool === 'calibrate') && (
+          <CalibrationPanel
+            calibration={calibration}
+            onChange={onCalibrationChange}
+            onStartCalibration={() => setActiveTool('calibrate')}
+            calibrating={activeTool === 'calibrate'}
+          />
+        )}
+      </div>
+
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setGeoreferenceOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">Georeference</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${georeferenceOpen || activeTool === 'georeference' ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {(georeferenceOpen || activeTool === 'georeference') && (
+          <GeoreferencePanel
+            georeference={georeference}
+            onChange={onGeoreferenceChange}
+            placing={activeTool === 'georeference'}
+            onTogglePlacing={() => setActiveTool(activeTool === 'georeference' ? 'select' : 'georeference')}
+          />
+        )}
+      </div>
+
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setStatsOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">Statistics</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${statsOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {planStats && <StatsPanel stats={planStats} calibration={calibration} />}
+      </div>
+
       <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
         <button 
           onClick={() => setFiltersOpen(v => !v)}
@@ -387,6 +701,87 @@ export const Sidebar: React.FC<SidebarProps> = ({
         )}
       </div>
 
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setRouteOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">Route</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${routeOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {routeOpen && (
+          <RoutePanel markers={routeMarkers} fromSelection={routeFromSelection} calibration={calibration} onOptimizeRoute={onOptimizeRoute} />
+        )}
+      </div>
+
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setObstaclesOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">Obstacles</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${obstaclesOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {obstaclesOpen && (
+          <ObstaclePanel
+            mask={obstacleMask}
+            onMaskChange={onObstacleMaskChange}
+            obstacleCount={polygonAreas.filter(a => a.obstacle).length}
+            linkCount={paths.filter(p => p.linkedMarkers).length}
+            onRerouteAll={() => onRouteLinkedPaths()}
+          />
+        )}
+      </div>
+
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setGridOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">Grid & Snapping</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${gridOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {gridOpen && <GridPanel grid={gridSettings} onChange={onGridSettingsChange} />}
+      </div>
+
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setOverlaysOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">Legend & Title</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${overlaysOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {overlaysOpen && (
+          <OverlaysPanel
+            overlays={overlays}
+            onChange={onOverlaysChange}
+            entries={legendEntries({ symbols, markers, areas, polygonAreas }, overlays.legend.names)}
+            hasCalibration={!!calibration}
+          />
+        )}
+      </div>
+
+      <div className="space-y-3 mb-4 border-t border-gray-700 pt-4">
+        <button
+          onClick={() => setHistoryOpen(v => !v)}
+          className="flex items-center justify-between w-full text-left"
+        >
+          <h2 className="text-lg font-semibold text-gray-300">History</h2>
+          <svg xmlns="http://www.w3.org/2000/svg" className={`w-4 h-4 text-gray-400 transition-transform ${historyOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
+        {historyOpen && <HistoryPanel history={history} onJump={onJumpToHistory} />}
+      </div>
 
       <div className="space-y-2 mb-6 border-t border-gray-700 pt-4">
         <div className="flex justify-between items-center mb-2">
@@ -399,14 +794,22 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
               </svg>
             </button>
-            <div className="flex space-x-4">
-                <button onClick={onExportPlan} className="flex items-center space-x-2 text-xs text-gray-400 hover:text-white transition-colors" title="Export Plan">
+            <div className="flex space-x-3">
+                <button onClick={onExportPlan} className="flex items-center space-x-2 text-xs text-gray-400 hover:text-white transition-colors" title="Export Plan Bundle (.zip)">
                     <ExportIcon />
                     <span>Export</span>
                 </button>
-                <button onClick={onExportPng} className="flex items-center space-x-2 text-xs text-gray-400 hover:text-white transition-colors" title="Export PNG">
+                <button onClick={onExportImage} className="flex items-center space-x-2 text-xs text-gray-400 hover:text-white transition-colors" title="Export PNG, JPEG or WebP">
+                    <ExportIcon />
+                    <span>Image</span>
+                </button>
+                <button onClick={onExportSvg} className="flex items-center space-x-2 text-xs text-gray-400 hover:text-white transition-colors" title="Export SVG">
+                    <ExportIcon />
+                    <span>SVG</span>
+                </button>
+                <button onClick={onExportPdf} className="flex items-center space-x-2 text-xs text-gray-400 hover:text-white transition-colors" title="Export PDF">
                     <ExportIcon />
-                    <span>PNG</span>
+                    <span>PDF</span>
                 </button>
                 <button onClick={onExportLua} className="flex items-center space-x-2 text-xs text-gray-400 hover:text-white transition-colors" title="Export Lua Table">
                     <ExportIcon />
@@ -433,6 +836,45 @@ export const Sidebar: React.FC<SidebarProps> = ({
             Clique para adicionar pontos. <span className="font-semibold">Enter</span> finaliza e <span className="font-semibold">Esc</span> cancela.
           </p>
         )}
+
+        <div className="flex items-center space-x-2 pt-2">
+          <select
+            value={chosenTextExporter}
+            onChange={(e) => setTextExporterId(e.target.value)}
+            className="flex-grow min-w-0 bg-gray-800 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500"
+            title="Text export format"
+          >
+            {textExporters.map(exporter => <option key={exporter.id} value={exporter.id}>{exporter.label}</option>)}
+          </select>
+          <button
+            onClick={() => onExportText(chosenTextExporter)}
+            className="flex items-center space-x-1 text-xs text-gray-400 hover:text-white transition-colors"
+            title="Export in the chosen format"
+          >
+            <ExportIcon />
+            <span>Export</span>
+          </button>
+          <button onClick={onManageTemplates} className="text-xs text-sky-400 hover:text-sky-300" title="Edit export templates">
+            Templates
+          </button>
+          <button onClick={onOpenSheets} className="text-xs text-sky-400 hover:text-sky-300" title="Export markers and areas as CSV or TSV sheets">
+            Sheets
+          </button>
+          <label htmlFor="plan-import" className="text-xs text-sky-400 hover:text-sky-300 cursor-pointer" title="Import markers and areas into this plan">
+            Import
+          </label>
+          <input
+            id="plan-import"
+            type="file"
+            className="hidden"
+            accept=".lua, .geojson, .json, .csv, .tsv, application/geo+json, text/csv, text/tab-separated-values"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
         </>
         )}
       </div>
@@ -445,7 +887,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
             <button onClick={onCancelLinking} className="mt-2 text-xs text-gray-300 hover:text-white">Cancel (Esc)</button>
           </div>
         )}
-        {selectedMarker ? (
+        {selection.length > 1 ? (
+          <SelectionPanel
+            selection={selection}
+            lockedCount={lockedSelectionCount}
+            onUpdate={onUpdateSelection}
+            onAlign={onAlignSelection}
+            onDistribute={onDistributeSelection}
+            onDelete={deleteSelected}
+          />
+        ) : selectedMarker ? (
           <div className="bg-gray-700/50 p-4 rounded-md">
             <h3 className="text-lg font-bold text-sky-400 mb-3">Edit Marker</h3>
             <div className="space-y-4">
@@ -478,6 +929,41 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 <input type="color" id="marker-color" value={selectedMarker.color || '#10b981'} onChange={(e) => updateMarker(selectedMarker.id, { color: e.target.value })}
                     className="w-10 h-10 p-1 bg-gray-800 border border-gray-600 rounded-md cursor-pointer" />
                </div>
+               <div className="flex items-center justify-between">
+                 <label htmlFor="marker-symbol" className="block text-sm font-medium text-gray-300">Symbol</label>
+                 <select id="marker-symbol" value={selectedMarker.symbolId ?? ''}
+                   onChange={(e) => updateMarker(selectedMarker.id, e.target.value
+                     ? { symbolId: e.target.value }
+                     : { symbolId: undefined, symbolSize: undefined, symbolRotation: undefined })}
+                   className="mt-1 w-2/3 bg-gray-800 border border-gray-600 rounded-md p-2 text-white focus:ring-sky-500 focus:border-sky-500">
+                   <option value="">Classic</option>
+                   {symbols.map(symbol => <option key={symbol.id} value={symbol.id}>{symbol.name}</option>)}
+                 </select>
+               </div>
+               {selectedSymbol && (
+                 <div className="grid grid-cols-2 gap-3">
+                   <div>
+                     <label htmlFor="marker-symbol-size" className="block text-sm font-medium text-gray-300">Symbol Size</label>
+                     <input type="number" id="marker-symbol-size" min={0.25} step={0.25} value={selectedMarker.symbolSize ?? ''} placeholder={`${selectedSymbol.size}`}
+                       onChange={(e) => {
+                         const size = Number(e.target.value);
+                         updateMarker(selectedMarker.id, { symbolSize: e.target.value && size > 0 ? size : undefined });
+                       }}
+                       className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-white focus:ring-sky-500 focus:border-sky-500" />
+                   </div>
+                   <div>
+                     <label htmlFor="marker-symbol-rotation" className="block text-sm font-medium text-gray-300">Rotation</label>
+                     <input type="number" id="marker-symbol-rotation" step={15} value={selectedMarker.symbolRotation ?? ''} placeholder={`${selectedSymbol.rotation}`}
+                       onChange={(e) => {
+                         const rotation = Number(e.target.value);
+                         updateMarker(selectedMarker.id, { symbolRotation: e.target.value && Number.isFinite(rotation) ? rotation : undefined });
+                       }}
+                       className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-white focus:ring-sky-500 focus:border-sky-500" />
+                   </div>
+                   <p className="col-span-2 text-xs text-gray-500">Leave blank to use the symbol's default.</p>
+                 </div>
+               )}
+               <LayerSelect id="marker-layer" value={selectedMarker.layerId} onChange={(layerId) => updateMarker(selectedMarker.id, { layerId })} />
 
                <div className="grid grid-cols-2 gap-3">
                  <div>
@@ -513,6 +999,32 @@ export const Sidebar: React.FC<SidebarProps> = ({
                <p className="text-xs text-gray-500">
                  Posio em pixels relativa  imagem.
                </p>
+               {georeference && markerWorld ? (
+                 <div className="grid grid-cols-2 gap-3">
+                   {(georeference.system === 'lonlat' ? (['y', 'x'] as const) : (['x', 'y'] as const)).map(axis => (
+                     <div key={axis}>
+                       <label htmlFor={`marker-world-${axis}`} className="block text-sm font-medium text-gray-300">
+                         {georeference.system === 'lonlat' ? (axis === 'y' ? 'Latitude' : 'Longitude') : `World ${axis.toUpperCase()} (${georeference.unit})`}
+                       </label>
+                       <input
+                         type="number"
+                         id={`marker-world-${axis}`}
+                         step="any"
+                         value={Number(markerWorld[axis].toFixed(georeference.system === 'lonlat' ? 6 : 2))}
+                         onChange={(e) => {
+                           const value = Number(e.target.value);
+                           if (e.target.value.trim() === '' || !Number.isFinite(value)) return;
+                           const position = worldToPixel(georeference, { ...markerWorld, [axis]: value });
+                           if (position) updateMarker(selectedMarker.id, { position });
+                         }}
+                         className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-white focus:ring-sky-500 focus:border-sky-500"
+                       />
+                     </div>
+                   ))}
+                 </div>
+               ) : calibration && (
+                 <p className="text-xs text-gray-400">World: {formatPoint(selectedMarker.position, calibration)}</p>
+               )}
 
               <div>
                 <h4 className="text-md font-semibold text-gray-300 mb-2">Linked Missions</h4>
@@ -545,9 +1057,22 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     <input type="color" id="path-color" value={selectedPath.color || '#f59e0b'} onChange={(e) => updatePath(selectedPath.id, { color: e.target.value })}
                         className="w-10 h-10 p-1 bg-gray-800 border border-gray-600 rounded-md cursor-pointer" />
                 </div>
+                <div className="mb-4">
+                  <LayerSelect id="path-layer" value={selectedPath.layerId} onChange={(layerId) => updatePath(selectedPath.id, { layerId })} />
+                </div>
                 {selectedPath.linkedMarkers && (
                     <p className="text-gray-400 text-xs mb-3">This path connects two missions. You can give it a unique color.</p>
                 )}
+                {selectedPath.linkedMarkers && (selectedPath.routed ? (
+                    <p className="text-gray-400 text-xs mb-3">Routed around obstacles. Moving its points by hand stops the automatic routing.</p>
+                ) : (
+                    <button onClick={() => onRouteLinkedPaths(selectedPath.id)} className="w-full mb-3 bg-gray-600 hover:bg-gray-500 text-white text-sm py-1 px-4 rounded-md transition-colors">
+                      Route Around Obstacles
+                    </button>
+                ))}
+                <p className="text-gray-300 text-sm mb-3">
+                  Length: {formatLength(selectedPathStats!.length, calibration)} ({selectedPathStats!.segments} segment{selectedPathStats!.segments === 1 ? '' : 's'})
+                </p>
                 <p className="text-gray-300 text-sm mb-3">Drag the main handles to move points. Drag the smaller handles that appear between points to create a new bend.</p>
                 <button onClick={deleteSelected} className="w-full flex items-center justify-center space-x-2 bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-md transition-colors">
                  <DeleteIcon /><span>Delete Path</span>
@@ -588,10 +1113,24 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   className="w-10 h-10 p-1 bg-gray-800 border border-gray-600 rounded-md cursor-pointer"
                 />
               </div>
+              <LayerSelect id="polygon-area-layer" value={selectedPolygonArea.layerId} onChange={(layerId) => updatePolygonArea(selectedPolygonArea.id, { layerId })} />
+              <label className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!selectedPolygonArea.obstacle}
+                  onChange={(e) => updatePolygonArea(selectedPolygonArea.id, { obstacle: e.target.checked })}
+                />
+                <span>Impassable (links route around it)</span>
+              </label>
 
               <p className="text-xs text-gray-500">
                 Pontos: {selectedPolygonArea.points.length}
               </p>
+              {selectedPolygonArea.points.length >= 3 && (
+                <p className="text-sm text-gray-300">
+                  Area: {formatArea(selectedAreaStats!.area, calibration)}, perimeter: {formatLength(selectedAreaStats!.perimeter, calibration)}
+                </p>
+              )}
 
               <p className="text-xs text-gray-400">
                 Dica: selecione a area e arraste os pontos no mapa.
@@ -636,6 +1175,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   className="w-10 h-10 p-1 bg-gray-800 border border-gray-600 rounded-md cursor-pointer"
                 />
               </div>
+              <LayerSelect id="area-layer" value={selectedArea.layerId} onChange={(layerId) => updateArea(selectedArea.id, { layerId })} />
 
 
               <div>
@@ -652,7 +1192,13 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   }}
                   className="mt-1 w-full bg-gray-800 border border-gray-600 rounded-md p-2 text-white focus:ring-sky-500 focus:border-sky-500"
                 />
+                {calibration && (
+                  <p className="mt-1 text-xs text-gray-400">{formatLength(selectedArea.radius, calibration)}</p>
+                )}
               </div>
+              <p className="text-sm text-gray-300">
+                Area: {formatArea(selectedAreaStats!.area, calibration)}, perimeter: {formatLength(selectedAreaStats!.perimeter, calibration)}
+              </p>
 
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -765,7 +1311,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </div>
         ) : (
             <div className="text-gray-400 text-center p-4 border-2 border-dashed border-gray-600 rounded-md">
-                <p>Select an element on the map to edit its properties.</p>
+                <p>Select an element on the map to edit its properties. Shift+click or drag a box to select several.</p>
             </div>
         )}
         </div>
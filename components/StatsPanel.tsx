@@ -0,0 +1,95 @@
+
+import React from 'react';
+import { Calibration } from '../types.ts';
+import { PlanStats } from '../services/planStats.ts';
+import { formatArea, formatLength } from '../services/units.ts';
+
+interface StatsPanelProps {
+  stats: PlanStats;
+  calibration: Calibration | null;
+}
+
+const STATUS_LABELS = { pending: 'Pending', active: 'Active', completed: 'Completed' };
+
+export const StatsPanel: React.FC<StatsPanelProps> = ({ stats, calibration }) => {
+  const { totals, byLayer, byAreaNumber, byStatus } = stats;
+
+  return (
+    <div className="space-y-3 text-xs text-gray-300">
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1 bg-gray-900 rounded-md p-2">
+        <span className="text-gray-400">Markers</span><span className="text-right tabular-nums">{totals.markers}</span>
+        <span className="text-gray-400">Paths</span><span className="text-right tabular-nums">{totals.paths} / {formatLength(totals.length, calibration)}</span>
+        <span className="text-gray-400">Areas</span><span className="text-right tabular-nums">{totals.count} / {formatArea(totals.area, calibration)}</span>
+        <span className="text-gray-400">Perimeter</span><span className="text-right tabular-nums">{formatLength(totals.perimeter, calibration)}</span>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-400 mb-1">By Layer</h3>
+        <table className="w-full">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="font-normal">Layer</th>
+              <th className="font-normal text-right">Path length</th>
+              <th className="font-normal text-right">Area</th>
+            </tr>
+          </thead>
+          <tbody>
+            {byLayer.map(layer => (
+              <tr key={layer.layerId} title={`${layer.markers} marker(s), ${layer.paths} path(s), ${layer.count} area(s)`}>
+                <td className="truncate max-w-[6rem]">{layer.name}</td>
+                <td className="text-right tabular-nums">{formatLength(layer.length, calibration)}</td>
+                <td className="text-right tabular-nums">{formatArea(layer.area, calibration)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-400 mb-1">By Draw Area Number</h3>
+        {byAreaNumber.length ? (
+          <table className="w-full">
+            <thead>
+              <tr className="text-gray-500 text-left">
+                <th className="font-normal">Number</th>
+                <th className="font-normal text-right">Area</th>
+                <th className="font-normal text-right">Perimeter</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byAreaNumber.map(entry => (
+                <tr key={entry.number} title={`${entry.count} area(s)`}>
+                  <td>{entry.number}</td>
+                  <td className="text-right tabular-nums">{formatArea(entry.area, calibration)}</td>
+                  <td className="text-right tabular-nums">{formatLength(entry.perimeter, calibration)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : <p className="text-gray-500">No numbered areas.</p>}
+      </div>
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-400 mb-1">By Marker Status</h3>
+        <table className="w-full">
+          <thead>
+            <tr className="text-gray-500 text-left">
+              <th className="font-normal">Status</th>
+              <th className="font-normal text-right">Markers</th>
+              <th className="font-normal text-right" title="Length of linked paths starting at these markers">Route</th>
+            </tr>
+          </thead>
+          <tbody>
+            {byStatus.map(entry => (
+              <tr key={entry.status}>
+                <td>{STATUS_LABELS[entry.status]}</td>
+                <td className="text-right tabular-nums">{entry.count}</td>
+                <td className="text-right tabular-nums">{formatLength(entry.routeLength, calibration)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
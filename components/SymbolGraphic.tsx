@@ -0,0 +1,42 @@
+
+import React from 'react';
+import { MapSymbol } from '../types.ts';
+import { shapePathD } from '../services/symbols.ts';
+
+interface SymbolGraphicProps {
+  symbol: MapSymbol;
+  color: string;
+  // Half the width of the symbol, in the units of the surrounding svg
+  radius: number;
+  rotation: number;
+  strokeWidth: number;
+}
+
+/** A library symbol centred on the origin of the surrounding svg. */
+export const SymbolGraphic: React.FC<SymbolGraphicProps> = ({ symbol, color, radius, rotation, strokeWidth }) => (
+  <g transform={rotation ? `rotate(${rotation})` : undefined}>
+    {symbol.kind === 'icon' && symbol.src ? (
+      <image
+        href={symbol.src}
+        x={-radius}
+        y={-radius}
+        width={radius * 2}
+        height={radius * 2}
+        preserveAspectRatio="xMidYMid meet"
+      />
+    ) : symbol.kind === 'emoji' && symbol.emoji ? (
+      <text fontSize={radius * 1.6} textAnchor="middle" dominantBaseline="central">
+        {symbol.emoji}
+      </text>
+    ) : (
+      <path d={shapePathD(symbol.shape ?? 'circle', radius)} fill={color} stroke="#fff" strokeWidth={strokeWidth} strokeLinejoin="round" />
+    )}
+  </g>
+);
+
+/** A small stand-alone preview of a symbol, for lists and pickers. */
+export const SymbolPreview: React.FC<{ symbol: MapSymbol; color?: string; size?: number }> = ({ symbol, color = '#10b981', size = 24 }) => (
+  <svg width={size} height={size} viewBox="-14 -14 28 28" className="flex-shrink-0">
+    <SymbolGraphic symbol={symbol} color={color} radius={11} rotation={symbol.rotation} strokeWidth={1.5} />
+  </svg>
+);
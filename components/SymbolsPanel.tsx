@@ -0,0 +1,154 @@
+import React, { useRef } from 'react';
+import { MapSymbol, SymbolShape } from '../types.ts';
+import { ICON_TYPES, SYMBOL_SHAPES, createSymbol } from '../services/symbols.ts';
+import { SymbolPreview } from './SymbolGraphic.tsx';
+import { DeleteIcon } from './icons.tsx';
+
+interface SymbolsPanelProps {
+  symbols: MapSymbol[];
+  // Markers using each symbol, by symbol id
+  usage: Map<string, number>;
+  canEdit: boolean;
+  onAddSymbol: (symbol: MapSymbol) => void;
+  onAddIconSymbol: (file: File) => void;
+  onUpdateSymbol: (id: string, data: Partial<MapSymbol>) => void;
+  onDeleteSymbol: (id: string) => void;
+}
+
+const inputClass = 'w-14 bg-gray-800 border border-gray-600 rounded-md px-1 py-0.5 text-white text-xs focus:ring-sky-500 focus:border-sky-500';
+
+export const SymbolsPanel: React.FC<SymbolsPanelProps> = ({
+  symbols,
+  usage,
+  canEdit,
+  onAddSymbol,
+  onAddIconSymbol,
+  onUpdateSymbol,
+  onDeleteSymbol,
+}) => {
+  const iconInputRef = useRef<HTMLInputElement>(null);
+
+  const addShape = (shape: SymbolShape) => {
+    const label = SYMBOL_SHAPES.find(s => s.shape === shape)?.label ?? shape;
+    onAddSymbol(createSymbol({ name: label, kind: 'shape', shape }));
+  };
+
+  const addEmoji = () => {
+    const emoji = window.prompt('Emoji for the symbol');
+    if (emoji && emoji.trim()) onAddSymbol(createSymbol({ name: emoji.trim(), kind: 'emoji', emoji: emoji.trim() }));
+  };
+
+  return (
+    <div className="space-y-2">
+      {symbols.length ? symbols.map(symbol => {
+        const count = usage.get(symbol.id) ?? 0;
+        return (
+          <div key={symbol.id} className="p-2 rounded-md border bg-gray-900 border-gray-700 space-y-1">
+            <div className="flex items-center space-x-2">
+              <SymbolPreview symbol={symbol} />
+              <span className="flex-1 min-w-0 text-sm text-gray-200 truncate" title={symbol.name}>{symbol.name}</span>
+              <span className="text-xs text-gray-500 tabular-nums" title="Markers using this symbol">{count}</span>
+            </div>
+            <div className="flex items-center space-x-2 text-xs text-gray-400">
+              <label className="flex items-center space-x-1" title="Default size, relative to the classic marker">
+                <span>Size</span>
+                <input
+                  type="number"
+                  min={0.25}
+                  max={8}
+                  step={0.25}
+                  value={symbol.size}
+                  onChange={(e) => {
+                    const size = Number(e.target.value);
+                    if (size > 0) onUpdateSymbol(symbol.id, { size });
+                  }}
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex items-center space-x-1" title="Default rotation in degrees, clockwise">
+                <span>Rot</span>
+                <input
+                  type="number"
+                  step={15}
+                  value={symbol.rotation}
+                  onChange={(e) => {
+                    const rotation = Number(e.target.value);
+                    if (Number.isFinite(rotation)) onUpdateSymbol(symbol.id, { rotation });
+                  }}
+                  className={inputClass}
+                />
+              </label>
+              <div className="flex-1" />
+              <button
+                onClick={() => {
+                  const name = window.prompt('Symbol name', symbol.name);
+                  if (name && name.trim()) onUpdateSymbol(symbol.id, { name: name.trim() });
+                }}
+                className="text-gray-400 hover:text-white px-1"
+                title="Rename"
+              >
+                Ren
+              </button>
+              <button
+                onClick={() => {
+                  const message = count
+                    ? `Delete symbol "${symbol.name}"? ${count} marker(s) using it go back to the classic marker.`
+                    : `Delete symbol "${symbol.name}"?`;
+                  if (window.confirm(message)) onDeleteSymbol(symbol.id);
+                }}
+                className="text-red-400 hover:text-red-300"
+                title="Delete symbol"
+              >
+                <DeleteIcon />
+              </button>
+            </div>
+          </div>
+        );
+      }) : (
+        <p className="text-xs text-gray-500">
+          {canEdit ? 'No symbols yet. Markers use the classic circle until you add one.' : 'Open a plan to manage its symbols.'}
+        </p>
+      )}
+      {canEdit && (
+        <div className="space-y-2">
+          <select
+            value=""
+            onChange={(e) => {
+              if (e.target.value) addShape(e.target.value as SymbolShape);
+            }}
+            className="w-full bg-gray-800 border border-gray-600 rounded-md p-1 text-sm text-gray-300 focus:ring-sky-500 focus:border-sky-500"
+          >
+            <option value="">Add shape...</option>
+            {SYMBOL_SHAPES.map(({ shape, label }) => <option key={shape} value={shape}>{label}</option>)}
+          </select>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => iconInputRef.current?.click()}
+              className="flex-1 border border-gray-500 hover:border-gray-400 text-gray-400 hover:text-white py-1 px-2 rounded-md text-sm transition-colors"
+              title="SVG or PNG, stored inside the plan"
+            >
+              Upload Icon
+            </button>
+            <button
+              onClick={addEmoji}
+              className="flex-1 border border-gray-500 hover:border-gray-400 text-gray-400 hover:text-white py-1 px-2 rounded-md text-sm transition-colors"
+            >
+              Add Emoji
+            </button>
+          </div>
+          <input
+            ref={iconInputRef}
+            type="file"
+            accept={ICON_TYPES.join(',')}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onAddIconSymbol(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
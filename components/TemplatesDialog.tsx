@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { ExportModel } from '../services/exportModel.ts';
+import { ExportTemplate, createTemplate } from '../services/exportTemplates.ts';
+import { TEMPLATE_HELPERS, renderTemplate } from '../services/templates.ts';
+
+interface TemplatesDialogProps {
+  templates: ExportTemplate[];
+  // Current plan, for the preview
+  model: ExportModel;
+  onSave: (template: ExportTemplate) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500';
+
+const PREVIEW_LENGTH = 4000;
+
+export const TemplatesDialog: React.FC<TemplatesDialogProps> = ({ templates, model, onSave, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<ExportTemplate | null>(templates[0] ?? null);
+  const saved = draft && templates.find(t => t.id === draft.id);
+  const changed = !!draft && (!saved || saved.name !== draft.name || saved.extension !== draft.extension || saved.body !== draft.body);
+
+  let preview = '';
+  let problem: string | null = null;
+  if (draft) {
+    try {
+      preview = renderTemplate(draft.body, model);
+    } catch (error) {
+      problem = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  // Unsaved edits are dropped only after asking
+  const pick = (template: ExportTemplate | null) => {
+    if (changed && !window.confirm('Discard the changes to this template?')) return;
+    setDraft(template);
+  };
+
+  const handleNew = () => {
+    const name = window.prompt('Template name:', 'New template');
+    if (name?.trim()) pick(createTemplate(name.trim()));
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const template = { ...draft, name: draft.name.trim() || 'Untitled', extension: draft.extension || 'txt' };
+    setDraft(template);
+    onSave(template);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    if (!saved) {
+      setDraft(templates[0] ?? null);
+      return;
+    }
+    if (!window.confirm(`Delete the template "${saved.name}"?`)) return;
+    onDelete(saved.id);
+    setDraft(templates.find(t => t.id !== saved.id) ?? null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60" onClick={() => !changed && onClose()}>
+      <div
+        className="bg-gray-800 border border-gray-600 rounded-md shadow-2xl w-full max-w-5xl h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700">
+          <h2 className="text-lg font-bold text-sky-400">Export Templates</h2>
+          <p className="text-sm text-gray-400 mt-1">
+            Templates turn the plan into any text format, such as an engine config file. They are saved in this browser.
+          </p>
+        </div>
+        <div className="flex flex-1 min-h-0">
+          <div className="w-48 border-r border-gray-700 p-2 flex flex-col space-y-1 overflow-y-auto">
+            {templates.map(template => (
+              <button
+                key={template.id}
+                onClick={() => pick(template)}
+                className={`text-left text-sm p-2 rounded-md truncate transition-colors ${draft?.id === template.id ? 'bg-sky-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                title={template.name}
+              >
+                {template.name}
+              </button>
+            ))}
+            {draft && !saved && (
+              <div className="text-left text-sm p-2 rounded-md truncate bg-sky-600 text-white italic">{draft.name || 'Untitled'}</div>
+            )}
+            <button onClick={handleNew} className="text-left text-sm p-2 rounded-md text-sky-400 hover:bg-gray-700 transition-colors">
+              + New template
+            </button>
+          </div>
+          {draft ? (
+            <div className="flex-1 min-w-0 p-4 flex flex-col space-y-3">
+              <div className="flex space-x-2">
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Name"
+                  className={inputClass}
+                />
+                <div className="flex items-center space-x-1">
+                  <span className="text-gray-400">.</span>
+                  <input
+                    type="text"
+                    value={draft.extension}
+                    onChange={(e) => setDraft({ ...draft, extension: e.target.value.replace(/[^A-Za-z0-9]/g, '') })}
+                    placeholder="txt"
+                    className="w-20 bg-gray-900 border border-gray-600 rounded-md p-1 text-white text-sm focus:ring-sky-500 focus:border-sky-500"
+                    title="File extension"
+                  />
+                </div>
+              </div>
+              <div className="flex-1 min-h-0 grid grid-cols-2 gap-3">
+                <textarea
+                  value={draft.body}
+                  onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                  spellCheck={false}
+                  className="h-full bg-gray-900 border border-gray-600 rounded-md p-2 text-white text-xs font-mono resize-none focus:ring-sky-500 focus:border-sky-500"
+                />
+                <pre className={`h-full overflow-auto bg-gray-900 border rounded-md p-2 text-xs font-mono whitespace-pre-wrap break-all ${problem ? 'border-red-500 text-red-300' : 'border-gray-700 text-gray-300'}`}>
+                  {problem ?? (preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH)}\n...` : preview)}
+                </pre>
+              </div>
+              <p className="text-xs text-gray-500">
+                Fields: markers, paths, areas, polygonAreas, layers, symbols, unit, calibration, georeference, image, generatedAt (see the "Export model (JSON)" export).
+                Helpers: {TEMPLATE_HELPERS.join(', ')}.
+              </p>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-gray-500">No templates yet.</div>
+          )}
+        </div>
+        <div className="p-4 border-t border-gray-700 flex justify-between">
+          <button
+            onClick={handleDelete}
+            disabled={!draft}
+            className="border border-red-500 text-red-400 hover:bg-red-500 hover:text-white disabled:opacity-40 py-2 px-4 rounded-md transition-colors"
+          >
+            Delete
+          </button>
+          <div className="flex space-x-2">
+            <button
+              onClick={() => {
+                if (changed && !window.confirm('Discard the changes to this template?')) return;
+                onClose();
+              }}
+              className="border border-gray-500 hover:border-gray-400 text-gray-300 hover:text-white py-2 px-4 rounded-md transition-colors"
+            >
+              Close
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!changed}
+              className="bg-sky-600 hover:bg-sky-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-md transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
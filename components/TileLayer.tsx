@@ -0,0 +1,99 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageSize } from '../services/geometry.ts';
+import { TileRef, TileSet, getTile, levelForZoom, tileKey, tilesInBounds } from '../services/tiles.ts';
+import { ViewState, visibleBounds } from '../services/viewport.ts';
+
+interface TileLayerProps {
+  tileSet: TileSet;
+  view: ViewState;
+  viewport: ImageSize;
+}
+
+// Loaded tiles kept as object URLs; the least recently shown are released first
+const MAX_CACHED_TILES = 200;
+
+/**
+ * Draws the map from its tile pyramid: the coarsest level as a backdrop, and
+ * on top the tiles in view at the level matching the zoom. Sits inside the
+ * zoomed editor content, so positions are in full-resolution image pixels.
+ */
+export const TileLayer: React.FC<TileLayerProps> = ({ tileSet, view, viewport }) => {
+  const cacheRef = useRef(new Map<string, string>());
+  const loadingRef = useRef(new Set<string>());
+  const [, setLoaded] = useState(0);
+
+  const whole = { minX: 0, minY: 0, maxX: tileSet.width - 1, maxY: tileSet.height - 1 };
+  const backdrop = tilesInBounds(tileSet, tileSet.levels - 1, whole);
+  const level = levelForZoom(tileSet, view.zoom);
+  const detail = level === tileSet.levels - 1 ? [] : tilesInBounds(tileSet, level, visibleBounds(view, viewport));
+  const wanted = [...backdrop, ...detail];
+  const wantedKeys = wanted.map(tile => tileKey(tileSet.hash, tile));
+
+  useEffect(() => {
+    const cache = cacheRef.current;
+    return () => {
+      cache.forEach(url => URL.revokeObjectURL(url));
+      cache.clear();
+      loadingRef.current.clear();
+    };
+  }, [tileSet.hash]);
+
+  useEffect(() => {
+    const cache = cacheRef.current;
+    wanted.forEach((tile, i) => {
+      const key = wantedKeys[i];
+      const url = cache.get(key);
+      if (url) {
+        // Move to the back of the eviction order
+        cache.delete(key);
+        cache.set(key, url);
+        return;
+      }
+      if (loadingRef.current.has(key)) return;
+      loadingRef.current.add(key);
+      getTile(tileSet.hash, tile)
+        .then(blob => {
+          loadingRef.current.delete(key);
+          if (!blob) return;
+          cache.set(key, URL.createObjectURL(blob));
+          setLoaded(n => n + 1);
+        })
+        .catch(error => {
+          loadingRef.current.delete(key);
+          console.error("Failed to load map tile:", error);
+        });
+    });
+
+    const keep = new Set<string>(wantedKeys);
+    for (const [key, url] of cache) {
+      if (cache.size <= MAX_CACHED_TILES) break;
+      if (keep.has(key)) continue;
+      URL.revokeObjectURL(url);
+      cache.delete(key);
+    }
+  }, [tileSet.hash, wantedKeys.join('|')]);
+
+  const renderTile = (tile: TileRef) => {
+    const key = tileKey(tileSet.hash, tile);
+    const url = cacheRef.current.get(key);
+    if (!url) return null;
+    return (
+      <img
+        key={key}
+        src={url}
+        alt=""
+        draggable={false}
+        className="absolute max-w-none"
+        style={{ left: tile.x, top: tile.y, width: tile.width, height: tile.height }}
+      />
+    );
+  };
+
+  return (
+    <div className="absolute top-0 left-0 pointer-events-none" style={{ width: tileSet.width, height: tileSet.height }}>
+      {backdrop.map(renderTile)}
+      {detail.map(renderTile)}
+    </div>
+  );
+};
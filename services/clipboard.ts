@@ -0,0 +1,130 @@
+import { ElementRef, MapSymbol, Point } from '../types.ts';
+import { ImageSize, areaBoundsFromCircle } from './geometry.ts';
+import { PlanImportError, validateElements, validateSymbols } from './planSchema.ts';
+import { SelectionContent } from './selection.ts';
+
+// Copied elements travel through the system clipboard as JSON text, so they
+// can be pasted into another plan or another browser tab:
+//
+//   { "format": "map-planner/elements", "version": 1,
+//     "markers": [...], "paths": [...], "areas": [...], "polygonAreas": [...],
+//     "symbols": [...] }
+//
+// The element lists use the same shape as in plan.json. Links only point
+// inside the payload; pasting gives every element a fresh id. `symbols`
+// carries the library symbols the copied markers use, so they can be added
+// to a plan that lacks them; it is missing from payloads of older versions.
+
+export const CLIPBOARD_FORMAT = 'map-planner/elements';
+export const CLIPBOARD_VERSION = 1;
+
+export interface ClipboardPayload extends SelectionContent {
+  format: typeof CLIPBOARD_FORMAT;
+  version: number;
+  symbols?: MapSymbol[];
+}
+
+/**
+ * Collects the selected elements into a payload. Links between two copied
+ * markers come along even when not selected; links to markers left behind
+ * are cut, which turns such a path into a free one.
+ */
+export const copyElements = (content: SelectionContent, selection: ElementRef[], symbols: MapSymbol[] = []): ClipboardPayload | null => {
+  const selectedIds = (type: ElementRef['type']) => new Set<string>(selection.filter(s => s.type === type).map(s => s.id));
+  const markerIds = selectedIds('marker');
+  const pathIds = selectedIds('path');
+  const areaIds = selectedIds('area');
+  const polygonAreaIds = selectedIds('polygonArea');
+  const linksCopiedMarkers = (link?: { startId: string; endId: string }) => (
+    !!link && markerIds.has(link.startId) && markerIds.has(link.endId)
+  );
+
+  const payload: ClipboardPayload = {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    markers: content.markers
+      .filter(m => markerIds.has(m.id))
+      .map(m => ({ ...m, linkedMarkerIds: m.linkedMarkerIds?.filter(id => markerIds.has(id)) })),
+    paths: content.paths
+      .filter(p => pathIds.has(p.id) || linksCopiedMarkers(p.linkedMarkers))
+      .map(p => {
+        if (!p.linkedMarkers || linksCopiedMarkers(p.linkedMarkers)) return p;
+        const { linkedMarkers: _cut, ...rest } = p;
+        return { ...rest, routed: false };
+      }),
+    areas: content.areas.filter(a => areaIds.has(a.id)),
+    polygonAreas: content.polygonAreas.filter(a => polygonAreaIds.has(a.id)),
+  };
+  const usedSymbolIds = new Set<string>(payload.markers.map(m => m.symbolId ?? ''));
+  payload.symbols = symbols.filter(s => usedSymbolIds.has(s.id));
+  const count = payload.markers.length + payload.paths.length + payload.areas.length + payload.polygonAreas.length;
+  return count ? payload : null;
+};
+
+/**
+ * Reads clipboard text. Returns null for text that is not a copied-elements
+ * payload, and throws a PlanImportError when it is one but fails validation.
+ */
+export const parseClipboard = (text: string): ClipboardPayload | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (typeof raw !== 'object' || raw === null || (raw as Record<string, unknown>).format !== CLIPBOARD_FORMAT) return null;
+
+  const payload = raw as Record<string, unknown>;
+  if (typeof payload.version !== 'number' || payload.version > CLIPBOARD_VERSION) {
+    throw new PlanImportError('Copied elements come from a newer version of Map Planner.');
+  }
+  const issues = validateElements(payload);
+  if (payload.symbols !== undefined) issues.push(...validateSymbols(payload.symbols));
+  if (issues.length) {
+    throw new PlanImportError('Copied elements are invalid.', issues);
+  }
+  return raw as ClipboardPayload;
+};
+
+interface PasteOptions {
+  layerId: string;
+  offset: Point;
+  imageSize?: ImageSize;
+}
+
+/** Copies of the payload's elements with fresh ids and remapped links, moved by `offset` onto one layer. */
+export const instantiateElements = (payload: ClipboardPayload, { layerId, offset, imageSize }: PasteOptions): SelectionContent => {
+  const stamp = Date.now();
+  let counter = 0;
+  const newId = (prefix: string) => `${prefix}-${stamp}-${counter++}`;
+  const move = (p: Point): Point => ({ x: p.x + offset.x, y: p.y + offset.y });
+
+  const markerIds = new Map<string, string>(payload.markers.map(m => [m.id, newId('marker')]));
+
+  const markers = payload.markers.map(m => ({
+    ...m,
+    id: markerIds.get(m.id)!,
+    position: move(m.position),
+    linkedMarkerIds: m.linkedMarkerIds?.filter(id => markerIds.has(id)).map(id => markerIds.get(id)!),
+    layerId,
+  }));
+
+  const paths = payload.paths.map(p => {
+    const path = { ...p, id: newId('path'), points: p.points.map(move), layerId };
+    if (!p.linkedMarkers) return path;
+    const startId = markerIds.get(p.linkedMarkers.startId);
+    const endId = markerIds.get(p.linkedMarkers.endId);
+    if (startId && endId) return { ...path, linkedMarkers: { startId, endId } };
+    const { linkedMarkers: _cut, ...rest } = path;
+    return { ...rest, routed: false };
+  });
+
+  const areas = payload.areas.map(a => {
+    const center = move(a.center);
+    return { ...a, id: newId('area'), center, ...areaBoundsFromCircle(center, a.radius, imageSize), layerId };
+  });
+
+  const polygonAreas = payload.polygonAreas.map(a => ({ ...a, id: newId('poly-area'), points: a.points.map(move), layerId }));
+
+  return { markers, paths, areas, polygonAreas };
+};
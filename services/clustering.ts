@@ -0,0 +1,59 @@
+import { Marker, Point } from '../types.ts';
+import { Bounds, boundsOfPoints } from './selection.ts';
+
+// Marker clustering for zoomed-out views. Markers are bucketed on a grid of
+// fixed on-screen size; every bucket holding more than one marker becomes a
+// cluster drawn as a single badge with its count. Exports cluster as if seen
+// at 100% zoom.
+
+// Below this zoom nearby markers collapse into clusters; 0 turns clustering off
+export const DEFAULT_CLUSTER_ZOOM = 0.5;
+// Side of a clustering cell in screen pixels
+const CLUSTER_CELL = 60;
+
+export interface MarkerCluster {
+  id: string;
+  center: Point;
+  bounds: Bounds;
+  markers: Marker[];
+}
+
+export interface ClusterResult {
+  // Markers left on their own, in their original order
+  singles: Marker[];
+  clusters: MarkerCluster[];
+}
+
+/** Radius of a cluster badge in image pixels; it keeps its on-screen size at any zoom. */
+export const clusterRadius = (cluster: MarkerCluster, zoom: number) => (
+  (14 + Math.min(10, 2 * Math.log2(cluster.markers.length))) / zoom
+);
+
+export const clusterMarkers = (markers: Marker[], zoom: number, clusterZoom: number): ClusterResult => {
+  if (zoom >= clusterZoom) return { singles: markers, clusters: [] };
+
+  const cellSize = CLUSTER_CELL / zoom;
+  const cells = new Map<string, Marker[]>();
+  markers.forEach(marker => {
+    const key = `${Math.floor(marker.position.x / cellSize)},${Math.floor(marker.position.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(marker);
+    else cells.set(key, [marker]);
+  });
+
+  const clustered = new Set<string>();
+  const clusters: MarkerCluster[] = [];
+  cells.forEach((members, key) => {
+    if (members.length < 2) return;
+    members.forEach(m => clustered.add(m.id));
+    const sum = members.reduce((acc, m) => ({ x: acc.x + m.position.x, y: acc.y + m.position.y }), { x: 0, y: 0 });
+    clusters.push({
+      id: `cluster:${key}`,
+      center: { x: sum.x / members.length, y: sum.y / members.length },
+      bounds: boundsOfPoints(members.map(m => m.position))!,
+      markers: members,
+    });
+  });
+
+  return { singles: markers.filter(m => !clustered.has(m.id)), clusters };
+};
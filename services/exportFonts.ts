@@ -0,0 +1,39 @@
+import { blobToDataUrl } from './imageStore.ts';
+
+// Font embedded in downloaded SVGs, so their text looks the same in any
+// viewer or drawing program. Arimo (SIL Open Font License, see
+// assets/fonts/OFL.txt) has the metrics of Arial and Helvetica, which labels
+// are laid out with. Only its Latin subset is bundled, in the two weights the
+// exports use.
+
+export const EMBEDDED_FONT_FAMILY = 'Arimo';
+
+const FACES = [
+  { weight: 400, url: new URL('../assets/fonts/arimo-latin-400-normal.woff2', import.meta.url) },
+  { weight: 700, url: new URL('../assets/fonts/arimo-latin-700-normal.woff2', import.meta.url) },
+];
+
+export interface EmbeddedFont {
+  family: string;
+  // @font-face rules with the font data inline
+  css: string;
+}
+
+let loading: Promise<EmbeddedFont> | null = null;
+
+/** Reads the bundled font files once and returns them as @font-face rules. */
+export const loadEmbeddedFont = (): Promise<EmbeddedFont> => {
+  loading ??= Promise.all(FACES.map(async face => {
+    const response = await fetch(face.url);
+    if (!response.ok) throw new Error(`Failed to load font ${face.url} (${response.status}).`);
+    const dataUrl = await blobToDataUrl(new Blob([await response.arrayBuffer()], { type: 'font/woff2' }));
+    return `@font-face { font-family: '${EMBEDDED_FONT_FAMILY}'; font-weight: ${face.weight}; src: url(${dataUrl}) format('woff2'); }`;
+  }))
+    .then(rules => ({ family: EMBEDDED_FONT_FAMILY, css: rules.join('\n') }))
+    .catch(error => {
+      // Let the next export try again
+      loading = null;
+      throw error;
+    });
+  return loading;
+};
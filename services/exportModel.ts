@@ -0,0 +1,215 @@
+import { Area, Calibration, Georeference, Layer, MapSymbol, Marker, MarkerStatus, Path, Point, PolygonArea } from '../types.ts';
+import { ImageSize, polygonArea, polygonPerimeter, polylineLength } from './geometry.ts';
+import { filterByLayers } from './layers.ts';
+import { isGeoreferenced, pixelToWorld, worldDistance } from './georeference.ts';
+import { toWorldArea, toWorldLength, toWorldPoint, unitLabel } from './units.ts';
+
+// The plan as exporters see it: only the exported layers, with default colours
+// filled in, layer names next to layer ids, and world coordinates and sizes
+// worked out when the plan is calibrated, and `geo*` positions (longitude and
+// latitude, or georeferenced world coordinates) when it is georeferenced.
+// Everything is plain data, so the same model feeds code exporters and user
+// templates.
+
+export interface ExportPlanInput {
+  imageSize: ImageSize | null;
+  calibration: Calibration | null;
+  georeference: Georeference | null;
+  layers: Layer[];
+  markers: Marker[];
+  paths: Path[];
+  areas: Area[];
+  polygonAreas: PolygonArea[];
+  symbols: MapSymbol[];
+}
+
+export interface ExportLayerModel {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number;
+}
+
+export interface ExportMarkerModel {
+  id: string;
+  number: string;
+  name: string;
+  area: string;
+  status: MarkerStatus;
+  color: string;
+  layerId: string;
+  layer: string;
+  x: number;
+  y: number;
+  // Position in the calibrated unit; null on uncalibrated plans
+  world: Point | null;
+  // Longitude (x) and latitude (y), or georeferenced world position; null when not georeferenced
+  geo: Point | null;
+  linkedMarkerIds: string[];
+  // Library symbol drawn for the marker, and its own size and rotation; null for the classic marker or the symbol's defaults
+  symbolId: string | null;
+  symbolSize: number | null;
+  symbolRotation: number | null;
+}
+
+export interface ExportPathModel {
+  id: string;
+  color: string;
+  layerId: string;
+  layer: string;
+  points: Point[];
+  worldPoints: Point[] | null;
+  geoPoints: Point[] | null;
+  length: number;
+  worldLength: number | null;
+  // Markers the path joins, when it was drawn between two markers
+  startMarkerId: string | null;
+  endMarkerId: string | null;
+  routed: boolean;
+}
+
+export interface ExportAreaModel {
+  id: string;
+  number: string;
+  name: string;
+  color: string;
+  layerId: string;
+  layer: string;
+  x: number;
+  y: number;
+  radius: number;
+  // Bounding box, cut to the image
+  topLeft: Point;
+  bottomRight: Point;
+  worldCenter: Point | null;
+  worldRadius: number | null;
+  geoCenter: Point | null;
+  // Metres on lon/lat plans, world units on other georeferenced ones
+  geoRadius: number | null;
+}
+
+export interface ExportPolygonAreaModel {
+  id: string;
+  number: string;
+  name: string;
+  color: string;
+  layerId: string;
+  layer: string;
+  points: Point[];
+  worldPoints: Point[] | null;
+  geoPoints: Point[] | null;
+  obstacle: boolean;
+  area: number;
+  perimeter: number;
+  worldArea: number | null;
+}
+
+export interface ExportModel {
+  generatedAt: string;
+  image: ImageSize | null;
+  calibration: Calibration | null;
+  // Control points and fitted transforms, for exporters that convert other positions
+  georeference: Georeference | null;
+  // Unit of world values, or "px" on uncalibrated plans
+  unit: string;
+  layers: ExportLayerModel[];
+  markers: ExportMarkerModel[];
+  paths: ExportPathModel[];
+  areas: ExportAreaModel[];
+  polygonAreas: ExportPolygonAreaModel[];
+  // The plan's symbol library, which markers refer to by symbolId
+  symbols: MapSymbol[];
+}
+
+/** Builds the export model from the plan, keeping the given layers (all when omitted). */
+export const buildExportModel = (plan: ExportPlanInput, layerIds?: Set<string>): ExportModel => {
+  const included = layerIds ?? new Set<string>(plan.layers.map(layer => layer.id));
+  const layers = plan.layers.filter(layer => included.has(layer.id));
+  const layerNames = new Map<string, string>(layers.map(layer => [layer.id, layer.name]));
+  const { calibration } = plan;
+  const world = (point: Point) => (calibration ? toWorldPoint(point, calibration) : null);
+  const worldPoints = (points: Point[]) => (calibration ? points.map(p => toWorldPoint(p, calibration)) : null);
+  const { georeference } = plan;
+  const geo = (point: Point) => pixelToWorld(georeference, point);
+  const geoPoints = (points: Point[]) => (isGeoreferenced(georeference) ? points.map(p => geo(p)!) : null);
+  const geoRadius = (area: Area) => {
+    const center = geo(area.center);
+    const edge = geo({ x: area.center.x + area.radius, y: area.center.y });
+    return georeference && center && edge ? worldDistance(georeference, center, edge) : null;
+  };
+
+  return {
+    generatedAt: new Date().toISOString(),
+    image: plan.imageSize,
+    calibration,
+    georeference,
+    unit: unitLabel(calibration),
+    layers: layers.map(({ id, name, visible, locked, opacity }) => ({ id, name, visible, locked, opacity })),
+    markers: filterByLayers(plan.markers, included).map(marker => ({
+      id: marker.id,
+      number: marker.number ?? '',
+      name: marker.name,
+      area: marker.area ?? '',
+      status: marker.status,
+      color: marker.color || '#10b981',
+      layerId: marker.layerId,
+      layer: layerNames.get(marker.layerId)!,
+      x: marker.position.x,
+      y: marker.position.y,
+      world: world(marker.position),
+      geo: geo(marker.position),
+      linkedMarkerIds: marker.linkedMarkerIds ?? [],
+      symbolId: marker.symbolId ?? null,
+      symbolSize: marker.symbolSize ?? null,
+      symbolRotation: marker.symbolRotation ?? null,
+    })),
+    paths: filterByLayers(plan.paths, included).map(path => ({
+      id: path.id,
+      color: path.color || '#f59e0b',
+      layerId: path.layerId,
+      layer: layerNames.get(path.layerId)!,
+      points: path.points,
+      worldPoints: worldPoints(path.points),
+      geoPoints: geoPoints(path.points),
+      length: polylineLength(path.points),
+      worldLength: calibration ? toWorldLength(polylineLength(path.points), calibration) : null,
+      startMarkerId: path.linkedMarkers?.startId ?? null,
+      endMarkerId: path.linkedMarkers?.endId ?? null,
+      routed: !!path.routed,
+    })),
+    areas: filterByLayers(plan.areas, included).map(area => ({
+      id: area.id,
+      number: area.number ?? '',
+      name: area.name,
+      color: area.color || '#facc15',
+      layerId: area.layerId,
+      layer: layerNames.get(area.layerId)!,
+      x: area.center.x,
+      y: area.center.y,
+      radius: area.radius,
+      topLeft: area.topLeft,
+      bottomRight: area.bottomRight,
+      worldCenter: world(area.center),
+      worldRadius: calibration ? toWorldLength(area.radius, calibration) : null,
+      geoCenter: geo(area.center),
+      geoRadius: geoRadius(area),
+    })),
+    polygonAreas: filterByLayers(plan.polygonAreas, included).map(area => ({
+      id: area.id,
+      number: area.number ?? '',
+      name: area.name,
+      color: area.color || '#facc15',
+      layerId: area.layerId,
+      layer: layerNames.get(area.layerId)!,
+      points: area.points,
+      worldPoints: worldPoints(area.points),
+      geoPoints: geoPoints(area.points),
+      obstacle: !!area.obstacle,
+      area: polygonArea(area.points),
+      perimeter: polygonPerimeter(area.points),
+      worldArea: calibration ? toWorldArea(polygonArea(area.points), calibration) : null,
+    })),
+    symbols: plan.symbols,
+  };
+};
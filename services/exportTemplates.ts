@@ -0,0 +1,47 @@
+import { TEMPLATE_STORE, runRequest } from './storage.ts';
+
+// User templates for text exports, kept in IndexedDB next to the plan library.
+// They belong to the browser rather than to a plan, so every plan can use them.
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  // File extension of the output, without the dot
+  extension: string;
+  body: string;
+  modifiedAt: string;
+}
+
+const generateTemplateId = () => `template-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+// Starting point for new templates, showing the main constructs
+export const SAMPLE_TEMPLATE = `-- {{#if calibration}}Units: {{unit}}{{else}}Pixel coordinates{{/if}}
+return {
+  markers = {
+    {{#each markers}}
+    { id = {{lua id}}, number = {{lua number}}, name = {{lua name}}, status = {{lua status}}, x = {{round x}}, y = {{round y}} }{{#unless @last}},{{/unless}}
+    {{/each}}
+  },
+}
+`;
+
+export const createTemplate = (name: string): ExportTemplate => ({
+  id: generateTemplateId(),
+  name,
+  extension: 'txt',
+  body: SAMPLE_TEMPLATE,
+  modifiedAt: new Date().toISOString(),
+});
+
+export const listTemplates = async (): Promise<ExportTemplate[]> => {
+  const templates = await runRequest<ExportTemplate[]>(TEMPLATE_STORE, 'readonly', store => store.getAll());
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = async (template: ExportTemplate) => {
+  await runRequest(TEMPLATE_STORE, 'readwrite', store => store.put({ ...template, modifiedAt: new Date().toISOString() }));
+};
+
+export const deleteTemplate = async (id: string) => {
+  await runRequest(TEMPLATE_STORE, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,62 @@
+import { ExportModel } from './exportModel.ts';
+import { ExportTemplate } from './exportTemplates.ts';
+import { buildGeoJson } from './geojson.ts';
+import { buildLuaExport, loadLuaOptions } from './luaExport.ts';
+import { renderTemplate } from './templates.ts';
+
+// Text export formats. Each exporter renders the export model to a file; the
+// built-in ones are registered here, and saved templates become exporters of
+// their own so the Tools menu lists them side by side.
+
+export interface Exporter {
+  id: string;
+  label: string;
+  // File extension, without the dot
+  extension: string;
+  // Download name without the extension; "map-plan" when omitted
+  fileName?: string;
+  mimeType: string;
+  render: (model: ExportModel) => string;
+}
+
+const registry = new Map<string, Exporter>();
+
+export const registerExporter = (exporter: Exporter) => {
+  registry.set(exporter.id, exporter);
+};
+
+/** Built-in exporters, in the order they were registered. */
+export const listExporters = (): Exporter[] => [...registry.values()];
+
+export const templateExporter = (template: ExportTemplate): Exporter => ({
+  id: `template:${template.id}`,
+  label: template.name,
+  extension: template.extension,
+  mimeType: 'text/plain',
+  render: model => renderTemplate(template.body, model),
+});
+
+registerExporter({
+  id: 'lua',
+  label: 'Lua table',
+  extension: 'lua',
+  fileName: 'map-positions',
+  mimeType: 'text/plain',
+  render: model => buildLuaExport(model, loadLuaOptions()),
+});
+
+registerExporter({
+  id: 'geojson',
+  label: 'GeoJSON',
+  extension: 'geojson',
+  mimeType: 'application/geo+json',
+  render: model => buildGeoJson(model),
+});
+
+registerExporter({
+  id: 'model-json',
+  label: 'Export model (JSON)',
+  extension: 'json',
+  mimeType: 'application/json',
+  render: model => JSON.stringify(model, null, 2),
+});
@@ -0,0 +1,300 @@
+import { Area, Georeference, Marker, Path, Point, PolygonArea } from '../types.ts';
+import { ExportModel } from './exportModel.ts';
+import { areaBoundsFromCircle, distance } from './geometry.ts';
+import { applyTransform, isGeoreferenced } from './georeference.ts';
+import { ImportContext, ImportFileError, ImportedElements, asColor, asNumber, asText, createElementReader } from './importMerge.ts';
+
+// GeoJSON exchange with GIS tools. Markers are Points, paths LineStrings,
+// polygon areas Polygons, and circular areas Polygons approximating the circle
+// with the centre and radius kept in the properties. The other fields go into
+// the properties, with `kind` telling the element types apart on the way back.
+// Positions are longitude/latitude on georeferenced plans (or the georeferenced
+// world system), and plan pixels otherwise.
+
+export interface GeoCoordinates {
+  // GeoJSON position for a plan pixel, and back
+  toPosition: (point: Point) => number[];
+  fromPosition: (position: number[]) => Point;
+}
+
+// Pixels keep two decimals, like the other exports
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const PIXEL_COORDINATES: GeoCoordinates = {
+  toPosition: point => [round2(point.x), round2(point.y)],
+  fromPosition: ([x, y]) => ({ x, y }),
+};
+
+// Seven decimals of a degree are about a centimetre
+const round7 = (value: number) => Math.round(value * 1e7) / 1e7;
+
+/** Positions for the plan: through its georeference when it has one, pixels otherwise. */
+export const coordinatesFor = (georeference: Georeference | null): GeoCoordinates => {
+  if (!isGeoreferenced(georeference)) return PIXEL_COORDINATES;
+  const round = georeference.system === 'lonlat' ? round7 : round2;
+  return {
+    toPosition: point => {
+      const world = applyTransform(georeference.toWorld, point);
+      return [round(world.x), round(world.y)];
+    },
+    fromPosition: ([x, y]) => applyTransform(georeference.toPixel, { x, y }),
+  };
+};
+
+// Vertices of the polygon standing in for a circular area
+const CIRCLE_SEGMENTS = 64;
+
+type Properties = Record<string, unknown>;
+
+interface Feature {
+  type: 'Feature';
+  id: string;
+  geometry: { type: string; coordinates: unknown };
+  properties: Properties;
+}
+
+export const buildGeoJson = (model: ExportModel, coordinates: GeoCoordinates = coordinatesFor(model.georeference)): string => {
+  const position = (point: Point) => coordinates.toPosition(point);
+  // Rings are closed and counter-clockwise, as RFC 7946 asks; the winding is
+  // taken on the written positions, since pixels and lon/lat flip the y axis
+  const ring = (points: Point[]) => {
+    const positions = points.map(position);
+    const clockwise = positions.reduce((sum, p, i) => {
+      const q = positions[(i + 1) % positions.length];
+      return sum + (q[0] - p[0]) * (q[1] + p[1]);
+    }, 0) > 0;
+    const ordered = clockwise ? positions.reverse() : positions;
+    return [...ordered, ordered[0]];
+  };
+  const unit = model.calibration ? { unit: model.unit } : {};
+  const feature = (id: string, type: string, geometryCoordinates: unknown, properties: Properties): Feature => ({
+    type: 'Feature',
+    id,
+    geometry: { type, coordinates: geometryCoordinates },
+    // Nulls (world values on uncalibrated plans) are left out
+    properties: Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== null)),
+  });
+
+  const features: Feature[] = [
+    ...model.markers.map(m => feature(m.id, 'Point', position(m), {
+      kind: 'marker',
+      id: m.id,
+      number: m.number,
+      name: m.name,
+      area: m.area,
+      status: m.status,
+      color: m.color,
+      'marker-color': m.color,
+      layerId: m.layerId,
+      layer: m.layer,
+      linkedMarkerIds: m.linkedMarkerIds,
+    })),
+    ...model.paths.map(p => feature(p.id, 'LineString', p.points.map(position), {
+      kind: 'path',
+      id: p.id,
+      color: p.color,
+      stroke: p.color,
+      layerId: p.layerId,
+      layer: p.layer,
+      startMarkerId: p.startMarkerId,
+      endMarkerId: p.endMarkerId,
+      routed: p.routed,
+      length: round2(p.length),
+      worldLength: p.worldLength,
+      ...unit,
+    })),
+    ...model.areas.map(a => {
+      const circle = Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+        const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+        return { x: a.x + Math.cos(angle) * a.radius, y: a.y + Math.sin(angle) * a.radius };
+      });
+      return feature(a.id, 'Polygon', [ring(circle)], {
+        kind: 'area',
+        id: a.id,
+        number: a.number,
+        name: a.name,
+        color: a.color,
+        stroke: a.color,
+        fill: a.color,
+        layerId: a.layerId,
+        layer: a.layer,
+        center: position(a),
+        // In pixels, like the plan; worldRadius is in the calibrated unit
+        radius: round2(a.radius),
+        worldRadius: a.worldRadius,
+        // Metres on lon/lat plans
+        geoRadius: a.geoRadius !== null ? round2(a.geoRadius) : null,
+        ...unit,
+      });
+    }),
+    ...model.polygonAreas.map(a => feature(a.id, 'Polygon', [ring(a.points)], {
+      kind: 'polygonArea',
+      id: a.id,
+      number: a.number,
+      name: a.name,
+      color: a.color,
+      stroke: a.color,
+      fill: a.color,
+      layerId: a.layerId,
+      layer: a.layer,
+      obstacle: a.obstacle,
+      area: round2(a.area),
+      worldArea: a.worldArea,
+      ...unit,
+    })),
+  ];
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+// --- Import ---------------------------------------------------------------------
+
+const isObject = (value: unknown): value is Properties => !!value && typeof value === 'object' && !Array.isArray(value);
+
+/** Reads the features of a GeoJSON file into plan elements. Multi-geometries become one element per part. */
+export const readGeoJsonElements = (source: string, context: ImportContext, coordinates: GeoCoordinates = PIXEL_COORDINATES): ImportedElements => {
+  let root: unknown;
+  try {
+    root = JSON.parse(source);
+  } catch {
+    throw new ImportFileError('The file is not valid JSON.');
+  }
+  if (!isObject(root)) throw new ImportFileError('The file is not GeoJSON.');
+  const features = root.type === 'FeatureCollection' && Array.isArray(root.features) ? root.features
+    : root.type === 'Feature' ? [root]
+    : null;
+  if (!features) throw new ImportFileError('The file has no GeoJSON features.');
+
+  const reader = createElementReader(context);
+  const skipped: string[] = [];
+  const markers: Marker[] = [];
+  const paths: Path[] = [];
+  const areas: Area[] = [];
+  const polygonAreas: PolygonArea[] = [];
+  // Kinds the file has at all, even if every feature of the kind was skipped
+  const found = new Set<string>();
+
+  const point = (value: unknown): Point | null => {
+    if (!Array.isArray(value) || value.length < 2 || !value.every(n => typeof n === 'number' && Number.isFinite(n))) return null;
+    const p = coordinates.fromPosition(value);
+    return Number.isFinite(p.x) && Number.isFinite(p.y) ? p : null;
+  };
+  const points = (value: unknown): Point[] | null => {
+    if (!Array.isArray(value)) return null;
+    const list = value.map(point);
+    return list.every((p): p is Point => p !== null) ? list : null;
+  };
+  // Outer ring without the closing point; holes are ignored
+  const outerRing = (value: unknown): Point[] | null => {
+    const ring = Array.isArray(value) ? points(value[0]) : null;
+    if (!ring) return null;
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    return ring.length > 1 && first.x === last.x && first.y === last.y ? ring.slice(0, -1) : ring;
+  };
+
+  features.forEach((item: unknown, index: number) => {
+    const feature = isObject(item) ? item : {};
+    const properties = isObject(feature.properties) ? feature.properties : {};
+    const geometry = isObject(feature.geometry) ? feature.geometry : null;
+    const label = asText(properties.name) || asText(properties.id ?? feature.id) || `#${index + 1}`;
+    if (!geometry) {
+      skipped.push(`Feature ${label}: no geometry`);
+      return;
+    }
+    const type = String(geometry.type);
+    const single = type.replace(/^Multi/, '');
+    const parts = type.startsWith('Multi') && Array.isArray(geometry.coordinates) ? geometry.coordinates : [geometry.coordinates];
+    const base = {
+      name: asText(properties.name ?? properties.title) ?? '',
+      number: asText(properties.number) || undefined,
+      layerId: reader.layerIdFor(properties.layerId, properties.layer),
+    };
+    const color = (style: string) => asColor(properties.color) ?? asColor(properties[style]);
+    const id = (prefix: string) => reader.idFor(properties.id ?? feature.id, prefix);
+
+    parts.forEach((part: unknown) => {
+      if (single === 'Point' && properties.kind !== 'area') {
+        found.add('markers');
+        const position = point(part);
+        if (!position) {
+          skipped.push(`Marker ${label}: invalid coordinates`);
+          return;
+        }
+        markers.push({
+          id: id('marker'),
+          ...base,
+          area: asText(properties.area) || undefined,
+          position,
+          status: reader.statusOf(properties.status),
+          color: color('marker-color'),
+          linkedMarkerIds: reader.linkIds(properties.linkedMarkerIds),
+        });
+      } else if (single === 'LineString') {
+        found.add('paths');
+        const line = points(part);
+        if (!line || line.length < 2) {
+          skipped.push(`Path ${label}: needs at least two points`);
+          return;
+        }
+        const startId = asText(properties.startMarkerId);
+        const endId = asText(properties.endMarkerId);
+        paths.push({
+          id: id('path'),
+          points: line,
+          color: color('stroke'),
+          layerId: base.layerId,
+          ...(startId && endId ? { linkedMarkers: { startId, endId } } : {}),
+          ...(properties.routed === true ? { routed: true } : {}),
+        });
+      } else if (properties.kind === 'area' && (single === 'Polygon' || single === 'Point')) {
+        found.add('areas');
+        // The circle is rebuilt from its centre and radius; the polygon is only a fallback
+        const ring = single === 'Polygon' ? outerRing(part) : null;
+        const center = point(properties.center) ?? point(single === 'Point' ? part : null) ?? (ring && ring.length ? {
+          x: ring.reduce((sum, p) => sum + p.x, 0) / ring.length,
+          y: ring.reduce((sum, p) => sum + p.y, 0) / ring.length,
+        } : null);
+        const radius = asNumber(properties.radius) ?? (center && ring && ring.length
+          ? ring.reduce((sum, p) => sum + distance(p, center), 0) / ring.length
+          : undefined);
+        if (!center || !radius || radius <= 0) {
+          skipped.push(`Area ${label}: needs a center and a radius`);
+          return;
+        }
+        areas.push({
+          id: id('area'),
+          ...base,
+          center,
+          radius,
+          ...areaBoundsFromCircle(center, radius, context.imageSize ?? undefined),
+          color: color('fill'),
+        });
+      } else if (single === 'Polygon') {
+        found.add('polygonAreas');
+        const ring = outerRing(part);
+        if (!ring || ring.length < 3) {
+          skipped.push(`Polygon area ${label}: needs at least three points`);
+          return;
+        }
+        polygonAreas.push({
+          id: id('poly-area'),
+          ...base,
+          points: ring,
+          color: color('fill'),
+          ...(properties.obstacle === true ? { obstacle: true } : {}),
+        });
+      } else {
+        skipped.push(`Feature ${label}: ${type} geometries are not supported`);
+      }
+    });
+  });
+
+  if (!found.size) throw new ImportFileError('The file has no points, lines or polygons to import.');
+  return {
+    markers: found.has('markers') ? markers : undefined,
+    paths: found.has('paths') ? paths : undefined,
+    areas: found.has('areas') ? areas : undefined,
+    polygonAreas: found.has('polygonAreas') ? polygonAreas : undefined,
+    skipped,
+  };
+};
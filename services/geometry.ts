@@ -0,0 +1,77 @@
+import { Point } from '../types.ts';
+
+export type ImageSize = { width: number; height: number };
+
+export const distance = (a: Point, b: Point) => {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+export const polygonCentroid = (points: Point[]): Point => {
+  if (!points.length) return { x: 0, y: 0 };
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+  return { x: sum.x / points.length, y: sum.y / points.length };
+};
+
+export const closestPointOnSegment = (point: Point, a: Point, b: Point): Point => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (!lengthSq) return a;
+  const t = Math.min(1, Math.max(0, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+export const polylineLength = (points: Point[]) => (
+  points.reduce((total, point, i) => (i === 0 ? 0 : total + distance(points[i - 1], point)), 0)
+);
+
+// Shoelace formula; the points are treated as a closed ring.
+export const polygonArea = (points: Point[]) => {
+  if (points.length < 3) return 0;
+  let sum = 0;
+  points.forEach((p, i) => {
+    const next = points[(i + 1) % points.length];
+    sum += p.x * next.y - next.x * p.y;
+  });
+  return Math.abs(sum) / 2;
+};
+
+export const polygonPerimeter = (points: Point[]) => (
+  points.length < 2 ? 0 : polylineLength([...points, points[0]])
+);
+
+export const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const areaBoundsFromCircle = (center: Point, radius: number, imageSize?: ImageSize): { topLeft: Point; bottomRight: Point } => {
+  const r = Math.max(1, radius);
+  let topLeft: Point = { x: center.x - r, y: center.y - r };
+  let bottomRight: Point = { x: center.x + r, y: center.y + r };
+
+  if (imageSize) {
+    topLeft = {
+      x: clamp(topLeft.x, 0, imageSize.width),
+      y: clamp(topLeft.y, 0, imageSize.height),
+    };
+    bottomRight = {
+      x: clamp(bottomRight.x, 0, imageSize.width),
+      y: clamp(bottomRight.y, 0, imageSize.height),
+    };
+  }
+
+  return { topLeft, bottomRight };
+};
+
+export const circleFromBounds = (topLeft: Point, bottomRight: Point) => {
+  const left = Math.min(topLeft.x, bottomRight.x);
+  const right = Math.max(topLeft.x, bottomRight.x);
+  const top = Math.min(topLeft.y, bottomRight.y);
+  const bottom = Math.max(topLeft.y, bottomRight.y);
+
+  const center = { x: (left + right) / 2, y: (top + bottom) / 2 };
+  const halfW = (right - left) / 2;
+  const halfH = (bottom - top) / 2;
+  const radius = Math.max(1, Math.max(halfW, halfH));
+  return { center, radius };
+};
@@ -0,0 +1,150 @@
+import { ControlPoint, GeoTransform, Georeference, Point } from '../types.ts';
+import { distance } from './geometry.ts';
+import { formatNumber } from './units.ts';
+
+// Georeferencing: control points tie map pixels to longitude/latitude or to a
+// projected world system, and a least-squares fit turns them into transforms
+// both ways. Affine fits (order 1) handle scale, rotation and shear and need
+// three points; second-order polynomials also absorb some bending of scanned or
+// hand-drawn maps and need six. Both transforms are stored in the plan, so
+// exporters convert without refitting.
+
+export const MIN_CONTROL_POINTS: Record<Georeference['method'], number> = { affine: 3, polynomial: 6 };
+
+export const createGeoreference = (): Georeference => ({
+  system: 'lonlat',
+  unit: 'm',
+  method: 'affine',
+  controlPoints: [],
+  toWorld: null,
+  toPixel: null,
+});
+
+export const createControlPoint = (pixel: Point, world: Point): ControlPoint => ({
+  id: `gcp-${Date.now()}`,
+  pixel,
+  world,
+});
+
+const terms = (order: 1 | 2, u: number, v: number) => (order === 1 ? [1, u, v] : [1, u, v, u * u, u * v, v * v]);
+
+/** Solves the square system in place by Gaussian elimination; null when it is singular. */
+const solve = (matrix: number[][], rhs: number[]): number[] | null => {
+  const n = rhs.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row;
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-10) return null;
+    [matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]];
+    [rhs[col], rhs[pivot]] = [rhs[pivot], rhs[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = matrix[row][col] / matrix[col][col];
+      for (let k = col; k < n; k++) matrix[row][k] -= factor * matrix[col][k];
+      rhs[row] -= factor * rhs[col];
+    }
+  }
+  const result = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = rhs[row];
+    for (let k = row + 1; k < n; k++) sum -= matrix[row][k] * result[k];
+    result[row] = sum / matrix[row][row];
+  }
+  return result;
+};
+
+/** Least-squares transform taking `from` to `to`; null when the points don't pin it down (too few, or all in a line). */
+export const fitTransform = (from: Point[], to: Point[], order: 1 | 2): GeoTransform | null => {
+  const count = from.length;
+  if (count < (order === 1 ? 3 : 6) || to.length !== count) return null;
+  const origin = { x: from.reduce((sum, p) => sum + p.x, 0) / count, y: from.reduce((sum, p) => sum + p.y, 0) / count };
+  const scale = Math.max(...from.map(p => distance(p, origin)));
+  if (!(scale > 0)) return null;
+
+  const rows = from.map(p => terms(order, (p.x - origin.x) / scale, (p.y - origin.y) / scale));
+  const size = rows[0].length;
+  // Normal equations: (AᵀA) c = Aᵀb, one right-hand side per output axis
+  const normal = () => Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0)));
+  const rhs = (axis: 'x' | 'y') => Array.from({ length: size }, (_, i) => rows.reduce((sum, row, k) => sum + row[i] * to[k][axis], 0));
+  const x = solve(normal(), rhs('x'));
+  const y = solve(normal(), rhs('y'));
+  return x && y ? { order, origin, scale, x, y } : null;
+};
+
+export const applyTransform = (transform: GeoTransform, point: Point): Point => {
+  const values = terms(transform.order, (point.x - transform.origin.x) / transform.scale, (point.y - transform.origin.y) / transform.scale);
+  return {
+    x: values.reduce((sum, value, i) => sum + value * transform.x[i], 0),
+    y: values.reduce((sum, value, i) => sum + value * transform.y[i], 0),
+  };
+};
+
+/** The georeference with its transforms refitted to the current control points and method. */
+export const fitGeoreference = (georeference: Georeference): Georeference => {
+  const order = georeference.method === 'affine' ? 1 : 2;
+  const pixels = georeference.controlPoints.map(p => p.pixel);
+  const worlds = georeference.controlPoints.map(p => p.world);
+  const toWorld = fitTransform(pixels, worlds, order);
+  const toPixel = toWorld && fitTransform(worlds, pixels, order);
+  return { ...georeference, toWorld, toPixel: toPixel ?? null };
+};
+
+export const isGeoreferenced = (georeference: Georeference | null): georeference is Georeference & { toWorld: GeoTransform; toPixel: GeoTransform } => (
+  !!georeference?.toWorld && !!georeference.toPixel
+);
+
+export const pixelToWorld = (georeference: Georeference | null, point: Point): Point | null => (
+  isGeoreferenced(georeference) ? applyTransform(georeference.toWorld, point) : null
+);
+
+export const worldToPixel = (georeference: Georeference | null, world: Point): Point | null => (
+  isGeoreferenced(georeference) ? applyTransform(georeference.toPixel, world) : null
+);
+
+// Metres per degree, close enough for judging residuals
+const METERS_PER_DEGREE = 111320;
+
+/** Ground distance between two world points: metres for lon/lat, world units otherwise. */
+export const worldDistance = (georeference: Georeference, a: Point, b: Point) => {
+  if (georeference.system === 'world') return distance(a, b);
+  const cos = Math.cos((((a.y + b.y) / 2) * Math.PI) / 180);
+  return Math.hypot((a.x - b.x) * cos, a.y - b.y) * METERS_PER_DEGREE;
+};
+
+export const residualUnit = (georeference: Georeference) => (georeference.system === 'lonlat' ? 'm' : georeference.unit.trim());
+
+export interface ControlPointResidual {
+  // How far the fit puts the point from where it was placed, in the residual unit and in pixels
+  world: number;
+  pixel: number;
+}
+
+/** Residual of each control point under the fitted transforms; null when nothing is fitted yet. */
+export const controlPointResiduals = (georeference: Georeference): ControlPointResidual[] | null => {
+  if (!isGeoreferenced(georeference)) return null;
+  return georeference.controlPoints.map(p => ({
+    world: worldDistance(georeference, applyTransform(georeference.toWorld, p.pixel), p.world),
+    pixel: distance(applyTransform(georeference.toPixel, p.world), p.pixel),
+  }));
+};
+
+export const rootMeanSquare = (values: number[]) => (
+  values.length ? Math.sqrt(values.reduce((sum, value) => sum + value * value, 0) / values.length) : 0
+);
+
+/** "lat, lon" in degrees, or "x, y unit". */
+export const formatWorldPoint = (georeference: Georeference, world: Point) => (
+  georeference.system === 'lonlat'
+    ? `${world.y.toFixed(6)}, ${world.x.toFixed(6)}`
+    : `${formatNumber(world.x)}, ${formatNumber(world.y)} ${georeference.unit}`.trim()
+);
+
+/** Reads "lat, lon" (for lon/lat plans) or "x, y" as typed or pasted; null when it isn't two valid numbers. */
+export const parseWorldPoint = (text: string, system: Georeference['system']): Point | null => {
+  const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,;\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const [a, b] = [Number(match[1]), Number(match[2])];
+  if (system === 'world') return { x: a, y: b };
+  return Math.abs(a) <= 90 && Math.abs(b) <= 180 ? { x: b, y: a } : null;
+};
@@ -0,0 +1,293 @@
+import { Layer, MapSymbol, PlanData } from '../types.ts';
+
+// Undo history stores patches rather than copies of the plan: each entry keeps
+// only the elements and settings one change touched, before and after. Entries
+// are applied backwards to undo and forwards to redo, starting from the plan
+// currently on screen.
+
+type Collection = 'symbols' | 'layers' | 'markers' | 'paths' | 'areas' | 'polygonAreas';
+type Setting = 'image' | 'calibration' | 'georeference' | 'obstacleMask' | 'grid' | 'overlays';
+type Element = PlanData[Collection][number];
+
+const COLLECTIONS: Collection[] = ['symbols', 'layers', 'markers', 'paths', 'areas', 'polygonAreas'];
+const SETTINGS: Setting[] = ['image', 'calibration', 'georeference', 'obstacleMask', 'grid', 'overlays'];
+
+interface CollectionPatch {
+  // Previous versions of changed or deleted elements
+  before: Element[];
+  // New versions of changed or added elements
+  after: Element[];
+  // Element order, only kept when elements were added, removed or reordered
+  orderBefore?: string[];
+  orderAfter?: string[];
+}
+
+export interface PlanPatch {
+  collections: Partial<Record<Collection, CollectionPatch>>;
+  settings: Partial<Record<Setting, { before: unknown; after: unknown }>>;
+}
+
+export interface HistoryEntry {
+  label: string;
+  time: number;
+  patch: PlanPatch;
+  // Consecutive entries with the same key (e.g. one drag) merge into one
+  mergeKey: string | null;
+}
+
+export interface PlanHistory {
+  entries: HistoryEntry[];
+  // Number of entries applied; entries past it can be redone
+  index: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+// Changes this close together with the same merge key become one entry
+const MERGE_WINDOW_MS = 1000;
+
+export const emptyHistory = (): PlanHistory => ({ entries: [], index: 0 });
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const sameOrder = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/** What changed from one plan state to the next, or null when nothing did. */
+export const diffPlans = (before: PlanData, after: PlanData): PlanPatch | null => {
+  const patch: PlanPatch = { collections: {}, settings: {} };
+  let changed = false;
+
+  SETTINGS.forEach(key => {
+    if (!sameValue(before[key], after[key])) {
+      patch.settings[key] = { before: before[key], after: after[key] };
+      changed = true;
+    }
+  });
+
+  COLLECTIONS.forEach(key => {
+    const previous: Element[] = before[key];
+    const next: Element[] = after[key];
+    if (previous === next) return;
+    const previousById = new Map<string, Element>(previous.map(e => [e.id, e]));
+    const nextById = new Map<string, Element>(next.map(e => [e.id, e]));
+    const entry: CollectionPatch = {
+      before: previous.filter(e => !sameValue(e, nextById.get(e.id))),
+      after: next.filter(e => !sameValue(e, previousById.get(e.id))),
+    };
+    const orderBefore = previous.map(e => e.id);
+    const orderAfter = next.map(e => e.id);
+    if (!sameOrder(orderBefore, orderAfter)) {
+      entry.orderBefore = orderBefore;
+      entry.orderAfter = orderAfter;
+    }
+    if (entry.before.length || entry.after.length || entry.orderBefore) {
+      patch.collections[key] = entry;
+      changed = true;
+    }
+  });
+
+  return changed ? patch : null;
+};
+
+/** Applies a patch forwards (redo) or backwards (undo) to the plan it was recorded against. */
+export const applyPatch = (plan: PlanData, patch: PlanPatch, direction: 'undo' | 'redo'): PlanData => {
+  const result: PlanData = { ...plan };
+  // Settings and collections are written by key; the patch recorded values of the right type for each
+  const settings = result as unknown as Record<Setting, unknown>;
+  const collections = result as unknown as Record<Collection, Element[]>;
+  const undo = direction === 'undo';
+
+  Object.entries(patch.settings).forEach(([key, change]) => {
+    settings[key as Setting] = undo ? change!.before : change!.after;
+  });
+
+  Object.entries(patch.collections).forEach(([key, change]) => {
+    const current = collections[key as Collection];
+    const byId = new Map<string, Element>(current.map(e => [e.id, e]));
+    (undo ? change!.before : change!.after).forEach(e => byId.set(e.id, e));
+    const order = (undo ? change!.orderBefore : change!.orderAfter) ?? current.map(e => e.id);
+    collections[key as Collection] = order.map(id => byId.get(id)).filter((e): e is Element => !!e);
+  });
+
+  return result;
+};
+
+/** Moves the plan from the history's current index to `target` by applying entries in turn. */
+export const travelHistory = (plan: PlanData, history: PlanHistory, target: number): PlanData => {
+  let result = plan;
+  for (let i = history.index; i > target; i--) result = applyPatch(result, history.entries[i - 1].patch, 'undo');
+  for (let i = history.index; i < target; i++) result = applyPatch(result, history.entries[i].patch, 'redo');
+  return result;
+};
+
+const mergePatches = (older: PlanPatch, newer: PlanPatch): PlanPatch => {
+  const merged: PlanPatch = { collections: { ...older.collections }, settings: { ...older.settings } };
+
+  Object.entries(newer.settings).forEach(([key, change]) => {
+    const previous = older.settings[key as Setting];
+    merged.settings[key as Setting] = { before: previous ? previous.before : change!.before, after: change!.after };
+  });
+
+  Object.entries(newer.collections).forEach(([key, change]) => {
+    const previous = older.collections[key as Collection];
+    if (!previous) {
+      merged.collections[key as Collection] = change;
+      return;
+    }
+    const before = new Map<string, Element>(change!.before.map(e => [e.id, e]));
+    previous.before.forEach(e => before.set(e.id, e));
+    const after = new Map<string, Element>(previous.after.map(e => [e.id, e]));
+    change!.after.forEach(e => after.set(e.id, e));
+    merged.collections[key as Collection] = {
+      before: [...before.values()],
+      after: [...after.values()],
+      orderBefore: previous.orderBefore ?? change!.orderBefore,
+      orderAfter: change!.orderAfter ?? previous.orderAfter,
+    };
+  });
+
+  return merged;
+};
+
+// --- Labels -----------------------------------------------------------------
+
+const NOUNS: Record<Collection, string> = {
+  symbols: 'symbol',
+  layers: 'layer',
+  markers: 'marker',
+  paths: 'path',
+  areas: 'area',
+  polygonAreas: 'polygon area',
+};
+
+const SETTING_LABELS: Record<Setting, string> = {
+  image: 'Change map image',
+  calibration: 'Change scale',
+  georeference: 'Change georeference',
+  obstacleMask: 'Change obstacle mask',
+  grid: 'Change grid',
+  overlays: 'Change legend and title block',
+};
+
+const GEOMETRY_KEYS = ['position', 'center', 'topLeft', 'bottomRight'];
+
+const elementName = (key: Collection, element: Element) => {
+  if (key === 'layers') return `layer "${(element as Layer).name}"`;
+  if (key === 'symbols') return `symbol "${(element as MapSymbol).name}"`;
+  if (key === 'paths') return 'path';
+  const { number, name } = element as { number?: string; name: string };
+  return `${NOUNS[key]} ${number || name}`;
+};
+
+const changedKeys = (before: Element, after: Element) => {
+  const keys = new Set<string>([...Object.keys(before), ...Object.keys(after)]);
+  const fieldsBefore = before as unknown as Record<string, unknown>;
+  const fieldsAfter = after as unknown as Record<string, unknown>;
+  return [...keys].filter(k => !sameValue(fieldsBefore[k], fieldsAfter[k])).sort();
+};
+
+const verbFor = (keys: string[]) => {
+  if (keys.every(k => GEOMETRY_KEYS.includes(k))) return 'Move';
+  if (keys.includes('radius')) return 'Resize';
+  if (keys.includes('points')) return 'Reshape';
+  return 'Edit';
+};
+
+interface Change {
+  key: Collection;
+  id: string;
+  verb: string;
+  name: string;
+  fields: string;
+}
+
+const describeChanges = (patch: PlanPatch): Change[] => {
+  const changes: Change[] = [];
+  Object.entries(patch.collections).forEach(([name, change]) => {
+    const key = name as Collection;
+    const before = new Map<string, Element>(change!.before.map(e => [e.id, e]));
+    const after = new Map<string, Element>(change!.after.map(e => [e.id, e]));
+    const ids = new Set<string>([...before.keys(), ...after.keys()]);
+    ids.forEach(id => {
+      const previous = before.get(id);
+      const next = after.get(id);
+      const removed = !next || (change!.orderAfter && !change!.orderAfter.includes(id));
+      const added = !previous || (change!.orderBefore && !change!.orderBefore.includes(id));
+      if (removed && previous) {
+        changes.push({ key, id, verb: 'Delete', name: elementName(key, previous), fields: '' });
+      } else if (added && next) {
+        changes.push({ key, id, verb: 'Add', name: elementName(key, next), fields: '' });
+      } else if (previous && next) {
+        const fields = changedKeys(previous, next);
+        changes.push({ key, id, verb: verbFor(fields), name: elementName(key, next), fields: fields.join(',') });
+      }
+    });
+    if (!ids.size && change!.orderBefore) {
+      changes.push({ key, id: '', verb: 'Reorder', name: `${NOUNS[key]}s`, fields: 'order' });
+    }
+  });
+  return changes;
+};
+
+// Picks the changes that name the action. Additions and deletions come
+// first, and among them layers, then anything but paths: deleting a marker
+// also deletes its links. Edits to layers come next, then the rest, leaving
+// out paths that only reshaped because their markers moved.
+const primaryChanges = (changes: Change[]) => {
+  const structural = changes.filter(c => c.verb === 'Add' || c.verb === 'Delete');
+  const candidates = structural.length ? structural : changes;
+  const layers = candidates.filter(c => c.key === 'layers');
+  if (layers.length) return layers;
+  const others = candidates.filter(c => c.key !== 'paths' || (!structural.length && c.verb !== 'Reshape'));
+  return others.length ? others : candidates;
+};
+
+/** A readable label such as "Move marker 12" and the key used to merge repeats of it. */
+export const describePatch = (patch: PlanPatch): { label: string; mergeKey: string } => {
+  const primary = primaryChanges(describeChanges(patch));
+  const settings = Object.keys(patch.settings) as Setting[];
+  if (!primary.length) {
+    const label = settings.length === 1 ? SETTING_LABELS[settings[0]] : 'Change plan settings';
+    return { label, mergeKey: `settings:${settings.join(',')}` };
+  }
+
+  const verbs = new Set(primary.map(c => c.verb));
+  const verb = verbs.size === 1 ? primary[0].verb : 'Edit';
+  const label = primary.length === 1
+    ? `${verb} ${primary[0].name}`
+    : `${verb} ${primary.length} ${new Set(primary.map(c => c.key)).size === 1 ? `${NOUNS[primary[0].key]}s` : 'elements'}`;
+  const mergeKey = `${verb}:${primary.map(c => `${c.key}/${c.id}/${c.fields}`).sort().join('|')}`;
+  return { label, mergeKey };
+};
+
+/**
+ * Adds a change on top of the current index, dropping any redo entries. A
+ * change with an explicit label never merges; otherwise it merges into the
+ * previous entry when both have the same merge key and follow each other
+ * closely, so a drag or a slider becomes one step.
+ */
+export const recordChange = (history: PlanHistory, patch: PlanPatch, label: string | null, time: number): PlanHistory => {
+  const description = describePatch(patch);
+  const entries = history.entries.slice(0, history.index);
+  const last = entries[entries.length - 1];
+  const mergeKey = label ? null : description.mergeKey;
+
+  if (last && mergeKey && last.mergeKey === mergeKey && time - last.time < MERGE_WINDOW_MS) {
+    entries[entries.length - 1] = { ...last, time, patch: mergePatches(last.patch, patch) };
+    return { entries, index: entries.length };
+  }
+
+  entries.push({ label: label ?? description.label, time, patch, mergeKey });
+  const trimmed = entries.slice(-MAX_HISTORY_ENTRIES);
+  return { entries: trimmed, index: trimmed.length };
+};
+
+/** Short hash of a plan, used to check that a stored history still belongs to it. */
+export const planFingerprint = (plan: PlanData) => {
+  const text = JSON.stringify([...SETTINGS, ...COLLECTIONS].map(key => plan[key]));
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
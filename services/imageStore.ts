@@ -0,0 +1,55 @@
+import { ImageRef } from '../types.ts';
+import { IMAGE_STORE, runRequest } from './storage.ts';
+import { deleteTiles } from './tiles.ts';
+
+// Map images are kept in IndexedDB, keyed by the SHA-256 of their bytes, so the
+// plan itself only has to carry a small ImageRef.
+
+interface StoredImage {
+  hash: string;
+  mimeType: string;
+  blob: Blob;
+}
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => (
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image.'));
+    reader.readAsDataURL(blob);
+  })
+);
+
+export const putImage = async (blob: Blob): Promise<ImageRef> => {
+  const hash = await hashBlob(blob);
+  const mimeType = blob.type || 'application/octet-stream';
+  const record: StoredImage = { hash, mimeType, blob };
+  await runRequest(IMAGE_STORE, 'readwrite', store => store.put(record));
+  return { hash, mimeType };
+};
+
+export const getImage = async (hash: string): Promise<Blob | null> => {
+  const record = await runRequest<StoredImage | undefined>(IMAGE_STORE, 'readonly', store => store.get(hash));
+  return record?.blob ?? null;
+};
+
+export const hasImage = async (hash: string): Promise<boolean> => {
+  const key = await runRequest(IMAGE_STORE, 'readonly', store => store.getKey(hash));
+  return key !== undefined;
+};
+
+/** Deletes an image and the map tiles cut from it. */
+export const deleteImage = async (hash: string): Promise<void> => {
+  await runRequest(IMAGE_STORE, 'readwrite', store => store.delete(hash));
+  await deleteTiles(hash);
+};
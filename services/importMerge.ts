@@ -0,0 +1,128 @@
+import { Area, Layer, MapSymbol, Marker, MarkerStatus, Path, PolygonArea } from '../types.ts';
+import { ImageSize } from './geometry.ts';
+import { SelectionContent } from './selection.ts';
+
+// Merges elements read from an exported file back into the plan. Elements are
+// matched by id: matches take the file's fields and keep the ones the file
+// leaves out, unknown ids are added, and kinds the file leaves out entirely are
+// not touched. The file readers (Lua, GeoJSON) share the helpers below.
+
+/** A file that can't be read as plan elements; the message is shown to the user. */
+export class ImportFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFileError';
+  }
+}
+
+export interface ImportedElements {
+  // Lists missing from the file are left undefined, so the plan keeps its own
+  markers?: Marker[];
+  paths?: Path[];
+  areas?: Area[];
+  polygonAreas?: PolygonArea[];
+  // Library symbols the imported markers use that the plan doesn't have yet
+  symbols?: MapSymbol[];
+  // Entries that could not be read, with the reason
+  skipped: string[];
+}
+
+export interface ImportContext {
+  layers: Layer[];
+  // Layer for elements whose layer is not in the plan
+  fallbackLayerId: string;
+  imageSize: ImageSize | null;
+  // The plan's symbol library, for resolving markers' symbols
+  symbols: MapSymbol[];
+}
+
+const MARKER_STATUSES: MarkerStatus[] = ['pending', 'completed', 'active'];
+
+export const asText = (value: unknown) => (typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined);
+
+export const asNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+// Colours end up in SVG attributes and canvas styles, so files may only give hex colours
+export const asColor = (value: unknown) => {
+  const color = asText(value)?.trim();
+  return color && /^#[0-9a-f]{3,8}$/i.test(color) ? color : undefined;
+};
+
+/** Ids, layers and statuses for imported elements: ids stay as in the file unless missing or repeated, layers are found by id, then by name. */
+export const createElementReader = (context: ImportContext) => {
+  const stamp = Date.now();
+  let counter = 0;
+  const usedIds = new Set<string>();
+  return {
+    idFor: (id: unknown, prefix: string) => {
+      const text = asText(id);
+      const unique = text && !usedIds.has(text) ? text : `${prefix}-${stamp}-${counter++}`;
+      usedIds.add(unique);
+      return unique;
+    },
+    layerIdFor: (layerId: unknown, layerName: unknown) => {
+      const layer = context.layers.find(l => l.id === layerId) ?? context.layers.find(l => l.name === layerName);
+      return layer?.id ?? context.fallbackLayerId;
+    },
+    statusOf: (value: unknown): MarkerStatus => MARKER_STATUSES.find(s => s === value) ?? 'pending',
+    linkIds: (value: unknown) => (Array.isArray(value) ? value.map(asText).filter((id): id is string => !!id) : []),
+  };
+};
+
+export interface MergeCounts {
+  added: number;
+  updated: number;
+  // Plan elements of an imported kind that the file doesn't have
+  missing: number;
+}
+
+type Kind = keyof SelectionContent;
+
+const KINDS: Kind[] = ['markers', 'paths', 'areas', 'polygonAreas'];
+
+// Fields the file left empty don't wipe out the plan's values
+const definedFields = <T extends object>(element: T): Partial<T> => (
+  Object.fromEntries(Object.entries(element).filter(([, value]) => value !== undefined)) as Partial<T>
+);
+
+export const countMerge = (plan: SelectionContent, imported: ImportedElements): MergeCounts => {
+  const counts: MergeCounts = { added: 0, updated: 0, missing: 0 };
+  KINDS.forEach(kind => {
+    const incoming = imported[kind];
+    if (!incoming) return;
+    const planIds = new Set<string>(plan[kind].map(e => e.id));
+    const fileIds = new Set<string>(incoming.map(e => e.id));
+    incoming.forEach(e => (planIds.has(e.id) ? counts.updated++ : counts.added++));
+    counts.missing += plan[kind].filter(e => !fileIds.has(e.id)).length;
+  });
+  return counts;
+};
+
+const mergeList = <T extends { id: string }>(current: T[], incoming: T[] | undefined, removeMissing: boolean): T[] => {
+  if (!incoming) return current;
+  const byId = new Map<string, T>(incoming.map(e => [e.id, e]));
+  const kept = current.flatMap(e => {
+    const match = byId.get(e.id);
+    if (match) return [{ ...e, ...definedFields(match) }];
+    return removeMissing ? [] : [e];
+  });
+  const currentIds = new Set<string>(current.map(e => e.id));
+  return [...kept, ...incoming.filter(e => !currentIds.has(e.id))];
+};
+
+/** The plan with the imported elements merged in; links to markers that no longer exist are dropped. */
+export const mergeImported = (plan: SelectionContent, imported: ImportedElements, removeMissing: boolean): SelectionContent => {
+  const markers = mergeList(plan.markers, imported.markers, removeMissing);
+  const markerIds = new Set<string>(markers.map(m => m.id));
+  return {
+    markers: markers.map(m => (
+      m.linkedMarkerIds?.some(id => !markerIds.has(id)) ? { ...m, linkedMarkerIds: m.linkedMarkerIds.filter(id => markerIds.has(id)) } : m
+    )),
+    paths: mergeList(plan.paths, imported.paths, removeMissing).map(p => {
+      if (!p.linkedMarkers || (markerIds.has(p.linkedMarkers.startId) && markerIds.has(p.linkedMarkers.endId))) return p;
+      return { ...p, linkedMarkers: undefined, routed: undefined };
+    }),
+    areas: mergeList(plan.areas, imported.areas, removeMissing),
+    polygonAreas: mergeList(plan.polygonAreas, imported.polygonAreas, removeMissing),
+  };
+};
@@ -0,0 +1,202 @@
+import { Area, Layer, Marker, Point, PolygonArea } from '../types.ts';
+import { ImageSize, polygonCentroid } from './geometry.ts';
+import { MarkerCluster, clusterRadius } from './clustering.ts';
+import { Bounds, elementKey } from './selection.ts';
+
+// Label placement shared by the editor and the exports, so both show the same
+// labels in the same places. Labels are placed greedily in priority order:
+// area labels first, then marker labels from the top layer down, numbered
+// markers before the rest. A marker label tries the spots around its marker,
+// then spots further out joined to it by a leader line, and is left out when
+// none of them is free of other labels, markers and cluster badges.
+// Everything is in image pixels, where labels keep their size at every zoom.
+
+export interface LabelOptions {
+  markerSize: number;
+  labelSize: number;
+  // Marker names and area names
+  showMarkerLabels: boolean;
+  // The `[area]` line under a marker's name
+  showAreaLabels: boolean;
+}
+
+export interface PlacedLabel {
+  // Left edge and first baseline of the label, relative to the marker
+  x: number;
+  y: number;
+  // Line from the marker to a label moved away from it, relative to the marker
+  leader?: { from: Point; to: Point };
+}
+
+export interface LabelLayout {
+  // Placed marker labels by marker id; markers without an entry show no label
+  markers: Map<string, PlacedLabel>;
+  // `elementKey`s of the areas and polygon areas whose label is shown
+  areas: Set<string>;
+}
+
+export interface LabelContent {
+  layers: Layer[];
+  markers: Marker[];
+  areas: Area[];
+  polygonAreas: PolygonArea[];
+  clusters: MarkerCluster[];
+  // Zoom the clusters were made at, which sets the size of their badges
+  zoom: number;
+  // Half the width of a marker as drawn; the classic marker's when omitted
+  radius?: (marker: Marker) => number;
+}
+
+interface Box extends Bounds {
+  // Marker the box belongs to; a marker's own label may cover it
+  owner?: string;
+}
+
+const ASCENT = 0.8;
+const DESCENT = 0.25;
+const CELL_SIZE = 128;
+
+export const markerLabel = (marker: Marker) => (marker.number ? `${marker.number} - ${marker.name}` : marker.name);
+
+export const areaLabel = (area: Area | PolygonArea) => (area.number ? `${area.number} - ${area.name}` : area.name);
+
+let measureContext: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null | undefined;
+
+/** Width of a sans-serif text, measured on a canvas where one is available. */
+export const textWidth = (text: string, fontSize: number) => {
+  if (measureContext === undefined) {
+    measureContext = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1).getContext('2d') : null;
+  }
+  if (!measureContext) return text.length * fontSize * 0.6;
+  measureContext.font = `${fontSize}px sans-serif`;
+  return measureContext.measureText(text).width;
+};
+
+// Boxes already taken, bucketed so each test only looks at its neighbourhood
+const createBoxGrid = () => {
+  const cells = new Map<string, Box[]>();
+  // Calls `visit` with each cell the box touches until it returns false
+  const forCells = (box: Bounds, visit: (key: string) => boolean) => {
+    for (let col = Math.floor(box.minX / CELL_SIZE); col <= Math.floor(box.maxX / CELL_SIZE); col++) {
+      for (let row = Math.floor(box.minY / CELL_SIZE); row <= Math.floor(box.maxY / CELL_SIZE); row++) {
+        if (!visit(`${col},${row}`)) return false;
+      }
+    }
+    return true;
+  };
+  return {
+    add: (box: Box) => forCells(box, key => {
+      const cell = cells.get(key);
+      if (cell) cell.push(box);
+      else cells.set(key, [box]);
+      return true;
+    }),
+    isFree: (box: Bounds, owner?: string) => forCells(box, key => {
+      const cell = cells.get(key);
+      if (!cell) return true;
+      for (const other of cell) {
+        if (owner && other.owner === owner) continue;
+        if (other.maxX > box.minX && other.minX < box.maxX && other.maxY > box.minY && other.minY < box.maxY) return false;
+      }
+      return true;
+    }),
+  };
+};
+
+// The lines of a marker label, with each baseline relative to the first
+const markerLines = (marker: Marker, options: LabelOptions) => {
+  const lines: { text: string; fontSize: number; offset: number }[] = [];
+  if (options.showMarkerLabels) lines.push({ text: markerLabel(marker), fontSize: 12 * options.labelSize, offset: 0 });
+  if (options.showAreaLabels && marker.area) {
+    lines.push({ text: `[${marker.area}]`, fontSize: 10 * options.labelSize, offset: lines.length ? 14 * options.labelSize : 0 });
+  }
+  return lines;
+};
+
+const DIRECTIONS: Point[] = [
+  { x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: -1 }, { x: 0, y: 1 },
+  { x: Math.SQRT1_2, y: -Math.SQRT1_2 }, { x: Math.SQRT1_2, y: Math.SQRT1_2 },
+  { x: -Math.SQRT1_2, y: -Math.SQRT1_2 }, { x: -Math.SQRT1_2, y: Math.SQRT1_2 },
+];
+
+export const placeLabels = (content: LabelContent, options: LabelOptions, within?: ImageSize): LabelLayout => {
+  const layout: LabelLayout = { markers: new Map<string, PlacedLabel>(), areas: new Set<string>() };
+  const grid = createBoxGrid();
+  const { markerSize, labelSize } = options;
+  const radiusOf = content.radius ?? (() => 12 * markerSize);
+  const fits = (box: Bounds) => !within || (box.minX >= 0 && box.minY >= 0 && box.maxX <= within.width && box.maxY <= within.height);
+
+  content.markers.forEach(m => {
+    const r = radiusOf(m);
+    grid.add({ minX: m.position.x - r, minY: m.position.y - r, maxX: m.position.x + r, maxY: m.position.y + r, owner: m.id });
+  });
+  content.clusters.forEach(cluster => {
+    const r = clusterRadius(cluster, content.zoom);
+    grid.add({ minX: cluster.center.x - r, minY: cluster.center.y - r, maxX: cluster.center.x + r, maxY: cluster.center.y + r });
+  });
+
+  if (options.showMarkerLabels) {
+    const fontSize = 14 * labelSize;
+    const centred: { key: string; text: string; at: Point }[] = [
+      ...content.areas.map(a => ({ key: elementKey({ type: 'area', id: a.id }), text: areaLabel(a), at: a.center })),
+      ...content.polygonAreas
+        .filter(a => a.points.length > 1)
+        .map(a => ({ key: elementKey({ type: 'polygonArea', id: a.id }), text: areaLabel(a), at: polygonCentroid(a.points) })),
+    ];
+    const taken = createBoxGrid();
+    centred.forEach(({ key, text, at }) => {
+      const halfWidth = textWidth(text, fontSize) / 2 + 2 * labelSize;
+      const box = { minX: at.x - halfWidth, minY: at.y - fontSize / 2, maxX: at.x + halfWidth, maxY: at.y + fontSize / 2 };
+      // Area labels only give way to each other; markers may sit on them as before
+      if (!taken.isFree(box)) return;
+      taken.add(box);
+      grid.add(box);
+      layout.areas.add(key);
+    });
+  }
+
+  const layerOrder = new Map<string, number>(content.layers.map((layer, index) => [layer.id, index]));
+  const ordered = content.markers
+    .map((marker, index) => ({ marker, index }))
+    .sort((a, b) => (
+      (layerOrder.get(b.marker.layerId) ?? 0) - (layerOrder.get(a.marker.layerId) ?? 0)
+      || Number(!a.marker.number) - Number(!b.marker.number)
+      || a.index - b.index
+    ));
+
+  ordered.forEach(({ marker }) => {
+    const lines = markerLines(marker, options);
+    if (!lines.length) return;
+    const radius = radiusOf(marker);
+    const near = radius + 3 * markerSize;
+    const far = 3 * near;
+    const pad = 2 * labelSize;
+    const width = Math.max(...lines.map(l => textWidth(l.text, l.fontSize))) + 2 * pad;
+    const ascent = ASCENT * lines[0].fontSize + pad;
+    const height = ascent + Math.max(...lines.map(l => l.offset + DESCENT * l.fontSize)) + pad;
+
+    const { x, y } = marker.position;
+    // Tries the box with its corner at (left, top) relative to the marker
+    const tryAt = (left: number, top: number, leader?: PlacedLabel['leader']) => {
+      const box = { minX: x + left, minY: y + top, maxX: x + left + width, maxY: y + top + height };
+      if (!fits(box) || !grid.isFree(box, marker.id)) return false;
+      grid.add(box);
+      layout.markers.set(marker.id, { x: left + pad, y: top + ascent, leader });
+      return true;
+    };
+    // The box whose nearest corner or edge is `distance` out along `dir`
+    const tryDirection = (dir: Point, distance: number, leader: boolean) => {
+      const anchor = { x: dir.x * distance, y: dir.y * distance };
+      const left = dir.x > 0.1 ? anchor.x : dir.x < -0.1 ? anchor.x - width : anchor.x - width / 2;
+      const top = dir.y > 0.1 ? anchor.y : dir.y < -0.1 ? anchor.y - height : anchor.y - height / 2;
+      return tryAt(left, top, leader ? { from: { x: dir.x * radius, y: dir.y * radius }, to: anchor } : undefined);
+    };
+
+    // Where labels have always gone first: right of the marker, baseline just below its centre
+    if (tryAt(near - pad, 5 * labelSize - ascent)) return;
+    if (DIRECTIONS.slice(1).some(dir => tryDirection(dir, near, false))) return;
+    DIRECTIONS.some(dir => tryDirection(dir, far, true));
+  });
+
+  return layout;
+};
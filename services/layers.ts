@@ -0,0 +1,21 @@
+import { Layer } from '../types.ts';
+
+export const createLayer = (name: string): Layer => ({
+  id: `layer-${Date.now()}-${Math.random().toString(16).slice(2)}`,
+  name,
+  visible: true,
+  locked: false,
+  opacity: 1,
+});
+
+/** Keeps only the elements whose layer is in `layerIds`. */
+export const filterByLayers = <T extends { layerId: string }>(items: T[], layerIds: Set<string>) => (
+  items.filter(item => layerIds.has(item.layerId))
+);
+
+/** Groups elements per layer, following the layer order (bottom first). */
+export const groupByLayer = <T extends { layerId: string }>(layers: Layer[], items: T[]) => {
+  const groups = new Map<string, T[]>(layers.map(layer => [layer.id, []]));
+  items.forEach(item => groups.get(item.layerId)?.push(item));
+  return groups;
+};
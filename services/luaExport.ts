@@ -0,0 +1,214 @@
+import { ExportModel } from './exportModel.ts';
+
+// Lua table export of everything in the export model, for game scripts. The
+// file is a chunk returning one table, so scripts load it with `dofile` or
+// `require`; luaImport reads the same files back.
+
+export type LuaKeyStyle = 'camelCase' | 'snake_case';
+
+export interface LuaExportOptions {
+  // Field names as written here (`linkedMarkerIds`) or in snake case (`linked_marker_ids`)
+  keyStyle: LuaKeyStyle;
+  // Index of the first element in the markers, paths and areas lists
+  indexBase: 0 | 1;
+  // Writes element numbers that are whole numbers as Lua numbers rather than strings
+  numbersAsNumbers: boolean;
+  // Escapes characters outside ASCII as UTF-8 bytes (\ddd), for tools that don't read UTF-8 files
+  asciiOnly: boolean;
+}
+
+export const DEFAULT_LUA_OPTIONS: LuaExportOptions = {
+  keyStyle: 'camelCase',
+  indexBase: 1,
+  numbersAsNumbers: false,
+  asciiOnly: false,
+};
+
+// The options last used are kept in localStorage, so every Lua export uses them
+const OPTIONS_KEY = 'mapPlannerLuaOptions';
+
+export const loadLuaOptions = (): LuaExportOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(OPTIONS_KEY) ?? '{}') as Partial<LuaExportOptions>;
+    return {
+      keyStyle: saved.keyStyle === 'snake_case' ? 'snake_case' : 'camelCase',
+      indexBase: saved.indexBase === 0 ? 0 : 1,
+      numbersAsNumbers: saved.numbersAsNumbers === true,
+      asciiOnly: saved.asciiOnly === true,
+    };
+  } catch {
+    return DEFAULT_LUA_OPTIONS;
+  }
+};
+
+export const saveLuaOptions = (options: LuaExportOptions) => {
+  localStorage.setItem(OPTIONS_KEY, JSON.stringify(options));
+};
+
+const encoder = new TextEncoder();
+
+const escapeByte = (byte: number) => `\\${byte.toString().padStart(3, '0')}`;
+
+/** A quoted Lua string; `\ddd` escapes are always three digits, so a digit after one can't join it. */
+export const luaString = (value: string, asciiOnly = false) => {
+  let result = '"';
+  for (const char of value) {
+    const code = char.codePointAt(0)!;
+    if (char === '\\') result += '\\\\';
+    else if (char === '"') result += '\\"';
+    else if (char === '\n') result += '\\n';
+    else if (char === '\r') result += '\\r';
+    else if (char === '\t') result += '\\t';
+    else if (code < 32 || code === 127) result += escapeByte(code);
+    else if (code > 127 && asciiOnly) result += [...encoder.encode(char)].map(escapeByte).join('');
+    else result += char;
+  }
+  return `${result}"`;
+};
+
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const LUA_KEYWORDS = new Set<string>([
+  'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'goto', 'if', 'in',
+  'local', 'nil', 'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while',
+]);
+
+export const luaKey = (key: string, asciiOnly = false) => (
+  IDENTIFIER.test(key) && !LUA_KEYWORDS.has(key) ? key : `[${luaString(key, asciiOnly)}]`
+);
+
+/** A Lua literal for plain data: arrays become lists, objects tables, null nil. */
+export const luaLiteral = (value: unknown, asciiOnly = false): string => {
+  if (value === null || value === undefined) return 'nil';
+  if (typeof value === 'boolean') return String(value);
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'nil';
+  if (Array.isArray(value)) return value.length ? `{ ${value.map(item => luaLiteral(item, asciiOnly)).join(', ')} }` : '{}';
+  if (typeof value === 'object') {
+    const fields = Object.entries(value as Record<string, unknown>)
+      .filter(([, field]) => field !== null && field !== undefined)
+      .map(([key, field]) => `${luaKey(key, asciiOnly)} = ${luaLiteral(field, asciiOnly)}`);
+    return fields.length ? `{ ${fields.join(', ')} }` : '{}';
+  }
+  return luaString(String(value), asciiOnly);
+};
+
+export const toSnakeCase = (key: string) => key.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`);
+
+// Pixel and world values keep two decimals
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Longitude and latitude keep seven
+const round7 = (value: number) => Math.round(value * 1e7) / 1e7;
+
+const roundPoints = (points: { x: number; y: number }[]) => points.map(p => ({ x: round2(p.x), y: round2(p.y) }));
+
+export const buildLuaExport = (model: ExportModel, options: LuaExportOptions = DEFAULT_LUA_OPTIONS): string => {
+  const { asciiOnly } = options;
+  const key = (name: string) => (options.keyStyle === 'snake_case' ? toSnakeCase(name) : name);
+  // Only numbers that read back as the same text: "007" and digits past 2^53 stay strings
+  const number = (value: string) => (options.numbersAsNumbers && /^-?\d+$/.test(value) && String(Number(value)) === value ? Number(value) : value);
+  // One table per line; nulls (such as world values on uncalibrated plans) are left out
+  const record = (fields: Record<string, unknown>) => luaLiteral(
+    Object.fromEntries(Object.entries(fields).map(([name, value]) => [key(name), value])),
+    asciiOnly,
+  );
+  const list = (name: string, records: string[]) => {
+    const lines = records.map((text, index) => `    [${index + options.indexBase}] = ${text}`);
+    return `local ${key(name)} = {\n${lines.join(',\n')}${lines.length ? '\n' : ''}}\n\n`;
+  };
+
+  let lua = "-- Map Planner - Lua Export\n";
+  lua += `-- Generated: ${model.generatedAt}\n`;
+  lua += `-- Lists start at index ${options.indexBase}; world values are in ${model.unit === 'px' ? 'pixels (the plan has no scale)' : model.unit}\n\n`;
+
+  lua += list('layers', model.layers.map(layer => record({ ...layer })));
+
+  lua += list('markers', model.markers.map(m => record({
+    id: m.id,
+    number: number(m.number),
+    name: m.name,
+    area: m.area,
+    status: m.status,
+    color: m.color,
+    layerId: m.layerId,
+    layer: m.layer,
+    x: round2(m.x),
+    y: round2(m.y),
+    worldX: m.world && round2(m.world.x),
+    worldY: m.world && round2(m.world.y),
+    geoX: m.geo && round7(m.geo.x),
+    geoY: m.geo && round7(m.geo.y),
+    linkedMarkerIds: m.linkedMarkerIds,
+    symbolId: m.symbolId,
+    symbolSize: m.symbolSize,
+    symbolRotation: m.symbolRotation,
+  })));
+
+  lua += list('paths', model.paths.map(p => record({
+    id: p.id,
+    color: p.color,
+    layerId: p.layerId,
+    layer: p.layer,
+    startMarkerId: p.startMarkerId,
+    endMarkerId: p.endMarkerId,
+    routed: p.routed,
+    length: round2(p.length),
+    worldLength: p.worldLength !== null ? round2(p.worldLength) : null,
+    points: roundPoints(p.points),
+    worldPoints: p.worldPoints && roundPoints(p.worldPoints),
+  })));
+
+  lua += list('areas', model.areas.map(a => record({
+    id: a.id,
+    number: number(a.number),
+    name: a.name,
+    color: a.color,
+    layerId: a.layerId,
+    layer: a.layer,
+    centerX: round2(a.x),
+    centerY: round2(a.y),
+    radius: round2(a.radius),
+    topLeftX: round2(a.topLeft.x),
+    topLeftY: round2(a.topLeft.y),
+    bottomRightX: round2(a.bottomRight.x),
+    bottomRightY: round2(a.bottomRight.y),
+    worldCenterX: a.worldCenter && round2(a.worldCenter.x),
+    worldCenterY: a.worldCenter && round2(a.worldCenter.y),
+    worldRadius: a.worldRadius !== null ? round2(a.worldRadius) : null,
+    geoCenterX: a.geoCenter && round7(a.geoCenter.x),
+    geoCenterY: a.geoCenter && round7(a.geoCenter.y),
+    geoRadius: a.geoRadius !== null ? round2(a.geoRadius) : null,
+  })));
+
+  lua += list('polygonAreas', model.polygonAreas.map(a => record({
+    id: a.id,
+    number: number(a.number),
+    name: a.name,
+    color: a.color,
+    layerId: a.layerId,
+    layer: a.layer,
+    obstacle: a.obstacle,
+    area: round2(a.area),
+    worldArea: a.worldArea !== null ? round2(a.worldArea) : null,
+    points: roundPoints(a.points),
+    worldPoints: a.worldPoints && roundPoints(a.worldPoints),
+  })));
+
+  lua += list('symbols', model.symbols.map(symbol => record({ ...symbol })));
+
+  const names = ['layers', 'markers', 'paths', 'areas', 'polygonAreas', 'symbols'];
+  const { calibration } = model;
+  if (calibration) {
+    const origin = calibration.origin ?? { x: 0, y: 0 };
+    lua += `local ${key('calibration')} = ${record({
+      unit: calibration.unit,
+      scale: calibration.scale,
+      originX: round2(origin.x),
+      originY: round2(origin.y),
+      rotation: calibration.rotation ?? 0,
+    })}\n\n`;
+    names.push('calibration');
+  }
+  lua += `return { ${names.map(name => `${key(name)} = ${key(name)}`).join(', ')} }\n`;
+  return lua;
+};
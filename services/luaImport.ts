@@ -0,0 +1,410 @@
+import { Area, MapSymbol, Marker, Path, Point, PolygonArea } from '../types.ts';
+import { areaBoundsFromCircle } from './geometry.ts';
+import { validateSymbols } from './planSchema.ts';
+import { ImportContext, ImportFileError, ImportedElements, asColor, asNumber as num, asText as text, createElementReader } from './importMerge.ts';
+
+// Reads Lua tables back into plan elements. The parser covers the data subset
+// of Lua that exports and hand-edited scripts use: `local` assignments, one
+// `return`, table constructors, strings (all escapes and long brackets),
+// numbers, booleans, nil and comments. Names refer to earlier locals, so
+// `return { markers = markers }` works. Field names may be camelCase or
+// snake_case, and lists may start at index 0 or 1.
+
+export class LuaImportError extends ImportFileError {
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'LuaImportError';
+  }
+}
+
+type Token =
+  | { type: 'name'; value: string; line: number }
+  | { type: 'string'; value: string; line: number }
+  | { type: 'number'; value: number; line: number }
+  | { type: 'symbol'; value: string; line: number }
+  | { type: 'eof'; line: number };
+
+const SYMBOLS = ['...', '..', '==', '~=', '<=', '>=', '::', '{', '}', '[', ']', '(', ')', '=', ',', ';', '-', '.', ':', '#', '+', '*', '/', '%', '^', '<', '>'];
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+
+  // Long brackets: [[...]], [==[...]==], used by long strings and comments
+  const longBracket = (): string | null => {
+    const match = /^\[(=*)\[/.exec(source.slice(i, i + 64));
+    if (!match) return null;
+    const close = `]${match[1]}]`;
+    const end = source.indexOf(close, i + match[0].length);
+    if (end < 0) throw new LuaImportError('Unfinished long string or comment.', line);
+    let text = source.slice(i + match[0].length, end);
+    line += (source.slice(i, end + close.length).match(/\n/g) ?? []).length;
+    i = end + close.length;
+    if (text.startsWith('\r\n')) text = text.slice(2);
+    else if (text.startsWith('\n')) text = text.slice(1);
+    return text;
+  };
+
+  const quoted = (quote: string): string => {
+    // Collected as bytes, since \ddd and \x escapes may spell out UTF-8 sequences
+    const bytes: number[] = [];
+    const pushText = (text: string) => bytes.push(...encoder.encode(text));
+    i++;
+    while (true) {
+      if (i >= source.length || source[i] === '\n') throw new LuaImportError('Unfinished string.', line);
+      // Whole code points, so characters outside the BMP survive the byte round trip
+      const char = String.fromCodePoint(source.codePointAt(i)!);
+      i += char.length;
+      if (char === quote) break;
+      if (char !== '\\') {
+        pushText(char);
+        continue;
+      }
+      const next = source[i++];
+      const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', a: '\x07', b: '\b', f: '\f', v: '\v', '\\': '\\', '"': '"', "'": "'", '\n': '\n' };
+      if (next in simple) {
+        if (next === '\n') line++;
+        pushText(simple[next]);
+      } else if (next === 'x') {
+        const hex = source.slice(i, i + 2);
+        if (!/^[0-9A-Fa-f]{2}$/.test(hex)) throw new LuaImportError('Invalid \\x escape.', line);
+        bytes.push(parseInt(hex, 16));
+        i += 2;
+      } else if (next === 'u') {
+        const match = /^\{([0-9A-Fa-f]+)\}/.exec(source.slice(i));
+        if (!match) throw new LuaImportError('Invalid \\u escape.', line);
+        pushText(String.fromCodePoint(parseInt(match[1], 16)));
+        i += match[0].length;
+      } else if (next === 'z') {
+        while (/\s/.test(source[i] ?? '')) {
+          if (source[i] === '\n') line++;
+          i++;
+        }
+      } else if (/\d/.test(next)) {
+        const digits = /^\d{1,3}/.exec(source.slice(i - 1))![0];
+        const byte = Number(digits);
+        if (byte > 255) throw new LuaImportError('Invalid \\ddd escape.', line);
+        bytes.push(byte);
+        i += digits.length - 1;
+      } else {
+        throw new LuaImportError(`Invalid escape "\\${next}".`, line);
+      }
+    }
+    return decoder.decode(new Uint8Array(bytes));
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith('--', i)) {
+      i += 2;
+      if (source[i] !== '[' || longBracket() === null) {
+        while (i < source.length && source[i] !== '\n') i++;
+      }
+    } else if (char === '"' || char === "'") {
+      const startLine = line;
+      tokens.push({ type: 'string', value: quoted(char), line: startLine });
+    } else if (char === '[' && /^\[=*\[/.test(source.slice(i, i + 64))) {
+      const startLine = line;
+      tokens.push({ type: 'string', value: longBracket()!, line: startLine });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))![0];
+      tokens.push({ type: 'name', value: name, line });
+      i += name.length;
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(source[i + 1] ?? ''))) {
+      const match = /^(0[xX][0-9A-Fa-f]+(\.[0-9A-Fa-f]*)?([pP][+-]?\d+)?|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/.exec(source.slice(i))!;
+      const text = match[0];
+      const value = /^0[xX]/.test(text) ? parseInt(text, 16) : Number(text);
+      if (!Number.isFinite(value)) throw new LuaImportError(`Invalid number "${text}".`, line);
+      tokens.push({ type: 'number', value, line });
+      i += text.length;
+    } else {
+      const symbol = SYMBOLS.find(s => source.startsWith(s, i));
+      if (!symbol) throw new LuaImportError(`Unexpected character "${char}".`, line);
+      tokens.push({ type: 'symbol', value: symbol, line });
+      i += symbol.length;
+    }
+  }
+  tokens.push({ type: 'eof', line });
+  return tokens;
+};
+
+// Tables keep their keys as written until they are turned into plain data
+class LuaTable {
+  entries = new Map<string | number | boolean, unknown>();
+}
+
+/** Plain data for a Lua value: tables with only whole-number keys become arrays in key order, others objects. */
+const toPlain = (value: unknown): unknown => {
+  if (!(value instanceof LuaTable)) return value;
+  const entries = [...value.entries];
+  if (entries.length && entries.every(([key]) => typeof key === 'number' && Number.isInteger(key))) {
+    return entries.sort((a, b) => (a[0] as number) - (b[0] as number)).map(([, item]) => toPlain(item));
+  }
+  return Object.fromEntries(entries.map(([key, item]) => [String(key), toPlain(item)]));
+};
+
+/** Runs the data statements of a Lua chunk and returns the value of its `return`, as plain data. */
+export const parseLua = (source: string): unknown => {
+  const tokens = tokenize(source.replace(/^#![^\n]*/, ''));
+  let position = 0;
+  const locals = new Map<string, unknown>();
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const isSymbol = (value: string) => {
+    const token = peek();
+    return token.type === 'symbol' && token.value === value;
+  };
+  const expect = (value: string) => {
+    const token = next();
+    if (token.type !== 'symbol' || token.value !== value) throw new LuaImportError(`Expected "${value}".`, token.line);
+  };
+  const describe = (token: Token) => (token.type === 'eof' ? 'end of file' : `"${token.value}"`);
+
+  const table = (): LuaTable => {
+    expect('{');
+    const result = new LuaTable();
+    // As in Lua, a nil value leaves the key out
+    const set = (key: string | number | boolean, value: unknown) => {
+      if (value === null) result.entries.delete(key);
+      else result.entries.set(key, value);
+    };
+    let index = 1;
+    while (!isSymbol('}')) {
+      const token = peek();
+      if (isSymbol('[')) {
+        next();
+        const key = expression();
+        expect(']');
+        expect('=');
+        if (key === null || key === undefined) throw new LuaImportError('Table key is nil.', token.line);
+        set(key as string | number | boolean, expression());
+      } else if (token.type === 'name' && tokens[position + 1].type === 'symbol' && (tokens[position + 1] as { value: string }).value === '=') {
+        next();
+        next();
+        set(token.value, expression());
+      } else {
+        set(index++, expression());
+      }
+      if (isSymbol(',') || isSymbol(';')) next();
+      else if (!isSymbol('}')) throw new LuaImportError(`Expected "," or "}" but found ${describe(peek())}.`, peek().line);
+    }
+    next();
+    return result;
+  };
+
+  const expression = (): unknown => {
+    const token = peek();
+    if (isSymbol('{')) return table();
+    if (isSymbol('-')) {
+      next();
+      const value = expression();
+      if (typeof value !== 'number') throw new LuaImportError('Only numbers can be negative.', token.line);
+      return -value;
+    }
+    next();
+    if (token.type === 'string' || token.type === 'number') return token.value;
+    if (token.type === 'name') {
+      if (token.value === 'nil') return null;
+      if (token.value === 'true' || token.value === 'false') return token.value === 'true';
+      if (!locals.has(token.value)) throw new LuaImportError(`Unknown name "${token.value}".`, token.line);
+      return locals.get(token.value);
+    }
+    throw new LuaImportError(`Expected a value but found ${describe(token)}.`, token.line);
+  };
+
+  // A bare table, as some tools write, is read like `return { ... }`
+  if (isSymbol('{')) {
+    const value = table();
+    if (peek().type !== 'eof') throw new LuaImportError(`Unexpected ${describe(peek())} after the table.`, peek().line);
+    return toPlain(value);
+  }
+
+  while (peek().type !== 'eof') {
+    const token = next();
+    if (token.type === 'symbol' && token.value === ';') continue;
+    if (token.type === 'name' && token.value === 'return') {
+      const value = peek().type === 'eof' || isSymbol(';') ? null : expression();
+      if (isSymbol(';')) next();
+      if (peek().type !== 'eof') throw new LuaImportError('Nothing may follow "return".', peek().line);
+      return toPlain(value);
+    }
+    const isLocal = token.type === 'name' && token.value === 'local';
+    const nameToken = isLocal ? next() : token;
+    if (nameToken.type !== 'name') throw new LuaImportError(`Unexpected ${describe(nameToken)}.`, nameToken.line);
+    const names = [nameToken.value];
+    while (isSymbol(',')) {
+      next();
+      const extra = next();
+      if (extra.type !== 'name') throw new LuaImportError('Expected a name.', extra.line);
+      names.push(extra.value);
+    }
+    if (isSymbol('=')) {
+      next();
+      const values = [expression()];
+      while (isSymbol(',')) {
+        next();
+        values.push(expression());
+      }
+      names.forEach((name, i) => locals.set(name, values[i] ?? null));
+    } else if (isLocal) {
+      names.forEach(name => locals.set(name, null));
+    } else {
+      throw new LuaImportError(`Expected "=" after "${nameToken.value}".`, nameToken.line);
+    }
+  }
+  throw new LuaImportError('The file does not return a table.');
+};
+
+// --- Plan elements --------------------------------------------------------------
+
+type Fields = Record<string, unknown>;
+
+// Both key styles map to the camelCase names of the export
+const camelKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(camelKeys);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key.replace(/_([a-z0-9])/g, (_, c: string) => c.toUpperCase()), camelKeys(item)]));
+};
+
+const asList = (value: unknown): Fields[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  const items = Array.isArray(value) ? value : typeof value === 'object' ? Object.values(value) : [];
+  return items.filter((item): item is Fields => !!item && typeof item === 'object' && !Array.isArray(item));
+};
+
+const pointList = (value: unknown): Point[] | null => {
+  const items = asList(value);
+  if (!items) return null;
+  const points = items.map(p => ({ x: num(p.x), y: num(p.y) }));
+  return points.every((p): p is Point => p.x !== undefined && p.y !== undefined) ? points : null;
+};
+
+/** Turns the table returned by a Lua file into plan elements. */
+export const readLuaElements = (source: string, context: ImportContext): ImportedElements => {
+  const root = camelKeys(parseLua(source));
+  if (!root || typeof root !== 'object' || Array.isArray(root)) throw new LuaImportError('The file must return a table with markers or areas.');
+  const data = root as Fields;
+  const skipped: string[] = [];
+  const reader = createElementReader(context);
+  const idFor = (item: Fields, prefix: string) => reader.idFor(item.id, prefix);
+  const layerIdFor = (item: Fields) => reader.layerIdFor(item.layerId, item.layer);
+  const describe = (kind: string, item: Fields, index: number) => `${kind} ${text(item.name) || text(item.id) || `#${index + 1}`}`;
+
+  // Symbols the plan already has keep the plan's definition
+  const symbolIds = new Set<string>(context.symbols.map(s => s.id));
+  const symbols = (asList(data.symbols) ?? []).flatMap((item, index): MapSymbol[] => {
+    if (symbolIds.has(String(item.id))) return [];
+    const issues = validateSymbols([item]);
+    if (issues.length) {
+      skipped.push(`${describe('Symbol', item, index)}: ${issues[0].path.replace(/^symbols\[0\]\.?/, '') || 'entry'} ${issues[0].message}`);
+      return [];
+    }
+    const { id, name, kind, shape, src, emoji, size, rotation } = item as unknown as MapSymbol;
+    symbolIds.add(id);
+    return [{ id, name, kind, shape, src, emoji, size, rotation }];
+  });
+  const symbolFields = (item: Fields, label: string) => {
+    const symbolId = text(item.symbolId);
+    if (!symbolId) return {};
+    if (!symbolIds.has(symbolId)) {
+      skipped.push(`${label}: no symbol "${symbolId}", drawn as a classic marker`);
+      return {};
+    }
+    const size = num(item.symbolSize);
+    return {
+      symbolId,
+      ...(size !== undefined && size > 0 ? { symbolSize: size } : {}),
+      ...(num(item.symbolRotation) !== undefined ? { symbolRotation: num(item.symbolRotation) } : {}),
+    };
+  };
+
+  const markers = asList(data.markers)?.flatMap((item, index): Marker[] => {
+    const position = { x: num(item.x), y: num(item.y) };
+    if (position.x === undefined || position.y === undefined) {
+      skipped.push(`${describe('Marker', item, index)}: no x and y`);
+      return [];
+    }
+    return [{
+      id: idFor(item, 'marker'),
+      name: text(item.name) ?? '',
+      number: text(item.number) || undefined,
+      area: text(item.area) || undefined,
+      position: { x: position.x, y: position.y },
+      status: reader.statusOf(item.status),
+      color: asColor(item.color),
+      linkedMarkerIds: reader.linkIds(item.linkedMarkerIds),
+      layerId: layerIdFor(item),
+      ...symbolFields(item, describe('Marker', item, index)),
+    }];
+  });
+
+  const paths = asList(data.paths)?.flatMap((item, index): Path[] => {
+    const points = pointList(item.points);
+    if (!points || points.length < 2) {
+      skipped.push(`Path ${text(item.id) || `#${index + 1}`}: needs at least two points`);
+      return [];
+    }
+    const startId = text(item.startMarkerId);
+    const endId = text(item.endMarkerId);
+    return [{
+      id: idFor(item, 'path'),
+      points,
+      color: asColor(item.color),
+      layerId: layerIdFor(item),
+      ...(startId && endId ? { linkedMarkers: { startId, endId } } : {}),
+      ...(item.routed === true ? { routed: true } : {}),
+    }];
+  });
+
+  const areas = asList(data.areas)?.flatMap((item, index): Area[] => {
+    const center = { x: num(item.centerX) ?? num(item.x), y: num(item.centerY) ?? num(item.y) };
+    const radius = num(item.radius);
+    if (center.x === undefined || center.y === undefined || radius === undefined || radius <= 0) {
+      skipped.push(`${describe('Area', item, index)}: needs a center and a radius`);
+      return [];
+    }
+    const point = { x: center.x, y: center.y };
+    return [{
+      id: idFor(item, 'area'),
+      name: text(item.name) ?? '',
+      number: text(item.number) || undefined,
+      center: point,
+      radius,
+      ...areaBoundsFromCircle(point, radius, context.imageSize ?? undefined),
+      color: asColor(item.color),
+      layerId: layerIdFor(item),
+    }];
+  });
+
+  const polygonAreas = asList(data.polygonAreas)?.flatMap((item, index): PolygonArea[] => {
+    const points = pointList(item.points);
+    if (!points || points.length < 3) {
+      skipped.push(`${describe('Polygon area', item, index)}: needs at least three points`);
+      return [];
+    }
+    return [{
+      id: idFor(item, 'poly-area'),
+      name: text(item.name) ?? '',
+      number: text(item.number) || undefined,
+      points,
+      color: asColor(item.color),
+      layerId: layerIdFor(item),
+      ...(item.obstacle === true ? { obstacle: true } : {}),
+    }];
+  });
+
+  if (!markers && !paths && !areas && !polygonAreas) {
+    throw new LuaImportError('The table has no markers, paths, areas or polygon areas.');
+  }
+  return { markers, paths, areas, polygonAreas, symbols, skipped };
+};
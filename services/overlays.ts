@@ -0,0 +1,298 @@
+import { Area, Calibration, MapSymbol, Marker, MarkerStatus, OverlayPosition, PlanOverlays, Point, PolygonArea } from '../types.ts';
+import { ImageSize } from './geometry.ts';
+import { textWidth } from './labelPlacement.ts';
+import { formatNumber } from './units.ts';
+
+// Legend and title block overlays. The layout is worked out here once, in
+// image pixels, and drawn by the editor (React) and the exports (SVG markup)
+// from the same blocks, so both show the same overlays in the same places.
+
+export type OverlayKind = keyof PlanOverlays;
+
+export const OVERLAY_KINDS: OverlayKind[] = ['title', 'legend', 'notes', 'northArrow', 'scaleBar'];
+
+export const OVERLAY_POSITIONS: { position: OverlayPosition; label: string }[] = [
+  { position: 'top-left', label: 'Top left' },
+  { position: 'top-right', label: 'Top right' },
+  { position: 'bottom-left', label: 'Bottom left' },
+  { position: 'bottom-right', label: 'Bottom right' },
+];
+
+// Only the scale bar is on by default, where exports have always drawn it
+export const DEFAULT_OVERLAYS: PlanOverlays = {
+  title: { visible: false, position: 'top-left', text: '', date: '' },
+  legend: { visible: false, position: 'top-right', heading: 'Legend', names: {} },
+  notes: { visible: false, position: 'bottom-right', text: '' },
+  scaleBar: { visible: true, position: 'bottom-left' },
+  northArrow: { visible: false, position: 'top-right', rotation: 0 },
+};
+
+export const STATUS_NAMES: Record<MarkerStatus, string> = {
+  pending: 'Pending',
+  active: 'Active',
+  completed: 'Completed',
+};
+
+export const STATUS_COLORS: Record<MarkerStatus, string> = {
+  pending: '#9ca3af',
+  active: '#0ea5e9',
+  completed: '#22c55e',
+};
+
+export interface LegendEntry {
+  // Stable key the entry's custom name is saved under
+  key: string;
+  kind: 'marker' | 'area' | 'status';
+  // Custom name, or the generated one
+  name: string;
+  defaultName: string;
+  color: string;
+  symbol?: MapSymbol;
+  count: number;
+}
+
+export interface LegendContent {
+  symbols: MapSymbol[];
+  markers: Marker[];
+  areas: Area[];
+  polygonAreas: PolygonArea[];
+}
+
+/**
+ * One legend entry per marker look (colour and symbol; icons and emoji keep
+ * their own colours, so only the symbol counts), per area colour and per
+ * marker status in use, in that order.
+ */
+export const legendEntries = (content: LegendContent, names: Record<string, string>): LegendEntry[] => {
+  const symbols = new Map<string, MapSymbol>(content.symbols.map(s => [s.id, s]));
+  const entries = new Map<string, LegendEntry>();
+  const count = (key: string, create: () => Omit<LegendEntry, 'key' | 'name' | 'count'>) => {
+    const entry = entries.get(key);
+    if (entry) {
+      entry.count++;
+      return;
+    }
+    const created = create();
+    entries.set(key, { ...created, key, name: names[key]?.trim() || created.defaultName, count: 1 });
+  };
+
+  content.markers.forEach(marker => {
+    const color = marker.color || '#10b981';
+    const symbol = marker.symbolId ? symbols.get(marker.symbolId) : undefined;
+    const ownColors = symbol && symbol.kind !== 'shape';
+    const key = `marker:${ownColors ? '' : color}:${symbol?.id ?? ''}`;
+    count(key, () => ({
+      kind: 'marker',
+      defaultName: ownColors ? symbol.name : `${symbol?.name ?? 'Marker'} ${color}`,
+      color,
+      symbol,
+    }));
+  });
+  [...content.areas, ...content.polygonAreas].forEach(area => {
+    const color = area.color || '#facc15';
+    count(`area:${color}`, () => ({ kind: 'area', defaultName: `Area ${color}`, color }));
+  });
+  // Statuses keep their usual order rather than the order markers use them
+  const statusCounts = new Map<MarkerStatus, number>();
+  content.markers.forEach(m => statusCounts.set(m.status, (statusCounts.get(m.status) ?? 0) + 1));
+  (Object.keys(STATUS_NAMES) as MarkerStatus[]).forEach(status => {
+    const key = `status:${status}`;
+    const defaultName = STATUS_NAMES[status];
+    const total = statusCounts.get(status);
+    if (total) entries.set(key, { key, kind: 'status', name: names[key]?.trim() || defaultName, defaultName, color: STATUS_COLORS[status], count: total });
+  });
+
+  return [...entries.values()];
+};
+
+export interface OverlayText {
+  x: number;
+  y: number;
+  text: string;
+  fontSize: number;
+  bold?: boolean;
+  anchor?: 'start' | 'middle';
+}
+
+export interface OverlayBlock {
+  kind: OverlayKind;
+  // The box, in image pixels
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  texts: OverlayText[];
+  // Legend symbols, centred on (x, y)
+  swatches: { x: number; y: number; r: number; entry: LegendEntry }[];
+  // Scale bar, with ticks at both ends
+  bar?: { x: number; y: number; width: number; lineWidth: number };
+  // North arrow pointing up before rotation, centred on (x, y)
+  arrow?: { x: number; y: number; size: number; rotation: number };
+}
+
+export interface OverlayOptions {
+  // Area the overlays are placed in, usually the whole image
+  size: ImageSize;
+  // Top-left corner of that area, for exports of part of the image
+  origin?: Point;
+  calibration: Calibration | null;
+  entries: LegendEntry[];
+}
+
+// Overlays keep a readable size on large maps
+export const overlayScale = (size: ImageSize) => Math.max(1, Math.min(size.width, size.height) / 1200);
+
+// Rounds down to 1, 2 or 5 times a power of ten, so the bar reads cleanly.
+const niceLength = (value: number) => {
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [5, 2, 1].find(s => s * magnitude <= value) ?? 1;
+  return step * magnitude;
+};
+
+// Splits text into lines no wider than `maxWidth`, keeping its own line breaks
+const wrapText = (text: string, fontSize: number, maxWidth: number) => text.split('\n').flatMap(paragraph => {
+  const lines: string[] = [];
+  let line = '';
+  paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+    const next = line ? `${line} ${word}` : word;
+    if (line && textWidth(next, fontSize) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  });
+  lines.push(line);
+  return lines;
+});
+
+// A block's contents relative to its top-left corner, before it is placed
+type Draft = Omit<OverlayBlock, 'kind' | 'x' | 'y'>;
+
+const textBlock = (rows: { text: string; fontSize: number; bold?: boolean }[], s: number): Draft | null => {
+  if (!rows.length) return null;
+  const pad = 8 * s;
+  let y = pad;
+  const texts = rows.map(row => {
+    y += row.fontSize;
+    const text = { x: pad, y, text: row.text, fontSize: row.fontSize, bold: row.bold };
+    y += row.fontSize * 0.35;
+    return text;
+  });
+  const width = Math.max(...rows.map(r => textWidth(r.text, r.fontSize) * (r.bold ? 1.1 : 1))) + 2 * pad;
+  return { width, height: y + pad - rows[rows.length - 1].fontSize * 0.35 + 4 * s, texts, swatches: [] };
+};
+
+const draftOverlay = (kind: OverlayKind, overlays: PlanOverlays, options: OverlayOptions, s: number): Draft | null => {
+  switch (kind) {
+    case 'title': {
+      const { text, date } = overlays.title;
+      const rows = [
+        ...(text.trim() ? [{ text: text.trim(), fontSize: 22 * s, bold: true }] : []),
+        ...(date.trim() ? [{ text: date.trim(), fontSize: 13 * s }] : []),
+      ];
+      return textBlock(rows, s);
+    }
+    case 'notes': {
+      const rows = overlays.notes.text.trim()
+        ? wrapText(overlays.notes.text.trim(), 12 * s, 280 * s).map(text => ({ text, fontSize: 12 * s }))
+        : [];
+      return textBlock(rows, s);
+    }
+    case 'legend': {
+      if (!options.entries.length) return null;
+      const pad = 8 * s;
+      const heading = overlays.legend.heading.trim();
+      const rowHeight = 22 * s;
+      const r = 8 * s;
+      const fontSize = 12 * s;
+      const texts: OverlayText[] = [];
+      let y = pad;
+      if (heading) {
+        y += 14 * s;
+        texts.push({ x: pad, y, text: heading, fontSize: 14 * s, bold: true });
+        y += 6 * s;
+      }
+      const swatches = options.entries.map(entry => {
+        const center = y + rowHeight / 2;
+        texts.push({ x: pad + 2 * r + 8 * s, y: center + fontSize * 0.35, text: entry.name, fontSize });
+        y += rowHeight;
+        return { x: pad + r, y: center, r, entry };
+      });
+      const width = Math.max(
+        heading ? textWidth(heading, 14 * s) * 1.1 : 0,
+        ...options.entries.map(e => 2 * r + 8 * s + textWidth(e.name, fontSize)),
+      ) + 2 * pad;
+      return { width, height: y + pad, texts, swatches };
+    }
+    case 'scaleBar': {
+      const { calibration } = options;
+      if (!calibration) return null;
+      const length = niceLength((options.size.width / 5) * calibration.scale);
+      const barWidth = length / calibration.scale;
+      const pad = 8 * s;
+      return {
+        width: barWidth + 2 * pad,
+        height: 36 * s,
+        texts: [{ x: pad + barWidth / 2, y: 14 * s, text: `${formatNumber(length)} ${calibration.unit}`, fontSize: 12 * s, anchor: 'middle' }],
+        swatches: [],
+        bar: { x: pad, y: 22 * s, width: barWidth, lineWidth: 3 * s },
+      };
+    }
+    case 'northArrow': {
+      const size = 40 * s;
+      return {
+        width: size,
+        height: size + 14 * s,
+        texts: [{ x: size / 2, y: 14 * s, text: 'N', fontSize: 13 * s, bold: true, anchor: 'middle' }],
+        swatches: [],
+        arrow: { x: size / 2, y: 14 * s + size / 2, size: size * 0.7, rotation: overlays.northArrow.rotation },
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/** Places the visible overlays in their corners; overlays sharing a corner stack in `OVERLAY_KINDS` order. */
+export const layoutOverlays = (overlays: PlanOverlays, options: OverlayOptions): OverlayBlock[] => {
+  const s = overlayScale(options.size);
+  const margin = 12 * s;
+  const gap = 8 * s;
+  const { width, height } = options.size;
+  const origin = options.origin ?? { x: 0, y: 0 };
+  const blocks: OverlayBlock[] = [];
+
+  OVERLAY_POSITIONS.forEach(({ position }) => {
+    const drafts = OVERLAY_KINDS
+      .filter(kind => overlays[kind].visible && overlays[kind].position === position)
+      .map(kind => ({ kind, draft: draftOverlay(kind, overlays, options, s) }))
+      .filter((d): d is { kind: OverlayKind; draft: Draft } => !!d.draft);
+    if (!drafts.length) return;
+
+    const total = drafts.reduce((sum, d) => sum + d.draft.height, 0) + gap * (drafts.length - 1);
+    let top = origin.y + (position.startsWith('top') ? margin : height - margin - total);
+    drafts.forEach(({ kind, draft }) => {
+      const left = origin.x + (position.endsWith('left') ? margin : width - margin - draft.width);
+      blocks.push({
+        ...draft,
+        kind,
+        x: left,
+        y: top,
+        texts: draft.texts.map(t => ({ ...t, x: t.x + left, y: t.y + top })),
+        swatches: draft.swatches.map(sw => ({ ...sw, x: sw.x + left, y: sw.y + top })),
+        bar: draft.bar && { ...draft.bar, x: draft.bar.x + left, y: draft.bar.y + top },
+        arrow: draft.arrow && { ...draft.arrow, x: draft.arrow.x + left, y: draft.arrow.y + top },
+      });
+      top += draft.height + gap;
+    });
+  });
+
+  return blocks;
+};
+
+/** Outline of the north arrow, pointing up, `size` tall and centred on the origin. */
+export const northArrowPathD = (size: number) => {
+  const h = size / 2;
+  return `M 0 ${-h} L ${h * 0.6} ${h} L 0 ${h * 0.5} L ${-h * 0.6} ${h} Z`;
+};
@@ -0,0 +1,255 @@
+import { ObstacleMask, Point } from '../types.ts';
+import { ImageSize } from './geometry.ts';
+
+// Linked paths are routed on a coarse grid laid over the map image. A cell is
+// blocked when its centre lies inside an obstacle polygon or when the image
+// there matches the obstacle mask colour.
+
+export interface ObstacleGrid {
+  cols: number;
+  rows: number;
+  cellSize: number;
+  blocked: Uint8Array;
+}
+
+// Keeps the grid around 90k cells whatever the image size.
+const TARGET_CELLS = 90000;
+const MIN_CELL_SIZE = 4;
+
+export const gridDimensions = (imageSize: ImageSize) => {
+  const cellSize = Math.max(MIN_CELL_SIZE, Math.ceil(Math.sqrt((imageSize.width * imageSize.height) / TARGET_CELLS)));
+  return {
+    cellSize,
+    cols: Math.max(1, Math.ceil(imageSize.width / cellSize)),
+    rows: Math.max(1, Math.ceil(imageSize.height / cellSize)),
+  };
+};
+
+const pointInPolygon = (x: number, y: number, points: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** Combines obstacle polygons and an optional colour mask (one byte per cell) into a grid. */
+export const buildObstacleGrid = (imageSize: ImageSize, polygons: Point[][], maskCells: Uint8Array | null): ObstacleGrid => {
+  const { cellSize, cols, rows } = gridDimensions(imageSize);
+  const blocked = maskCells && maskCells.length === cols * rows ? Uint8Array.from(maskCells) : new Uint8Array(cols * rows);
+
+  polygons.filter(points => points.length >= 3).forEach(points => {
+    const minCol = Math.max(0, Math.floor(Math.min(...points.map(p => p.x)) / cellSize));
+    const maxCol = Math.min(cols - 1, Math.floor(Math.max(...points.map(p => p.x)) / cellSize));
+    const minRow = Math.max(0, Math.floor(Math.min(...points.map(p => p.y)) / cellSize));
+    const maxRow = Math.min(rows - 1, Math.floor(Math.max(...points.map(p => p.y)) / cellSize));
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        // The last row and column stick out past the image; sample inside it.
+        const x = Math.min((col + 0.5) * cellSize, imageSize.width - 0.5);
+        const y = Math.min((row + 0.5) * cellSize, imageSize.height - 0.5);
+        if (pointInPolygon(x, y, points)) {
+          blocked[row * cols + col] = 1;
+        }
+      }
+    }
+  });
+
+  return { cols, rows, cellSize, blocked };
+};
+
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', '').slice(0, 6).padEnd(6, '0'), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/**
+ * Marks the cells where the map image is close to the mask colour. Each cell
+ * is sampled at four points so thin walls are not averaged away. `tolerance`
+ * is the largest RGB distance (0-441) that still counts as a match.
+ */
+export const buildMaskCells = (image: CanvasImageSource, imageSize: ImageSize, mask: ObstacleMask): Uint8Array | null => {
+  const { cols, rows } = gridDimensions(imageSize);
+  const canvas = document.createElement('canvas');
+  canvas.width = cols * 2;
+  canvas.height = rows * 2;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const [r, g, b] = hexToRgb(mask.color);
+  const limit = mask.tolerance * mask.tolerance;
+  const cells = new Uint8Array(cols * rows);
+  for (let y = 0; y < canvas.height; y++) {
+    for (let x = 0; x < canvas.width; x++) {
+      const i = (y * canvas.width + x) * 4;
+      const dr = data[i] - r;
+      const dg = data[i + 1] - g;
+      const db = data[i + 2] - b;
+      if (data[i + 3] > 0 && dr * dr + dg * dg + db * db <= limit) {
+        cells[(y >> 1) * cols + (x >> 1)] = 1;
+      }
+    }
+  }
+  return cells;
+};
+
+const cellOf = (grid: ObstacleGrid, point: Point) => ({
+  col: Math.min(grid.cols - 1, Math.max(0, Math.floor(point.x / grid.cellSize))),
+  row: Math.min(grid.rows - 1, Math.max(0, Math.floor(point.y / grid.cellSize))),
+});
+
+const cellCenter = (grid: ObstacleGrid, index: number): Point => ({
+  x: ((index % grid.cols) + 0.5) * grid.cellSize,
+  y: (Math.floor(index / grid.cols) + 0.5) * grid.cellSize,
+});
+
+// Walks the cells under the segment; the endpoints' own cells are allowed so
+// markers standing inside an obstacle can still leave it.
+const hasLineOfSight = (grid: ObstacleGrid, a: Point, b: Point, allowed: Set<number>) => {
+  const steps = Math.ceil(Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y)) / (grid.cellSize / 2)) || 1;
+  for (let s = 0; s <= steps; s++) {
+    const { col, row } = cellOf(grid, { x: a.x + ((b.x - a.x) * s) / steps, y: a.y + ((b.y - a.y) * s) / steps });
+    const index = row * grid.cols + col;
+    if (grid.blocked[index] && !allowed.has(index)) return false;
+  }
+  return true;
+};
+
+// Binary heap keyed by f-score, enough for A* on a few hundred thousand cells.
+class MinHeap {
+  private items: number[] = [];
+  private scores: number[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(item: number, score: number) {
+    this.items.push(item);
+    this.scores.push(score);
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.scores[parent] <= this.scores[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.items[0];
+    const lastItem = this.items.pop()!;
+    const lastScore = this.scores.pop()!;
+    if (this.items.length) {
+      this.items[0] = lastItem;
+      this.scores[0] = lastScore;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.items.length && this.scores[left] < this.scores[smallest]) smallest = left;
+        if (right < this.items.length && this.scores[right] < this.scores[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+const NEIGHBOURS = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2],
+];
+
+const aStar = (grid: ObstacleGrid, startIndex: number, endIndex: number, allowed: Set<number>): number[] | null => {
+  const { cols, rows, blocked } = grid;
+  const isFree = (index: number) => !blocked[index] || allowed.has(index);
+  const endCol = endIndex % cols;
+  const endRow = Math.floor(endIndex / cols);
+  const heuristic = (index: number) => {
+    const dx = Math.abs((index % cols) - endCol);
+    const dy = Math.abs(Math.floor(index / cols) - endRow);
+    return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+  };
+
+  const cost = new Float64Array(cols * rows).fill(Infinity);
+  const cameFrom = new Int32Array(cols * rows).fill(-1);
+  const closed = new Uint8Array(cols * rows);
+  const open = new MinHeap();
+  cost[startIndex] = 0;
+  open.push(startIndex, heuristic(startIndex));
+
+  while (open.size) {
+    const current = open.pop();
+    if (current === endIndex) {
+      const cells = [current];
+      while (cells[0] !== startIndex) cells.unshift(cameFrom[cells[0]]);
+      return cells;
+    }
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const col = current % cols;
+    const row = Math.floor(current / cols);
+    for (const [dx, dy, step] of NEIGHBOURS) {
+      const nc = col + dx;
+      const nr = row + dy;
+      if (nc < 0 || nr < 0 || nc >= cols || nr >= rows) continue;
+      const next = nr * cols + nc;
+      if (closed[next] || !isFree(next)) continue;
+      // No squeezing diagonally between two blocked cells
+      if (dx && dy && (!isFree(row * cols + nc) || !isFree(nr * cols + col))) continue;
+      const tentative = cost[current] + step;
+      if (tentative < cost[next]) {
+        cost[next] = tentative;
+        cameFrom[next] = current;
+        open.push(next, tentative + heuristic(next));
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Shortest obstacle-free route between two points, as a list of corner points
+ * from `start` to `end`. Returns a straight segment when nothing is in the way
+ * and null when the end cannot be reached.
+ */
+export const findRoute = (grid: ObstacleGrid, start: Point, end: Point): Point[] | null => {
+  const startCell = cellOf(grid, start);
+  const endCell = cellOf(grid, end);
+  const startIndex = startCell.row * grid.cols + startCell.col;
+  const endIndex = endCell.row * grid.cols + endCell.col;
+  const allowed = new Set([startIndex, endIndex]);
+
+  if (hasLineOfSight(grid, start, end, allowed)) return [start, end];
+
+  const cells = aStar(grid, startIndex, endIndex, allowed);
+  if (!cells) return null;
+
+  // String pulling: keep only the corners needed to stay in line of sight.
+  const waypoints = [start, ...cells.slice(1, -1).map(index => cellCenter(grid, index)), end];
+  const route = [start];
+  let anchor = 0;
+  while (anchor < waypoints.length - 1) {
+    let next = anchor + 1;
+    while (next < waypoints.length - 1 && hasLineOfSight(grid, waypoints[anchor], waypoints[next + 1], allowed)) next++;
+    route.push(waypoints[next]);
+    anchor = next;
+  }
+  return route;
+};
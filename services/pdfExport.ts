@@ -0,0 +1,252 @@
+import { ImageSize } from './geometry.ts';
+import { areaStats, polygonAreaStats } from './planStats.ts';
+import { MM_TO_PT, PdfPage, buildPdf, fitText, pdfImage, pdfLine, pdfText } from './pdfWriter.ts';
+import { DrawMap, renderPlanRegion } from './rasterExport.ts';
+import { Region, SvgExportOptions, SvgExportPlan, layoutExport } from './svgExport.ts';
+import { formatArea, formatLength, formatPoint } from './units.ts';
+import { STATUS_NAMES } from './overlays.ts';
+
+// PDF export for print. The map is scaled to fill a grid of pages (one page
+// by default); neighbouring pages share an overlap strip marked with dashed
+// lines, so printed sheets can be trimmed and taped together. Each page is
+// rendered as an image at the chosen resolution; the optional appendix lists
+// markers and areas as text tables.
+
+export type PaperSize = 'a4' | 'a3' | 'a2' | 'letter' | 'legal' | 'tabloid';
+
+// Portrait sizes in millimetres
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  a3: { label: 'A3', width: 297, height: 420 },
+  a2: { label: 'A2', width: 420, height: 594 },
+  letter: { label: 'Letter', width: 215.9, height: 279.4 },
+  legal: { label: 'Legal', width: 215.9, height: 355.6 },
+  tabloid: { label: 'Tabloid', width: 279.4, height: 431.8 },
+};
+
+export interface PdfOptions {
+  paper: PaperSize;
+  landscape: boolean;
+  // Blank border of every page, in mm
+  margin: number;
+  // Pages across and down the map is spread over
+  columns: number;
+  rows: number;
+  // Strip repeated on neighbouring pages, in mm
+  overlap: number;
+  // Resolution the map is rendered at
+  dpi: number;
+  // Adds pages listing markers and areas
+  appendix: boolean;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  paper: 'a4',
+  landscape: true,
+  margin: 10,
+  columns: 1,
+  rows: 1,
+  overlap: 10,
+  dpi: 150,
+  appendix: false,
+};
+
+export interface PdfSheet {
+  column: number;
+  row: number;
+  // Part of the map on the sheet, in image pixels, cut at the map's edges
+  region: Region;
+}
+
+export interface PdfTiling {
+  // Page and printable area size in mm
+  pageWidth: number;
+  pageHeight: number;
+  printWidth: number;
+  printHeight: number;
+  overlap: number;
+  // Millimetres per image pixel on paper
+  scale: number;
+  sheets: PdfSheet[];
+}
+
+/** How the map is spread over the pages; sheets that would show nothing are left out. */
+export const tilePdfPages = (size: ImageSize, options: PdfOptions): PdfTiling => {
+  const paper = PAPER_SIZES[options.paper];
+  const pageWidth = options.landscape ? paper.height : paper.width;
+  const pageHeight = options.landscape ? paper.width : paper.height;
+  const margin = Math.min(Math.max(0, options.margin), Math.min(pageWidth, pageHeight) / 4);
+  const printWidth = pageWidth - 2 * margin;
+  const printHeight = pageHeight - 2 * margin;
+  const columns = Math.max(1, Math.round(options.columns));
+  const rows = Math.max(1, Math.round(options.rows));
+  const overlap = columns > 1 || rows > 1 ? Math.min(Math.max(0, options.overlap), Math.min(printWidth, printHeight) / 2) : 0;
+
+  const scale = Math.min(
+    (columns * printWidth - (columns - 1) * overlap) / size.width,
+    (rows * printHeight - (rows - 1) * overlap) / size.height,
+  );
+  const sheets: PdfSheet[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const x = (column * (printWidth - overlap)) / scale;
+      const y = (row * (printHeight - overlap)) / scale;
+      const width = Math.min(printWidth / scale, size.width - x);
+      const height = Math.min(printHeight / scale, size.height - y);
+      if (width > 0.5 && height > 0.5) sheets.push({ column, row, region: { x, y, width, height } });
+    }
+  }
+  return { pageWidth, pageHeight, printWidth, printHeight, overlap, scale, sheets };
+};
+
+const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Uint8Array> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (!blob) {
+      reject(new Error('Failed to encode a PDF page.'));
+      return;
+    }
+    blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+  }, 'image/jpeg', 0.92);
+});
+
+interface TableColumn {
+  title: string;
+  // Share of the table width
+  width: number;
+}
+
+// Text tables, continued over as many pages as they need, with the header repeated
+const tablePages = (title: string, columns: TableColumn[], rows: string[][], tiling: PdfTiling, margin: number): PdfPage[] => {
+  const width = tiling.pageWidth * MM_TO_PT;
+  const height = tiling.pageHeight * MM_TO_PT;
+  const left = margin * MM_TO_PT;
+  const tableWidth = width - 2 * left;
+  const fontSize = 9;
+  const rowHeight = 13;
+  const pages: PdfPage[] = [];
+  let index = 0;
+  do {
+    let y = height - left - 16;
+    let content = pdfText(left, y, pages.length ? `${title} (continued)` : title, 14, true);
+    y -= 22;
+    const row = (cells: string[], bold: boolean) => {
+      let x = left;
+      cells.forEach((cell, i) => {
+        const cellWidth = columns[i].width * tableWidth;
+        content += pdfText(x, y, fitText(cell, fontSize, cellWidth - 4, bold), fontSize, bold);
+        x += cellWidth;
+      });
+      y -= rowHeight;
+    };
+    row(columns.map(c => c.title), true);
+    content += `0.6 G 0.5 w ${pdfLine(left, y + rowHeight - 3, left + tableWidth, y + rowHeight - 3)}`;
+    while (index < rows.length && y > left) row(rows[index++], false);
+    pages.push({ width, height, content, images: [] });
+  } while (index < rows.length);
+  return pages;
+};
+
+const appendixPages = (plan: SvgExportPlan, options: Pick<SvgExportOptions, 'layerIds' | 'calibration'>, tiling: PdfTiling, margin: number) => {
+  const calibration = options.calibration ?? null;
+  const layers = plan.layers.filter(layer => !options.layerIds || options.layerIds.has(layer.id));
+  const layerNames = new Map<string, string>(layers.map(l => [l.id, l.name]));
+  const inLayers = <T extends { layerId: string }>(items: T[]) => items.filter(item => layerNames.has(item.layerId));
+
+  const markerRows = inLayers(plan.markers).map(m => [
+    m.number ?? '',
+    m.name,
+    m.area ?? '',
+    STATUS_NAMES[m.status],
+    layerNames.get(m.layerId)!,
+    formatPoint(m.position, calibration),
+  ]);
+  const areaRows = [
+    ...inLayers(plan.areas).map(a => ({ area: a, shape: 'Circle', stats: areaStats(a) })),
+    ...inLayers(plan.polygonAreas).map(a => ({ area: a, shape: 'Polygon', stats: polygonAreaStats(a) })),
+  ].map(({ area, shape, stats }) => [
+    area.number ?? '',
+    area.name,
+    shape,
+    layerNames.get(area.layerId)!,
+    formatArea(stats.area, calibration),
+    formatLength(stats.perimeter, calibration),
+  ]);
+
+  return [
+    ...(markerRows.length ? tablePages('Markers', [
+      { title: 'No.', width: 0.08 },
+      { title: 'Name', width: 0.3 },
+      { title: 'Area', width: 0.14 },
+      { title: 'Status', width: 0.12 },
+      { title: 'Layer', width: 0.14 },
+      { title: 'Position', width: 0.22 },
+    ], markerRows, tiling, margin) : []),
+    ...(areaRows.length ? tablePages('Areas', [
+      { title: 'No.', width: 0.08 },
+      { title: 'Name', width: 0.3 },
+      { title: 'Shape', width: 0.12 },
+      { title: 'Layer', width: 0.14 },
+      { title: 'Size', width: 0.18 },
+      { title: 'Perimeter', width: 0.18 },
+    ], areaRows, tiling, margin) : []),
+  ];
+};
+
+export const renderPlanPdf = async (
+  plan: SvgExportPlan,
+  options: Omit<SvgExportOptions, 'imageHref' | 'region' | 'outputSize' | 'layout'>,
+  pdf: PdfOptions,
+  drawMap: DrawMap,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+  const tiling = tilePdfPages(options, pdf);
+  const { sheets, scale, overlap } = tiling;
+  const margin = (tiling.pageWidth - tiling.printWidth) / 2;
+  const pageWidth = tiling.pageWidth * MM_TO_PT;
+  const pageHeight = tiling.pageHeight * MM_TO_PT;
+  const left = margin * MM_TO_PT;
+  const top = pageHeight - left;
+  const columns = Math.max(...sheets.map(s => s.column)) + 1;
+  const rows = Math.max(...sheets.map(s => s.row)) + 1;
+  // Labels and overlays are laid out once for the whole plan, so they line up across pages
+  const layout = layoutExport(plan, options);
+  const canvas = document.createElement('canvas');
+  const pages: PdfPage[] = [];
+
+  for (const sheet of sheets) {
+    const { region } = sheet;
+    const widthMm = region.width * scale;
+    const heightMm = region.height * scale;
+    canvas.width = Math.max(1, Math.round((widthMm / 25.4) * pdf.dpi));
+    canvas.height = Math.max(1, Math.round((heightMm / 25.4) * pdf.dpi));
+    await renderPlanRegion(canvas, plan, { ...options, layout }, drawMap, region);
+
+    let content = pdfImage(0, left, top - heightMm * MM_TO_PT, widthMm * MM_TO_PT, heightMm * MM_TO_PT);
+    if (sheets.length > 1) {
+      // Dashed lines where the strip shared with each neighbouring page begins
+      const strip = overlap * MM_TO_PT;
+      const right = left + widthMm * MM_TO_PT;
+      const bottom = top - heightMm * MM_TO_PT;
+      content += '0.4 G 0.5 w [4 3] 0 d\n';
+      if (sheet.column > 0) content += pdfLine(left + strip, top, left + strip, bottom);
+      if (sheet.column < columns - 1) content += pdfLine(right - strip, top, right - strip, bottom);
+      if (sheet.row > 0) content += pdfLine(left, top - strip, right, top - strip);
+      if (sheet.row < rows - 1) content += pdfLine(left, bottom + strip, right, bottom + strip);
+      content += '[] 0 d\n';
+      if (margin >= 4) {
+        const label = `Page ${pages.length + 1} of ${sheets.length} - row ${sheet.row + 1}, column ${sheet.column + 1}`;
+        content += pdfText(left, Math.max(4, left / 2 - 3), label, 8);
+      }
+    }
+    pages.push({
+      width: pageWidth,
+      height: pageHeight,
+      content,
+      images: [{ jpeg: await canvasToJpeg(canvas), width: canvas.width, height: canvas.height }],
+    });
+    onProgress?.(pages.length, sheets.length);
+  }
+
+  if (pdf.appendix) pages.push(...appendixPages(plan, options, tiling, margin));
+  return buildPdf(pages);
+};
@@ -0,0 +1,127 @@
+// Minimal PDF 1.4 writer for print exports: pages of JPEG images, lines and
+// text in the standard Helvetica fonts. Content streams are plain text built
+// by the caller with the helpers below; coordinates are in points (1/72 in)
+// from the bottom-left corner of the page.
+
+export interface PdfImage {
+  jpeg: Uint8Array;
+  // Pixel size of the image
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  // Page size in points
+  width: number;
+  height: number;
+  // Content stream; images are drawn with `/Im<index> Do` and text uses `/F1` (regular) or `/F2` (bold)
+  content: string;
+  images: PdfImage[];
+}
+
+export const MM_TO_PT = 72 / 25.4;
+
+const num = (value: number) => +value.toFixed(2);
+
+/** A PDF string literal; characters outside Latin-1 become `?`. */
+export const pdfString = (text: string) => {
+  let result = '(';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (char === '\\' || char === '(' || char === ')') result += `\\${char}`;
+    else if (code >= 32 && code < 127) result += char;
+    else if (code >= 160 && code <= 255) result += `\\${code.toString(8)}`;
+    else result += '?';
+  }
+  return `${result})`;
+};
+
+/** Content stream text drawn with its baseline starting at (x, y). */
+export const pdfText = (x: number, y: number, text: string, fontSize: number, bold = false) => (
+  `BT /${bold ? 'F2' : 'F1'} ${num(fontSize)} Tf ${num(x)} ${num(y)} Td ${pdfString(text)} Tj ET\n`
+);
+
+/** Content stream line from (x1, y1) to (x2, y2), stroked with the current line settings. */
+export const pdfLine = (x1: number, y1: number, x2: number, y2: number) => (
+  `${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S\n`
+);
+
+/** Content stream drawing image `index` of the page into the given box. */
+export const pdfImage = (index: number, x: number, y: number, width: number, height: number) => (
+  `q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y)} cm /Im${index} Do Q\n`
+);
+
+// Rough Helvetica advance width, for fitting text into table columns
+export const approxTextWidth = (text: string, fontSize: number, bold = false) => text.length * fontSize * (bold ? 0.58 : 0.52);
+
+/** Shortens text with an ellipsis until it fits `maxWidth`. */
+export const fitText = (text: string, fontSize: number, maxWidth: number, bold = false) => {
+  if (approxTextWidth(text, fontSize, bold) <= maxWidth) return text;
+  const chars = Math.max(0, Math.floor(maxWidth / (fontSize * (bold ? 0.58 : 0.52))) - 3);
+  return `${text.slice(0, chars)}...`;
+};
+
+const encoder = new TextEncoder();
+
+export const buildPdf = (pages: PdfPage[]): Blob => {
+  const parts: (string | Uint8Array)[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    // Everything written as a string is ASCII, so its length is its size in bytes
+    parts.push(part);
+    length += part.length;
+  };
+  const object = (id: number, body: string | (string | Uint8Array)[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    (typeof body === 'string' ? [body] : body).forEach(write);
+    write('\nendobj\n');
+  };
+
+  // Objects 1-4 are the catalog, the page tree and the two fonts; each page
+  // then takes one object for itself, one for its content and one per image
+  const pageIds: number[] = [];
+  let nextId = 5;
+  const layout = pages.map(page => {
+    const pageId = nextId++;
+    const contentId = nextId++;
+    const imageIds = page.images.map(() => nextId++);
+    pageIds.push(pageId);
+    return { page, pageId, contentId, imageIds };
+  });
+
+  write('%PDF-1.4\n');
+  // Marks the file as binary for tools that guess from the first lines
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  layout.forEach(({ page, pageId, contentId, imageIds }) => {
+    const xObjects = imageIds.map((id, index) => `/Im${index} ${id} 0 R`).join(' ');
+    object(pageId, [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] `,
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >> `,
+      `/Contents ${contentId} 0 R >>`,
+    ]);
+    const content = encoder.encode(page.content);
+    object(contentId, [`<< /Length ${content.length} >>\nstream\n`, content, '\nendstream']);
+    page.images.forEach((image, index) => {
+      object(imageIds[index], [
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} `,
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.length} >>\nstream\n`,
+        image.jpeg,
+        '\nendstream',
+      ]);
+    });
+  });
+
+  const xrefOffset = length;
+  const xref = ['xref', `0 ${nextId}`, '0000000000 65535 f '];
+  for (let id = 1; id < nextId; id++) xref.push(`${String(offsets[id]).padStart(10, '0')} 00000 n `);
+  write(`${xref.join('\n')}\ntrailer\n<< /Size ${nextId} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,107 @@
+import { PlanFile, PlanImportError } from './planSchema.ts';
+import { hashBlob } from './imageStore.ts';
+import { createZip, readZip } from './zip.ts';
+
+// A plan bundle is a ZIP archive:
+//
+//   manifest.json          BundleManifest
+//   plan.json              PlanFile (image referenced by hash)
+//   images/<hash>.<ext>    image bytes, one file per referenced hash
+
+export const BUNDLE_FORMAT = 'map-planner-bundle';
+export const BUNDLE_FORMAT_VERSION = 1;
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  plan: string;
+  planSchemaVersion: number;
+  images: { hash: string; path: string; mimeType: string; size: number }[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/bmp': 'bmp',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export const isBundleFile = (file: File) => (
+  file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || file.name.toLowerCase().endsWith('.zip')
+);
+
+export const createPlanBundle = async (plan: PlanFile, images: Map<string, Blob>): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    plan: 'plan.json',
+    planSchemaVersion: plan.version,
+    images: [],
+  };
+  const imageEntries = [];
+
+  for (const [hash, blob] of images) {
+    const mimeType = blob.type || 'application/octet-stream';
+    const path = `images/${hash}.${EXTENSIONS[mimeType] ?? 'bin'}`;
+    manifest.images.push({ hash, path, mimeType, size: blob.size });
+    imageEntries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+
+  return createZip([
+    { name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)), compress: true },
+    { name: manifest.plan, data: encoder.encode(JSON.stringify(plan, null, 2)), compress: true },
+    ...imageEntries,
+  ]);
+};
+
+/**
+ * Unpacks a bundle into the raw (not yet migrated) plan JSON and its images.
+ * Image bytes are re-hashed so a bundle whose files do not match the manifest
+ * is rejected instead of silently loading the wrong map.
+ */
+export const readPlanBundle = async (blob: Blob): Promise<{ plan: unknown; images: Map<string, Blob> }> => {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(await blob.arrayBuffer());
+  } catch (error) {
+    throw new PlanImportError(error instanceof Error ? error.message : 'Could not read the plan bundle.');
+  }
+
+  const decoder = new TextDecoder();
+  const manifestBytes = files.get('manifest.json');
+  if (!manifestBytes) {
+    throw new PlanImportError('Plan bundle has no manifest.json.');
+  }
+
+  const manifest = JSON.parse(decoder.decode(manifestBytes)) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new PlanImportError('Not a Map Planner bundle.');
+  }
+  if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+    throw new PlanImportError(`Plan bundle was written by a newer version of Map Planner (format ${manifest.formatVersion}).`);
+  }
+
+  const planBytes = files.get(manifest.plan);
+  if (!planBytes) {
+    throw new PlanImportError(`Plan bundle is missing ${manifest.plan}.`);
+  }
+
+  const images = new Map<string, Blob>();
+  for (const entry of manifest.images ?? []) {
+    const bytes = files.get(entry.path);
+    if (!bytes) {
+      throw new PlanImportError(`Plan bundle is missing ${entry.path}.`);
+    }
+    const image = new Blob([bytes], { type: entry.mimeType });
+    if (await hashBlob(image) !== entry.hash) {
+      throw new PlanImportError(`Image ${entry.path} does not match its content hash.`);
+    }
+    images.set(entry.hash, image);
+  }
+
+  return { plan: JSON.parse(decoder.decode(planBytes)), images };
+};
@@ -0,0 +1,144 @@
+import { Marker, PlanData } from '../types.ts';
+import { ImageSize } from './geometry.ts';
+import { PlanFile } from './planSchema.ts';
+import { deleteImage } from './imageStore.ts';
+import { PlanHistory, planFingerprint } from './history.ts';
+import { HISTORY_STORE, PLAN_STORE, runRequest } from './storage.ts';
+
+// The project library keeps every named plan in IndexedDB. Records store the
+// serialized PlanFile as written, so they go through importPlan (and its
+// migrations) when opened, just like a file would.
+
+export interface PlanSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  modifiedAt: string;
+  thumbnail: string | null;
+}
+
+export interface PlanRecord extends PlanSummary {
+  plan: PlanFile;
+}
+
+// Undo history is kept next to each plan so it survives a reload. It is
+// tagged with the plan it ends at and ignored if the plan changed elsewhere.
+interface HistoryRecord extends PlanHistory {
+  planId: string;
+  fingerprint: string;
+}
+
+export const THUMBNAIL_WIDTH = 160;
+
+const generatePlanId = () => `plan-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+const toSummary = ({ id, name, createdAt, modifiedAt, thumbnail }: PlanRecord): PlanSummary => (
+  { id, name, createdAt, modifiedAt, thumbnail }
+);
+
+export const listPlans = async (): Promise<PlanSummary[]> => {
+  const records = await runRequest<PlanRecord[]>(PLAN_STORE, 'readonly', store => store.getAll());
+  return records
+    .map(toSummary)
+    .sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+};
+
+export const getPlanRecord = async (id: string): Promise<PlanRecord | null> => {
+  const record = await runRequest<PlanRecord | undefined>(PLAN_STORE, 'readonly', store => store.get(id));
+  return record ?? null;
+};
+
+const putPlanRecord = async (record: PlanRecord) => {
+  await runRequest(PLAN_STORE, 'readwrite', store => store.put(record));
+};
+
+export const createPlanRecord = async (name: string, plan: PlanFile, thumbnail: string | null = null): Promise<PlanRecord> => {
+  const now = new Date().toISOString();
+  const record: PlanRecord = { id: generatePlanId(), name, createdAt: now, modifiedAt: now, thumbnail, plan };
+  await putPlanRecord(record);
+  return record;
+};
+
+/**
+ * Writes new content for an existing plan. Unchanged content is skipped so
+ * merely opening a plan does not bump its modified date; the thumbnail is only
+ * rendered when something is actually written. A plan deleted in the meantime
+ * is reported as `missing` and not written again.
+ */
+export const savePlanContent = async (
+  id: string,
+  plan: PlanFile,
+  renderThumbnail?: () => Promise<string | null>,
+): Promise<'saved' | 'unchanged' | 'missing'> => {
+  const record = await getPlanRecord(id);
+  if (!record) return 'missing';
+  const changed = JSON.stringify(record.plan) !== JSON.stringify(plan);
+  if (!changed && record.thumbnail) return 'unchanged';
+
+  const thumbnail = renderThumbnail ? await renderThumbnail() : null;
+  await putPlanRecord({
+    ...record,
+    plan,
+    thumbnail: thumbnail ?? record.thumbnail,
+    modifiedAt: changed ? new Date().toISOString() : record.modifiedAt,
+  });
+  return 'saved';
+};
+
+export const renamePlan = async (id: string, name: string): Promise<void> => {
+  const record = await getPlanRecord(id);
+  if (!record) return;
+  await putPlanRecord({ ...record, name, modifiedAt: new Date().toISOString() });
+};
+
+export const duplicatePlan = async (id: string): Promise<PlanRecord | null> => {
+  const record = await getPlanRecord(id);
+  if (!record) return null;
+  return createPlanRecord(`${record.name} (copy)`, record.plan, record.thumbnail);
+};
+
+export const getPlanHistory = async (id: string, plan: PlanData): Promise<PlanHistory | null> => {
+  const record = await runRequest<HistoryRecord | undefined>(HISTORY_STORE, 'readonly', store => store.get(id));
+  if (!record || record.fingerprint !== planFingerprint(plan)) return null;
+  return { entries: record.entries, index: record.index };
+};
+
+export const savePlanHistory = async (id: string, history: PlanHistory, plan: PlanData): Promise<void> => {
+  const record: HistoryRecord = { planId: id, entries: history.entries, index: history.index, fingerprint: planFingerprint(plan) };
+  await runRequest(HISTORY_STORE, 'readwrite', store => store.put(record));
+};
+
+/** Deletes a plan, its undo history and any stored image no other plan still references. */
+export const deletePlan = async (id: string): Promise<void> => {
+  const record = await getPlanRecord(id);
+  await runRequest(PLAN_STORE, 'readwrite', store => store.delete(id));
+  await runRequest(HISTORY_STORE, 'readwrite', store => store.delete(id));
+  const hash = record?.plan.image?.hash;
+  if (!hash) return;
+
+  const remaining = await runRequest<PlanRecord[]>(PLAN_STORE, 'readonly', store => store.getAll());
+  if (!remaining.some(other => other.plan.image?.hash === hash)) {
+    await deleteImage(hash);
+  }
+};
+
+/**
+ * Draws the thumbnail from a small copy of the map (see the map overview in
+ * App), so saving never decodes the full image; `imageSize` places the markers.
+ */
+export const createThumbnail = (overview: CanvasImageSource, imageSize: ImageSize, markers: Marker[]): string | null => {
+  const scale = THUMBNAIL_WIDTH / imageSize.width;
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = Math.max(1, Math.round(imageSize.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(overview, 0, 0, canvas.width, canvas.height);
+  markers.forEach(marker => {
+    ctx.fillStyle = marker.color || '#10b981';
+    ctx.beginPath();
+    ctx.arc(marker.position.x * scale, marker.position.y * scale, 2, 0, Math.PI * 2);
+    ctx.fill();
+  });
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
@@ -0,0 +1,742 @@
+import { MarkerStatus, PlanData, Point, SymbolShape } from '../types.ts';
+import { areaBoundsFromCircle, circleFromBounds, distance } from './geometry.ts';
+import { dataUrlToBlob, hashBlob } from './imageStore.ts';
+import { createLayer } from './layers.ts';
+import { DEFAULT_GRID } from './snapping.ts';
+import { SYMBOL_SHAPES } from './symbols.ts';
+import { DEFAULT_OVERLAYS, OVERLAY_KINDS, OVERLAY_POSITIONS } from './overlays.ts';
+
+// Bump this whenever the shape of the exported plan changes, and register a
+// migration from the previous version below.
+export const PLAN_SCHEMA_VERSION = 9;
+
+export interface PlanFile extends PlanData {
+  version: number;
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ImportReport {
+  sourceVersion: number;
+  targetVersion: number;
+  fixed: string[];
+  dropped: string[];
+}
+
+export class PlanImportError extends Error {
+  issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = 'PlanImportError';
+    this.issues = issues;
+  }
+}
+
+// Images that were embedded in the file (before v2) are handed back to the
+// caller keyed by hash so they can be moved into the image store.
+interface MigrationContext {
+  report: ImportReport;
+  images: Map<string, Blob>;
+}
+
+type Migration = (plan: any, context: MigrationContext) => any | Promise<any>;
+
+const MARKER_STATUSES: MarkerStatus[] = ['pending', 'completed', 'active'];
+const SYMBOL_KINDS = ['shape', 'icon', 'emoji'];
+const SHAPES: SymbolShape[] = SYMBOL_SHAPES.map(s => s.shape);
+
+const isObject = (value: unknown): value is Record<string, any> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown): value is Point => isObject(value) && isFiniteNumber(value.x) && isFiniteNumber(value.y);
+
+const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+const toOptionalString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (isFiniteNumber(value)) return String(value);
+  return undefined;
+};
+
+const toPoints = (raw: unknown): Point[] => (
+  Array.isArray(raw) ? raw.filter(isPoint).map(p => ({ x: p.x, y: p.y })) : []
+);
+
+// --- Migrations -------------------------------------------------------------
+
+// v0 -> v1: unversioned files written before the schema existed. Areas could be
+// stored as circles, bounding boxes or legacy polygons; markers and paths were
+// never checked, so fill in what can be recovered and leave the rest to the
+// validator.
+const migrateV0ToV1: Migration = (plan, { report }) => {
+  const markers = Array.isArray(plan.markers) ? plan.markers.map((item: any, index: number) => {
+    if (!isObject(item)) return item;
+    const marker = { ...item };
+    if (typeof marker.id !== 'string' || !marker.id) {
+      marker.id = generateId('marker');
+      report.fixed.push(`markers[${index}]: generated missing id`);
+    }
+    if (typeof marker.name !== 'string') {
+      marker.name = toOptionalString(marker.name) ?? 'Marker';
+      report.fixed.push(`markers[${index}].name: set to "${marker.name}"`);
+    }
+    if (isFiniteNumber(marker.number)) {
+      marker.number = String(marker.number);
+      report.fixed.push(`markers[${index}].number: converted to text`);
+    }
+    if (!MARKER_STATUSES.includes(marker.status)) {
+      marker.status = 'pending';
+      report.fixed.push(`markers[${index}].status: reset to "pending"`);
+    }
+    if (marker.linkedMarkerIds !== undefined && !Array.isArray(marker.linkedMarkerIds)) {
+      marker.linkedMarkerIds = [];
+      report.fixed.push(`markers[${index}].linkedMarkerIds: reset to an empty list`);
+    }
+    return marker;
+  }) : plan.markers;
+
+  const paths = Array.isArray(plan.paths) ? plan.paths.map((item: any, index: number) => {
+    if (!isObject(item)) return item;
+    const path = { ...item };
+    if (typeof path.id !== 'string' || !path.id) {
+      path.id = generateId('path');
+      report.fixed.push(`paths[${index}]: generated missing id`);
+    }
+    if (Array.isArray(path.points)) {
+      const points = toPoints(path.points);
+      if (points.length !== path.points.length) {
+        report.fixed.push(`paths[${index}].points: removed ${path.points.length - points.length} invalid point(s)`);
+      }
+      path.points = points;
+    }
+    return path;
+  }) : plan.paths;
+
+  const areas = Array.isArray(plan.areas) ? plan.areas.map((item: any, index: number) => {
+    if (!isObject(item)) return item;
+    const id = typeof item.id === 'string' && item.id ? item.id : generateId('area');
+    const name = typeof item.name === 'string' ? item.name : 'Area';
+    const number = toOptionalString(item.number);
+    const color = typeof item.color === 'string' ? item.color : undefined;
+
+    // Circle format
+    if (isPoint(item.center) && typeof item.radius === 'number') {
+      const radius = Number.isFinite(item.radius) ? Math.max(1, item.radius) : 1;
+      const center = { x: item.center.x, y: item.center.y };
+      return { id, name, number, color, center, radius, ...areaBoundsFromCircle(center, radius) };
+    }
+
+    // Bounds format
+    if (isPoint(item.topLeft) && isPoint(item.bottomRight)) {
+      const { center, radius } = circleFromBounds(item.topLeft, item.bottomRight);
+      report.fixed.push(`areas[${index}]: converted bounding box to circle`);
+      return { id, name, number, color, center, radius, ...areaBoundsFromCircle(center, radius) };
+    }
+
+    // Legacy format (polygon points) -> convert to circle (centroid + max distance)
+    const points = toPoints(item.points);
+    if (points.length) {
+      const center = {
+        x: points.reduce((acc, p) => acc + p.x, 0) / points.length,
+        y: points.reduce((acc, p) => acc + p.y, 0) / points.length,
+      };
+      const radius = Math.max(1, Math.max(...points.map(p => distance(center, p))));
+      report.fixed.push(`areas[${index}]: converted legacy polygon to circle`);
+      return { id, name, number, color, center, radius, ...areaBoundsFromCircle(center, radius) };
+    }
+
+    return item;
+  }) : [];
+
+  const polygonAreas = Array.isArray(plan.polygonAreas) ? plan.polygonAreas.map((item: any, index: number) => {
+    if (!isObject(item)) return item;
+    const area = { ...item };
+    if (typeof area.id !== 'string' || !area.id) {
+      area.id = generateId('poly-area');
+      report.fixed.push(`polygonAreas[${index}]: generated missing id`);
+    }
+    if (typeof area.name !== 'string') area.name = 'Polygon Area';
+    area.number = toOptionalString(area.number);
+    if (Array.isArray(area.points)) area.points = toPoints(area.points);
+    return area;
+  }) : [];
+
+  return { ...plan, version: 1, markers, paths, areas, polygonAreas };
+};
+
+// v1 -> v2: the map image moves out of the plan. The embedded data URL is
+// replaced by a reference to its content hash.
+const migrateV1ToV2: Migration = async (plan, { report, images }) => {
+  if (typeof plan.image !== 'string' || !plan.image.startsWith('data:')) {
+    return { ...plan, version: 2 };
+  }
+  const blob = await dataUrlToBlob(plan.image);
+  const hash = await hashBlob(blob);
+  images.set(hash, blob);
+  report.fixed.push(`image: moved embedded image out of the plan (${hash.slice(0, 12)})`);
+  return { ...plan, version: 2, image: { hash, mimeType: blob.type || 'application/octet-stream' } };
+};
+
+// v2 -> v3: layers. Everything that existed before goes onto a single layer.
+const migrateV2ToV3: Migration = (plan, { report }) => {
+  const layer = createLayer('Layer 1');
+  const assign = (items: unknown) => (
+    Array.isArray(items) ? items.map(item => (isObject(item) ? { ...item, layerId: layer.id } : item)) : items
+  );
+  report.fixed.push(`layers: put all elements on "${layer.name}"`);
+  return {
+    ...plan,
+    version: 3,
+    layers: [layer],
+    markers: assign(plan.markers),
+    paths: assign(plan.paths),
+    areas: assign(plan.areas),
+    polygonAreas: assign(plan.polygonAreas),
+  };
+};
+
+// v3 -> v4: real-world calibration. Older plans are uncalibrated (pixels).
+const migrateV3ToV4: Migration = plan => ({ ...plan, version: 4, calibration: null });
+
+// v4 -> v5: obstacle colour mask for routed paths, off by default.
+const migrateV4ToV5: Migration = plan => ({ ...plan, version: 5, obstacleMask: null });
+
+// v5 -> v6: grid overlay and snapping settings, saved per plan.
+const migrateV5ToV6: Migration = plan => ({ ...plan, version: 6, grid: DEFAULT_GRID });
+
+// v6 -> v7: symbol library for markers, empty for older plans.
+const migrateV6ToV7: Migration = plan => ({ ...plan, version: 7, symbols: [] });
+
+// v7 -> v8: legend and title block overlays; only the scale bar, which
+// exports always drew, starts out shown.
+const migrateV7ToV8: Migration = plan => ({ ...plan, version: 8, overlays: DEFAULT_OVERLAYS });
+
+// v8 -> v9: georeferencing by control points. Older plans have none.
+const migrateV8ToV9: Migration = plan => ({ ...plan, version: 9, georeference: null });
+
+// Keyed by the version a migration upgrades *from*.
+const migrations: Record<number, Migration> = {
+  0: migrateV0ToV1,
+  1: migrateV1ToV2,
+  2: migrateV2ToV3,
+  3: migrateV3ToV4,
+  4: migrateV4ToV5,
+  5: migrateV5ToV6,
+  6: migrateV6ToV7,
+  7: migrateV7ToV8,
+  8: migrateV8ToV9,
+};
+
+// --- Validation -------------------------------------------------------------
+
+const checkOptionalString = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (value !== undefined && typeof value !== 'string') {
+    issues.push({ path, message: 'must be text' });
+  }
+};
+
+const checkPoint = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (!isPoint(value)) {
+    issues.push({ path, message: 'must be a point with numeric x and y' });
+  }
+};
+
+const checkPointList = (issues: ValidationIssue[], value: unknown, path: string, minLength: number) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be a list of points' });
+    return;
+  }
+  if (value.length < minLength) {
+    issues.push({ path, message: `must have at least ${minLength} point(s)` });
+  }
+  value.forEach((p, i) => checkPoint(issues, p, `${path}[${i}]`));
+};
+
+const checkId = (issues: ValidationIssue[], value: unknown, path: string, seen: Set<string>) => {
+  if (typeof value !== 'string' || !value) {
+    issues.push({ path, message: 'must be a non-empty string' });
+    return;
+  }
+  if (seen.has(value)) {
+    issues.push({ path, message: `duplicate id "${value}"` });
+  }
+  seen.add(value);
+};
+
+const checkLayerId = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (typeof value !== 'string' || !value) {
+    issues.push({ path, message: 'must be a layer id' });
+  }
+};
+
+const validateCalibration = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (value === null) return;
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object or null' });
+    return;
+  }
+  if (!isFiniteNumber(value.scale) || value.scale <= 0) {
+    issues.push({ path: `${path}.scale`, message: 'must be a positive number' });
+  }
+  if (typeof value.unit !== 'string') {
+    issues.push({ path: `${path}.unit`, message: 'must be text' });
+  }
+  if (value.origin !== undefined) checkPoint(issues, value.origin, `${path}.origin`);
+  if (value.rotation !== undefined && !isFiniteNumber(value.rotation)) {
+    issues.push({ path: `${path}.rotation`, message: 'must be a number' });
+  }
+};
+
+const validateTransform = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (value === null) return;
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object or null' });
+    return;
+  }
+  if (value.order !== 1 && value.order !== 2) issues.push({ path: `${path}.order`, message: 'must be 1 or 2' });
+  checkPoint(issues, value.origin, `${path}.origin`);
+  if (!isFiniteNumber(value.scale) || value.scale <= 0) {
+    issues.push({ path: `${path}.scale`, message: 'must be a positive number' });
+  }
+  const terms = value.order === 2 ? 6 : 3;
+  ['x', 'y'].forEach(axis => {
+    const coefficients = value[axis];
+    if (!Array.isArray(coefficients) || coefficients.length !== terms || !coefficients.every(isFiniteNumber)) {
+      issues.push({ path: `${path}.${axis}`, message: `must be a list of ${terms} numbers` });
+    }
+  });
+};
+
+const validateGeoreference = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (value === null) return;
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object or null' });
+    return;
+  }
+  if (value.system !== 'lonlat' && value.system !== 'world') {
+    issues.push({ path: `${path}.system`, message: 'must be "lonlat" or "world"' });
+  }
+  if (typeof value.unit !== 'string') issues.push({ path: `${path}.unit`, message: 'must be text' });
+  if (value.method !== 'affine' && value.method !== 'polynomial') {
+    issues.push({ path: `${path}.method`, message: 'must be "affine" or "polynomial"' });
+  }
+  if (!Array.isArray(value.controlPoints)) {
+    issues.push({ path: `${path}.controlPoints`, message: 'must be a list' });
+  } else {
+    value.controlPoints.forEach((point, i) => {
+      const pointPath = `${path}.controlPoints[${i}]`;
+      if (!isObject(point) || typeof point.id !== 'string') {
+        issues.push({ path: pointPath, message: 'must have an id' });
+        return;
+      }
+      checkPoint(issues, point.pixel, `${pointPath}.pixel`);
+      checkPoint(issues, point.world, `${pointPath}.world`);
+    });
+  }
+  validateTransform(issues, value.toWorld, `${path}.toWorld`);
+  validateTransform(issues, value.toPixel, `${path}.toPixel`);
+};
+
+const validateObstacleMask = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (value === null) return;
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object or null' });
+    return;
+  }
+  if (typeof value.color !== 'string') issues.push({ path: `${path}.color`, message: 'must be text' });
+  if (!isFiniteNumber(value.tolerance) || value.tolerance < 0) {
+    issues.push({ path: `${path}.tolerance`, message: 'must be a non-negative number' });
+  }
+};
+
+const validateGrid = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  ['visible', 'snapToGrid', 'snapToElements'].forEach(key => {
+    if (typeof value[key] !== 'boolean') issues.push({ path: `${path}.${key}`, message: 'must be true or false' });
+  });
+  if (!isFiniteNumber(value.size) || value.size <= 0) {
+    issues.push({ path: `${path}.size`, message: 'must be a positive number' });
+  }
+  if (typeof value.color !== 'string') issues.push({ path: `${path}.color`, message: 'must be text' });
+};
+
+const OVERLAY_TEXT_FIELDS: Record<string, string[]> = {
+  title: ['text', 'date'],
+  legend: ['heading'],
+  notes: ['text'],
+};
+
+const validateOverlays = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  const positions = OVERLAY_POSITIONS.map(p => p.position);
+  OVERLAY_KINDS.forEach(kind => {
+    const overlay = value[kind];
+    const overlayPath = `${path}.${kind}`;
+    if (!isObject(overlay)) {
+      issues.push({ path: overlayPath, message: 'must be an object' });
+      return;
+    }
+    if (typeof overlay.visible !== 'boolean') issues.push({ path: `${overlayPath}.visible`, message: 'must be true or false' });
+    if (!positions.includes(overlay.position)) {
+      issues.push({ path: `${overlayPath}.position`, message: `must be one of ${positions.join(', ')}` });
+    }
+    (OVERLAY_TEXT_FIELDS[kind] ?? []).forEach(key => {
+      if (typeof overlay[key] !== 'string') issues.push({ path: `${overlayPath}.${key}`, message: 'must be text' });
+    });
+  });
+  const names = value.legend?.names;
+  if (!isObject(names) || Object.values(names).some(name => typeof name !== 'string')) {
+    issues.push({ path: `${path}.legend.names`, message: 'must map legend entries to text' });
+  }
+  if (!isFiniteNumber(value.northArrow?.rotation)) {
+    issues.push({ path: `${path}.northArrow.rotation`, message: 'must be a number' });
+  }
+};
+
+const checkOptionalBoolean = (issues: ValidationIssue[], value: unknown, path: string) => {
+  if (value !== undefined && typeof value !== 'boolean') {
+    issues.push({ path, message: 'must be true or false' });
+  }
+};
+
+const validateLayer = (issues: ValidationIssue[], item: unknown, path: string, ids: Set<string>) => {
+  if (!isObject(item)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkId(issues, item.id, `${path}.id`, ids);
+  if (typeof item.name !== 'string') issues.push({ path: `${path}.name`, message: 'must be text' });
+  if (typeof item.visible !== 'boolean') issues.push({ path: `${path}.visible`, message: 'must be true or false' });
+  if (typeof item.locked !== 'boolean') issues.push({ path: `${path}.locked`, message: 'must be true or false' });
+  if (!isFiniteNumber(item.opacity) || item.opacity < 0 || item.opacity > 1) {
+    issues.push({ path: `${path}.opacity`, message: 'must be a number between 0 and 1' });
+  }
+};
+
+const validateSymbol = (issues: ValidationIssue[], item: unknown, path: string, ids: Set<string>) => {
+  if (!isObject(item)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkId(issues, item.id, `${path}.id`, ids);
+  if (typeof item.name !== 'string') issues.push({ path: `${path}.name`, message: 'must be text' });
+  if (!SYMBOL_KINDS.includes(item.kind)) {
+    issues.push({ path: `${path}.kind`, message: `must be one of ${SYMBOL_KINDS.join(', ')}` });
+  } else if (item.kind === 'shape' && !SHAPES.includes(item.shape)) {
+    issues.push({ path: `${path}.shape`, message: `must be one of ${SHAPES.join(', ')}` });
+  } else if (item.kind === 'icon' && (typeof item.src !== 'string' || !item.src.startsWith('data:image/'))) {
+    issues.push({ path: `${path}.src`, message: 'must be an image data URL' });
+  } else if (item.kind === 'emoji' && (typeof item.emoji !== 'string' || !item.emoji)) {
+    issues.push({ path: `${path}.emoji`, message: 'must be non-empty text' });
+  }
+  if (!isFiniteNumber(item.size) || item.size <= 0) {
+    issues.push({ path: `${path}.size`, message: 'must be a positive number' });
+  }
+  if (!isFiniteNumber(item.rotation)) issues.push({ path: `${path}.rotation`, message: 'must be a number' });
+};
+
+const validateMarker = (issues: ValidationIssue[], item: unknown, path: string, ids: Set<string>) => {
+  if (!isObject(item)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkId(issues, item.id, `${path}.id`, ids);
+  checkLayerId(issues, item.layerId, `${path}.layerId`);
+  if (typeof item.name !== 'string') issues.push({ path: `${path}.name`, message: 'must be text' });
+  checkOptionalString(issues, item.number, `${path}.number`);
+  checkOptionalString(issues, item.area, `${path}.area`);
+  checkOptionalString(issues, item.color, `${path}.color`);
+  checkPoint(issues, item.position, `${path}.position`);
+  if (!MARKER_STATUSES.includes(item.status)) {
+    issues.push({ path: `${path}.status`, message: `must be one of ${MARKER_STATUSES.join(', ')}` });
+  }
+  checkOptionalString(issues, item.symbolId, `${path}.symbolId`);
+  if (item.symbolSize !== undefined && (!isFiniteNumber(item.symbolSize) || item.symbolSize <= 0)) {
+    issues.push({ path: `${path}.symbolSize`, message: 'must be a positive number' });
+  }
+  if (item.symbolRotation !== undefined && !isFiniteNumber(item.symbolRotation)) {
+    issues.push({ path: `${path}.symbolRotation`, message: 'must be a number' });
+  }
+  if (item.linkedMarkerIds !== undefined) {
+    if (!Array.isArray(item.linkedMarkerIds) || item.linkedMarkerIds.some((id: unknown) => typeof id !== 'string')) {
+      issues.push({ path: `${path}.linkedMarkerIds`, message: 'must be a list of marker ids' });
+    }
+  }
+};
+
+const validatePath = (issues: ValidationIssue[], item: unknown, path: string, ids: Set<string>) => {
+  if (!isObject(item)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkId(issues, item.id, `${path}.id`, ids);
+  checkLayerId(issues, item.layerId, `${path}.layerId`);
+  checkPointList(issues, item.points, `${path}.points`, 1);
+  checkOptionalString(issues, item.color, `${path}.color`);
+  checkOptionalBoolean(issues, item.routed, `${path}.routed`);
+  if (item.linkedMarkers !== undefined) {
+    const link = item.linkedMarkers;
+    if (!isObject(link) || typeof link.startId !== 'string' || typeof link.endId !== 'string') {
+      issues.push({ path: `${path}.linkedMarkers`, message: 'must have startId and endId' });
+    }
+  }
+};
+
+const validateArea = (issues: ValidationIssue[], item: unknown, path: string, ids: Set<string>) => {
+  if (!isObject(item)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkId(issues, item.id, `${path}.id`, ids);
+  checkLayerId(issues, item.layerId, `${path}.layerId`);
+  if (typeof item.name !== 'string') issues.push({ path: `${path}.name`, message: 'must be text' });
+  checkOptionalString(issues, item.number, `${path}.number`);
+  checkOptionalString(issues, item.color, `${path}.color`);
+  checkPoint(issues, item.center, `${path}.center`);
+  if (!isFiniteNumber(item.radius) || item.radius <= 0) {
+    issues.push({ path: `${path}.radius`, message: 'must be a positive number' });
+  }
+  checkPoint(issues, item.topLeft, `${path}.topLeft`);
+  checkPoint(issues, item.bottomRight, `${path}.bottomRight`);
+};
+
+const validatePolygonArea = (issues: ValidationIssue[], item: unknown, path: string, ids: Set<string>) => {
+  if (!isObject(item)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkId(issues, item.id, `${path}.id`, ids);
+  checkLayerId(issues, item.layerId, `${path}.layerId`);
+  if (typeof item.name !== 'string') issues.push({ path: `${path}.name`, message: 'must be text' });
+  checkOptionalString(issues, item.number, `${path}.number`);
+  checkOptionalString(issues, item.color, `${path}.color`);
+  checkPointList(issues, item.points, `${path}.points`, 1);
+  checkOptionalBoolean(issues, item.obstacle, `${path}.obstacle`);
+};
+
+const validateList = (
+  issues: ValidationIssue[],
+  value: unknown,
+  key: string,
+  validateItem: (issues: ValidationIssue[], item: unknown, path: string, ids: Set<string>) => void,
+) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path: key, message: 'must be a list' });
+    return;
+  }
+  const ids = new Set<string>();
+  value.forEach((item, index) => validateItem(issues, item, `${key}[${index}]`, ids));
+};
+
+/**
+ * Checks a plan against the current schema version. Each issue carries the
+ * field path it was found at (e.g. `markers[3].position.x`), so callers can
+ * either report it or drop the offending element.
+ */
+export const validatePlan = (raw: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(raw)) {
+    issues.push({ path: '', message: 'plan must be a JSON object' });
+    return issues;
+  }
+
+  if (raw.version !== PLAN_SCHEMA_VERSION) {
+    issues.push({ path: 'version', message: `must be ${PLAN_SCHEMA_VERSION}` });
+  }
+  if (!isObject(raw.image)) {
+    issues.push({ path: 'image', message: 'must reference a map image' });
+  } else {
+    if (typeof raw.image.hash !== 'string' || !/^[0-9a-f]{64}$/.test(raw.image.hash)) {
+      issues.push({ path: 'image.hash', message: 'must be a SHA-256 hex digest' });
+    }
+    if (typeof raw.image.mimeType !== 'string' || !raw.image.mimeType.startsWith('image/')) {
+      issues.push({ path: 'image.mimeType', message: 'must be an image MIME type' });
+    }
+  }
+  validateCalibration(issues, raw.calibration, 'calibration');
+  validateGeoreference(issues, raw.georeference, 'georeference');
+  validateObstacleMask(issues, raw.obstacleMask, 'obstacleMask');
+  validateGrid(issues, raw.grid, 'grid');
+  validateOverlays(issues, raw.overlays, 'overlays');
+  issues.push(...validateSymbols(raw.symbols));
+  validateList(issues, raw.layers, 'layers', validateLayer);
+  issues.push(...validateElements(raw));
+
+  return issues;
+};
+
+/** Checks a symbol library, as stored in a plan or carried along with pasted markers. */
+export const validateSymbols = (raw: unknown): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  validateList(issues, raw, 'symbols', validateSymbol);
+  return issues;
+};
+
+/** Checks the element lists of a plan, or of anything shaped like one (e.g. pasted elements). */
+export const validateElements = (raw: Record<string, unknown>): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  validateList(issues, raw.markers, 'markers', validateMarker);
+  validateList(issues, raw.paths, 'paths', validatePath);
+  validateList(issues, raw.areas, 'areas', validateArea);
+  validateList(issues, raw.polygonAreas, 'polygonAreas', validatePolygonArea);
+  return issues;
+};
+
+// --- Import / export --------------------------------------------------------
+
+const ELEMENT_PATH = /^(symbols|layers|markers|paths|areas|polygonAreas)\[(\d+)\]/;
+// Plan settings that fall back to a default rather than failing the import
+const SETTING_PATH = /^(calibration|georeference|obstacleMask|grid|overlays)\b/;
+const SETTING_DEFAULTS: Record<string, unknown> = { calibration: null, georeference: null, obstacleMask: null, grid: DEFAULT_GRID, overlays: DEFAULT_OVERLAYS };
+
+const dropInvalidElements = (plan: any, issues: ValidationIssue[], report: ImportReport): ValidationIssue[] => {
+  const fatal: ValidationIssue[] = [];
+  const invalid: Record<string, Map<number, string>> = {};
+
+  for (const issue of issues) {
+    const setting = issue.path.match(SETTING_PATH);
+    if (setting) {
+      const key = setting[1];
+      if (plan[key] !== SETTING_DEFAULTS[key]) report.dropped.push(`${key}: ${issue.path} ${issue.message}`);
+      plan[key] = SETTING_DEFAULTS[key];
+      continue;
+    }
+    const match = issue.path.match(ELEMENT_PATH);
+    if (!match) {
+      fatal.push(issue);
+      continue;
+    }
+    const [, key, index] = match;
+    invalid[key] ??= new Map();
+    if (!invalid[key].has(Number(index))) {
+      invalid[key].set(Number(index), `${issue.path} ${issue.message}`);
+    }
+  }
+
+  for (const [key, entries] of Object.entries(invalid)) {
+    entries.forEach(reason => report.dropped.push(reason));
+    plan[key] = plan[key].filter((_: unknown, index: number) => !entries.has(index));
+  }
+
+  return fatal;
+};
+
+const removeDanglingLinks = (plan: PlanFile, report: ImportReport) => {
+  const markerIds = new Set(plan.markers.map(m => m.id));
+
+  plan.markers = plan.markers.map((marker, index) => {
+    if (!marker.linkedMarkerIds) return marker;
+    const linkedMarkerIds = marker.linkedMarkerIds.filter(id => markerIds.has(id));
+    if (linkedMarkerIds.length === marker.linkedMarkerIds.length) return marker;
+    report.fixed.push(`markers[${index}].linkedMarkerIds: removed ${marker.linkedMarkerIds.length - linkedMarkerIds.length} link(s) to missing markers`);
+    return { ...marker, linkedMarkerIds };
+  });
+
+  const symbolIds = new Set(plan.symbols.map(s => s.id));
+  plan.markers = plan.markers.map((marker, index) => {
+    if (!marker.symbolId || symbolIds.has(marker.symbolId)) return marker;
+    report.fixed.push(`markers[${index}].symbolId: reset to the classic marker (missing symbol)`);
+    return { ...marker, symbolId: undefined };
+  });
+
+  plan.paths = plan.paths.filter((path, index) => {
+    if (!path.linkedMarkers) return true;
+    const { startId, endId } = path.linkedMarkers;
+    if (markerIds.has(startId) && markerIds.has(endId)) return true;
+    report.dropped.push(`paths[${index}] links to a missing marker`);
+    return false;
+  });
+};
+
+// Elements must sit on an existing layer; strays go to the bottom layer.
+const assignOrphanedElements = (plan: PlanFile, report: ImportReport) => {
+  if (!plan.layers.length) {
+    plan.layers = [createLayer('Layer 1')];
+    report.fixed.push(`layers: added "${plan.layers[0].name}"`);
+  }
+  const layerIds = new Set(plan.layers.map(l => l.id));
+  const fallback = plan.layers[0];
+
+  const reassign = <T extends { layerId: string }>(items: T[], key: string) => items.map((item, index) => {
+    if (layerIds.has(item.layerId)) return item;
+    report.fixed.push(`${key}[${index}].layerId: moved to layer "${fallback.name}"`);
+    return { ...item, layerId: fallback.id };
+  });
+
+  plan.markers = reassign(plan.markers, 'markers');
+  plan.paths = reassign(plan.paths, 'paths');
+  plan.areas = reassign(plan.areas, 'areas');
+  plan.polygonAreas = reassign(plan.polygonAreas, 'polygonAreas');
+};
+
+/**
+ * Upgrades a parsed plan file to the current schema version, drops elements
+ * that still fail validation and returns the result alongside a report of
+ * everything that was changed. Images that older versions embedded are
+ * returned in `images`. Throws a PlanImportError when the plan itself (rather
+ * than one of its elements) cannot be used.
+ */
+export const importPlan = async (raw: unknown): Promise<{ plan: PlanFile; report: ImportReport; images: Map<string, Blob> }> => {
+  if (!isObject(raw)) {
+    throw new PlanImportError('Plan file must contain a JSON object.');
+  }
+
+  const sourceVersion = isFiniteNumber(raw.version) ? raw.version : 0;
+  if (sourceVersion > PLAN_SCHEMA_VERSION) {
+    throw new PlanImportError(`Plan was saved by a newer version of Map Planner (schema ${sourceVersion}).`);
+  }
+
+  const report: ImportReport = { sourceVersion, targetVersion: PLAN_SCHEMA_VERSION, fixed: [], dropped: [] };
+  const images = new Map<string, Blob>();
+  let plan: any = { ...raw };
+  for (let version = sourceVersion; version < PLAN_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new PlanImportError(`No migration from plan schema ${version}.`);
+    }
+    plan = await migrate(plan, { report, images });
+  }
+
+  const fatal = dropInvalidElements(plan, validatePlan(plan), report);
+  if (fatal.length) {
+    throw new PlanImportError('Invalid plan file format.', fatal);
+  }
+
+  const result = plan as PlanFile;
+  assignOrphanedElements(result, report);
+  removeDanglingLinks(result, report);
+  return { plan: result, report, images };
+};
+
+export const serializePlan = (data: PlanData): PlanFile => ({
+  version: PLAN_SCHEMA_VERSION,
+  image: data.image,
+  calibration: data.calibration,
+  georeference: data.georeference,
+  obstacleMask: data.obstacleMask,
+  grid: data.grid,
+  overlays: data.overlays,
+  symbols: data.symbols,
+  layers: data.layers,
+  markers: data.markers,
+  paths: data.paths,
+  areas: data.areas,
+  polygonAreas: data.polygonAreas,
+});
+
+export const formatIssues = (issues: ValidationIssue[]) => (
+  issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('\n')
+);
@@ -0,0 +1,117 @@
+import { Area, Layer, Marker, MarkerStatus, Path, PolygonArea } from '../types.ts';
+import { polygonArea, polygonPerimeter, polylineLength } from './geometry.ts';
+
+// All measurements are in pixels (square pixels for areas); format them with
+// the helpers in units.ts to show them in the plan's calibrated unit.
+
+export interface Measure {
+  count: number;
+  length: number; // path length
+  area: number;
+  perimeter: number;
+}
+
+export interface LayerStats extends Measure {
+  layerId: string;
+  name: string;
+  markers: number;
+  paths: number;
+}
+
+export interface AreaNumberStats extends Measure {
+  number: string;
+}
+
+export interface StatusStats {
+  status: MarkerStatus;
+  count: number;
+  // Length of the linked paths that start at markers with this status
+  routeLength: number;
+}
+
+export interface PlanStats {
+  totals: LayerStats;
+  byLayer: LayerStats[];
+  byAreaNumber: AreaNumberStats[];
+  byStatus: StatusStats[];
+}
+
+interface StatsInput {
+  layers: Layer[];
+  markers: Marker[];
+  paths: Path[];
+  areas: Area[];
+  polygonAreas: PolygonArea[];
+}
+
+export const pathStats = (path: Path) => ({
+  length: polylineLength(path.points),
+  segments: Math.max(0, path.points.length - 1),
+});
+
+export const areaStats = (area: Area) => ({
+  area: Math.PI * area.radius * area.radius,
+  perimeter: 2 * Math.PI * area.radius,
+});
+
+export const polygonAreaStats = (area: PolygonArea) => ({
+  area: polygonArea(area.points),
+  perimeter: polygonPerimeter(area.points),
+});
+
+const emptyLayerStats = (layerId: string, name: string): LayerStats => (
+  { layerId, name, markers: 0, paths: 0, count: 0, length: 0, area: 0, perimeter: 0 }
+);
+
+const STATUS_ORDER: MarkerStatus[] = ['pending', 'active', 'completed'];
+
+/** Adds up path lengths and area sizes per layer, per area number and per marker status. */
+export const computePlanStats = ({ layers, markers, paths, areas, polygonAreas }: StatsInput): PlanStats => {
+  const totals = emptyLayerStats('', 'Total');
+  const byLayer = new Map(layers.map(layer => [layer.id, emptyLayerStats(layer.id, layer.name)]));
+  const byAreaNumber = new Map<string, AreaNumberStats>();
+  const statusOf = new Map(markers.map(m => [m.id, m.status]));
+  const byStatus = new Map(STATUS_ORDER.map(status => [status, { status, count: 0, routeLength: 0 }]));
+
+  const layerTargets = (layerId: string) => [totals, byLayer.get(layerId)].filter((s): s is LayerStats => !!s);
+
+  markers.forEach(marker => {
+    layerTargets(marker.layerId).forEach(s => { s.markers += 1; });
+    const status = byStatus.get(marker.status);
+    if (status) status.count += 1;
+  });
+
+  paths.forEach(path => {
+    const { length } = pathStats(path);
+    layerTargets(path.layerId).forEach(s => {
+      s.paths += 1;
+      s.length += length;
+    });
+    const startStatus = path.linkedMarkers ? statusOf.get(path.linkedMarkers.startId) : undefined;
+    const status = startStatus ? byStatus.get(startStatus) : undefined;
+    if (status) status.routeLength += length;
+  });
+
+  const addArea = (item: Area | PolygonArea, measure: { area: number; perimeter: number }) => {
+    const targets: Measure[] = layerTargets(item.layerId);
+    const number = item.number || '';
+    if (number) {
+      if (!byAreaNumber.has(number)) byAreaNumber.set(number, { number, count: 0, length: 0, area: 0, perimeter: 0 });
+      targets.push(byAreaNumber.get(number)!);
+    }
+    targets.forEach(s => {
+      s.count += 1;
+      s.area += measure.area;
+      s.perimeter += measure.perimeter;
+    });
+  };
+  areas.forEach(area => addArea(area, areaStats(area)));
+  polygonAreas.forEach(area => addArea(area, polygonAreaStats(area)));
+
+  return {
+    totals,
+    byLayer: [...byLayer.values()].reverse(), // top layer first, as in the layers panel
+    byAreaNumber: [...byAreaNumber.values()].sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true })),
+    byStatus: [...byStatus.values()],
+  };
+};
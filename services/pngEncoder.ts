@@ -0,0 +1,76 @@
+// Streaming PNG encoder for images too large for one canvas. Rows of RGBA
+// pixels are added a strip at a time and deflated with the browser's
+// CompressionStream, so only the compressed output is kept in memory.
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (parts: Uint8Array[]) => {
+  let crc = 0xffffffff;
+  for (const part of parts) {
+    for (let i = 0; i < part.length; i++) crc = CRC_TABLE[(crc ^ part[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const uint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+// A chunk as blob parts: length, type, data, CRC of type and data
+const chunk = (type: string, data: Uint8Array[]): Uint8Array[] => {
+  const typeBytes = new TextEncoder().encode(type);
+  const length = data.reduce((sum, part) => sum + part.length, 0);
+  return [uint32(length), typeBytes, ...data, uint32(crc32([typeBytes, ...data]))];
+};
+
+export interface PngEncoder {
+  /** Adds the next `rows.length / (width * 4)` rows, top to bottom. */
+  addRows: (rows: Uint8ClampedArray) => Promise<void>;
+  finish: () => Promise<Blob>;
+}
+
+export const createPngEncoder = (width: number, height: number): PngEncoder => {
+  const stream = new CompressionStream('deflate');
+  const writer = stream.writable.getWriter();
+  const compressed = new Response(stream.readable).arrayBuffer();
+  const rowBytes = width * 4;
+  let rowsWritten = 0;
+
+  return {
+    addRows: async rows => {
+      const count = rows.length / rowBytes;
+      // Every scanline starts with its filter type; 0 leaves the bytes as they are
+      const filtered = new Uint8Array(count * (rowBytes + 1));
+      for (let row = 0; row < count; row++) {
+        filtered.set(rows.subarray(row * rowBytes, (row + 1) * rowBytes), row * (rowBytes + 1) + 1);
+      }
+      rowsWritten += count;
+      await writer.write(filtered);
+    },
+    finish: async () => {
+      if (rowsWritten !== height) throw new Error(`PNG has ${rowsWritten} of ${height} rows.`);
+      await writer.close();
+      const data = new Uint8Array(await compressed);
+
+      const header = new Uint8Array(13);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, width);
+      view.setUint32(4, height);
+      header[8] = 8; // bit depth
+      header[9] = 6; // colour type: RGBA
+      return new Blob([PNG_SIGNATURE, ...chunk('IHDR', [header]), ...chunk('IDAT', [data]), ...chunk('IEND', [])], { type: 'image/png' });
+    },
+  };
+};
@@ -0,0 +1,183 @@
+import { ImageSize } from './geometry.ts';
+import { createPngEncoder } from './pngEncoder.ts';
+import { Bounds } from './selection.ts';
+import { Region, SvgExportOptions, SvgExportPlan, buildPlanSvg, layoutExport } from './svgExport.ts';
+
+// Image export of the whole plan or part of it, at any scale. PNG is built in
+// chunks: no canvas ever holds the whole image, so exports work past the
+// browser's canvas size limit. Each chunk draws the map underneath (from tiles
+// or the image) and the plan's SVG cut to the chunk on top, and finished strips
+// of rows are streamed into the PNG encoder. JPEG and WebP come from the
+// browser's encoders and need the image to fit one canvas.
+
+// Draws the map under `region` onto a canvas whose origin is the region's corner
+export type DrawMap = (ctx: CanvasRenderingContext2D, region: Region) => Promise<void>;
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+// What is drawn: the map with the plan on top, or just one of them
+export type ExportContents = 'all' | 'map' | 'annotations';
+
+export interface ImageExportOptions {
+  // Part of the image to export, in image pixels
+  region: Region;
+  // Output pixels per image pixel
+  scale: number;
+  contents: ExportContents;
+  // Leaves the background clear instead of white where nothing is drawn (not for JPEG)
+  transparent: boolean;
+  format: ImageFormat;
+  // JPEG and WebP quality, 0..1
+  quality: number;
+}
+
+export const IMAGE_FORMATS: { format: ImageFormat; label: string; mime: string; extension: string }[] = [
+  { format: 'png', label: 'PNG', mime: 'image/png', extension: 'png' },
+  { format: 'jpeg', label: 'JPEG', mime: 'image/jpeg', extension: 'jpg' },
+  { format: 'webp', label: 'WebP', mime: 'image/webp', extension: 'webp' },
+];
+
+export const MIN_EXPORT_SCALE = 0.25;
+export const MAX_EXPORT_SCALE = 4;
+
+// Largest canvas browsers reliably allocate, for the formats drawn in one piece
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384;
+
+const CHUNK_WIDTH = 4096;
+// Matches the tile size, so each map tile is read once
+const STRIP_HEIGHT = 512;
+
+/** `bounds` grown by `padding` on every side and cut to the image, in whole pixels. */
+export const regionAround = (bounds: Bounds, padding: number, size: ImageSize): Region => {
+  const x = Math.max(0, Math.floor(bounds.minX - padding));
+  const y = Math.max(0, Math.floor(bounds.minY - padding));
+  const right = Math.min(size.width, Math.ceil(bounds.maxX + padding));
+  const bottom = Math.min(size.height, Math.ceil(bounds.maxY + padding));
+  return { x, y, width: Math.max(1, right - x), height: Math.max(1, bottom - y) };
+};
+
+export const exportOutputSize = (options: Pick<ImageExportOptions, 'region' | 'scale'>): ImageSize => ({
+  width: Math.max(1, Math.round(options.region.width * options.scale)),
+  height: Math.max(1, Math.round(options.region.height * options.scale)),
+});
+
+/** Why an export can't be made as chosen, or null when it can. */
+export const imageExportProblem = (options: ImageExportOptions): string | null => {
+  const { width, height } = exportOutputSize(options);
+  if (options.format !== 'png' && (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_AREA)) {
+    return `${width} x ${height} px is too large for ${options.format.toUpperCase()}; choose PNG or a smaller scale.`;
+  }
+  return null;
+};
+
+export const loadSvg = (svg: string): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to render the plan overlay.'));
+    img.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+};
+
+/**
+ * Draws one region of the plan onto `canvas`, scaled to the canvas size: the
+ * map first, then the plan's SVG at the same scale. Used for exports made of
+ * separate pieces, such as PDF pages and PNG chunks.
+ */
+export const renderPlanRegion = async (
+  canvas: HTMLCanvasElement,
+  plan: SvgExportPlan,
+  options: Omit<SvgExportOptions, 'imageHref' | 'region' | 'outputSize'>,
+  drawMap: DrawMap,
+  region: Region,
+  look: Pick<ImageExportOptions, 'contents' | 'transparent'> = { contents: 'all', transparent: false },
+): Promise<void> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to prepare export canvas.');
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (!look.transparent) {
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  if (look.contents !== 'annotations') {
+    ctx.save();
+    ctx.scale(canvas.width / region.width, canvas.height / region.height);
+    await drawMap(ctx, region);
+    ctx.restore();
+  }
+  if (look.contents !== 'map') {
+    const outputSize = { width: canvas.width, height: canvas.height };
+    ctx.drawImage(await loadSvg(buildPlanSvg(plan, { ...options, region, outputSize })), 0, 0);
+  }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mime: string, quality: number): Promise<Blob> => new Promise((resolve, reject) => {
+  canvas.toBlob(blob => {
+    if (blob && blob.type === mime) resolve(blob);
+    else reject(new Error(`This browser cannot encode ${mime}.`));
+  }, mime, quality);
+});
+
+export const renderPlanImage = async (
+  plan: SvgExportPlan,
+  options: Omit<SvgExportOptions, 'imageHref' | 'region' | 'outputSize' | 'layout' | 'frame'>,
+  image: ImageExportOptions,
+  drawMap: DrawMap,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> => {
+  const problem = imageExportProblem(image);
+  if (problem) throw new Error(problem);
+  const { region, scale } = image;
+  const { width, height } = exportOutputSize(image);
+  const look = { contents: image.contents, transparent: image.transparent && image.format !== 'jpeg' };
+  const canvas = document.createElement('canvas');
+  if (!canvas.getContext('2d', { willReadFrequently: image.format === 'png' })) throw new Error('Failed to prepare export canvas.');
+
+  // Labels are placed once for the whole plan, so they line up across chunks;
+  // overlays go in the corners of the exported part
+  const layout = layoutExport(plan, { ...options, frame: region });
+  // Part of the image behind a piece of the output
+  const source = (x: number, y: number, w: number, h: number): Region => ({
+    x: region.x + (x * region.width) / width,
+    y: region.y + (y * region.height) / height,
+    width: (w * region.width) / width,
+    height: (h * region.height) / height,
+  });
+
+  if (image.format !== 'png') {
+    canvas.width = width;
+    canvas.height = height;
+    await renderPlanRegion(canvas, plan, { ...options, layout }, drawMap, region, look);
+    onProgress?.(1, 1);
+    const { mime } = IMAGE_FORMATS.find(f => f.format === image.format)!;
+    return canvasToBlob(canvas, mime, image.quality);
+  }
+
+  const encoder = createPngEncoder(width, height);
+  const ctx = canvas.getContext('2d')!;
+  const strips = Math.ceil(height / STRIP_HEIGHT);
+  for (let strip = 0; strip < strips; strip++) {
+    const y = strip * STRIP_HEIGHT;
+    const stripHeight = Math.min(STRIP_HEIGHT, height - y);
+    const rows = new Uint8ClampedArray(width * stripHeight * 4);
+
+    for (let x = 0; x < width; x += CHUNK_WIDTH) {
+      const chunkWidth = Math.min(CHUNK_WIDTH, width - x);
+      canvas.width = chunkWidth;
+      canvas.height = stripHeight;
+      await renderPlanRegion(canvas, plan, { ...options, layout }, drawMap, source(x, y, chunkWidth, stripHeight), look);
+
+      const pixels = ctx.getImageData(0, 0, chunkWidth, stripHeight).data;
+      for (let row = 0; row < stripHeight; row++) {
+        rows.set(pixels.subarray(row * chunkWidth * 4, (row + 1) * chunkWidth * 4), (row * width + x) * 4);
+      }
+    }
+
+    await encoder.addRows(rows);
+    onProgress?.(strip + 1, strips);
+  }
+
+  return encoder.finish();
+};
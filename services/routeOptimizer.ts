@@ -0,0 +1,155 @@
+import { Point } from '../types.ts';
+import { distance } from './geometry.ts';
+
+export interface RouteOptions {
+  startId?: string;
+  endId?: string;
+  // Close the loop back to the start; the end marker is ignored then.
+  returnToStart: boolean;
+}
+
+export interface RouteStop {
+  id: string;
+  position: Point;
+}
+
+export interface RouteResult {
+  // Visiting order; a round trip does not repeat the start at the end.
+  order: string[];
+  length: number;
+}
+
+const MAX_IMPROVEMENT_PASSES = 50;
+
+const routeLength = (stops: RouteStop[], closed: boolean) => {
+  let length = 0;
+  for (let i = 1; i < stops.length; i++) length += distance(stops[i - 1].position, stops[i].position);
+  if (closed && stops.length > 1) length += distance(stops[stops.length - 1].position, stops[0].position);
+  return length;
+};
+
+const centre = (stops: RouteStop[]): Point => ({
+  x: stops.reduce((sum, s) => sum + s.position.x, 0) / stops.length,
+  y: stops.reduce((sum, s) => sum + s.position.y, 0) / stops.length,
+});
+
+const farthestFrom = (point: Point, stops: RouteStop[]) => stops.reduce((best, s) => (
+  distance(point, s.position) > distance(point, best.position) ? s : best
+));
+
+const nearestNeighbour = (first: RouteStop, rest: RouteStop[]) => {
+  const route = [first];
+  const remaining = [...rest];
+  let current = first;
+  while (remaining.length) {
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    remaining.forEach((stop, index) => {
+      const d = distance(current.position, stop.position);
+      if (d < bestDistance) {
+        bestDistance = d;
+        bestIndex = index;
+      }
+    });
+    current = remaining.splice(bestIndex, 1)[0];
+    route.push(current);
+  }
+  return route;
+};
+
+// Stands first in an open route without a chosen start, so the real first
+// stop can move like any other; it is as far from every stop as nothing.
+const FREE_START: RouteStop = { id: '', position: { x: 0, y: 0 } };
+
+// The first stop (and the last, when `fixedEnd`) never moves. A missing
+// neighbour past a free end costs nothing.
+const gap = (a: RouteStop | undefined, b: RouteStop | undefined) => (
+  a && b && a !== FREE_START && b !== FREE_START ? distance(a.position, b.position) : 0
+);
+
+// 2-opt: reversing route[i..j] swaps edges (i-1, i) and (j, j+1) for (i-1, j) and (i, j+1).
+const twoOptPass = (route: RouteStop[], fixedEnd: boolean) => {
+  const last = fixedEnd ? route.length - 2 : route.length - 1;
+  let improved = false;
+  for (let i = 1; i < last; i++) {
+    for (let j = i + 1; j <= last; j++) {
+      const delta = gap(route[i - 1], route[j]) + gap(route[i], route[j + 1])
+        - gap(route[i - 1], route[i]) - gap(route[j], route[j + 1]);
+      if (delta < -1e-9) {
+        route.splice(i, j - i + 1, ...route.slice(i, j + 1).reverse());
+        improved = true;
+      }
+    }
+  }
+  return improved;
+};
+
+// Or-opt: moves a run of up to three stops, either way round, to the cheapest
+// other place in the route.
+const orOptPass = (route: RouteStop[], fixedEnd: boolean) => {
+  const lastMovable = fixedEnd ? route.length - 2 : route.length - 1;
+  let improved = false;
+  for (let size = 1; size <= 3; size++) {
+    for (let i = 1; i + size - 1 <= lastMovable; i++) {
+      const j = i + size - 1;
+      const first = route[i];
+      const last = route[j];
+      const removeGain = gap(route[i - 1], first) + gap(last, route[j + 1]) - gap(route[i - 1], route[j + 1]);
+
+      let best: { k: number; reversed: boolean; cost: number } | null = null;
+      const lastGap = fixedEnd ? route.length - 2 : route.length - 1;
+      for (let k = 0; k <= lastGap; k++) {
+        if (k >= i - 1 && k <= j) continue;
+        const a = route[k];
+        const b = route[k + 1];
+        const forward = gap(a, first) + gap(last, b) - gap(a, b);
+        const reversed = gap(a, last) + gap(first, b) - gap(a, b);
+        const cost = Math.min(forward, reversed);
+        if (cost < removeGain - 1e-9 && (!best || cost < best.cost)) {
+          best = { k, reversed: reversed < forward, cost };
+        }
+      }
+      if (!best) continue;
+
+      const segment = route.splice(i, size);
+      if (best.reversed) segment.reverse();
+      const insertAt = (best.k > j ? best.k - size : best.k) + 1;
+      route.splice(insertAt, 0, ...segment);
+      improved = true;
+    }
+  }
+  return improved;
+};
+
+/**
+ * Finds a short visiting order through the stops: nearest neighbour for a
+ * first tour, then 2-opt and Or-opt passes until neither improves it.
+ * Passes are quadratic, which keeps a few hundred stops well under a second.
+ */
+export const optimizeRoute = (stops: RouteStop[], options: RouteOptions): RouteResult => {
+  if (stops.length < 2) return { order: stops.map(s => s.id), length: 0 };
+
+  const chosenStart = stops.find(s => s.id === options.startId);
+  // Any stop can start a round trip; an open route without a chosen start is
+  // free to begin wherever the path is shortest.
+  const freeStart = !chosenStart && !options.returnToStart;
+  const end = options.returnToStart
+    ? chosenStart ?? stops[0]
+    : stops.find(s => s.id === options.endId && s.id !== chosenStart?.id);
+  // The first tour grows from the fixed start, or from the stop farthest from the end
+  const seed = chosenStart ?? (options.returnToStart ? end! : farthestFrom(end?.position ?? centre(stops), stops.filter(s => s !== end)));
+  const middle = stops.filter(s => s !== seed && s !== end);
+
+  // A round trip is an open path that has to finish where it started.
+  const route = nearestNeighbour(seed, middle);
+  if (freeStart) route.unshift(FREE_START);
+  if (end) route.push(end);
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    const improved = twoOptPass(route, !!end);
+    if (!orOptPass(route, !!end) && !improved) break;
+  }
+  if (freeStart) route.shift();
+  if (options.returnToStart) route.pop();
+
+  return { order: route.map(s => s.id), length: routeLength(route, options.returnToStart) };
+};
@@ -0,0 +1,173 @@
+import { Area, ElementRef, Marker, Path, Point, PolygonArea } from '../types.ts';
+import { ImageSize, areaBoundsFromCircle } from './geometry.ts';
+
+// Helpers for working on several selected elements at once. Offsets are keyed
+// by `elementKey` so one map can hold markers, paths and areas together.
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface SelectionContent {
+  markers: Marker[];
+  paths: Path[];
+  areas: Area[];
+  polygonAreas: PolygonArea[];
+}
+
+export const elementKey = (ref: ElementRef) => `${ref.type}:${ref.id}`;
+
+export const isSameElement = (a: ElementRef, b: ElementRef) => a.type === b.type && a.id === b.id;
+
+export const findElement = (content: SelectionContent, ref: ElementRef): Marker | Path | Area | PolygonArea | undefined => {
+  if (ref.type === 'marker') return content.markers.find(m => m.id === ref.id);
+  if (ref.type === 'path') return content.paths.find(p => p.id === ref.id);
+  if (ref.type === 'area') return content.areas.find(a => a.id === ref.id);
+  return content.polygonAreas.find(a => a.id === ref.id);
+};
+
+export const boundsOfPoints = (points: Point[]): Bounds | null => {
+  if (!points.length) return null;
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxX: Math.max(...points.map(p => p.x)),
+    maxY: Math.max(...points.map(p => p.y)),
+  };
+};
+
+export const markerBounds = (marker: Marker): Bounds => ({
+  minX: marker.position.x,
+  minY: marker.position.y,
+  maxX: marker.position.x,
+  maxY: marker.position.y,
+});
+
+export const areaBounds = (area: Area): Bounds => {
+  const r = Math.max(1, area.radius);
+  return { minX: area.center.x - r, minY: area.center.y - r, maxX: area.center.x + r, maxY: area.center.y + r };
+};
+
+export const elementBounds = (content: SelectionContent, ref: ElementRef): Bounds | null => {
+  if (ref.type === 'marker') {
+    const marker = content.markers.find(m => m.id === ref.id);
+    return marker ? markerBounds(marker) : null;
+  }
+  if (ref.type === 'area') {
+    const area = content.areas.find(a => a.id === ref.id);
+    return area ? areaBounds(area) : null;
+  }
+  const element = ref.type === 'path'
+    ? content.paths.find(p => p.id === ref.id)
+    : content.polygonAreas.find(a => a.id === ref.id);
+  return element ? boundsOfPoints(element.points) : null;
+};
+
+const contains = (outer: Bounds, inner: Bounds) => (
+  inner.minX >= outer.minX && inner.maxX <= outer.maxX && inner.minY >= outer.minY && inner.maxY <= outer.maxY
+);
+
+/** Elements lying entirely inside the box, in drawing order. */
+export const elementsInBox = (content: SelectionContent, box: Bounds): ElementRef[] => {
+  const inside = (bounds: Bounds | null) => !!bounds && contains(box, bounds);
+  return [
+    ...content.areas.filter(a => inside(areaBounds(a))).map(a => ({ type: 'area' as const, id: a.id })),
+    ...content.polygonAreas.filter(a => inside(boundsOfPoints(a.points))).map(a => ({ type: 'polygonArea' as const, id: a.id })),
+    ...content.paths.filter(p => inside(boundsOfPoints(p.points))).map(p => ({ type: 'path' as const, id: p.id })),
+    ...content.markers.filter(m => inside(markerBounds(m))).map(m => ({ type: 'marker' as const, id: m.id })),
+  ];
+};
+
+const withBounds = (content: SelectionContent, refs: ElementRef[]) => refs
+  .map(ref => ({ ref, bounds: elementBounds(content, ref) }))
+  .filter((item): item is { ref: ElementRef; bounds: Bounds } => !!item.bounds);
+
+/** Offsets that line the elements up on one edge or centre line of their combined bounds. */
+export const alignOffsets = (content: SelectionContent, refs: ElementRef[], mode: AlignMode): Map<string, Point> => {
+  const items = withBounds(content, refs);
+  const offsets = new Map<string, Point>();
+  if (items.length < 2) return offsets;
+
+  const minX = Math.min(...items.map(i => i.bounds.minX));
+  const maxX = Math.max(...items.map(i => i.bounds.maxX));
+  const minY = Math.min(...items.map(i => i.bounds.minY));
+  const maxY = Math.max(...items.map(i => i.bounds.maxY));
+
+  items.forEach(({ ref, bounds }) => {
+    let dx = 0;
+    let dy = 0;
+    if (mode === 'left') dx = minX - bounds.minX;
+    if (mode === 'right') dx = maxX - bounds.maxX;
+    if (mode === 'center') dx = (minX + maxX) / 2 - (bounds.minX + bounds.maxX) / 2;
+    if (mode === 'top') dy = minY - bounds.minY;
+    if (mode === 'bottom') dy = maxY - bounds.maxY;
+    if (mode === 'middle') dy = (minY + maxY) / 2 - (bounds.minY + bounds.maxY) / 2;
+    if (dx || dy) offsets.set(elementKey(ref), { x: dx, y: dy });
+  });
+  return offsets;
+};
+
+/** Offsets that space the element centres evenly between the outermost two. */
+export const distributeOffsets = (content: SelectionContent, refs: ElementRef[], axis: DistributeAxis): Map<string, Point> => {
+  const centre = (b: Bounds) => (axis === 'horizontal' ? (b.minX + b.maxX) / 2 : (b.minY + b.maxY) / 2);
+  const items = withBounds(content, refs).sort((a, b) => centre(a.bounds) - centre(b.bounds));
+  const offsets = new Map<string, Point>();
+  if (items.length < 3) return offsets;
+
+  const first = centre(items[0].bounds);
+  const step = (centre(items[items.length - 1].bounds) - first) / (items.length - 1);
+  items.forEach(({ ref, bounds }, index) => {
+    const delta = first + step * index - centre(bounds);
+    if (delta) offsets.set(elementKey(ref), axis === 'horizontal' ? { x: delta, y: 0 } : { x: 0, y: delta });
+  });
+  return offsets;
+};
+
+const shift = (point: Point, offset: Point): Point => ({ x: point.x + offset.x, y: point.y + offset.y });
+
+/**
+ * Moves elements by their offsets. Linked paths ignore their own offset and
+ * follow the markers they connect instead.
+ */
+export const translateElements = (content: SelectionContent, offsets: Map<string, Point>, imageSize?: ImageSize): SelectionContent => {
+  const offsetOf = (ref: ElementRef) => offsets.get(elementKey(ref));
+
+  const markers = content.markers.map(m => {
+    const offset = offsetOf({ type: 'marker', id: m.id });
+    return offset ? { ...m, position: shift(m.position, offset) } : m;
+  });
+
+  const paths = content.paths.map(p => {
+    if (!p.linkedMarkers) {
+      const offset = offsetOf({ type: 'path', id: p.id });
+      return offset ? { ...p, points: p.points.map(point => shift(point, offset)) } : p;
+    }
+    const startOffset = offsetOf({ type: 'marker', id: p.linkedMarkers.startId });
+    const endOffset = offsetOf({ type: 'marker', id: p.linkedMarkers.endId });
+    if (!startOffset && !endOffset) return p;
+    const points = [...p.points];
+    if (startOffset) points[0] = shift(points[0], startOffset);
+    if (endOffset) points[points.length - 1] = shift(points[points.length - 1], endOffset);
+    return { ...p, points };
+  });
+
+  const areas = content.areas.map(a => {
+    const offset = offsetOf({ type: 'area', id: a.id });
+    if (!offset) return a;
+    const center = shift(a.center, offset);
+    return { ...a, center, ...areaBoundsFromCircle(center, a.radius, imageSize) };
+  });
+
+  const polygonAreas = content.polygonAreas.map(a => {
+    const offset = offsetOf({ type: 'polygonArea', id: a.id });
+    return offset ? { ...a, points: a.points.map(point => shift(point, offset)) } : a;
+  });
+
+  return { markers, paths, areas, polygonAreas };
+};
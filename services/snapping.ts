@@ -0,0 +1,135 @@
+import { ElementRef, GridSettings, Point } from '../types.ts';
+import { closestPointOnSegment, distance } from './geometry.ts';
+import { SelectionContent } from './selection.ts';
+
+// Snapping for points placed or dragged in the map editor. Element snapping
+// wins over the grid: the cursor first jumps onto a nearby point or polygon
+// edge, otherwise each axis lines up with a nearby point on its own, and
+// whatever is left rounds to the grid.
+
+export const DEFAULT_GRID: GridSettings = {
+  visible: false,
+  size: 50,
+  color: '#ffffff',
+  snapToGrid: false,
+  snapToElements: true,
+};
+
+// How close the cursor must come to a target, in screen pixels
+export const SNAP_DISTANCE = 8;
+
+export interface SnapTargets {
+  points: Point[];
+  edges: [Point, Point][];
+}
+
+// A line to draw while snapping, from the target to the snapped point
+export interface SnapGuide {
+  from: Point;
+  to: Point;
+}
+
+export interface SnapResult {
+  point: Point;
+  guides: SnapGuide[];
+  // The point or edge position the cursor jumped onto, if any
+  target: Point | null;
+}
+
+/**
+ * Points and polygon edges of the given elements that other points can snap
+ * to: markers, path and polygon vertices, and area centers. `skip` leaves out
+ * the element (or, with `pointIndex`, one vertex of it) being dragged.
+ */
+export const collectSnapTargets = (
+  content: SelectionContent,
+  skip: (ref: ElementRef, pointIndex?: number) => boolean = () => false,
+): SnapTargets => {
+  const points: Point[] = [];
+  const edges: [Point, Point][] = [];
+
+  content.markers.forEach(m => {
+    if (!skip({ type: 'marker', id: m.id })) points.push(m.position);
+  });
+  content.paths.forEach(p => {
+    p.points.forEach((point, i) => {
+      if (!skip({ type: 'path', id: p.id }, i)) points.push(point);
+    });
+  });
+  content.areas.forEach(a => {
+    if (!skip({ type: 'area', id: a.id })) points.push(a.center);
+  });
+  content.polygonAreas.forEach(a => {
+    const ref: ElementRef = { type: 'polygonArea', id: a.id };
+    a.points.forEach((point, i) => {
+      if (!skip(ref, i)) points.push(point);
+    });
+    if (a.points.length < 3) return;
+    a.points.forEach((point, i) => {
+      const next = (i + 1) % a.points.length;
+      if (!skip(ref, i) && !skip(ref, next)) edges.push([point, a.points[next]]);
+    });
+  });
+
+  return { points, edges };
+};
+
+const snapToGrid = (value: number, size: number) => Math.round(value / size) * size;
+
+/** Snaps a point to the targets and grid. `tolerance` is in image pixels. */
+export const snapPoint = (point: Point, targets: SnapTargets, grid: GridSettings, tolerance: number): SnapResult => {
+  if (grid.snapToElements) {
+    let nearest: Point | null = null;
+    let best = tolerance;
+    for (const target of targets.points) {
+      const d = distance(point, target);
+      if (d <= best) {
+        best = d;
+        nearest = target;
+      }
+    }
+    if (nearest) return { point: { ...nearest }, guides: [], target: nearest };
+
+    let onEdge: { point: Point; edge: [Point, Point] } | null = null;
+    best = tolerance;
+    for (const edge of targets.edges) {
+      const closest = closestPointOnSegment(point, edge[0], edge[1]);
+      const d = distance(point, closest);
+      if (d <= best) {
+        best = d;
+        onEdge = { point: closest, edge };
+      }
+    }
+    if (onEdge) return { point: onEdge.point, guides: [{ from: onEdge.edge[0], to: onEdge.edge[1] }], target: onEdge.point };
+  }
+
+  // Line each axis up with the nearest point on it, then fall back to the grid
+  let alignX: Point | null = null;
+  let alignY: Point | null = null;
+  if (grid.snapToElements) {
+    let bestX = tolerance;
+    let bestY = tolerance;
+    for (const target of targets.points) {
+      const dx = Math.abs(target.x - point.x);
+      const dy = Math.abs(target.y - point.y);
+      if (dx <= bestX) {
+        bestX = dx;
+        alignX = target;
+      }
+      if (dy <= bestY) {
+        bestY = dy;
+        alignY = target;
+      }
+    }
+  }
+
+  const gridOn = grid.snapToGrid && grid.size > 0;
+  const snapped = {
+    x: alignX ? alignX.x : gridOn ? snapToGrid(point.x, grid.size) : point.x,
+    y: alignY ? alignY.y : gridOn ? snapToGrid(point.y, grid.size) : point.y,
+  };
+  const guides: SnapGuide[] = [alignX, alignY]
+    .filter((target): target is Point => !!target)
+    .map(target => ({ from: target, to: snapped }));
+  return { point: snapped, guides, target: null };
+};
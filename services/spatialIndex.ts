@@ -0,0 +1,65 @@
+import { Bounds } from './selection.ts';
+
+// Uniform grid of buckets over image space, so the editor can find the
+// elements in view or under the pointer without scanning every element.
+// Items spanning several cells sit in each of them; queries return every
+// match once, in the order the items were given (their drawing order).
+
+const DEFAULT_CELL_SIZE = 256;
+
+export interface SpatialIndex<T> {
+  /** Items whose bounds overlap `bounds`. */
+  query: (bounds: Bounds) => T[];
+}
+
+export const createSpatialIndex = <T>(
+  items: T[],
+  boundsOf: (item: T) => Bounds | null,
+  cellSize: number = DEFAULT_CELL_SIZE,
+): SpatialIndex<T> => {
+  const cells = new Map<string, number[]>();
+  const itemBounds: (Bounds | null)[] = items.map(boundsOf);
+  const cellOf = (value: number) => Math.floor(value / cellSize);
+
+  itemBounds.forEach((bounds, index) => {
+    if (!bounds) return;
+    for (let col = cellOf(bounds.minX); col <= cellOf(bounds.maxX); col++) {
+      for (let row = cellOf(bounds.minY); row <= cellOf(bounds.maxY); row++) {
+        const key = `${col},${row}`;
+        const cell = cells.get(key);
+        if (cell) cell.push(index);
+        else cells.set(key, [index]);
+      }
+    }
+  });
+
+  return {
+    query: bounds => {
+      const found = new Set<number>();
+      const firstCol = cellOf(bounds.minX);
+      const lastCol = cellOf(bounds.maxX);
+      const firstRow = cellOf(bounds.minY);
+      const lastRow = cellOf(bounds.maxY);
+      // A box larger than the occupied cells is cheaper to answer by scanning the cells
+      if ((lastCol - firstCol + 1) * (lastRow - firstRow + 1) > cells.size) {
+        cells.forEach((cell, key) => {
+          const [col, row] = key.split(',').map(Number);
+          if (col >= firstCol && col <= lastCol && row >= firstRow && row <= lastRow) cell.forEach(i => found.add(i));
+        });
+      } else {
+        for (let col = firstCol; col <= lastCol; col++) {
+          for (let row = firstRow; row <= lastRow; row++) {
+            cells.get(`${col},${row}`)?.forEach(i => found.add(i));
+          }
+        }
+      }
+      return Array.from(found)
+        .filter(i => {
+          const b = itemBounds[i]!;
+          return b.maxX >= bounds.minX && b.minX <= bounds.maxX && b.maxY >= bounds.minY && b.minY <= bounds.maxY;
+        })
+        .sort((a, b) => a - b)
+        .map(i => items[i]);
+    },
+  };
+};
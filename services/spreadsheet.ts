@@ -0,0 +1,338 @@
+import { Area, Marker, MarkerStatus, Point, PolygonArea } from '../types.ts';
+import { ExportModel } from './exportModel.ts';
+import { areaBoundsFromCircle } from './geometry.ts';
+import { ImportContext, ImportFileError, createElementReader } from './importMerge.ts';
+import { SelectionContent } from './selection.ts';
+
+// Spreadsheet round trip: one CSV or TSV sheet per element kind, with one row
+// per element. Imported rows are matched to plan elements by id, or by number
+// when the id cell is empty or unknown, and turned into a diff that is shown
+// before anything changes. Columns missing from a sheet leave those fields
+// alone, so a sheet cut down to `number` and `name` only renames.
+
+export type SheetKind = 'markers' | 'areas' | 'polygonAreas';
+export type SheetFormat = 'csv' | 'tsv';
+
+export const SHEET_KINDS: { kind: SheetKind; label: string; fileName: string }[] = [
+  { kind: 'markers', label: 'Markers', fileName: 'markers' },
+  { kind: 'areas', label: 'Areas', fileName: 'areas' },
+  { kind: 'polygonAreas', label: 'Polygon areas', fileName: 'polygon-areas' },
+];
+
+const COLUMNS: Record<SheetKind, string[]> = {
+  markers: ['id', 'number', 'name', 'area', 'status', 'color', 'layer', 'x', 'y', 'linkedIds'],
+  areas: ['id', 'number', 'name', 'color', 'layer', 'x', 'y', 'radius'],
+  polygonAreas: ['id', 'number', 'name', 'color', 'layer', 'obstacle', 'points'],
+};
+
+const DELIMITERS: Record<SheetFormat, string> = { csv: ',', tsv: '\t' };
+
+// Colours the export writes for elements without their own, as drawn
+const DEFAULT_COLORS: Record<SheetKind, string> = { markers: '#10b981', areas: '#facc15', polygonAreas: '#facc15' };
+
+// Pixels keep two decimals, like the other exports
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const formatPoints = (points: Point[]) => points.map(p => `${round2(p.x)} ${round2(p.y)}`).join('; ');
+
+const quoteCell = (value: string, delimiter: string) => (
+  value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value
+);
+
+/** One sheet of the export model; starts with a byte order mark so spreadsheet apps read it as UTF-8. */
+export const buildSheet = (model: ExportModel, kind: SheetKind, format: SheetFormat): string => {
+  const rows: (string | number | boolean)[][] = kind === 'markers'
+    ? model.markers.map(m => [m.id, m.number, m.name, m.area, m.status, m.color, m.layer, round2(m.x), round2(m.y), m.linkedMarkerIds.join('; ')])
+    : kind === 'areas'
+      ? model.areas.map(a => [a.id, a.number, a.name, a.color, a.layer, round2(a.x), round2(a.y), round2(a.radius)])
+      : model.polygonAreas.map(a => [a.id, a.number, a.name, a.color, a.layer, a.obstacle, formatPoints(a.points)]);
+  const delimiter = DELIMITERS[format];
+  return `﻿${[COLUMNS[kind], ...rows].map(row => row.map(value => quoteCell(String(value), delimiter)).join(delimiter)).join('\r\n')}\r\n`;
+};
+
+// --- Reading ------------------------------------------------------------------
+
+/** Rows of a delimited text, with quoted cells as in RFC 4180. */
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cellText = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cellText += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cellText += char;
+      }
+    } else if (char === '"' && cellText === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cellText);
+      cellText = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cellText);
+      rows.push(row);
+      row = [];
+      cellText = '';
+    } else {
+      cellText += char;
+    }
+  }
+  if (cellText !== '' || row.length) rows.push([...row, cellText]);
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// TSV files use tabs; CSV files saved by spreadsheet apps may use semicolons (with decimal commas)
+const detectDelimiter = (text: string, fileName: string) => {
+  if (/\.tsv$/i.test(fileName)) return '\t';
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  const counts = ['\t', ';', ','].map(d => [d, header.split(d).length] as const);
+  return counts.reduce((best, next) => (next[1] > best[1] ? next : best), [',', 1] as const)[0];
+};
+
+// Header cells are matched loosely: "Linked IDs", "linked_ids" and "linkedIds" are the same column
+const HEADER_ALIASES: Record<string, string> = {
+  id: 'id', number: 'number', name: 'name', area: 'area', status: 'status', color: 'color', colour: 'color',
+  layer: 'layer', x: 'x', y: 'y', centerx: 'x', centery: 'y', radius: 'radius', obstacle: 'obstacle', points: 'points',
+  linkedids: 'linkedIds', linkedmarkerids: 'linkedIds', links: 'linkedIds',
+};
+
+const readNumber = (value: string) => {
+  const text = value.trim();
+  // Decimal commas, as written by spreadsheets in many locales
+  const n = Number(/^-?\d+,\d+$/.test(text) ? text.replace(',', '.') : text);
+  return text !== '' && Number.isFinite(n) ? n : null;
+};
+
+const readPoints = (value: string): Point[] | null => {
+  const pairs = value.split(';').map(pair => pair.trim()).filter(Boolean);
+  const points = pairs.map(pair => {
+    const parts = pair.split(/\s+/).length === 2 ? pair.split(/\s+/) : pair.split(',');
+    const [x, y] = parts.map(readNumber);
+    return parts.length === 2 && x !== null && y !== null ? { x, y } : null;
+  });
+  return points.every((p): p is Point => p !== null) ? points : null;
+};
+
+const readBoolean = (value: string) => /^(true|yes|y|1|x|sim|s)$/i.test(value.trim());
+
+const MARKER_STATUSES: MarkerStatus[] = ['pending', 'completed', 'active'];
+
+type SheetElement = Marker | Area | PolygonArea;
+
+export interface SheetChange {
+  before: SheetElement;
+  after: SheetElement;
+  // Names of the columns whose values differ
+  fields: string[];
+}
+
+export interface SheetDiff {
+  kind: SheetKind;
+  added: SheetElement[];
+  changed: SheetChange[];
+  // Plan elements of this kind that no row matched
+  removed: SheetElement[];
+  // Rows that were left out or only partly read, with the reason
+  skipped: string[];
+}
+
+const samePoint = (a: Point, b: Point) => round2(a.x) === round2(b.x) && round2(a.y) === round2(b.y);
+
+const changedFields = (before: SheetElement, after: SheetElement): string[] => {
+  const fields: string[] = [];
+  const b = before as Partial<Marker & Area & PolygonArea>;
+  const a = after as Partial<Marker & Area & PolygonArea>;
+  (['number', 'name', 'area', 'status', 'color'] as const).forEach(key => {
+    if ((b[key] ?? '') !== (a[key] ?? '')) fields.push(key);
+  });
+  if (b.layerId !== a.layerId) fields.push('layer');
+  if (b.position && a.position && !samePoint(b.position, a.position)) fields.push('position');
+  if (b.center && a.center && !samePoint(b.center, a.center)) fields.push('center');
+  if (b.radius !== undefined && a.radius !== undefined && round2(b.radius) !== round2(a.radius)) fields.push('radius');
+  if (b.points && a.points && formatPoints(b.points) !== formatPoints(a.points)) fields.push('points');
+  if (!!b.obstacle !== !!a.obstacle) fields.push('obstacle');
+  if ((b.linkedMarkerIds ?? []).join(' ') !== (a.linkedMarkerIds ?? []).join(' ')) fields.push('links');
+  return fields;
+};
+
+/** Reads a CSV or TSV sheet and compares it with the plan; nothing is changed until the diff is applied. */
+export const readSheet = (text: string, fileName: string, content: SelectionContent, context: ImportContext): SheetDiff => {
+  const source = text.replace(/^﻿/, '');
+  const [header, ...rows] = parseDelimited(source, detectDelimiter(source, fileName));
+  if (!header) throw new ImportFileError('The sheet is empty.');
+  const columns = header.map(name => HEADER_ALIASES[name.toLowerCase().replace(/[^a-z0-9]/g, '')]);
+  const has = (column: string) => columns.includes(column);
+  const kind: SheetKind | null = has('points') ? 'polygonAreas' : has('radius') ? 'areas' : has('x') && has('y') ? 'markers' : null;
+  if (!kind) {
+    throw new ImportFileError('The sheet needs x and y columns (markers), a radius column (areas) or a points column (polygon areas).');
+  }
+
+  const existing: SheetElement[] = content[kind];
+  const reader = createElementReader(context);
+  const skipped: string[] = [];
+  const added: SheetElement[] = [];
+  const changed: SheetChange[] = [];
+  const matched = new Set<string>();
+  // Elements of rows that were skipped because the row could not be read; they stay in the plan as they are
+  const kept = new Set<string>();
+  // Links are resolved once every row is read, so they can point at markers added further down
+  const pendingLinks: { element: Marker; tokens: string[]; line: number }[] = [];
+
+  rows.forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (column: string) => {
+      const at = columns.indexOf(column);
+      return at >= 0 ? (cells[at] ?? '').trim() : null;
+    };
+    const id = cell('id');
+    const number = cell('number');
+    let before = id ? existing.find(e => e.id === id) : undefined;
+    if (!before && number) {
+      const byNumber = existing.filter(e => e.number === number);
+      if (byNumber.length > 1) {
+        skipped.push(`Row ${line}: number ${number} matches ${byNumber.length} elements`);
+        byNumber.forEach(e => kept.add(e.id));
+        return;
+      }
+      before = byNumber[0];
+    }
+    if (before && matched.has(before.id)) {
+      skipped.push(`Row ${line}: repeats ${before.number || before.name || before.id}`);
+      return;
+    }
+
+    const name = cell('name');
+    const layerName = cell('layer');
+    const color = cell('color');
+    const common = {
+      id: before ? before.id : reader.idFor(id, kind === 'markers' ? 'marker' : kind === 'areas' ? 'area' : 'poly-area'),
+      name: name ?? before?.name ?? '',
+      number: number === null ? before?.number : number || undefined,
+      // An unchanged default colour stays unset, so the element keeps following the default
+      color: color === null || color.toLowerCase() === (before?.color || DEFAULT_COLORS[kind]).toLowerCase()
+        ? before?.color
+        : /^#[0-9a-f]{3,8}$/i.test(color) ? color : undefined,
+      layerId: (layerName && context.layers.find(l => l.name === layerName)?.id) || before?.layerId || context.fallbackLayerId,
+    };
+    if (layerName && !context.layers.some(l => l.name === layerName)) {
+      skipped.push(`Row ${line}: no layer "${layerName}", kept on ${before ? 'its layer' : 'the active layer'}`);
+    }
+
+    let after: SheetElement;
+    if (kind === 'markers') {
+      const previous = before as Marker | undefined;
+      const [x, y] = [readNumber(cell('x') ?? ''), readNumber(cell('y') ?? '')];
+      if (!previous && (x === null || y === null)) {
+        skipped.push(`Row ${line}: needs x and y`);
+        return;
+      }
+      const status = cell('status');
+      const marker: Marker = {
+        ...previous,
+        ...common,
+        area: cell('area') === null ? previous?.area : cell('area') || undefined,
+        status: MARKER_STATUSES.find(s => s === status?.toLowerCase()) ?? previous?.status ?? 'pending',
+        position: { x: x ?? previous!.position.x, y: y ?? previous!.position.y },
+        linkedMarkerIds: previous?.linkedMarkerIds ?? [],
+      };
+      const links = cell('linkedIds');
+      if (links !== null) pendingLinks.push({ element: marker, tokens: links.split(/[;,\s]+/).filter(Boolean), line });
+      after = marker;
+    } else if (kind === 'areas') {
+      const previous = before as Area | undefined;
+      const [x, y, radius] = [readNumber(cell('x') ?? ''), readNumber(cell('y') ?? ''), readNumber(cell('radius') ?? '')];
+      if (!previous && (x === null || y === null || radius === null)) {
+        skipped.push(`Row ${line}: needs x, y and radius`);
+        return;
+      }
+      if (radius !== null && radius <= 0) {
+        skipped.push(`Row ${line}: radius must be positive`);
+        if (previous) matched.add(previous.id);
+        return;
+      }
+      const center = { x: x ?? previous!.center.x, y: y ?? previous!.center.y };
+      const size = radius ?? previous!.radius;
+      after = { ...previous, ...common, center, radius: size, ...areaBoundsFromCircle(center, size, context.imageSize ?? undefined) };
+    } else {
+      const previous = before as PolygonArea | undefined;
+      const pointsText = cell('points');
+      const points = pointsText ? readPoints(pointsText) : null;
+      if (pointsText && (!points || points.length < 3)) {
+        skipped.push(`Row ${line}: points must be at least three "x y" pairs separated by semicolons`);
+        if (previous) matched.add(previous.id);
+        return;
+      }
+      if (!previous && !points) {
+        skipped.push(`Row ${line}: needs points`);
+        return;
+      }
+      const obstacle = cell('obstacle');
+      after = {
+        ...previous,
+        ...common,
+        points: points ?? previous!.points,
+        obstacle: obstacle === null ? previous?.obstacle : readBoolean(obstacle) || undefined,
+      };
+    }
+
+    if (before) {
+      matched.add(before.id);
+      changed.push({ before, after, fields: [] });
+    } else {
+      added.push(after);
+    }
+  });
+
+  if (pendingLinks.length) {
+    // Numbers are looked up as they will be after the import, so a renumbered sheet links by its own numbers
+    const changedIds = new Set(changed.map(change => change.before.id));
+    const markers = [
+      ...changed.map(change => change.after),
+      ...added,
+      ...existing.filter(e => !changedIds.has(e.id)),
+    ] as Marker[];
+    pendingLinks.forEach(({ element, tokens, line }) => {
+      element.linkedMarkerIds = tokens.flatMap(token => {
+        const target = markers.find(m => m.id === token) ?? markers.find(m => m.number === token);
+        if (!target || target.id === element.id) {
+          skipped.push(`Row ${line}: no marker "${token}" to link to`);
+          return [];
+        }
+        return [target.id];
+      });
+    });
+  }
+
+  return {
+    kind,
+    added,
+    changed: changed.map(change => ({ ...change, fields: changedFields(change.before, change.after) })).filter(change => change.fields.length),
+    removed: existing.filter(e => !matched.has(e.id) && !kept.has(e.id)),
+    skipped,
+  };
+};
+
+/** The plan's elements with the diff applied; links to markers that are gone are dropped. */
+export const applySheetDiff = (content: SelectionContent, diff: SheetDiff, removeMissing: boolean): SelectionContent => {
+  const replaced = new Map<string, SheetElement>(diff.changed.map(change => [change.after.id, change.after]));
+  const removed = new Set<string>(removeMissing ? diff.removed.map(e => e.id) : []);
+  const list = [
+    ...(content[diff.kind] as SheetElement[]).filter(e => !removed.has(e.id)).map(e => replaced.get(e.id) ?? e),
+    ...diff.added,
+  ];
+  const next = { ...content, [diff.kind]: list } as SelectionContent;
+  const markerIds = new Set<string>(next.markers.map(m => m.id));
+  return {
+    ...next,
+    markers: next.markers.map(m => (
+      m.linkedMarkerIds?.some(id => !markerIds.has(id)) ? { ...m, linkedMarkerIds: m.linkedMarkerIds.filter(id => markerIds.has(id)) } : m
+    )),
+  };
+};
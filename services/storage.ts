@@ -0,0 +1,62 @@
+// Shared IndexedDB connection for everything the app keeps locally.
+
+const DB_NAME = 'mapPlanner';
+const DB_VERSION = 5;
+
+export const IMAGE_STORE = 'images';
+export const PLAN_STORE = 'plans';
+export const HISTORY_STORE = 'history';
+export const TILE_SET_STORE = 'tileSets';
+export const TILE_STORE = 'tiles';
+export const TEMPLATE_STORE = 'templates';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) {
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'hash' });
+        }
+        if (!db.objectStoreNames.contains(PLAN_STORE)) {
+          db.createObjectStore(PLAN_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          db.createObjectStore(HISTORY_STORE, { keyPath: 'planId' });
+        }
+        if (!db.objectStoreNames.contains(TILE_SET_STORE)) {
+          db.createObjectStore(TILE_SET_STORE, { keyPath: 'hash' });
+        }
+        if (!db.objectStoreNames.contains(TILE_STORE)) {
+          db.createObjectStore(TILE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(TEMPLATE_STORE)) {
+          db.createObjectStore(TEMPLATE_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Failed to open local storage.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error ?? new Error('Local storage request failed.'));
+  });
+};
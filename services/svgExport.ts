@@ -0,0 +1,344 @@
+import { Area, Calibration, Layer, MapSymbol, Marker, Path, PlanOverlays, Point, PolygonArea } from '../types.ts';
+import { ImageSize, polygonCentroid } from './geometry.ts';
+import { groupByLayer } from './layers.ts';
+import { MarkerCluster, clusterMarkers, clusterRadius } from './clustering.ts';
+import { LabelLayout, PlacedLabel, areaLabel, markerLabel, placeLabels } from './labelPlacement.ts';
+import { elementKey } from './selection.ts';
+import { ResolvedSymbol, markerRadius, resolveSymbol, shapePathD, symbolsById } from './symbols.ts';
+import { EmbeddedFont } from './exportFonts.ts';
+import { DEFAULT_OVERLAYS, LegendEntry, OverlayBlock, legendEntries, layoutOverlays, northArrowPathD } from './overlays.ts';
+
+export const pointsToPathD = (points: Point[]): string => {
+  if (points.length < 2) return points.length === 1 ? `M ${points[0].x} ${points[0].y}` : '';
+  let d = `M ${points[0].x} ${points[0].y}`;
+  for (let i = 0; i < points.length - 1; i++) {
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const midPoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+    d += ` Q ${p1.x} ${p1.y}, ${midPoint.x} ${midPoint.y}`;
+  }
+  d += ` L ${points[points.length - 1].x} ${points[points.length - 1].y}`;
+  return d;
+};
+
+export const escapeXml = (value: string) => (
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+);
+
+export interface SvgExportPlan {
+  // Symbol library of the markers; every marker is classic when omitted
+  symbols?: MapSymbol[];
+  layers: Layer[];
+  markers: Marker[];
+  paths: Path[];
+  areas: Area[];
+  polygonAreas: PolygonArea[];
+}
+
+// Part of the plan in image pixels
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SvgExportOptions {
+  // Map image; left out when the map is drawn underneath separately
+  imageHref?: string;
+  width: number;
+  height: number;
+  // Only this part of the plan, at its own size; the whole plan when omitted.
+  region?: Region;
+  // Pixel size of the document when it differs from the region's, to draw it scaled
+  outputSize?: ImageSize;
+  showMarkerLabels: boolean;
+  // Marker and label display settings of the editor; 1, 1 and off when omitted.
+  markerSize?: number;
+  labelSize?: number;
+  showAreaLabels?: boolean;
+  // Markers cluster when this is above 1 (exports are seen at 100% zoom).
+  clusterZoom?: number;
+  // Layers to include; all layers when omitted.
+  layerIds?: Set<string>;
+  // Scale of the plan, for the scale bar overlay
+  calibration?: Calibration | null;
+  // Legend and title block; just the scale bar when omitted
+  overlays?: PlanOverlays;
+  // Part of the image the overlays are placed in; the whole image by default
+  frame?: Region;
+  // Clusters and labels worked out beforehand, for exports built in pieces.
+  layout?: ExportLayout;
+  // Font written into the document and used for all text; system fonts when omitted
+  embeddedFont?: EmbeddedFont;
+}
+
+export interface ExportLayout {
+  clusters: MarkerCluster[];
+  // Markers not in a cluster
+  markers: Marker[];
+  labels: LabelLayout;
+  overlays: OverlayBlock[];
+}
+
+/** Clusters and places labels for an export, the same way the editor does at 100% zoom. */
+export const layoutExport = (plan: SvgExportPlan, options: SvgExportOptions): ExportLayout => {
+  const layers = plan.layers.filter(layer => !options.layerIds || options.layerIds.has(layer.id));
+  const layerIds = new Set<string>(layers.map(l => l.id));
+  const inLayers = <T extends { layerId: string }>(items: T[]) => items.filter(item => layerIds.has(item.layerId));
+  const markers = inLayers(plan.markers);
+  const areas = inLayers(plan.areas);
+  const polygonAreas = inLayers(plan.polygonAreas);
+  const { singles, clusters } = clusterMarkers(markers, 1, options.clusterZoom ?? 0);
+  const symbols = symbolsById(plan.symbols ?? []);
+  const markerSize = options.markerSize ?? 1;
+  const labels = placeLabels(
+    {
+      layers,
+      markers: singles,
+      areas,
+      polygonAreas,
+      clusters,
+      zoom: 1,
+      radius: marker => markerRadius(marker, symbols, markerSize),
+    },
+    {
+      markerSize,
+      labelSize: options.labelSize ?? 1,
+      showMarkerLabels: options.showMarkerLabels,
+      showAreaLabels: options.showAreaLabels ?? false,
+    },
+    { width: options.width, height: options.height },
+  );
+  const overlaySettings = options.overlays ?? DEFAULT_OVERLAYS;
+  const frame = options.frame ?? { x: 0, y: 0, width: options.width, height: options.height };
+  const overlays = layoutOverlays(overlaySettings, {
+    size: { width: frame.width, height: frame.height },
+    origin: { x: frame.x, y: frame.y },
+    calibration: options.calibration ?? null,
+    entries: legendEntries({ symbols: plan.symbols ?? [], markers, areas, polygonAreas }, overlaySettings.legend.names),
+  });
+  return { clusters, markers: singles, labels, overlays };
+};
+
+const pathMarkup = (path: Path) => {
+  const strokeColor = escapeXml(path.color || '#f59e0b');
+  return `
+    <path
+      d="${pointsToPathD(path.points)}"
+      stroke="${strokeColor}"
+      stroke-width="3"
+      fill="none"
+      stroke-linecap="round"
+      stroke-linejoin="round"
+    />
+  `;
+};
+
+const areaLabelMarkup = (at: Point, label: string, labelSize: number) => `
+    <text
+      x="${at.x}"
+      y="${at.y}"
+      fill="black"
+      font-size="${14 * labelSize}"
+      font-family="sans-serif"
+      text-anchor="middle"
+      dominant-baseline="middle"
+      paint-order="stroke"
+      stroke="white"
+      stroke-width="${3 * labelSize}"
+      stroke-linejoin="round"
+    >${escapeXml(label)}</text>
+  `;
+
+const areaMarkup = (area: Area, showLabel: boolean, labelSize: number) => {
+  const fillColor = escapeXml(area.color || '#facc15');
+  const strokeColor = escapeXml(area.color || '#facc15');
+  const textMarkup = showLabel ? areaLabelMarkup(area.center, areaLabel(area), labelSize) : '';
+
+  return `
+    <g>
+      <circle
+        cx="${area.center.x}"
+        cy="${area.center.y}"
+        r="${Math.max(1, area.radius)}"
+        fill="${fillColor}"
+        fill-opacity="0.25"
+        stroke="${strokeColor}"
+        stroke-width="2"
+      />
+      ${textMarkup}
+    </g>
+  `;
+};
+
+const polygonAreaMarkup = (area: PolygonArea, showLabel: boolean, labelSize: number) => {
+  if (area.points.length < 2) return '';
+  const points = area.points.map(p => `${p.x},${p.y}`).join(' ');
+  const fillColor = escapeXml(area.color || '#facc15');
+  const strokeColor = escapeXml(area.color || '#facc15');
+  const textMarkup = showLabel ? areaLabelMarkup(polygonCentroid(area.points), areaLabel(area), labelSize) : '';
+
+  return `
+    <g>
+      <polygon
+        points="${points}"
+        fill="${fillColor}"
+        fill-opacity="0.25"
+        stroke="${strokeColor}"
+        stroke-width="2"
+      />
+      ${textMarkup}
+    </g>
+  `;
+};
+
+const symbolMarkup = ({ symbol, size, rotation }: ResolvedSymbol, color: string, markerSize: number) => {
+  const r = 12 * markerSize * size;
+  const transform = rotation ? ` transform="rotate(${rotation})"` : '';
+  if (symbol.kind === 'icon' && symbol.src) {
+    return `<image href="${escapeXml(symbol.src)}" x="${-r}" y="${-r}" width="${2 * r}" height="${2 * r}"${transform} />`;
+  }
+  if (symbol.kind === 'emoji' && symbol.emoji) {
+    return `<text font-size="${1.6 * r}" text-anchor="middle" dominant-baseline="central"${transform}>${escapeXml(symbol.emoji)}</text>`;
+  }
+  return `<path d="${shapePathD(symbol.shape ?? 'circle', r)}" fill="${color}" stroke="#fff" stroke-width="${2 * markerSize}" stroke-linejoin="round"${transform} />`;
+};
+
+const markerMarkup = (marker: Marker, symbol: ResolvedSymbol | null, placed: PlacedLabel | undefined, options: SvgExportOptions) => {
+  const markerColor = escapeXml(marker.color || '#10b981');
+  const markerSize = options.markerSize ?? 1;
+  const labelSize = options.labelSize ?? 1;
+  const areaLine = options.showAreaLabels && marker.area;
+  const textMarkup = placed ? `
+    ${placed.leader ? `<line x1="${placed.leader.from.x}" y1="${placed.leader.from.y}" x2="${placed.leader.to.x}" y2="${placed.leader.to.y}" stroke="black" stroke-opacity="0.8" stroke-width="${1.5 * labelSize}" />` : ''}
+    ${options.showMarkerLabels ? `<text
+      x="${placed.x}"
+      y="${placed.y}"
+      fill="white"
+      font-size="${12 * labelSize}"
+      font-family="sans-serif"
+      paint-order="stroke"
+      stroke="black"
+      stroke-width="${3 * labelSize}"
+      stroke-linejoin="round"
+    >${escapeXml(markerLabel(marker))}</text>` : ''}
+    ${areaLine ? `<text
+      x="${placed.x}"
+      y="${options.showMarkerLabels ? placed.y + 14 * labelSize : placed.y}"
+      fill="#facc15"
+      font-size="${10 * labelSize}"
+      font-family="sans-serif"
+      paint-order="stroke"
+      stroke="black"
+      stroke-width="${2 * labelSize}"
+      stroke-linejoin="round"
+    >[${escapeXml(marker.area!)}]</text>` : ''}
+  ` : '';
+
+  return `
+    <g transform="translate(${marker.position.x}, ${marker.position.y})">
+      ${symbol ? symbolMarkup(symbol, markerColor, markerSize) : `
+      <circle r="${12 * markerSize}" fill="${markerColor}66" stroke="${markerColor}" stroke-width="${2 * markerSize}" />
+      <circle r="${6 * markerSize}" fill="${markerColor}" stroke="#fff" stroke-width="${2 * markerSize}" />`}
+      ${textMarkup}
+    </g>
+  `;
+};
+
+const clusterMarkup = (cluster: MarkerCluster) => `
+    <g>
+      <circle cx="${cluster.center.x}" cy="${cluster.center.y}" r="${clusterRadius(cluster, 1)}" fill="#0ea5e9" fill-opacity="0.85" stroke="#fff" stroke-width="2" />
+      <text x="${cluster.center.x}" y="${cluster.center.y}" fill="white" font-size="12" font-weight="bold" font-family="sans-serif" text-anchor="middle" dominant-baseline="central">${cluster.markers.length}</text>
+    </g>
+  `;
+
+const swatchMarkup = ({ x, y, r, entry }: { x: number; y: number; r: number; entry: LegendEntry }) => {
+  const color = escapeXml(entry.color);
+  let shape: string;
+  if (entry.kind === 'area') {
+    shape = `<circle r="${r}" fill="${color}" fill-opacity="0.25" stroke="${color}" stroke-width="${r / 4}" />`;
+  } else if (entry.kind === 'status') {
+    shape = `<circle r="${r * 0.6}" fill="${color}" stroke="#fff" stroke-width="${r / 6}" />`;
+  } else if (entry.symbol) {
+    shape = symbolMarkup({ symbol: entry.symbol, size: 1, rotation: entry.symbol.rotation }, color, r / 12);
+  } else {
+    shape = `
+      <circle r="${r}" fill="${color}66" stroke="${color}" stroke-width="${r / 6}" />
+      <circle r="${r / 2}" fill="${color}" stroke="#fff" stroke-width="${r / 6}" />`;
+  }
+  return `<g transform="translate(${x}, ${y})">${shape}</g>`;
+};
+
+const overlayMarkup = (block: OverlayBlock) => {
+  const texts = block.texts.map(t => (
+    `<text x="${t.x}" y="${t.y}" fill="black" font-size="${t.fontSize}" font-family="sans-serif"${t.bold ? ' font-weight="bold"' : ''}${t.anchor === 'middle' ? ' text-anchor="middle"' : ''}>${escapeXml(t.text)}</text>`
+  )).join('');
+  const { bar, arrow } = block;
+  return `
+    <g data-overlay="${block.kind}">
+      <rect x="${block.x}" y="${block.y}" width="${block.width}" height="${block.height}" fill="white" fill-opacity="0.85" rx="4" />
+      ${block.swatches.map(swatchMarkup).join('')}
+      ${bar ? `
+      <line x1="${bar.x}" y1="${bar.y}" x2="${bar.x + bar.width}" y2="${bar.y}" stroke="black" stroke-width="${bar.lineWidth}" />
+      <line x1="${bar.x}" y1="${bar.y - 2 * bar.lineWidth}" x2="${bar.x}" y2="${bar.y + 2 * bar.lineWidth}" stroke="black" stroke-width="${(bar.lineWidth * 2) / 3}" />
+      <line x1="${bar.x + bar.width}" y1="${bar.y - 2 * bar.lineWidth}" x2="${bar.x + bar.width}" y2="${bar.y + 2 * bar.lineWidth}" stroke="black" stroke-width="${(bar.lineWidth * 2) / 3}" />` : ''}
+      ${arrow ? `<path d="${northArrowPathD(arrow.size)}" transform="translate(${arrow.x}, ${arrow.y}) rotate(${arrow.rotation})" fill="black" />` : ''}
+      ${texts}
+    </g>
+  `;
+};
+
+// Lets drawing programs open each layer group as a layer of their own
+const INKSCAPE_NS = 'http://www.inkscape.org/namespaces/inkscape';
+// Fonts found on nearly every system, and the PDF standard font, so text
+// measures the same wherever the document is opened
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+
+/**
+ * Builds the standalone SVG document used for image exports. Layers are
+ * emitted bottom first as groups carrying their opacity; within a layer,
+ * areas sit under paths and markers as in the editor.
+ */
+export const buildPlanSvg = (plan: SvgExportPlan, options: SvgExportOptions): string => {
+  const { imageHref, width, height, region, layerIds } = options;
+  const labelSize = options.labelSize ?? 1;
+  const view = region ?? { x: 0, y: 0, width, height };
+  const output = options.outputSize ?? view;
+  const layout = options.layout ?? layoutExport(plan, options);
+  const layers = plan.layers.filter(layer => !layerIds || layerIds.has(layer.id));
+  const areas = groupByLayer(layers, plan.areas);
+  const polygonAreas = groupByLayer(layers, plan.polygonAreas);
+  const paths = groupByLayer(layers, plan.paths);
+  const markers = groupByLayer(layers, layout.markers);
+  const symbols = symbolsById(plan.symbols ?? []);
+  const showsLabel = (type: 'area' | 'polygonArea', id: string) => layout.labels.areas.has(elementKey({ type, id }));
+  const font = options.embeddedFont;
+  const fontStyle = font
+    ? `${font.css}\ntext { font-family: '${font.family}', ${FONT_FAMILY}; }`
+    : `text { font-family: ${FONT_FAMILY}; }`;
+
+  const layersMarkup = layers.map(layer => `
+    <g id="layer-${escapeXml(layer.id)}" data-layer="${escapeXml(layer.name)}" inkscape:groupmode="layer" inkscape:label="${escapeXml(layer.name)}" opacity="${layer.opacity}">
+      ${(areas.get(layer.id) ?? []).map(area => areaMarkup(area, showsLabel('area', area.id), labelSize)).join('')}
+      ${(polygonAreas.get(layer.id) ?? []).map(area => polygonAreaMarkup(area, showsLabel('polygonArea', area.id), labelSize)).join('')}
+      ${(paths.get(layer.id) ?? []).map(pathMarkup).join('')}
+      ${(markers.get(layer.id) ?? []).map(marker => markerMarkup(marker, resolveSymbol(marker, symbols), layout.labels.markers.get(marker.id), options)).join('')}
+    </g>
+  `).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+    <svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="${INKSCAPE_NS}" width="${output.width}" height="${output.height}" viewBox="${view.x} ${view.y} ${view.width} ${view.height}">
+      <style>${fontStyle}</style>
+      ${imageHref ? `<image href="${imageHref}" x="0" y="0" width="${width}" height="${height}" />` : ''}
+      ${layersMarkup}
+      ${layout.clusters.map(clusterMarkup).join('')}
+      ${layout.overlays.map(overlayMarkup).join('')}
+    </svg>
+  `;
+};
@@ -0,0 +1,106 @@
+import { MapSymbol, Marker, Point, SymbolShape } from '../types.ts';
+import { blobToDataUrl } from './imageStore.ts';
+
+// The plan's symbol library. Markers point at a symbol by id and may override
+// its size and rotation. Shapes are drawn from the same path data everywhere
+// (editor SVG, marker canvas and exports); icons are kept as data URLs so
+// they travel inside plan.json and render in exported SVG.
+
+export const SYMBOL_SHAPES: { shape: SymbolShape; label: string }[] = [
+  { shape: 'circle', label: 'Circle' },
+  { shape: 'square', label: 'Square' },
+  { shape: 'diamond', label: 'Diamond' },
+  { shape: 'triangle', label: 'Triangle' },
+  { shape: 'star', label: 'Star' },
+  { shape: 'hexagon', label: 'Hexagon' },
+  { shape: 'pin', label: 'Pin' },
+  { shape: 'cross', label: 'Cross' },
+];
+
+export const ICON_TYPES = ['image/svg+xml', 'image/png'];
+// Icons are stored inside the plan, so keep them small
+export const MAX_ICON_BYTES = 256 * 1024;
+
+// Half the width of the classic marker at 100% marker size
+const BASE_RADIUS = 12;
+
+export const createSymbol = (data: Pick<MapSymbol, 'name' | 'kind'> & Partial<MapSymbol>): MapSymbol => ({
+  id: `symbol-${Date.now()}-${Math.random().toString(16).slice(2)}`,
+  size: 1,
+  rotation: 0,
+  ...data,
+});
+
+/** Reads an uploaded SVG or PNG into an icon symbol named after the file. */
+export const readIconFile = async (file: File): Promise<MapSymbol> => {
+  if (!ICON_TYPES.includes(file.type)) throw new Error('Icons must be SVG or PNG files.');
+  if (file.size > MAX_ICON_BYTES) throw new Error(`Icons must be smaller than ${MAX_ICON_BYTES / 1024} KB.`);
+  const src = await blobToDataUrl(file);
+  return createSymbol({ name: file.name.replace(/\.[^.]+$/, '') || 'Icon', kind: 'icon', src });
+};
+
+const polygonD = (points: Point[]) => (
+  `M ${points.map(p => `${+p.x.toFixed(2)} ${+p.y.toFixed(2)}`).join(' L ')} Z`
+);
+
+const regularPolygon = (corners: number, r: number, startAngle = -90) => Array.from({ length: corners }, (_, i) => {
+  const angle = ((startAngle + (360 / corners) * i) * Math.PI) / 180;
+  return { x: r * Math.cos(angle), y: r * Math.sin(angle) };
+});
+
+/** SVG path data of a built-in shape `2 * r` across, centred on the origin. */
+export const shapePathD = (shape: SymbolShape, r: number): string => {
+  switch (shape) {
+    case 'square': {
+      const a = r * 0.85;
+      return polygonD([{ x: -a, y: -a }, { x: a, y: -a }, { x: a, y: a }, { x: -a, y: a }]);
+    }
+    case 'diamond':
+      return polygonD(regularPolygon(4, r));
+    case 'triangle':
+      return polygonD(regularPolygon(3, r));
+    case 'hexagon':
+      return polygonD(regularPolygon(6, r));
+    case 'star': {
+      const outer = regularPolygon(5, r);
+      const inner = regularPolygon(5, r * 0.45, -54);
+      return polygonD(outer.flatMap((p, i) => [p, inner[i]]));
+    }
+    case 'cross': {
+      const w = r * 0.3;
+      return polygonD([
+        { x: -w, y: -r }, { x: w, y: -r }, { x: w, y: -w }, { x: r, y: -w }, { x: r, y: w }, { x: w, y: w },
+        { x: w, y: r }, { x: -w, y: r }, { x: -w, y: w }, { x: -r, y: w }, { x: -r, y: -w }, { x: -w, y: -w },
+      ]);
+    }
+    case 'pin': {
+      // Round head above a point that touches the bottom edge
+      const head = r * 0.632;
+      const side = { x: r * 0.6, y: -r * 0.1 };
+      return `M 0 ${r} L ${-side.x} ${side.y} A ${head} ${head} 0 1 1 ${side.x} ${side.y} Z`;
+    }
+    case 'circle':
+    default:
+      return `M ${r} 0 A ${r} ${r} 0 1 1 ${-r} 0 A ${r} ${r} 0 1 1 ${r} 0 Z`;
+  }
+};
+
+export interface ResolvedSymbol {
+  symbol: MapSymbol;
+  size: number;
+  rotation: number;
+}
+
+/** The marker's symbol with its overrides applied, or null for the classic marker. */
+export const resolveSymbol = (marker: Marker, symbols: Map<string, MapSymbol>): ResolvedSymbol | null => {
+  const symbol = marker.symbolId ? symbols.get(marker.symbolId) : undefined;
+  if (!symbol) return null;
+  return { symbol, size: marker.symbolSize ?? symbol.size, rotation: marker.symbolRotation ?? symbol.rotation };
+};
+
+/** Half the width of a marker as drawn, in image pixels. */
+export const markerRadius = (marker: Marker, symbols: Map<string, MapSymbol>, markerSize: number) => (
+  BASE_RADIUS * markerSize * (resolveSymbol(marker, symbols)?.size ?? 1)
+);
+
+export const symbolsById = (symbols: MapSymbol[]) => new Map<string, MapSymbol>(symbols.map(s => [s.id, s]));
@@ -0,0 +1,312 @@
+import { luaLiteral } from './luaExport.ts';
+import { escapeXml } from './svgExport.ts';
+
+// A small Handlebars-style template language for text exports such as engine
+// config files. Supported:
+//
+//   {{name}}  {{marker.world.x}}  {{this}}  {{../unit}}  {{@root.unit}}
+//   {{@index}} {{@number}} {{@first}} {{@last}} {{@key}} inside #each
+//   {{#each list}}...{{else}}...{{/each}}   {{#if value}}...{{else}}...{{/if}}
+//   {{#unless value}}...{{/unless}}         {{#with value}}...{{/with}}
+//   helpers with arguments and (sub expressions): {{round x 2}}, {{#if (eq status "active")}}
+//   {{! comments }}, and {{~ ~}} to trim the whitespace next to a tag
+//
+// Output is written as is, with no HTML escaping: templates produce config
+// files, so quoting is done explicitly with helpers like `json`, `lua` or `xml`.
+// Block tags alone on their line take the whole line with them, as in Handlebars.
+
+export class TemplateError extends Error {
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'TemplateError';
+  }
+}
+
+type Expr =
+  | { type: 'path'; up: number; data: boolean; parts: string[] }
+  | { type: 'literal'; value: unknown }
+  | { type: 'call'; name: string; args: Expr[] };
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expr: Expr; line: number }
+  | { type: 'block'; name: BlockName; expr: Expr; body: Node[]; inverse: Node[]; line: number };
+
+type BlockName = 'each' | 'if' | 'unless' | 'with';
+const BLOCKS: BlockName[] = ['each', 'if', 'unless', 'with'];
+
+interface Tag {
+  kind: 'output' | 'open' | 'close' | 'else' | 'comment';
+  content: string;
+  line: number;
+  trimBefore: boolean;
+  trimAfter: boolean;
+}
+
+type Token = { type: 'text'; value: string } | { type: 'tag'; tag: Tag };
+
+const TAG_PATTERN = /\{\{(~?)(\{?)([\s\S]*?)(\}?)(~?)\}\}/g;
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let last = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index!;
+    if (index > last) tokens.push({ type: 'text', value: source.slice(last, index) });
+    const [, trimBefore, , raw, , trimAfter] = match;
+    const content = raw.trim();
+    const line = source.slice(0, index).split('\n').length;
+    const kind = content.startsWith('!') ? 'comment'
+      : content.startsWith('#') ? 'open'
+        : content.startsWith('/') ? 'close'
+          : content === 'else' ? 'else'
+            : 'output';
+    tokens.push({ type: 'tag', tag: { kind, content, line, trimBefore: !!trimBefore, trimAfter: !!trimAfter } });
+    last = index + match[0].length;
+  }
+  if (last < source.length) tokens.push({ type: 'text', value: source.slice(last) });
+
+  // Standalone block lines are found on the text as written, then all trimming is applied
+  const cuts = tokens.map(() => ({ start: 0, end: 0, trimStart: false, trimEnd: false }));
+  tokens.forEach((token, i) => {
+    if (token.type !== 'tag') return;
+    const before = tokens[i - 1];
+    const after = tokens[i + 1];
+    if (token.tag.trimBefore && before) cuts[i - 1].trimEnd = true;
+    if (token.tag.trimAfter && after) cuts[i + 1].trimStart = true;
+    if (token.tag.kind === 'output') return;
+    let lineBefore: string | null = null;
+    if (!before) lineBefore = '';
+    else if (before.type === 'text' && (before.value.includes('\n') || i === 1)) lineBefore = before.value.slice(before.value.lastIndexOf('\n') + 1);
+    let lineAfter: string | null = null;
+    if (!after) lineAfter = '';
+    else if (after.type === 'text') lineAfter = (/^[ \t]*\r?\n/.exec(after.value) ?? (i + 1 === tokens.length - 1 ? /^[ \t]*$/.exec(after.value) : null))?.[0] ?? null;
+    if (lineBefore === null || lineAfter === null || !/^[ \t]*$/.test(lineBefore)) return;
+    if (before) cuts[i - 1].end = lineBefore.length;
+    if (after) cuts[i + 1].start = lineAfter.length;
+  });
+  tokens.forEach((token, i) => {
+    if (token.type !== 'text') return;
+    const cut = cuts[i];
+    let value = token.value.slice(cut.start, Math.max(cut.start, token.value.length - cut.end));
+    if (cut.trimStart) value = value.trimStart();
+    if (cut.trimEnd) value = value.trimEnd();
+    token.value = value;
+  });
+  return tokens;
+};
+
+// --- Expressions --------------------------------------------------------------
+
+const EXPR_TOKEN = /\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\(|\)|[^\s()]+)/y;
+
+const parsePath = (text: string, line: number): Expr => {
+  if (text === 'true' || text === 'false') return { type: 'literal', value: text === 'true' };
+  if (text === 'null') return { type: 'literal', value: null };
+  if (/^-?\d+(\.\d+)?$/.test(text)) return { type: 'literal', value: Number(text) };
+  let rest = text;
+  let up = 0;
+  while (rest.startsWith('../')) {
+    up++;
+    rest = rest.slice(3);
+  }
+  const data = rest.startsWith('@');
+  if (data) rest = rest.slice(1);
+  if (rest === 'this' || rest === '.' || rest === '') return { type: 'path', up, data, parts: [] };
+  if (rest.startsWith('this.')) rest = rest.slice(5);
+  const parts = rest.split('.');
+  if (parts.some(part => !part)) throw new TemplateError(`Invalid name "${text}".`, line);
+  return { type: 'path', up, data, parts };
+};
+
+const parseExpression = (source: string, line: number): Expr => {
+  const tokens: string[] = [];
+  EXPR_TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (EXPR_TOKEN.lastIndex < source.length && (match = EXPR_TOKEN.exec(source))) tokens.push(match[1]);
+  if (source.slice(EXPR_TOKEN.lastIndex).trim()) throw new TemplateError(`Could not read "${source}".`, line);
+  if (!tokens.length) throw new TemplateError('Empty tag.', line);
+
+  let position = 0;
+  const single = (): Expr => {
+    const token = tokens[position++];
+    if (token === undefined) throw new TemplateError(`Unfinished expression "${source}".`, line);
+    if (token === '(') {
+      const expr = call(')');
+      if (tokens[position++] !== ')') throw new TemplateError(`Missing ")" in "${source}".`, line);
+      return expr;
+    }
+    if (token === ')') throw new TemplateError(`Unexpected ")" in "${source}".`, line);
+    if (token.startsWith('"') || token.startsWith("'")) {
+      return { type: 'literal', value: token.slice(1, -1).replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c === 't' ? '\t' : c)) };
+    }
+    return parsePath(token, line);
+  };
+  // A helper name followed by its arguments, or a single value
+  const call = (end?: string): Expr => {
+    const head = tokens[position];
+    const args: Expr[] = [];
+    const first = single();
+    while (position < tokens.length && tokens[position] !== end) args.push(single());
+    if (!args.length && (end === undefined || !isHelper(head))) return first;
+    if (!isHelper(head)) throw new TemplateError(`Unknown helper "${head}".`, line);
+    return { type: 'call', name: head, args };
+  };
+
+  const expr = call();
+  if (position < tokens.length) throw new TemplateError(`Unexpected "${tokens[position]}" in "${source}".`, line);
+  return expr;
+};
+
+// --- Parsing ------------------------------------------------------------------
+
+// Throws a TemplateError naming the line of the first problem
+const parseTemplate = (source: string): Node[] => {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const parseNodes = (block?: { name: BlockName; line: number }): { nodes: Node[]; ended: 'close' | 'else' | 'end' } => {
+    const nodes: Node[] = [];
+    while (position < tokens.length) {
+      const token = tokens[position++];
+      if (token.type === 'text') {
+        if (token.value) nodes.push({ type: 'text', value: token.value });
+        continue;
+      }
+      const { tag } = token;
+      if (tag.kind === 'comment') continue;
+      if (tag.kind === 'output') {
+        nodes.push({ type: 'output', expr: parseExpression(tag.content, tag.line), line: tag.line });
+      } else if (tag.kind === 'open') {
+        const [name, ...rest] = tag.content.slice(1).trim().split(/\s+/);
+        if (!BLOCKS.includes(name as BlockName)) throw new TemplateError(`Unknown block "#${name}".`, tag.line);
+        if (!rest.length) throw new TemplateError(`"#${name}" needs a value.`, tag.line);
+        const expr = parseExpression(rest.join(' '), tag.line);
+        const body = parseNodes({ name: name as BlockName, line: tag.line });
+        const inverse = body.ended === 'else' ? parseNodes({ name: name as BlockName, line: tag.line }) : { nodes: [], ended: 'close' as const };
+        if (inverse.ended === 'else') throw new TemplateError(`"#${name}" has more than one "else".`, tag.line);
+        nodes.push({ type: 'block', name: name as BlockName, expr, body: body.nodes, inverse: inverse.nodes, line: tag.line });
+      } else if (tag.kind === 'else') {
+        if (!block) throw new TemplateError('"else" outside a block.', tag.line);
+        return { nodes, ended: 'else' };
+      } else {
+        const name = tag.content.slice(1).trim();
+        if (!block) throw new TemplateError(`"/${name}" closes nothing.`, tag.line);
+        if (name !== block.name) throw new TemplateError(`"/${name}" closes "#${block.name}" from line ${block.line}.`, tag.line);
+        return { nodes, ended: 'close' };
+      }
+    }
+    if (block) throw new TemplateError(`"#${block.name}" is never closed.`, block.line);
+    return { nodes, ended: 'end' };
+  };
+
+  return parseNodes().nodes;
+};
+
+// --- Helpers ------------------------------------------------------------------
+
+const toNumber = (value: unknown) => (typeof value === 'number' ? value : Number(value));
+
+const isEmpty = (value: unknown) => (
+  value === undefined || value === null || value === false || value === '' || value === 0
+  || (Array.isArray(value) && value.length === 0)
+);
+
+const HELPERS: Record<string, (...args: unknown[]) => unknown> = {
+  json: value => JSON.stringify(value ?? null),
+  lua: value => luaLiteral(value),
+  xml: value => escapeXml(stringify(value)),
+  round: (value, digits = 0) => {
+    const factor = 10 ** toNumber(digits);
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  fixed: (value, digits = 2) => toNumber(value).toFixed(toNumber(digits)),
+  add: (a, b) => toNumber(a) + toNumber(b),
+  sub: (a, b) => toNumber(a) - toNumber(b),
+  upper: value => stringify(value).toUpperCase(),
+  lower: value => stringify(value).toLowerCase(),
+  default: (value, fallback) => (isEmpty(value) ? fallback : value),
+  eq: (a, b) => a === b,
+  ne: (a, b) => a !== b,
+  not: value => isEmpty(value),
+  and: (a, b) => !isEmpty(a) && !isEmpty(b),
+  or: (a, b) => (isEmpty(a) ? b : a),
+  length: value => (Array.isArray(value) ? value.length : stringify(value).length),
+  join: (list, separator = ', ') => (Array.isArray(list) ? list.map(stringify).join(stringify(separator)) : stringify(list)),
+};
+
+export const TEMPLATE_HELPERS = Object.keys(HELPERS);
+
+// Own keys only, so names like "constructor" or "__proto__" are not helpers
+const isHelper = (name: string) => Object.hasOwn(HELPERS, name);
+
+// --- Rendering ----------------------------------------------------------------
+
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+};
+
+interface Frame {
+  value: unknown;
+  data: Record<string, unknown>;
+}
+
+const evaluate = (expr: Expr, frames: Frame[]): unknown => {
+  if (expr.type === 'literal') return expr.value;
+  if (expr.type === 'call') return HELPERS[expr.name](...expr.args.map(arg => evaluate(arg, frames)));
+  const frame = frames[Math.max(0, frames.length - 1 - expr.up)];
+  let parts = expr.parts;
+  let value: unknown;
+  if (expr.data) {
+    if (parts[0] === 'root') {
+      value = frames[0].value;
+      parts = parts.slice(1);
+    } else {
+      value = frame.data[parts[0]];
+      parts = parts.slice(1);
+    }
+  } else {
+    value = frame.value;
+  }
+  for (const part of parts) {
+    if (value === null || value === undefined || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+};
+
+const renderNodes = (nodes: Node[], frames: Frame[]): string => nodes.map(node => {
+  if (node.type === 'text') return node.value;
+  if (node.type === 'output') return stringify(evaluate(node.expr, frames));
+
+  const value = evaluate(node.expr, frames);
+  const data = frames[frames.length - 1].data;
+  switch (node.name) {
+    case 'if':
+      return renderNodes(isEmpty(value) ? node.inverse : node.body, frames);
+    case 'unless':
+      return renderNodes(isEmpty(value) ? node.body : node.inverse, frames);
+    case 'with':
+      return isEmpty(value) ? renderNodes(node.inverse, frames) : renderNodes(node.body, [...frames, { value, data }]);
+    case 'each': {
+      const entries: [string | number, unknown][] = Array.isArray(value)
+        ? value.map((item, index) => [index, item])
+        : value && typeof value === 'object' ? Object.entries(value) : [];
+      if (!entries.length) return renderNodes(node.inverse, frames);
+      return entries.map(([key, item], index) => renderNodes(node.body, [...frames, {
+        value: item,
+        data: { ...data, index, number: index + 1, key, first: index === 0, last: index === entries.length - 1 },
+      }])).join('');
+    }
+    default:
+      return '';
+  }
+}).join('');
+
+/** Renders a template against `context`; parse problems throw a TemplateError. */
+export const renderTemplate = (source: string, context: unknown): string => (
+  renderNodes(parseTemplate(source), [{ value: context, data: {} }])
+);
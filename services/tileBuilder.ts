@@ -0,0 +1,41 @@
+import { TileBuildMessage, TileBuildRequest, TileSet } from './tiles.ts';
+
+// Starts tile pyramid builds in a Web Worker. Asking again for an image that is
+// already being cut joins the build in progress instead of starting another.
+
+const builds = new Map<string, Promise<TileSet>>();
+
+export const buildTiles = (
+  hash: string,
+  blob: Blob,
+  onProgress?: (done: number, total: number) => void,
+): Promise<TileSet> => {
+  const running = builds.get(hash);
+  if (running) return running;
+
+  const build = new Promise<TileSet>((resolve, reject) => {
+    const worker = new Worker(new URL('./tileWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<TileBuildMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.done, message.total);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.tileSet);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = event => {
+      worker.terminate();
+      reject(new Error(event.message || 'Tile worker failed.'));
+    };
+    const request: TileBuildRequest = { hash, blob };
+    worker.postMessage(request);
+  }).finally(() => builds.delete(hash));
+
+  builds.set(hash, build);
+  return build;
+};
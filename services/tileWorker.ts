@@ -0,0 +1,58 @@
+import { TILE_SIZE, TileBuildMessage, TileBuildRequest, TileSet, levelCount, levelSize, putTile, putTileSet, tilesInBounds } from './tiles.ts';
+
+// Web Worker that cuts an image into its tile pyramid and stores the tiles.
+// Each level is drawn from the one below at half size, so the full image is
+// only decoded once. Messages back: progress, done (with the TileSet) or error.
+
+const TILE_QUALITY = 0.9;
+
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<TileBuildRequest>) => void) | null;
+  postMessage: (message: TileBuildMessage) => void;
+};
+
+const buildPyramid = async ({ hash, blob }: TileBuildRequest) => {
+  const bitmap = await createImageBitmap(blob);
+  const size = { width: bitmap.width, height: bitmap.height };
+  const tileSet: TileSet = { hash, ...size, tileSize: TILE_SIZE, levels: levelCount(size) };
+  const whole = { minX: 0, minY: 0, maxX: size.width - 1, maxY: size.height - 1 };
+  const levels = Array.from({ length: tileSet.levels }, (_, level) => tilesInBounds(tileSet, level, whole));
+  const total = levels.reduce((sum, tiles) => sum + tiles.length, 0);
+  let done = 0;
+
+  let source: ImageBitmap | OffscreenCanvas = bitmap;
+  for (let level = 0; level < tileSet.levels; level++) {
+    if (level > 0) {
+      const { width, height } = levelSize(size, level);
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Could not create a canvas for map tiles.');
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(source, 0, 0, width, height);
+      if (source instanceof ImageBitmap) source.close();
+      source = canvas;
+    }
+
+    for (const tile of levels[level]) {
+      const width = Math.ceil(tile.width / 2 ** level);
+      const height = Math.ceil(tile.height / 2 ** level);
+      const canvas = new OffscreenCanvas(width, height);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('Could not create a canvas for map tiles.');
+      ctx.drawImage(source, tile.col * TILE_SIZE, tile.row * TILE_SIZE, width, height, 0, 0, width, height);
+      await putTile(hash, tile, await canvas.convertToBlob({ type: 'image/webp', quality: TILE_QUALITY }));
+      done++;
+      scope.postMessage({ type: 'progress', done, total });
+    }
+  }
+
+  if (source instanceof ImageBitmap) source.close();
+  await putTileSet(tileSet);
+  return tileSet;
+};
+
+scope.onmessage = event => {
+  buildPyramid(event.data)
+    .then(tileSet => scope.postMessage({ type: 'done', tileSet }))
+    .catch(error => scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) }));
+};
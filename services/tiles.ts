@@ -0,0 +1,172 @@
+import { ImageSize } from './geometry.ts';
+import { Bounds } from './selection.ts';
+import { TILE_SET_STORE, TILE_STORE, runRequest } from './storage.ts';
+
+// Large map images are cut into a tile pyramid so the editor and exports never
+// have to handle the whole image at once. Level 0 is full resolution; each
+// level above halves it, up to one where the whole image fits in a single
+// tile. Tiles are stored in IndexedDB next to the image, keyed by its hash.
+// This module has no DOM dependencies beyond canvas drawing, so the tile
+// worker can use it too.
+
+export const TILE_SIZE = 512;
+// Images larger than this on either side are shown and exported from tiles
+export const TILED_MIN_SIZE = 4096;
+
+export interface TileSet {
+  hash: string;
+  width: number;
+  height: number;
+  tileSize: number;
+  levels: number;
+}
+
+// One tile, with its place in full-resolution image pixels
+export interface TileRef {
+  level: number;
+  col: number;
+  row: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Messages to and from the tile worker
+export interface TileBuildRequest {
+  hash: string;
+  blob: Blob;
+}
+
+export type TileBuildMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; tileSet: TileSet }
+  | { type: 'error'; message: string };
+
+interface StoredTile {
+  key: string;
+  blob: Blob;
+}
+
+export const needsTiles = (size: ImageSize) => Math.max(size.width, size.height) > TILED_MIN_SIZE;
+
+export const levelCount = (size: ImageSize, tileSize: number = TILE_SIZE) => {
+  let levels = 1;
+  let side = Math.max(size.width, size.height);
+  while (side > tileSize) {
+    side = Math.ceil(side / 2);
+    levels++;
+  }
+  return levels;
+};
+
+/** Pixel size of the image at a pyramid level. */
+export const levelSize = (size: ImageSize, level: number): ImageSize => ({
+  width: Math.max(1, Math.ceil(size.width / 2 ** level)),
+  height: Math.max(1, Math.ceil(size.height / 2 ** level)),
+});
+
+/** The coarsest level that still has at least one image pixel per screen pixel. */
+export const levelForZoom = (tileSet: TileSet, zoom: number) => (
+  Math.min(tileSet.levels - 1, Math.max(0, Math.floor(Math.log2(1 / zoom))))
+);
+
+/** Tiles of a level overlapping `bounds` (full-resolution pixels), row by row. */
+export const tilesInBounds = (tileSet: TileSet, level: number, bounds: Bounds): TileRef[] => {
+  const scale = 2 ** level;
+  const span = tileSet.tileSize * scale;
+  const { width, height } = levelSize(tileSet, level);
+  const cols = Math.ceil(width / tileSet.tileSize);
+  const rows = Math.ceil(height / tileSet.tileSize);
+  const firstCol = Math.max(0, Math.floor(bounds.minX / span));
+  const lastCol = Math.min(cols - 1, Math.floor(bounds.maxX / span));
+  const firstRow = Math.max(0, Math.floor(bounds.minY / span));
+  const lastRow = Math.min(rows - 1, Math.floor(bounds.maxY / span));
+
+  const tiles: TileRef[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let col = firstCol; col <= lastCol; col++) {
+      const tileWidth = Math.min(tileSet.tileSize, width - col * tileSet.tileSize);
+      const tileHeight = Math.min(tileSet.tileSize, height - row * tileSet.tileSize);
+      tiles.push({
+        level,
+        col,
+        row,
+        x: col * span,
+        y: row * span,
+        width: Math.min(tileWidth * scale, tileSet.width - col * span),
+        height: Math.min(tileHeight * scale, tileSet.height - row * span),
+      });
+    }
+  }
+  return tiles;
+};
+
+export const tileKey = (hash: string, tile: Pick<TileRef, 'level' | 'col' | 'row'>) => `${hash}/${tile.level}/${tile.col}/${tile.row}`;
+
+export const getTileSet = async (hash: string): Promise<TileSet | null> => {
+  const record = await runRequest<TileSet | undefined>(TILE_SET_STORE, 'readonly', store => store.get(hash));
+  return record ?? null;
+};
+
+/** Written last, once every tile is stored, so a set only exists when it is complete. */
+export const putTileSet = async (tileSet: TileSet): Promise<void> => {
+  await runRequest(TILE_SET_STORE, 'readwrite', store => store.put(tileSet));
+};
+
+export const putTile = async (hash: string, tile: Pick<TileRef, 'level' | 'col' | 'row'>, blob: Blob): Promise<void> => {
+  const record: StoredTile = { key: tileKey(hash, tile), blob };
+  await runRequest(TILE_STORE, 'readwrite', store => store.put(record));
+};
+
+export const getTile = async (hash: string, tile: Pick<TileRef, 'level' | 'col' | 'row'>): Promise<Blob | null> => {
+  const record = await runRequest<StoredTile | undefined>(TILE_STORE, 'readonly', store => store.get(tileKey(hash, tile)));
+  return record?.blob ?? null;
+};
+
+export const deleteTiles = async (hash: string): Promise<void> => {
+  await runRequest(TILE_SET_STORE, 'readwrite', store => store.delete(hash));
+  await runRequest(TILE_STORE, 'readwrite', store => store.delete(IDBKeyRange.bound(`${hash}/`, `${hash}/\uffff`)));
+};
+
+/** Draws the full-resolution tiles under `region` onto a canvas whose origin is the region's corner. */
+export const drawTileRegion = async (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  tileSet: TileSet,
+  region: { x: number; y: number; width: number; height: number },
+): Promise<void> => {
+  const bounds = { minX: region.x, minY: region.y, maxX: region.x + region.width - 1, maxY: region.y + region.height - 1 };
+  for (const tile of tilesInBounds(tileSet, 0, bounds)) {
+    const blob = await getTile(tileSet.hash, tile);
+    if (!blob) throw new Error(`Map tile ${tileKey(tileSet.hash, tile)} is missing from local storage.`);
+    const bitmap = await createImageBitmap(blob);
+    ctx.drawImage(bitmap, tile.x - region.x, tile.y - region.y);
+    bitmap.close();
+  }
+};
+
+/**
+ * The whole image from the coarsest level that is at least `minSide` pixels on
+ * its longer side, for thumbnails and sampling. Never decodes level 0 unless
+ * nothing coarser is big enough.
+ */
+export const drawTileOverview = async (tileSet: TileSet, minSide: number): Promise<OffscreenCanvas> => {
+  let level = tileSet.levels - 1;
+  const longerSide = (l: number) => {
+    const size = levelSize(tileSet, l);
+    return Math.max(size.width, size.height);
+  };
+  while (level > 0 && longerSide(level) < minSide) level--;
+  const { width, height } = levelSize(tileSet, level);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available.');
+  for (const tile of tilesInBounds(tileSet, level, { minX: 0, minY: 0, maxX: tileSet.width - 1, maxY: tileSet.height - 1 })) {
+    const blob = await getTile(tileSet.hash, tile);
+    if (!blob) throw new Error(`Map tile ${tileKey(tileSet.hash, tile)} is missing from local storage.`);
+    const bitmap = await createImageBitmap(blob);
+    ctx.drawImage(bitmap, tile.col * tileSet.tileSize, tile.row * tileSet.tileSize);
+    bitmap.close();
+  }
+  return canvas;
+};
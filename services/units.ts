@@ -0,0 +1,60 @@
+import { Calibration, Point } from '../types.ts';
+import { distance } from './geometry.ts';
+
+// Everything in a plan is stored in image pixels. These helpers convert to the
+// plan's calibrated units for display and export; without a calibration they
+// pass pixels through unchanged.
+
+export const PIXEL_UNIT = 'px';
+
+/** Calibration from two picked points and the real distance between them. */
+export const calibrationFromPoints = (
+  a: Point,
+  b: Point,
+  realDistance: number,
+  unit: string,
+  previous?: Calibration | null,
+): Calibration | null => {
+  const pixels = distance(a, b);
+  if (!pixels || !Number.isFinite(realDistance) || realDistance <= 0) return null;
+  return { ...previous, scale: realDistance / pixels, unit };
+};
+
+export const unitLabel = (calibration: Calibration | null) => (calibration ? calibration.unit.trim() : PIXEL_UNIT);
+
+export const toWorldPoint = (point: Point, calibration: Calibration | null): Point => {
+  if (!calibration) return point;
+  const origin = calibration.origin ?? { x: 0, y: 0 };
+  const angle = -((calibration.rotation ?? 0) * Math.PI) / 180;
+  const dx = point.x - origin.x;
+  const dy = point.y - origin.y;
+  return {
+    x: (dx * Math.cos(angle) - dy * Math.sin(angle)) * calibration.scale,
+    y: (dx * Math.sin(angle) + dy * Math.cos(angle)) * calibration.scale,
+  };
+};
+
+export const toWorldLength = (pixels: number, calibration: Calibration | null) => (
+  calibration ? pixels * calibration.scale : pixels
+);
+
+export const toWorldArea = (squarePixels: number, calibration: Calibration | null) => (
+  calibration ? squarePixels * calibration.scale * calibration.scale : squarePixels
+);
+
+export const formatNumber = (value: number) => (
+  value.toLocaleString(undefined, { maximumFractionDigits: Math.abs(value) >= 100 ? 0 : 2 })
+);
+
+export const formatLength = (pixels: number, calibration: Calibration | null) => (
+  `${formatNumber(toWorldLength(pixels, calibration))} ${unitLabel(calibration)}`.trim()
+);
+
+export const formatArea = (squarePixels: number, calibration: Calibration | null) => (
+  `${formatNumber(toWorldArea(squarePixels, calibration))} ${unitLabel(calibration)}²`
+);
+
+export const formatPoint = (point: Point, calibration: Calibration | null) => {
+  const world = toWorldPoint(point, calibration);
+  return `${formatNumber(world.x)}, ${formatNumber(world.y)} ${unitLabel(calibration)}`.trim();
+};
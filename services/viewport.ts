@@ -0,0 +1,105 @@
+import { Point } from '../types.ts';
+import { ImageSize } from './geometry.ts';
+import { Bounds } from './selection.ts';
+
+// The map editor shows the image scaled by `zoom` and shifted by `offset`,
+// the screen position (relative to the editor) of the image's top-left
+// corner. A screen point s maps to the image point (s - offset) / zoom.
+
+export interface ViewState {
+  zoom: number;
+  offset: Point;
+}
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 5;
+// Zoom factor of one zoom-in step (buttons) and one wheel notch
+export const ZOOM_STEP = 1.2;
+export const WHEEL_ZOOM_STEP = 1.1;
+
+const FIT_PADDING = 24;
+// Smallest image region zoom to selection frames, so a single marker does not fill the screen
+const MIN_FIT_SIZE = 200;
+
+export const DEFAULT_VIEW: ViewState = { zoom: 1, offset: { x: 0, y: 0 } };
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const screenToImage = (view: ViewState, point: Point): Point => ({
+  x: (point.x - view.offset.x) / view.zoom,
+  y: (point.y - view.offset.y) / view.zoom,
+});
+
+/** Zooms by `factor` keeping the image point under `anchor` (a screen point) in place. */
+export const zoomAt = (view: ViewState, factor: number, anchor: Point): ViewState => {
+  const zoom = clampZoom(view.zoom * factor);
+  const ratio = zoom / view.zoom;
+  return {
+    zoom,
+    offset: {
+      x: anchor.x - (anchor.x - view.offset.x) * ratio,
+      y: anchor.y - (anchor.y - view.offset.y) * ratio,
+    },
+  };
+};
+
+/** A view at `zoom` with the image point `center` in the middle of the viewport. */
+export const centerOn = (center: Point, zoom: number, viewport: ImageSize): ViewState => {
+  const z = clampZoom(zoom);
+  return { zoom: z, offset: { x: viewport.width / 2 - center.x * z, y: viewport.height / 2 - center.y * z } };
+};
+
+/** The largest view that shows all of `bounds` (image pixels) with some padding. */
+export const fitBounds = (bounds: Bounds, viewport: ImageSize): ViewState => {
+  const width = Math.max(MIN_FIT_SIZE, bounds.maxX - bounds.minX);
+  const height = Math.max(MIN_FIT_SIZE, bounds.maxY - bounds.minY);
+  const zoom = Math.min(
+    (viewport.width - FIT_PADDING * 2) / width,
+    (viewport.height - FIT_PADDING * 2) / height,
+  );
+  const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+  return centerOn(center, zoom, viewport);
+};
+
+export const fitImage = (image: ImageSize, viewport: ImageSize): ViewState => (
+  fitBounds({ minX: 0, minY: 0, maxX: image.width, maxY: image.height }, viewport)
+);
+
+/** The part of the image the viewport shows, in image pixels. */
+export const visibleBounds = (view: ViewState, viewport: ImageSize): Bounds => {
+  const topLeft = screenToImage(view, { x: 0, y: 0 });
+  const bottomRight = screenToImage(view, { x: viewport.width, y: viewport.height });
+  return { minX: topLeft.x, minY: topLeft.y, maxX: bottomRight.x, maxY: bottomRight.y };
+};
+
+// --- Saved views --------------------------------------------------------------
+
+// Views are kept per plan in localStorage as a zoom and the image point at the
+// viewport centre, so they restore sensibly in a window of another size.
+const VIEW_KEY_PREFIX = 'mapPlannerView:';
+
+interface SavedView {
+  zoom: number;
+  center: Point;
+}
+
+export const saveView = (planId: string, view: ViewState, viewport: ImageSize) => {
+  const saved: SavedView = { zoom: view.zoom, center: screenToImage(view, { x: viewport.width / 2, y: viewport.height / 2 }) };
+  localStorage.setItem(VIEW_KEY_PREFIX + planId, JSON.stringify(saved));
+};
+
+export const loadView = (planId: string, viewport: ImageSize): ViewState | null => {
+  const text = localStorage.getItem(VIEW_KEY_PREFIX + planId);
+  if (!text) return null;
+  try {
+    const saved = JSON.parse(text) as SavedView;
+    if (![saved.zoom, saved.center?.x, saved.center?.y].every(Number.isFinite)) return null;
+    return centerOn(saved.center, saved.zoom, viewport);
+  } catch {
+    return null;
+  }
+};
+
+export const forgetView = (planId: string) => {
+  localStorage.removeItem(VIEW_KEY_PREFIX + planId);
+};
@@ -6,6 +6,15 @@ export interface Point {
 
 export type MarkerStatus = 'pending' | 'completed' | 'active';
 
+// Layers are drawn in list order: the first layer is at the bottom.
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  opacity: number; // 0..1
+}
+
 export interface Marker {
   id: string;
   name: string;
@@ -15,6 +24,26 @@ export interface Marker {
   status: MarkerStatus;
   linkedMarkerIds?: string[];
   color?: string;
+  layerId: string;
+  // Symbol from the plan's library; the classic double circle when unset
+  symbolId?: string;
+  // Per-marker overrides of the symbol's default size and rotation
+  symbolSize?: number;
+  symbolRotation?: number;
+}
+
+export type SymbolShape = 'circle' | 'square' | 'diamond' | 'triangle' | 'star' | 'hexagon' | 'pin' | 'cross';
+
+// A marker symbol, stored once in the plan and shared by every marker using it.
+export interface MapSymbol {
+  id: string;
+  name: string;
+  kind: 'shape' | 'icon' | 'emoji';
+  shape?: SymbolShape; // kind 'shape': drawn in the marker's color
+  src?: string; // kind 'icon': data URL of an uploaded SVG or PNG
+  emoji?: string; // kind 'emoji'
+  size: number; // default size; 1 is as wide as the classic marker
+  rotation: number; // default rotation, degrees clockwise
 }
 
 export interface Path {
@@ -25,6 +54,8 @@ export interface Path {
     endId: string;
   }
   color?: string;
+  layerId: string;
+  routed?: boolean; // points come from pathfinding and follow the linked markers
 }
 
 export interface Area {
@@ -35,6 +66,8 @@ export interface Area {
   radius: number; // pixels
   topLeft: Point;
   bottomRight: Point;
+  color?: string;
+  layerId: string;
 }
 
 export interface PolygonArea {
@@ -42,6 +75,107 @@ export interface PolygonArea {
   name: string;
   number?: string;
   points: Point[];
+  color?: string;
+  layerId: string;
+  obstacle?: boolean; // impassable for routed paths
+}
+
+export type ElementType = 'marker' | 'path' | 'area' | 'polygonArea';
+
+// Points at one element of the plan, e.g. a selected one
+export interface ElementRef {
+  type: ElementType;
+  id: string;
+}
+
+export interface ImageRef {
+  hash: string; // SHA-256 of the image bytes, hex encoded
+  mimeType: string;
+}
+
+// Maps image pixels to real-world units: the pixel offset from `origin` is
+// rotated by `rotation` and multiplied by `scale`.
+export interface Calibration {
+  scale: number; // units per pixel
+  unit: string; // e.g. "m" or "units"
+  origin?: Point; // pixel at world (0, 0); image top-left when omitted
+  rotation?: number; // degrees, clockwise on screen
+}
+
+// A map pixel tied to a known real-world position
+export interface ControlPoint {
+  id: string;
+  pixel: Point;
+  world: Point; // longitude (x) and latitude (y) in degrees, or easting and northing
+}
+
+// Polynomial from one coordinate system to the other. Terms are evaluated on
+// (point - origin) / scale, which keeps second-order fits well conditioned.
+export interface GeoTransform {
+  order: 1 | 2;
+  origin: Point;
+  scale: number;
+  x: number[]; // coefficients of 1, u, v (then u, uv, v for order 2)
+  y: number[];
+}
+
+// Ties the map image to the real world through control points.
+export interface Georeference {
+  system: 'lonlat' | 'world'; // geographic degrees, or a projected unit such as metres
+  unit: string; // label of world coordinates when system is "world"
+  method: 'affine' | 'polynomial';
+  controlPoints: ControlPoint[];
+  // Fitted from the control points; null while there are too few of them
+  toWorld: GeoTransform | null;
+  toPixel: GeoTransform | null;
+}
+
+// Map pixels close to `color` count as impassable for routed paths.
+export interface ObstacleMask {
+  color: string;
+  tolerance: number; // RGB distance, 0..441
+}
+
+// Grid overlay and snapping in the map editor. Sizes are in image pixels.
+export interface GridSettings {
+  visible: boolean;
+  size: number; // spacing between grid lines
+  color: string;
+  snapToGrid: boolean;
+  snapToElements: boolean; // markers, vertices, polygon edges and area centers
+}
+
+// Corner of the map an overlay sits in; overlays sharing a corner stack up
+export type OverlayPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export interface OverlayPlacement {
+  visible: boolean;
+  position: OverlayPosition;
+}
+
+// Legend, title block and other overlays drawn over the map in the editor and exports.
+export interface PlanOverlays {
+  title: OverlayPlacement & { text: string; date: string };
+  // `names` overrides the generated name of a legend entry, by entry key
+  legend: OverlayPlacement & { heading: string; names: Record<string, string> };
+  notes: OverlayPlacement & { text: string };
+  scaleBar: OverlayPlacement;
+  northArrow: OverlayPlacement & { rotation: number }; // degrees, clockwise
+}
+
+export interface PlanData {
+  image: ImageRef | null;
+  calibration: Calibration | null;
+  georeference: Georeference | null;
+  obstacleMask: ObstacleMask | null;
+  grid: GridSettings;
+  overlays: PlanOverlays;
+  symbols: MapSymbol[];
+  layers: Layer[];
+  markers: Marker[];
+  paths: Path[];
+  areas: Area[];
+  polygonAreas: PolygonArea[];
 }
 
-export type Tool = 'select' | 'marker' | 'path' | 'area' | 'polygon-area';
+export type Tool = 'select' | 'marker' | 'path' | 'area' | 'polygon-area' | 'calibrate' | 'georeference';